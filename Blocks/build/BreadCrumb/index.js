@@ -1 +1 @@
-(()=>{"use strict";var e,s={919(){const e=window.wp.blocks,s=window.wp.blockEditor,r=window.wp.components,i=window.wp.i18n,o=JSON.parse('{"UU":"design-system-wordpress-plugin/breadcrumb","rE":"1.1.0"}'),n=window.ReactJSXRuntime;(0,e.registerBlockType)(o.UU,{edit:function(){const e=(0,s.useBlockProps)({className:"is-editor-preview"});return(0,n.jsxs)(n.Fragment,{children:[(0,n.jsxs)(s.InspectorControls,{children:[(0,n.jsx)(r.PanelBody,{title:(0,i.__)("Breadcrumb Settings"),children:(0,n.jsx)(r.Notice,{className:"dswp-block-setting-warning",status:"warning",isDismissible:!1,children:(0,i.__)("This block is limited to page hierarchies. Post type support upcoming.")})}),(0,n.jsxs)("div",{className:"dswp-block-version",children:[(0,i.__)("Block Version:")," ",o.rE]})]}),(0,n.jsx)("div",{...e,children:(0,n.jsx)("div",{className:"dswp-block-breadcrumb__container is-editor",children:(0,n.jsx)("div",{className:"dswp-breadcrumb-placeholder",children:"Home / Parent / Child"})})})]})},save:()=>null})}},r={};function i(e){var o=r[e];if(void 0!==o)return o.exports;var n=r[e]={exports:{}};return s[e](n,n.exports,i),n.exports}i.m=s,e=[],i.O=(s,r,o,n)=>{if(!r){var t=1/0;for(d=0;d<e.length;d++){for(var[r,o,n]=e[d],l=!0,c=0;c<r.length;c++)(!1&n||t>=n)&&Object.keys(i.O).every(e=>i.O[e](r[c]))?r.splice(c--,1):(l=!1,n<t&&(t=n));if(l){e.splice(d--,1);var a=o();void 0!==a&&(s=a)}}return s}n=n||0;for(var d=e.length;d>0&&e[d-1][2]>n;d--)e[d]=e[d-1];e[d]=[r,o,n]},i.o=(e,s)=>Object.prototype.hasOwnProperty.call(e,s),(()=>{var e={57:0,350:0};i.O.j=s=>0===e[s];var s=(s,r)=>{var o,n,[t,l,c]=r,a=0;if(t.some(s=>0!==e[s])){for(o in l)i.o(l,o)&&(i.m[o]=l[o]);if(c)var d=c(i)}for(s&&s(r);a<t.length;a++)n=t[a],i.o(e,n)&&e[n]&&e[n][0](),e[n]=0;return i.O(d)},r=globalThis.webpackChunkdesign_system_blocks=globalThis.webpackChunkdesign_system_blocks||[];r.forEach(s.bind(null,0)),r.push=s.bind(null,r.push.bind(r))})();var o=i.O(void 0,[350],()=>i(919));o=i.O(o)})();
\ No newline at end of file
+(()=>{"use strict";var s={86(){const s=window.wp.blocks,e=window.wp.blockEditor,r=window.wp.components,t=window.wp.i18n,i=JSON.parse('{"UU":"design-system-wordpress-plugin/breadcrumb","rE":"1.1.0"}'),n=window.ReactJSXRuntime;(0,s.registerBlockType)(i.UU,{edit:function({attributes:s,setAttributes:o}){const{structuredData:c}=s,l=(0,e.useBlockProps)({className:"is-editor-preview"});return(0,n.jsxs)(n.Fragment,{children:[(0,n.jsxs)(e.InspectorControls,{children:[(0,n.jsxs)(r.PanelBody,{title:(0,t.__)("Breadcrumb Settings"),children:[(0,n.jsx)(r.Notice,{className:"dswp-block-setting-warning",status:"warning",isDismissible:!1,children:(0,t.__)("This block is limited to page hierarchies. Post type support upcoming.")}),(0,n.jsx)(r.ToggleControl,{label:(0,t.__)("Add structured data","dswp"),help:(0,t.__)("Describes the breadcrumb to search engines, which can show it in search results.","dswp"),checked:c,onChange:s=>o({structuredData:s})})]}),(0,n.jsxs)("div",{className:"dswp-block-version",children:[(0,t.__)("Block Version:")," ",i.rE]})]}),(0,n.jsx)("div",{...l,children:(0,n.jsx)("div",{className:"dswp-block-breadcrumb__container is-editor",children:(0,n.jsx)("div",{className:"dswp-breadcrumb-placeholder",children:"Home / Parent / Child"})})})]})},save:()=>null})}};const e={};function r(t){const i=e[t];if(void 0!==i)return i.exports;const n=e[t]={exports:{}};return s[t](n,n.exports,r),n.exports}r.m=s,(()=>{const s=[];r.O=(e,t,i)=>{if(!t){for(var n=0;n<s.length;n++){let[t,i]=s[n],c=!0;for(var o=0;o<t.length;o++)r.O.j(t[o])?t.splice(o--,1):c=!1;if(c){s.splice(n--,1);const r=i();void 0!==r&&(e=r)}}return e}s.push([t,i])}})(),r.o=(s,e)=>Object.hasOwn(s,e),(()=>{const s={149:0,169:0};r.O.j=e=>0===s[e];const e=(e,t)=>{let[i,n,o]=t;var c,l,d=0;if(i.some(e=>0!==s[e])){for(c in n)r.o(n,c)&&(r.m[c]=n[c]);if(o)var a=o(r)}for(e&&e(t);d<i.length;d++)l=i[d],r.o(s,l)&&s[l]&&s[l][0](),s[l]=0;return r.O(a)},t=globalThis.webpackChunkdesign_system_blocks||=[];t.forEach(e.bind(null,0)),t.push=e.bind(null,t.push.bind(t))})();let t=r.O(void 0,[169],()=>r(86));t=r.O(t)})();
\ No newline at end of file
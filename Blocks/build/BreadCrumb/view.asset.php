@@ -1 +1 @@
-<?php return array('dependencies' => array(), 'version' => '7dcad9e8196cd7cc3f93');
+<?php return array('dependencies' => array(), 'version' => '2835302c4f64cd8252e7');
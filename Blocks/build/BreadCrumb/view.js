@@ -1 +1 @@
-document.addEventListener("DOMContentLoaded",function(){document.querySelectorAll(".wp-block-design-system-wordpress-plugin-breadcrumb").forEach(function(e){const t=e.querySelector(".dswp-block-breadcrumb__container"),r=e.querySelector(".dswp-breadcrumb-arrow--left"),o=e.querySelector(".dswp-breadcrumb-arrow--right");function n(){const{scrollLeft:e,scrollWidth:n,clientWidth:s}=t,c=e>0,i=e<n-s-1;r.classList.toggle("is-hidden",!c),o.classList.toggle("is-hidden",!i),r.setAttribute("aria-hidden",!c),o.setAttribute("aria-hidden",!i)}t&&r&&o&&(r.addEventListener("click",function(){t.scrollBy({left:-200,behavior:"smooth"})}),o.addEventListener("click",function(){t.scrollBy({left:200,behavior:"smooth"})}),t.addEventListener("scroll",n),new ResizeObserver(n).observe(t),n())})});
\ No newline at end of file
+(()=>{"use strict";function e(e,r){return e.querySelector(r)}function r(e,r){e?.setAttribute("aria-hidden",r?"true":"false")}function t(t){const s=e(t,".dswp-block-breadcrumb__container"),o=e(t,".dswp-breadcrumb-arrow--left"),n=e(t,".dswp-breadcrumb-arrow--right");if(!s||!o||!n)return;const c=()=>{const{scrollLeft:e,scrollWidth:t,clientWidth:c}=s,d=e>0,i=e<t-c-1;o.classList.toggle("is-hidden",!d),n.classList.toggle("is-hidden",!i),r(o,!d),r(n,!i)};o.addEventListener("click",()=>{s.scrollBy({left:-200,behavior:"smooth"})}),n.addEventListener("click",()=>{s.scrollBy({left:200,behavior:"smooth"})}),s.addEventListener("scroll",c),new ResizeObserver(c).observe(s),c()}var s;s=()=>{var e;(e=document,Array.from(e.querySelectorAll(".wp-block-design-system-wordpress-plugin-breadcrumb"))).forEach(t)},"loading"===document.readyState?document.addEventListener("DOMContentLoaded",s):s()})();
\ No newline at end of file
@@ -1 +1 @@
-(()=>{"use strict";var e,n={710(){const e=window.wp.blocks,n=window.wp.components,o=window.wp.i18n,s=window.wp.element,l=window.wp.data,i=window.wp.blockEditor,a=window.wp.coreData,t=window.ReactJSXRuntime;function r({isOpen:e,onClick:n,isVisible:o}){if(!o)return null;const s=["dswp-nav-mobile-bar","dswp-nav-mobile-menu-top-bar",e&&"dswp-nav-mobile-menu-top-bar-open"].filter(Boolean).join(" "),l=["dswp-nav-mobile-bar","dswp-nav-mobile-menu-middle-bar",e&&"dswp-nav-mobile-menu-middle-bar-open"].filter(Boolean).join(" "),i=["dswp-nav-mobile-bar","dswp-nav-mobile-menu-bottom-bar",e&&"dswp-nav-mobile-menu-bottom-bar-open"].filter(Boolean).join(" ");return(0,t.jsxs)("button",{className:"dswp-nav-mobile-toggle-icon","aria-label":"Toggle menu","aria-expanded":e,onClick:n,type:"button",children:[(0,t.jsx)("span",{className:"dswp-nav-mobile-menu-icon-text",children:e?"Close":"Menu"}),(0,t.jsxs)("svg",{width:"24",height:"24",viewBox:"0 0 24 24","aria-hidden":"true",focusable:"false",children:[(0,t.jsx)("path",{className:s,d:"M3,6h13",strokeWidth:"1",stroke:"currentColor"}),(0,t.jsx)("path",{className:l,d:"M3,12h13",strokeWidth:"1",stroke:"currentColor"}),(0,t.jsx)("path",{className:i,d:"M3,18h13",strokeWidth:"1",stroke:"currentColor"})]})]})}const p=["core/navigation-link","core/navigation-submenu","core/spacer"];function d({isMenuOpen:e,shouldShowHamburger:n}){const[o,s,l]=(0,a.useEntityBlockEditor)("postType","wp_navigation"),r=["dswp-block-navigation__container",n&&e?"is-menu-open":"",n&&!e?"is-menu-closed":""].filter(Boolean).join(" "),d=(0,i.useInnerBlocksProps)({className:r},{value:o,onInput:s,onChange:l,allowedBlocks:p,orientation:"horizontal",templateLock:!1,__experimentalCaptureToolbars:!0});return(0,t.jsx)("ul",{...d})}const c=JSON.parse('{"UU":"design-system-wordpress-plugin/navigation"}');(0,e.registerBlockType)(c.UU,{edit:function({attributes:e,setAttributes:p}){const{menuId:c,ref:u,overlayMenu:m="never",mobileBreakpoint:b=768,showInDesktop:w,showInMobile:h}=e,[v,g]=(0,s.useState)(!1),_="mobile"===m||"always"===m,k=u||c,x=(0,i.useBlockProps)({className:`dswp-block-navigation-is-${m}-overlay`,"data-dswp-mobile-breakpoint":b}),{menus:y,hasResolvedMenus:j}=(0,l.useSelect)(e=>{const{getEntityRecords:n,hasFinishedResolution:o}=e(a.store),s={per_page:-1,status:["publish","draft"]};return{menus:n("postType","wp_navigation",s),hasResolvedMenus:o("getEntityRecords",["postType","wp_navigation",s])}},[]),C=e=>{const n=parseInt(e);p({ref:n||void 0,menuId:n||void 0})},M=(e,n)=>{"desktop"===e?p({showInDesktop:n,showInMobile:!n}):"mobile"===e&&p({showInMobile:n,showInDesktop:!n})},B=(0,s.useMemo)(()=>y?.length?[{label:(0,o.__)("Select a menu","dswp"),value:0},...y.map(e=>({label:e.title.rendered||(0,o.__)("(no title)","dswp"),value:e.id}))]:[{label:(0,o.__)("Select a menu","dswp"),value:0}],[y]);return j?k?(0,t.jsx)(a.EntityProvider,{kind:"postType",type:"wp_navigation",id:k,children:(0,t.jsxs)(t.Fragment,{children:[(0,t.jsx)(i.InspectorControls,{children:(0,t.jsxs)(n.PanelBody,{title:(0,o.__)("Navigation Settings","dswp"),children:[(0,t.jsx)(n.ToggleControl,{label:(0,o.__)("Show in Desktop","dswp"),checked:w,onChange:e=>M("desktop",e)}),(0,t.jsx)(n.ToggleControl,{label:(0,o.__)("Show in Mobile","dswp"),checked:h,onChange:e=>M("mobile",e)}),(0,t.jsx)(n.SelectControl,{label:(0,o.__)("Select Menu","dswp"),value:k||0,options:B,onChange:C}),(0,t.jsxs)(n.ButtonGroup,{children:[(0,t.jsx)("span",{className:"components-base-control__label",style:{display:"block",marginBottom:"8px"},children:(0,o.__)("Overlay Menu","dswp")}),(0,t.jsx)(n.Button,{variant:"mobile"===m?"primary":"secondary",onClick:()=>p({overlayMenu:"mobile"}),children:(0,o.__)("Mobile","dswp")}),(0,t.jsx)(n.Button,{variant:"always"===m?"primary":"secondary",onClick:()=>p({overlayMenu:"always"}),children:(0,o.__)("Always","dswp")}),(0,t.jsx)(n.Button,{variant:"never"===m?"primary":"secondary",onClick:()=>p({overlayMenu:"never"}),children:(0,o.__)("Never","dswp")})]}),(w||h||"mobile"===m)&&(0,t.jsx)("div",{style:{marginTop:"1rem"},children:(0,t.jsx)(n.RangeControl,{label:(0,o.__)("Mobile Breakpoint (px)","dswp"),value:b,onChange:e=>p({mobileBreakpoint:e}),min:320,max:1200,step:1})})]})}),(0,t.jsxs)("nav",{...x,children:[(0,t.jsx)(r,{isVisible:_,isOpen:v,onClick:()=>g(!v)}),(0,t.jsx)(d,{isMenuOpen:v,shouldShowHamburger:_})]})]})}):(0,t.jsxs)(t.Fragment,{children:[(0,t.jsx)(i.InspectorControls,{children:(0,t.jsxs)(n.PanelBody,{title:(0,o.__)("Navigation Settings","dswp"),children:[(0,t.jsx)(n.ToggleControl,{label:(0,o.__)("Show in Desktop","dswp"),checked:w,onChange:e=>M("desktop",e)}),(0,t.jsx)(n.ToggleControl,{label:(0,o.__)("Show in Mobile","dswp"),checked:h,onChange:e=>M("mobile",e)}),(0,t.jsx)(n.SelectControl,{label:(0,o.__)("Select Menu","dswp"),value:0,options:B,onChange:C}),(0,t.jsxs)(n.ButtonGroup,{children:[(0,t.jsx)("span",{className:"components-base-control__label",style:{display:"block",marginBottom:"8px"},children:(0,o.__)("Overlay Menu","dswp")}),(0,t.jsx)(n.Button,{variant:"mobile"===m?"primary":"secondary",onClick:()=>p({overlayMenu:"mobile"}),children:(0,o.__)("Mobile","dswp")}),(0,t.jsx)(n.Button,{variant:"always"===m?"primary":"secondary",onClick:()=>p({overlayMenu:"always"}),children:(0,o.__)("Always","dswp")}),(0,t.jsx)(n.Button,{variant:"never"===m?"primary":"secondary",onClick:()=>p({overlayMenu:"never"}),children:(0,o.__)("Never","dswp")})]}),(w||h||"mobile"===m)&&(0,t.jsx)("div",{style:{marginTop:"1rem"},children:(0,t.jsx)(n.RangeControl,{label:(0,o.__)("Mobile Breakpoint (px)","dswp"),value:b,onChange:e=>p({mobileBreakpoint:e}),min:320,max:1200,step:1})})]})}),(0,t.jsxs)("nav",{...x,children:[(0,t.jsx)(r,{isVisible:_,isOpen:v,onClick:()=>g(!v)}),(0,t.jsx)("ul",{className:["dswp-block-navigation__container",_&&v?"is-menu-open":"",_&&!v?"is-menu-closed":""].filter(Boolean).join(" ")})]})]}):(0,t.jsx)(n.Spinner,{})},save:function(){return null}})}},o={};function s(e){var l=o[e];if(void 0!==l)return l.exports;var i=o[e]={exports:{}};return n[e](i,i.exports,s),i.exports}s.m=n,e=[],s.O=(n,o,l,i)=>{if(!o){var a=1/0;for(d=0;d<e.length;d++){for(var[o,l,i]=e[d],t=!0,r=0;r<o.length;r++)(!1&i||a>=i)&&Object.keys(s.O).every(e=>s.O[e](o[r]))?o.splice(r--,1):(t=!1,i<a&&(a=i));if(t){e.splice(d--,1);var p=l();void 0!==p&&(n=p)}}return n}i=i||0;for(var d=e.length;d>0&&e[d-1][2]>i;d--)e[d]=e[d-1];e[d]=[o,l,i]},s.o=(e,n)=>Object.prototype.hasOwnProperty.call(e,n),(()=>{var e={57:0,350:0};s.O.j=n=>0===e[n];var n=(n,o)=>{var l,i,[a,t,r]=o,p=0;if(a.some(n=>0!==e[n])){for(l in t)s.o(t,l)&&(s.m[l]=t[l]);if(r)var d=r(s)}for(n&&n(o);p<a.length;p++)i=a[p],s.o(e,i)&&e[i]&&e[i][0](),e[i]=0;return s.O(d)},o=globalThis.webpackChunkdesign_system_blocks=globalThis.webpackChunkdesign_system_blocks||[];o.forEach(n.bind(null,0)),o.push=n.bind(null,o.push.bind(o))})();var l=s.O(void 0,[350],()=>s(710));l=s.O(l)})();
\ No newline at end of file
+(()=>{"use strict";var e={661(){const e=window.wp.blocks,n=window.wp.components,o=window.wp.i18n,s=window.wp.element,l=window.wp.data,a=window.wp.blockEditor,t=window.wp.coreData,i=window.ReactJSXRuntime;function r({isOpen:e,onClick:n,isVisible:o}){if(!o)return null;const s=["dswp-nav-mobile-bar","dswp-nav-mobile-menu-top-bar",e&&"dswp-nav-mobile-menu-top-bar-open"].filter(Boolean).join(" "),l=["dswp-nav-mobile-bar","dswp-nav-mobile-menu-middle-bar",e&&"dswp-nav-mobile-menu-middle-bar-open"].filter(Boolean).join(" "),a=["dswp-nav-mobile-bar","dswp-nav-mobile-menu-bottom-bar",e&&"dswp-nav-mobile-menu-bottom-bar-open"].filter(Boolean).join(" ");return(0,i.jsxs)("button",{className:"dswp-nav-mobile-toggle-icon","aria-label":"Toggle menu","aria-expanded":e,onClick:n,type:"button",children:[(0,i.jsx)("span",{className:"dswp-nav-mobile-menu-icon-text",children:e?"Close":"Menu"}),(0,i.jsxs)("svg",{width:"24",height:"24",viewBox:"0 0 24 24","aria-hidden":"true",focusable:"false",children:[(0,i.jsx)("path",{className:s,d:"M3,6h13",strokeWidth:"1",stroke:"currentColor"}),(0,i.jsx)("path",{className:l,d:"M3,12h13",strokeWidth:"1",stroke:"currentColor"}),(0,i.jsx)("path",{className:a,d:"M3,18h13",strokeWidth:"1",stroke:"currentColor"})]})]})}const p=["core/navigation-link","core/navigation-submenu","core/spacer"],d=[{label:(0,o.__)("Flyout","dswp"),value:"flyout"},{label:(0,o.__)("Mega menu","dswp"),value:"mega"}];function u({isMenuOpen:e,shouldShowHamburger:n}){const[o,s,l]=(0,t.useEntityBlockEditor)("postType","wp_navigation"),r=["dswp-block-navigation__container",n&&e?"is-menu-open":"",n&&!e?"is-menu-closed":""].filter(Boolean).join(" "),d=(0,a.useInnerBlocksProps)({className:r},{value:o,onInput:s,onChange:l,allowedBlocks:p,orientation:"horizontal",templateLock:!1,__experimentalCaptureToolbars:!0});return(0,i.jsx)("ul",{...d})}const c=JSON.parse('{"UU":"design-system-wordpress-plugin/navigation"}');(0,e.registerBlockType)(c.UU,{edit:function({attributes:e,setAttributes:p}){const{menuId:c,ref:m,overlayMenu:b="never",submenuLayout:w="flyout",mobileBreakpoint:h=768,showInDesktop:v,showInMobile:_}=e,[g,y]=(0,s.useState)(!1),x="mobile"===b||"always"===b,k=m||c,j=(0,a.useBlockProps)({className:[`dswp-block-navigation-is-${b}-overlay`,"mega"===w&&"dswp-block-navigation-has-mega-menu"].filter(Boolean).join(" "),"data-dswp-mobile-breakpoint":h}),{menus:C,hasResolvedMenus:f}=(0,l.useSelect)(e=>{const{getEntityRecords:n,hasFinishedResolution:o}=e(t.store),s={per_page:-1,status:["publish","draft"]};return{menus:n("postType","wp_navigation",s),hasResolvedMenus:o("getEntityRecords",["postType","wp_navigation",s])}},[]),M=e=>{const n=parseInt(e);p({ref:n||void 0,menuId:n||void 0})},B=(e,n)=>{"desktop"===e?p({showInDesktop:n,showInMobile:!n}):"mobile"===e&&p({showInMobile:n,showInDesktop:!n})},S=(0,s.useMemo)(()=>C?.length?[{label:(0,o.__)("Select a menu","dswp"),value:0},...C.map(e=>({label:e.title.rendered||(0,o.__)("(no title)","dswp"),value:e.id}))]:[{label:(0,o.__)("Select a menu","dswp"),value:0}],[C]);return f?k?(0,i.jsx)(t.EntityProvider,{kind:"postType",type:"wp_navigation",id:k,children:(0,i.jsxs)(i.Fragment,{children:[(0,i.jsx)(a.InspectorControls,{children:(0,i.jsxs)(n.PanelBody,{title:(0,o.__)("Navigation Settings","dswp"),children:[(0,i.jsx)(n.ToggleControl,{label:(0,o.__)("Show in Desktop","dswp"),checked:v,onChange:e=>B("desktop",e)}),(0,i.jsx)(n.ToggleControl,{label:(0,o.__)("Show in Mobile","dswp"),checked:_,onChange:e=>B("mobile",e)}),(0,i.jsx)(n.SelectControl,{label:(0,o.__)("Select Menu","dswp"),value:k||0,options:S,onChange:M}),(0,i.jsxs)(n.ButtonGroup,{children:[(0,i.jsx)("span",{className:"components-base-control__label",style:{display:"block",marginBottom:"8px"},children:(0,o.__)("Overlay Menu","dswp")}),(0,i.jsx)(n.Button,{variant:"mobile"===b?"primary":"secondary",onClick:()=>p({overlayMenu:"mobile"}),children:(0,o.__)("Mobile","dswp")}),(0,i.jsx)(n.Button,{variant:"always"===b?"primary":"secondary",onClick:()=>p({overlayMenu:"always"}),children:(0,o.__)("Always","dswp")}),(0,i.jsx)(n.Button,{variant:"never"===b?"primary":"secondary",onClick:()=>p({overlayMenu:"never"}),children:(0,o.__)("Never","dswp")})]}),(0,i.jsx)(n.SelectControl,{label:(0,o.__)("Submenu Layout","dswp"),help:(0,o.__)("Mega menu shows top-level submenus as a full-width panel on desktop, with a column for each second-level item.","dswp"),value:w,options:d,onChange:e=>p({submenuLayout:e})}),(v||_||"mobile"===b)&&(0,i.jsx)("div",{style:{marginTop:"1rem"},children:(0,i.jsx)(n.RangeControl,{label:(0,o.__)("Mobile Breakpoint (px)","dswp"),value:h,onChange:e=>p({mobileBreakpoint:e}),min:320,max:1200,step:1})})]})}),(0,i.jsxs)("nav",{...j,children:[(0,i.jsx)(r,{isVisible:x,isOpen:g,onClick:()=>y(!g)}),(0,i.jsx)(u,{isMenuOpen:g,shouldShowHamburger:x})]})]})}):(0,i.jsxs)(i.Fragment,{children:[(0,i.jsx)(a.InspectorControls,{children:(0,i.jsxs)(n.PanelBody,{title:(0,o.__)("Navigation Settings","dswp"),children:[(0,i.jsx)(n.ToggleControl,{label:(0,o.__)("Show in Desktop","dswp"),checked:v,onChange:e=>B("desktop",e)}),(0,i.jsx)(n.ToggleControl,{label:(0,o.__)("Show in Mobile","dswp"),checked:_,onChange:e=>B("mobile",e)}),(0,i.jsx)(n.SelectControl,{label:(0,o.__)("Select Menu","dswp"),value:0,options:S,onChange:M}),(0,i.jsxs)(n.ButtonGroup,{children:[(0,i.jsx)("span",{className:"components-base-control__label",style:{display:"block",marginBottom:"8px"},children:(0,o.__)("Overlay Menu","dswp")}),(0,i.jsx)(n.Button,{variant:"mobile"===b?"primary":"secondary",onClick:()=>p({overlayMenu:"mobile"}),children:(0,o.__)("Mobile","dswp")}),(0,i.jsx)(n.Button,{variant:"always"===b?"primary":"secondary",onClick:()=>p({overlayMenu:"always"}),children:(0,o.__)("Always","dswp")}),(0,i.jsx)(n.Button,{variant:"never"===b?"primary":"secondary",onClick:()=>p({overlayMenu:"never"}),children:(0,o.__)("Never","dswp")})]}),(0,i.jsx)(n.SelectControl,{label:(0,o.__)("Submenu Layout","dswp"),help:(0,o.__)("Mega menu shows top-level submenus as a full-width panel on desktop, with a column for each second-level item.","dswp"),value:w,options:d,onChange:e=>p({submenuLayout:e})}),(v||_||"mobile"===b)&&(0,i.jsx)("div",{style:{marginTop:"1rem"},children:(0,i.jsx)(n.RangeControl,{label:(0,o.__)("Mobile Breakpoint (px)","dswp"),value:h,onChange:e=>p({mobileBreakpoint:e}),min:320,max:1200,step:1})})]})}),(0,i.jsxs)("nav",{...j,children:[(0,i.jsx)(r,{isVisible:x,isOpen:g,onClick:()=>y(!g)}),(0,i.jsx)("ul",{className:["dswp-block-navigation__container",x&&g?"is-menu-open":"",x&&!g?"is-menu-closed":""].filter(Boolean).join(" ")})]})]}):(0,i.jsx)(n.Spinner,{})},save:function(){return null}})}};const n={};function o(s){const l=n[s];if(void 0!==l)return l.exports;const a=n[s]={exports:{}};return e[s](a,a.exports,o),a.exports}o.m=e,(()=>{const e=[];o.O=(n,s,l)=>{if(!s){for(var a=0;a<e.length;a++){let[s,l]=e[a],i=!0;for(var t=0;t<s.length;t++)o.O.j(s[t])?s.splice(t--,1):i=!1;if(i){e.splice(a--,1);const o=l();void 0!==o&&(n=o)}}return n}e.push([s,l])}})(),o.o=(e,n)=>Object.hasOwn(e,n),(()=>{const e={160:0,256:0};o.O.j=n=>0===e[n];const n=(n,s)=>{let[l,a,t]=s;var i,r,p=0;if(l.some(n=>0!==e[n])){for(i in a)o.o(a,i)&&(o.m[i]=a[i]);if(t)var d=t(o)}for(n&&n(s);p<l.length;p++)r=l[p],o.o(e,r)&&e[r]&&e[r][0](),e[r]=0;return o.O(d)},s=globalThis.webpackChunkdesign_system_blocks||=[];s.forEach(n.bind(null,0)),s.push=n.bind(null,s.push.bind(s))})();let s=o.O(void 0,[256],()=>o(661));s=o.O(s)})();
\ No newline at end of file
@@ -18,6 +18,7 @@ $overlay_menu      = isset( $attributes['overlayMenu'] ) ? $attributes['overlayM
 $mobile_breakpoint = isset( $attributes['mobileBreakpoint'] ) ? (int) $attributes['mobileBreakpoint'] : 768;
 $show_in_desktop   = isset( $attributes['showInDesktop'] ) ? (bool) $attributes['showInDesktop'] : true;
 $show_in_mobile    = isset( $attributes['showInMobile'] ) ? (bool) $attributes['showInMobile'] : false;
+$submenu_layout    = isset( $attributes['submenuLayout'] ) && 'mega' === $attributes['submenuLayout'] ? 'mega' : 'flyout';
 
 // Load navigation menu content from wp_navigation post type.
 $navigation_content = '';
@@ -44,10 +45,16 @@ if ( ! empty( $navigation_content ) ) {
 	$parsed_blocks  = array_values( $parsed_blocks ); // Reset array keys.
 }
 
+$wrapper_classes = "dswp-block-navigation-is-$overlay_menu-overlay";
+if ( 'mega' === $submenu_layout ) {
+	$wrapper_classes .= ' dswp-block-navigation-has-mega-menu';
+}
+
 $wrapper_attributes = get_block_wrapper_attributes(
     [
-		'class'                       => "dswp-block-navigation-is-$overlay_menu-overlay",
+		'class'                       => $wrapper_classes,
 		'data-dswp-mobile-breakpoint' => $mobile_breakpoint,
+		'data-dswp-submenu-layout'    => $submenu_layout,
 		'data-show-in-desktop'        => $show_in_desktop ? 'true' : 'false',
 		'data-show-in-mobile'         => $show_in_mobile ? 'true' : 'false',
 	]
@@ -1 +1 @@
-<?php return array('dependencies' => array(), 'version' => '237d989593121465e396');
+<?php return array('dependencies' => array(), 'version' => 'abd5899f15acfb60d4c5');
@@ -1 +1 @@
-document.addEventListener("DOMContentLoaded",function(){document.querySelectorAll(".dswp-block-navigation-is-mobile-overlay, .dswp-block-navigation-is-always-overlay, .dswp-block-navigation-is-never-overlay").forEach(e=>{const n={mobileNavIcon:e.querySelector(".dswp-nav-mobile-toggle-icon"),menuContainer:e.querySelector(".dswp-block-navigation__container"),iconText:e.querySelector(".dswp-nav-mobile-menu-icon-text"),topBar:e.querySelector(".dswp-nav-mobile-menu-top-bar"),middleBar:e.querySelector(".dswp-nav-mobile-menu-middle-bar"),bottomBar:e.querySelector(".dswp-nav-mobile-menu-bottom-bar")},t=e.classList.contains("dswp-block-navigation-is-mobile-overlay"),s=e.classList.contains("dswp-block-navigation-is-always-overlay"),o="true"===e.dataset.showInDesktop,i="true"===e.dataset.showInMobile;function a(){e.querySelectorAll(".wp-block-navigation-submenu.is-open").forEach(e=>{e.classList.remove("is-open");const n=e.querySelector(".wp-block-navigation__submenu-container"),t=e.querySelector(".dswp-submenu-toggle");n&&n.classList.remove("is-open"),t&&t.setAttribute("aria-expanded","false")})}function l(){n.iconText&&(n.iconText.innerText="Menu"),n.topBar&&n.topBar.classList.remove("dswp-nav-mobile-menu-top-bar-open"),n.middleBar&&n.middleBar.classList.remove("dswp-nav-mobile-menu-middle-bar-open"),n.bottomBar&&n.bottomBar.classList.remove("dswp-nav-mobile-menu-bottom-bar-open"),n.mobileNavIcon.setAttribute("aria-expanded","false")}function c(){e.querySelectorAll(".dswp-submenu-toggle").forEach(e=>{e.setAttribute("aria-expanded","false")})}function r(){const t=parseInt(e.dataset.dswpMobileBreakpoint)||768;window.innerWidth<=t?(n.mobileNavIcon.style.display="flex",n.menuContainer.style.display="none",n.menuContainer.classList.add("dswp-is-mobile"),e.classList.add("dswp-block-navigation-is-mobile-overlay")):(n.mobileNavIcon.style.display="none",n.menuContainer.style.display="flex",n.menuContainer.classList.remove("dswp-is-mobile","is-menu-open"),e.classList.remove("dswp-block-navigation-is-mobile-overlay"),l(),a())}function d(e){const n=e.querySelector(".wp-block-navigation__submenu-container");if(!n)return;const t=u(e);1===t?(n.style.left="0%",n.style.right="auto"):t>=2&&(n.style.left="100%",n.style.right="auto");const s=n.getBoundingClientRect(),o=window.innerWidth;1===t&&s.right>o?(n.style.left="auto",n.style.right="0%"):t>=2&&s.right>o&&(n.style.left="auto",n.style.right="100%")}function u(e){let n=1,t=e.parentElement;for(;t;)t.classList.contains("wp-block-navigation-submenu")&&n++,t=t.parentElement;return n}s||e.classList.contains("dswp-block-navigation-is-mobile-only")?(n.mobileNavIcon.style.display="flex",n.menuContainer.style.display="none",n.menuContainer.classList.add("dswp-is-mobile")):t&&r(),t&&window.addEventListener("resize",r),n.mobileNavIcon&&n.mobileNavIcon.addEventListener("click",function(){n.menuContainer.classList.toggle("is-menu-open");const e=n.menuContainer.classList.contains("is-menu-open");n.mobileNavIcon.setAttribute("aria-expanded",e.toString()),n.topBar.classList.toggle("dswp-nav-mobile-menu-top-bar-open"),n.middleBar.classList.toggle("dswp-nav-mobile-menu-middle-bar-open"),n.bottomBar&&n.bottomBar.classList.toggle("dswp-nav-mobile-menu-bottom-bar-open"),n.iconText.innerText=e?"Close menu":"Menu",n.menuContainer.style.display=e?"grid":"none",e||a()}),document.addEventListener("click",function(t){const s=e.contains(t.target),o=window.innerWidth<=(parseInt(e.dataset.dswpMobileBreakpoint)||768);s||(o&&n.menuContainer.classList.contains("is-menu-open")?(n.menuContainer.classList.remove("is-menu-open"),n.menuContainer.style.display="none",l(),a()):o||(a(),c()))}),document.addEventListener("keydown",function(e){"Escape"===e.key&&(n.menuContainer.classList.contains("is-menu-open")&&(n.menuContainer.classList.remove("is-menu-open"),n.menuContainer.style.display="none",l()),a(),c())}),e.querySelectorAll(".wp-block-navigation-submenu > .wp-block-navigation-item__content").forEach(t=>{const s=t.closest(".wp-block-navigation-submenu"),o=s?.querySelector(".wp-block-navigation__submenu-container");if(o){!function(e){let n=e.parentElement;for(;n;)n.classList.contains("wp-block-navigation-submenu"),n=n.parentElement}(s);const o=document.createElement("button");o.className="dswp-submenu-toggle",o.setAttribute("aria-expanded","false"),o.setAttribute("aria-label","Toggle submenu"),t.parentNode.insertBefore(o,t.nextSibling),o.addEventListener("keydown",e=>{if("Enter"===e.key||" "===e.key)if(e.preventDefault(),n.menuContainer.classList.contains("dswp-is-mobile"))o.click();else{s.classList.toggle("is-open");const e=s.querySelector(".wp-block-navigation__submenu-container");e&&(e.classList.toggle("is-open"),s.classList.contains("is-open"))&&u(s)>=2&&d(s),o.setAttribute("aria-expanded",s.classList.contains("is-open"))}}),o.addEventListener("click",()=>{if(n.menuContainer.classList.contains("dswp-is-mobile")){const n=[];let t=s;for(;t;)t.classList.contains("wp-block-navigation-submenu")&&n.push(t),t=t.parentElement.closest(".wp-block-navigation-submenu");e.querySelectorAll(".wp-block-navigation-submenu.is-open").forEach(e=>{if(!n.includes(e)){e.classList.remove("is-open");const n=e.querySelector(".wp-block-navigation__submenu-container"),t=e.querySelector(".dswp-submenu-toggle");n&&n.classList.remove("is-open"),t&&t.setAttribute("aria-expanded","false")}}),s.classList.toggle("is-open"),s.classList.contains("is-open")?o.setAttribute("aria-expanded","true"):o.setAttribute("aria-expanded","false")}}),n.menuContainer.classList.contains("dswp-is-mobile")||(s.addEventListener("mouseenter",()=>{if(!n.menuContainer.classList.contains("dswp-is-mobile")){s.classList.add("is-open");const e=s.querySelector(".wp-block-navigation__submenu-container");e&&(e.classList.add("is-open"),u(s)>=2&&d(s))}}),s.addEventListener("mouseleave",()=>{if(!n.menuContainer.classList.contains("dswp-is-mobile")){s.classList.remove("is-open");const e=s.querySelector(".wp-block-navigation__submenu-container");e&&e.classList.remove("is-open")}}))}});const m=new URL(window.location.href),p=m.pathname,b=m.search;function v(){const n=parseInt(e.dataset.dswpMobileBreakpoint)||768,t=window.innerWidth<=n;e.style.display=!1!==o||!1!==i?!1!==o||t?!1===i&&t?"none":"flex":"none":"flex"}e.querySelectorAll(".wp-block-navigation-item__content").forEach(e=>{const n=new URL(e.href,window.location.origin),t=n.pathname,s=n.search;if(t===p)if(s){if(s===b){e.classList.add("active");const n=e.closest(".wp-block-navigation-item");n&&n.classList.add("active")}}else if(!b){e.classList.add("active");const n=e.closest(".wp-block-navigation-item");n&&n.classList.add("active")}}),v(),window.addEventListener("resize",v)})});
\ No newline at end of file
+(()=>{"use strict";function e(e,n){return e.querySelector(n)}function n(e,n){return Array.from(e.querySelectorAll(n))}function t(e){return"true"===e}function o(e,n=768){const t="number"==typeof e?e:parseInt(e??"",10);return Number.isFinite(t)&&t>0?t:n}function s(e,n){e?.setAttribute("aria-expanded",n?"true":"false")}const i="dswp:nav:close";function a(e,n){n.controller.element.dispatchEvent(new CustomEvent(e,{bubbles:!0,detail:n}))}const l=new Map,c={get:e=>l.get(e),getAll:()=>Array.from(l.values())},r=".wp-block-navigation-submenu",u=".wp-block-navigation__submenu-container",m=".dswp-submenu-toggle";function d(e){let n=1,t=e.parentElement;for(;t;)t.classList.contains("wp-block-navigation-submenu")&&n++,t=t.parentElement;return n}var p;window.dswpNavigation=c,p=()=>{n(document,".dswp-block-navigation-is-mobile-overlay, .dswp-block-navigation-is-always-overlay, .dswp-block-navigation-is-never-overlay").forEach(p=>{if(c.get(p))return;const b=function(c){const p=e(c,".dswp-nav-mobile-toggle-icon"),b=e(c,".dswp-block-navigation__container");if(!p||!b)return null;const g={mobileNavIcon:p,menuContainer:b,iconText:e(c,".dswp-nav-mobile-menu-icon-text"),topBar:e(c,".dswp-nav-mobile-menu-top-bar"),middleBar:e(c,".dswp-nav-mobile-menu-middle-bar"),bottomBar:e(c,".dswp-nav-mobile-menu-bottom-bar")},w=function(e){let n="never";return e.classList.contains("dswp-block-navigation-is-always-overlay")?n="always":e.classList.contains("dswp-block-navigation-is-mobile-overlay")&&(n="mobile"),{overlayMenu:n,submenuLayout:"mega"===e.dataset.dswpSubmenuLayout?"mega":"flyout",mobileBreakpoint:o(e.dataset.dswpMobileBreakpoint),showInDesktop:t(e.dataset.showInDesktop),showInMobile:t(e.dataset.showInMobile)}}(c),v="mobile"===w.overlayMenu,y="always"===w.overlayMenu,f=()=>{return e=w.mobileBreakpoint,window.innerWidth<=e;var e},L=()=>g.menuContainer.classList.contains("dswp-is-mobile"),h=()=>"mega"===w.submenuLayout&&!L(),k=e=>h()&&d(e)>=2,E=new AbortController,{signal:_}=E,C=[];let I=f();function M(e){g.iconText&&(g.iconText.innerText=e?"Close menu":"Menu"),g.topBar?.classList.toggle("dswp-nav-mobile-menu-top-bar-open",e),g.middleBar?.classList.toggle("dswp-nav-mobile-menu-middle-bar-open",e),g.bottomBar?.classList.toggle("dswp-nav-mobile-menu-bottom-bar-open",e),s(g.mobileNavIcon,e)}function S(){n(c,m).forEach(e=>s(e,!1))}function x(n,t){const o=e(n,u),i=n.classList.contains("is-open");n.classList.toggle("is-open",t),o?.classList.toggle("is-open",t),s(e(n,m),t);const l=d(n);t&&!L()&&!h()&&o&&l>=2&&function(n){const t=e(n,u);if(!t)return;const o=d(n);1===o?(t.style.left="0%",t.style.right="auto"):o>=2&&(t.style.left="100%",t.style.right="auto");const s=t.getBoundingClientRect(),i=window.innerWidth;1===o&&s.right>i?(t.style.left="auto",t.style.right="0%"):o>=2&&s.right>i&&(t.style.left="auto",t.style.right="100%")}(n),i!==t&&a("dswp:nav:submenu-toggle",{controller:N,submenu:n,open:t,level:l})}function A(){if(f())g.mobileNavIcon.style.display="flex",g.menuContainer.style.display="none",g.menuContainer.classList.add("dswp-is-mobile"),c.classList.add("dswp-block-navigation-is-mobile-overlay");else{const e=N.isOpen();g.mobileNavIcon.style.display="none",g.menuContainer.style.display="flex",g.menuContainer.classList.remove("dswp-is-mobile","is-menu-open"),c.classList.remove("dswp-block-navigation-is-mobile-overlay"),M(!1),N.closeAllSubmenus(),e&&a(i,{controller:N})}}function B(){if(!w.showInDesktop&&!w.showInMobile)return void(c.style.display="flex");const e=f();w.showInDesktop||e?!w.showInMobile&&e?c.style.display="none":c.style.display="flex":c.style.display="none"}const N={element:c,config:w,isOpen:()=>g.menuContainer.classList.contains("is-menu-open"),isMobile:f,open(){N.isOpen()||(g.menuContainer.classList.add("is-menu-open"),g.menuContainer.style.display="grid",M(!0),a("dswp:nav:open",{controller:N}))},close(){N.isOpen()&&(g.menuContainer.classList.remove("is-menu-open"),g.menuContainer.style.display="none",M(!1),N.closeAllSubmenus(),a(i,{controller:N}))},toggle(){N.isOpen()?N.close():N.open()},toggleSubmenu(e,t){if(!c.contains(e))return;const o=t??!e.classList.contains("is-open");if(o&&L()){const t=[];let o=e;for(;o;)t.push(o),o=o.parentElement?.closest(r)??null;n(c,`${r}.is-open`).forEach(e=>{t.includes(e)||x(e,!1)})}x(e,o)},closeAllSubmenus(){n(c,`${r}.is-open`).forEach(e=>x(e,!1))},destroy(){E.abort(),C.forEach(e=>e.remove()),["dswp-mega-menu","dswp-mega-menu__panel","dswp-mega-menu__column","dswp-mega-menu__heading"].forEach(e=>n(c,`.${e}`).forEach(n=>n.classList.remove(e))),c.style.removeProperty("display"),g.mobileNavIcon.style.removeProperty("display"),g.menuContainer.style.removeProperty("display"),function(e){l.get(e.element)===e&&l.delete(e.element)}(N),a("dswp:nav:destroy",{controller:N})}};return"mega"===w.submenuLayout&&function(t){n(t,`:scope > ${r}`).forEach(t=>{const o=e(t,`:scope > ${u}`);o&&(t.classList.add("dswp-mega-menu"),o.classList.add("dswp-mega-menu__panel"),n(o,":scope > .wp-block-navigation-item").forEach(n=>{n.classList.add("dswp-mega-menu__column"),e(n,":scope > .wp-block-navigation-item__content")?.classList.add("dswp-mega-menu__heading")}))})}(g.menuContainer),y||c.classList.contains("dswp-block-navigation-is-mobile-only")?(g.mobileNavIcon.style.display="flex",g.menuContainer.style.display="none",g.menuContainer.classList.add("dswp-is-mobile")):v&&A(),window.addEventListener("resize",()=>{v&&A(),B(),function(){const e=f();e!==I&&(I=e,a("dswp:nav:breakpoint-change",{controller:N,isMobile:e,breakpoint:w.mobileBreakpoint}))}()},{signal:_}),g.mobileNavIcon.addEventListener("click",N.toggle,{signal:_}),document.addEventListener("click",e=>{c.contains(e.target)||(f()?N.close():(N.closeAllSubmenus(),S()))},{signal:_}),document.addEventListener("keydown",n=>{if("Escape"!==n.key)return;const t=c.ownerDocument.activeElement,o=h()?t?.closest(".dswp-mega-menu"):null;o&&c.contains(o)&&e(o,m)?.focus(),N.close(),N.closeAllSubmenus(),S()},{signal:_}),n(c,`${r} > .wp-block-navigation-item__content`).forEach(n=>{const t=n.closest(r);if(!t||!e(t,u))return;const o=document.createElement("button");o.className="dswp-submenu-toggle",s(o,!1),o.setAttribute("aria-label","Toggle submenu"),n.parentNode?.insertBefore(o,n.nextSibling),C.push(o),o.addEventListener("keydown",e=>{"Enter"!==e.key&&" "!==e.key||(e.preventDefault(),N.toggleSubmenu(t))},{signal:_}),o.addEventListener("click",()=>{L()&&N.toggleSubmenu(t)},{signal:_}),t.classList.contains("dswp-mega-menu")&&t.addEventListener("focusout",e=>{const n=e.relatedTarget;!h()||n&&t.contains(n)||x(t,!1)},{signal:_}),L()||(t.addEventListener("mouseenter",()=>{L()||k(t)||x(t,!0)},{signal:_}),t.addEventListener("mouseleave",()=>{L()||k(t)||x(t,!1)},{signal:_}))}),function(e){const t=new URL(window.location.href);n(e,".wp-block-navigation-item__content").forEach(e=>{const n=new URL(e.href,window.location.origin);n.pathname===t.pathname&&n.search===t.search&&(e.classList.add("active"),e.closest(".wp-block-navigation-item")?.classList.add("active"))})}(c),B(),function(e){l.set(e.element,e)}(N),N}(p);b&&a("dswp:nav:init",{controller:b})})},"loading"===document.readyState?document.addEventListener("DOMContentLoaded",p):p()})();
\ No newline at end of file
@@ -0,0 +1 @@
+(()=>{"use strict";const e=window.wp.blocks,s=window.wp.blockEditor,n=window.wp.components,i=window.wp.data,a=window.wp.element,t=window.wp.i18n,o=JSON.parse('{"UU":"design-system-wordpress-plugin/notification-banner","rE":"1.0.0"}'),l=window.ReactJSXRuntime,r=[{label:(0,t.__)("Warning","dswp"),value:"var(--dswp-icons-color-warning)",severity:"warning"},{label:(0,t.__)("Danger","dswp"),value:"var(--dswp-icons-color-danger)",severity:"danger"},{label:(0,t.__)("Success","dswp"),value:"var(--dswp-icons-color-success)",severity:"success"},{label:(0,t.__)("Info","dswp"),value:"var(--dswp-icons-color-info)",severity:"info"},{label:(0,t.__)("Black","dswp"),value:"#2d2d2d",severity:"neutral"}];(0,e.registerBlockType)(o.UU,{edit:function({attributes:e,setAttributes:d,clientId:c}){const{message:w,color:p,dismissible:b,bannerId:u}=e,_=(0,s.useBlockProps)(),v=(0,i.useSelect)(e=>{if(!u)return!1;const{getClientIdsWithDescendants:n,getBlockName:i,getBlockAttributes:a}=e(s.store),t=n().find(e=>i(e)===o.UU&&a(e)?.bannerId===u);return void 0!==t&&t!==c},[u,c]);(0,a.useEffect)(()=>{u&&!v||d({bannerId:c.slice(0,8)})},[u,v,c,d]);const g=r.find(e=>e.value===p)?.severity??"warning";return(0,l.jsxs)(l.Fragment,{children:[(0,l.jsxs)(s.InspectorControls,{children:[(0,l.jsxs)(n.PanelBody,{title:(0,t.__)("Banner Settings","dswp"),children:[(0,l.jsx)(n.RadioControl,{label:(0,t.__)("Banner Color","dswp"),selected:p,options:r.map(({label:e,value:s})=>({label:e,value:s})),onChange:e=>d({color:e})}),(0,l.jsx)(n.ToggleControl,{label:(0,t.__)("Let visitors close the banner","dswp"),help:(0,t.__)("A closed banner stays hidden in that browser until its content changes.","dswp"),checked:b,onChange:e=>d({dismissible:e})})]}),(0,l.jsxs)("div",{className:"dswp-block-version",children:[(0,t.__)("Block Version:","dswp")," ",o.rE]})]}),(0,l.jsx)("div",{..._,children:(0,l.jsxs)("div",{className:`dswp-notification-banner dswp-notification-banner--${g}${b?" is-dismissible":""}`,children:[(0,l.jsx)(s.RichText,{tagName:"div",className:"dswp-notification-banner__message",value:w,onChange:e=>d({message:e}),placeholder:(0,t.__)("Write the notification…","dswp"),"aria-label":(0,t.__)("Notification message","dswp")}),b&&(0,l.jsx)("span",{className:"dswp-notification-banner__dismiss","aria-hidden":"true",children:"×"})]})})]})},save:()=>null})})();
\ No newline at end of file
@@ -0,0 +1,38 @@
+<?php
+/**
+ * Notification Banner Block Render Template
+ *
+ * Renders an alert placed on a page or template part, using the same
+ * markup, severity colors and dismiss behaviour as the site-wide banner.
+ *
+ * @package DesignSystemWordPressPlugin
+ * @subpackage NotificationBanner
+ */
+
+namespace DesignSystemWordPressPlugin\NotificationBanner;
+
+use Bcgov\DesignSystemPlugin\NotificationBanner;
+
+$message = isset( $attributes['message'] ) ? trim( $attributes['message'] ) : '';
+
+// Like the site-wide banner, do not render an empty banner.
+if ( '' === $message || ! class_exists( NotificationBanner::class ) ) {
+	return '';
+}
+
+$notification_banner = new NotificationBanner();
+$banner_id           = ! empty( $attributes['bannerId'] ) ? sanitize_key( $attributes['bannerId'] ) : substr( md5( $message ), 0, 8 );
+
+?>
+<div <?php echo wp_kses_data( get_block_wrapper_attributes() ); ?>>
+	<?php
+	echo $notification_banner->render_banner( // phpcs:ignore WordPress.Security.EscapeOutput.OutputNotEscaped -- Escaped in render_banner().
+		[
+			'id'          => 'dswp-notification-banner-block-' . $banner_id,
+			'message'     => $message,
+			'color'       => $attributes['color'] ?? '',
+			'dismissible' => ! empty( $attributes['dismissible'] ),
+		]
+	);
+	?>
+</div>
@@ -3,7 +3,7 @@
  * Importing necessary components for block editing interface
  */
 import { useBlockProps, InspectorControls } from '@wordpress/block-editor';
-import { PanelBody, Notice } from '@wordpress/components';
+import { PanelBody, Notice, ToggleControl } from '@wordpress/components';
 import { __ } from '@wordpress/i18n';
 // Import block metadata
 import metadata from '../block.json';
@@ -11,9 +11,14 @@ import metadata from '../block.json';
 /**
  * Edit Component for Breadcrumb Block
  *
+ * @param {Object}   props               Block properties
+ * @param {Object}   props.attributes    Block attributes
+ * @param {Function} props.setAttributes Function to update block attributes
  * @return {JSX.Element} Rendered edit interface for breadcrumb block
  */
-export default function Edit() {
+export default function Edit( { attributes, setAttributes } ) {
+	const { structuredData } = attributes;
+
 	const blockProps = useBlockProps( {
 		className: 'is-editor-preview',
 	} );
@@ -32,6 +37,17 @@ export default function Edit() {
 							'This block is limited to page hierarchies. Post type support upcoming.'
 						) }
 					</Notice>
+					<ToggleControl
+						label={ __( 'Add structured data', 'dswp' ) }
+						help={ __(
+							'Describes the breadcrumb to search engines, which can show it in search results.',
+							'dswp'
+						) }
+						checked={ structuredData }
+						onChange={ ( value ) =>
+							setAttributes( { structuredData: value } )
+						}
+					/>
 				</PanelBody>
 				<div className="dswp-block-version">
 					{ __( 'Block Version:' ) } { metadata.version }
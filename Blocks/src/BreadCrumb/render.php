@@ -112,6 +112,34 @@ $hierarchy[] = array(
 	'url'   => $current_url,
 );
 
+/**
+ * Build Structured Data
+ * Describes the same hierarchy as a schema.org BreadcrumbList, for search engines.
+ * On by default; turned off with the block's "Add structured data" setting.
+ */
+$breadcrumb_list = null;
+if ( ! isset( $attributes['structuredData'] ) || $attributes['structuredData'] ) {
+	$list_items = array();
+	foreach ( $hierarchy as $index => $item ) {
+		$list_item = array(
+			'@type'    => 'ListItem',
+			'position' => $index + 1,
+			'name'     => html_entity_decode( wp_strip_all_tags( $item['title'] ), ENT_QUOTES, get_bloginfo( 'charset' ) ),
+		);
+		// Items without a URL (e.g. a 404 page) are allowed as the last item, which search engines take as the current page.
+		if ( '' !== $item['url'] ) {
+			$list_item['item'] = esc_url_raw( $item['url'] );
+		}
+		$list_items[] = $list_item;
+	}
+
+	$breadcrumb_list = array(
+		'@context'        => 'https://schema.org',
+		'@type'           => 'BreadcrumbList',
+		'itemListElement' => $list_items,
+	);
+}
+
 $wrapper_attributes = get_block_wrapper_attributes();
 
 /**
@@ -178,4 +206,7 @@ $wrapper_attributes = get_block_wrapper_attributes();
 			</svg>
 		</span>
 	</button>
+	<?php if ( $breadcrumb_list ) : ?>
+		<script type="application/ld+json"><?php echo wp_json_encode( $breadcrumb_list, JSON_UNESCAPED_SLASHES | JSON_UNESCAPED_UNICODE | JSON_HEX_TAG | JSON_HEX_AMP ); ?></script>
+	<?php endif; ?>
 </div>
\ No newline at end of file
@@ -0,0 +1,69 @@
+/**
+ * Breadcrumb Block Frontend Script
+ *
+ * Handles desktop-only left/right arrow buttons to scroll the breadcrumb
+ * when content overflows. Arrows are shown/hidden via CSS (desktop only).
+ *
+ * @since 1.0.0
+ */
+
+import { onReady, query, queryAll, setHidden } from '../../../src/utils';
+
+/**
+ * Distance (in px) scrolled by each arrow click.
+ */
+const SCROLL_AMOUNT = 200;
+
+/**
+ * Wires up the scroll arrows for a single breadcrumb block.
+ *
+ * @param block Breadcrumb block wrapper.
+ */
+function initBreadcrumb( block: HTMLElement ): void {
+	const container = query( block, '.dswp-block-breadcrumb__container' );
+	const leftArrow = query< HTMLButtonElement >(
+		block,
+		'.dswp-breadcrumb-arrow--left'
+	);
+	const rightArrow = query< HTMLButtonElement >(
+		block,
+		'.dswp-breadcrumb-arrow--right'
+	);
+
+	if ( ! container || ! leftArrow || ! rightArrow ) {
+		return;
+	}
+
+	const updateArrowVisibility = (): void => {
+		const { scrollLeft, scrollWidth, clientWidth } = container;
+		const canScrollLeft = scrollLeft > 0;
+		const canScrollRight = scrollLeft < scrollWidth - clientWidth - 1;
+
+		leftArrow.classList.toggle( 'is-hidden', ! canScrollLeft );
+		rightArrow.classList.toggle( 'is-hidden', ! canScrollRight );
+		setHidden( leftArrow, ! canScrollLeft );
+		setHidden( rightArrow, ! canScrollRight );
+	};
+
+	leftArrow.addEventListener( 'click', () => {
+		container.scrollBy( { left: -SCROLL_AMOUNT, behavior: 'smooth' } );
+	} );
+
+	rightArrow.addEventListener( 'click', () => {
+		container.scrollBy( { left: SCROLL_AMOUNT, behavior: 'smooth' } );
+	} );
+
+	container.addEventListener( 'scroll', updateArrowVisibility );
+
+	// Initial state and on resize (overflow may change).
+	new ResizeObserver( updateArrowVisibility ).observe( container );
+
+	updateArrowVisibility();
+}
+
+onReady( () => {
+	queryAll(
+		document,
+		'.wp-block-design-system-wordpress-plugin-breadcrumb'
+	).forEach( initBreadcrumb );
+} );
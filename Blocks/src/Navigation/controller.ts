@@ -0,0 +1,633 @@
+/**
+ * Navigation Block Controller
+ *
+ * Owns the runtime state of a single navigation block: the mobile overlay,
+ * submenus, responsive behaviour and keyboard handling. Each state change is
+ * announced with a CustomEvent (see events.ts).
+ *
+ * @since 2.18.0
+ */
+
+import {
+	query,
+	queryAll,
+	readBooleanData,
+	parseBreakpoint,
+	isMobileViewport,
+	setExpanded,
+} from '../../../src/utils';
+import {
+	NAV_BREAKPOINT_CHANGE_EVENT,
+	NAV_CLOSE_EVENT,
+	NAV_DESTROY_EVENT,
+	NAV_OPEN_EVENT,
+	NAV_SUBMENU_TOGGLE_EVENT,
+	dispatchNavigationEvent,
+} from './events';
+import { registerController, unregisterController } from './registry';
+import type {
+	NavigationConfig,
+	NavigationController,
+	NavigationElement,
+	NavigationElements,
+	OverlayMenu,
+} from './types';
+
+export const SUBMENU_SELECTOR = '.wp-block-navigation-submenu';
+export const SUBMENU_CONTAINER_SELECTOR =
+	'.wp-block-navigation__submenu-container';
+export const SUBMENU_TOGGLE_SELECTOR = '.dswp-submenu-toggle';
+
+/**
+ * Reads the configuration rendered onto a navigation block.
+ *
+ * @param nav Navigation block wrapper.
+ * @return Parsed configuration.
+ */
+export function readNavigationConfig(
+	nav: NavigationElement
+): NavigationConfig {
+	let overlayMenu: OverlayMenu = 'never';
+	if ( nav.classList.contains( 'dswp-block-navigation-is-always-overlay' ) ) {
+		overlayMenu = 'always';
+	} else if (
+		nav.classList.contains( 'dswp-block-navigation-is-mobile-overlay' )
+	) {
+		overlayMenu = 'mobile';
+	}
+
+	return {
+		overlayMenu,
+		submenuLayout:
+			nav.dataset.dswpSubmenuLayout === 'mega' ? 'mega' : 'flyout',
+		mobileBreakpoint: parseBreakpoint( nav.dataset.dswpMobileBreakpoint ),
+		showInDesktop: readBooleanData( nav.dataset.showInDesktop ),
+		showInMobile: readBooleanData( nav.dataset.showInMobile ),
+	};
+}
+
+/**
+ * Determines the nesting level of a submenu.
+ *
+ * @param submenu The submenu element to check.
+ * @return The nesting level (1-based).
+ */
+export function getSubmenuLevel( submenu: HTMLElement ): number {
+	let level = 1;
+	let parent = submenu.parentElement;
+	while ( parent ) {
+		if ( parent.classList.contains( 'wp-block-navigation-submenu' ) ) {
+			level++;
+		}
+		parent = parent.parentElement;
+	}
+	return level;
+}
+
+/**
+ * Adjusts the position of a submenu so it remains visible within the viewport.
+ *
+ * @param submenu The submenu element to position.
+ */
+function adjustSubmenuPosition( submenu: HTMLElement ): void {
+	const submenuContainer = query( submenu, SUBMENU_CONTAINER_SELECTOR );
+	if ( ! submenuContainer ) {
+		return;
+	}
+
+	const level = getSubmenuLevel( submenu );
+
+	// Reset position first.
+	if ( level === 1 ) {
+		submenuContainer.style.left = '0%';
+		submenuContainer.style.right = 'auto';
+	} else if ( level >= 2 ) {
+		submenuContainer.style.left = '100%';
+		submenuContainer.style.right = 'auto';
+	}
+
+	// Check viewport boundaries.
+	const rect = submenuContainer.getBoundingClientRect();
+	const viewportWidth = window.innerWidth;
+
+	if ( level === 1 && rect.right > viewportWidth ) {
+		submenuContainer.style.left = 'auto';
+		submenuContainer.style.right = '0%';
+	} else if ( level >= 2 && rect.right > viewportWidth ) {
+		submenuContainer.style.left = 'auto';
+		submenuContainer.style.right = '100%';
+	}
+}
+
+/**
+ * Adds the mega-menu classes to top-level submenus.
+ *
+ * Each top-level submenu container becomes a full-width panel and each of its
+ * direct items becomes a column, headed by the item's own link. The classes
+ * only take effect on desktop; the mobile overlay keeps its accordion layout.
+ *
+ * @param menuContainer The block's top-level list.
+ */
+function initializeMegaMenus( menuContainer: HTMLElement ): void {
+	queryAll( menuContainer, `:scope > ${ SUBMENU_SELECTOR }` ).forEach(
+		( submenu ) => {
+			const panel = query(
+				submenu,
+				`:scope > ${ SUBMENU_CONTAINER_SELECTOR }`
+			);
+			if ( ! panel ) {
+				return;
+			}
+			submenu.classList.add( 'dswp-mega-menu' );
+			panel.classList.add( 'dswp-mega-menu__panel' );
+
+			queryAll( panel, ':scope > .wp-block-navigation-item' ).forEach(
+				( column ) => {
+					column.classList.add( 'dswp-mega-menu__column' );
+					query(
+						column,
+						':scope > .wp-block-navigation-item__content'
+					)?.classList.add( 'dswp-mega-menu__heading' );
+				}
+			);
+		}
+	);
+}
+
+/**
+ * Marks links that point at the current URL (and their items) as active.
+ *
+ * A link with query parameters only matches when they are identical; a link
+ * without query parameters only matches when the current page has none. This
+ * prevents the home link (/) from matching search pages (/?s=...).
+ *
+ * @param nav Navigation block wrapper.
+ */
+function highlightActiveLinks( nav: HTMLElement ): void {
+	const currentUrl = new URL( window.location.href );
+
+	queryAll< HTMLAnchorElement >(
+		nav,
+		'.wp-block-navigation-item__content'
+	).forEach( ( link ) => {
+		const linkUrl = new URL( link.href, window.location.origin );
+
+		if ( linkUrl.pathname !== currentUrl.pathname ) {
+			return;
+		}
+		if ( linkUrl.search !== currentUrl.search ) {
+			return;
+		}
+
+		link.classList.add( 'active' );
+		link.closest( '.wp-block-navigation-item' )?.classList.add( 'active' );
+	} );
+}
+
+/**
+ * Creates the controller for a navigation block and wires up its behaviour.
+ *
+ * @param nav Navigation block wrapper.
+ * @return The controller, or null if the block markup is incomplete.
+ */
+export function createNavigationController(
+	nav: NavigationElement
+): NavigationController | null {
+	const mobileNavIcon = query< HTMLButtonElement >(
+		nav,
+		'.dswp-nav-mobile-toggle-icon'
+	);
+	const menuContainer = query< HTMLUListElement >(
+		nav,
+		'.dswp-block-navigation__container'
+	);
+	if ( ! mobileNavIcon || ! menuContainer ) {
+		return null;
+	}
+
+	// Cache frequently used DOM elements.
+	const elements: NavigationElements = {
+		mobileNavIcon,
+		menuContainer,
+		iconText: query( nav, '.dswp-nav-mobile-menu-icon-text' ),
+		topBar: query< SVGElement >( nav, '.dswp-nav-mobile-menu-top-bar' ),
+		middleBar: query< SVGElement >(
+			nav,
+			'.dswp-nav-mobile-menu-middle-bar'
+		),
+		bottomBar: query< SVGElement >(
+			nav,
+			'.dswp-nav-mobile-menu-bottom-bar'
+		),
+	};
+
+	const config = readNavigationConfig( nav );
+	const isMobileMode = config.overlayMenu === 'mobile';
+	const isAlwaysMode = config.overlayMenu === 'always';
+	const isMobileView = () => isMobileViewport( config.mobileBreakpoint );
+	const isMobileMenu = () =>
+		elements.menuContainer.classList.contains( 'dswp-is-mobile' );
+	const isMegaLayout = () =>
+		config.submenuLayout === 'mega' && ! isMobileMenu();
+	// Submenus nested inside a mega-menu panel are always expanded on desktop.
+	const isInMegaPanel = ( submenu: HTMLElement ) =>
+		isMegaLayout() && getSubmenuLevel( submenu ) >= 2;
+
+	// Every listener is bound to this signal so destroy() can remove them.
+	const listeners = new AbortController();
+	const { signal } = listeners;
+	const arrowButtons: HTMLButtonElement[] = [];
+	let wasMobileView = isMobileView();
+
+	/**
+	 * Sets the open state of the hamburger icon and its label.
+	 *
+	 * @param isOpen Whether the overlay is open.
+	 */
+	function setMenuIconState( isOpen: boolean ): void {
+		if ( elements.iconText ) {
+			elements.iconText.innerText = isOpen ? 'Close menu' : 'Menu';
+		}
+		elements.topBar?.classList.toggle(
+			'dswp-nav-mobile-menu-top-bar-open',
+			isOpen
+		);
+		elements.middleBar?.classList.toggle(
+			'dswp-nav-mobile-menu-middle-bar-open',
+			isOpen
+		);
+		elements.bottomBar?.classList.toggle(
+			'dswp-nav-mobile-menu-bottom-bar-open',
+			isOpen
+		);
+		setExpanded( elements.mobileNavIcon, isOpen );
+	}
+
+	/**
+	 * Resets all submenu arrow rotations to their default state.
+	 */
+	function resetArrowRotations(): void {
+		queryAll( nav, SUBMENU_TOGGLE_SELECTOR ).forEach( ( arrow ) =>
+			setExpanded( arrow, false )
+		);
+	}
+
+	/**
+	 * Opens or closes a submenu and announces the change.
+	 *
+	 * @param submenu The submenu list item.
+	 * @param open    Whether to open it.
+	 */
+	function setSubmenuOpen( submenu: HTMLElement, open: boolean ): void {
+		const submenuContainer = query( submenu, SUBMENU_CONTAINER_SELECTOR );
+		const wasOpen = submenu.classList.contains( 'is-open' );
+
+		submenu.classList.toggle( 'is-open', open );
+		submenuContainer?.classList.toggle( 'is-open', open );
+		setExpanded( query( submenu, SUBMENU_TOGGLE_SELECTOR ), open );
+
+		const level = getSubmenuLevel( submenu );
+		if (
+			open &&
+			! isMobileMenu() &&
+			! isMegaLayout() &&
+			submenuContainer &&
+			level >= 2
+		) {
+			adjustSubmenuPosition( submenu );
+		}
+
+		if ( wasOpen !== open ) {
+			dispatchNavigationEvent( NAV_SUBMENU_TOGGLE_EVENT, {
+				controller,
+				submenu,
+				open,
+				level,
+			} );
+		}
+	}
+
+	/**
+	 * Handles responsive behavior when window is resized.
+	 */
+	function handleResize(): void {
+		if ( isMobileView() ) {
+			elements.mobileNavIcon.style.display = 'flex';
+			elements.menuContainer.style.display = 'none';
+			elements.menuContainer.classList.add( 'dswp-is-mobile' );
+			nav.classList.add( 'dswp-block-navigation-is-mobile-overlay' );
+		} else {
+			const wasOpen = controller.isOpen();
+			elements.mobileNavIcon.style.display = 'none';
+			elements.menuContainer.style.display = 'flex';
+			elements.menuContainer.classList.remove(
+				'dswp-is-mobile',
+				'is-menu-open'
+			);
+			nav.classList.remove( 'dswp-block-navigation-is-mobile-overlay' );
+			setMenuIconState( false );
+			controller.closeAllSubmenus();
+			if ( wasOpen ) {
+				dispatchNavigationEvent( NAV_CLOSE_EVENT, { controller } );
+			}
+		}
+	}
+
+	/**
+	 * Shows or hides the block according to its desktop/mobile visibility.
+	 */
+	function updateDisplay(): void {
+		// If both visibility options are explicitly set to false, show the menu.
+		if ( ! config.showInDesktop && ! config.showInMobile ) {
+			nav.style.display = 'flex';
+			return;
+		}
+
+		const mobile = isMobileView();
+		if ( ! config.showInDesktop && ! mobile ) {
+			nav.style.display = 'none';
+		} else if ( ! config.showInMobile && mobile ) {
+			nav.style.display = 'none';
+		} else {
+			nav.style.display = 'flex';
+		}
+	}
+
+	/**
+	 * Announces crossings of the mobile breakpoint.
+	 */
+	function detectBreakpointChange(): void {
+		const mobile = isMobileView();
+		if ( mobile === wasMobileView ) {
+			return;
+		}
+		wasMobileView = mobile;
+		dispatchNavigationEvent( NAV_BREAKPOINT_CHANGE_EVENT, {
+			controller,
+			isMobile: mobile,
+			breakpoint: config.mobileBreakpoint,
+		} );
+	}
+
+	const controller: NavigationController = {
+		element: nav,
+		config,
+
+		isOpen: () =>
+			elements.menuContainer.classList.contains( 'is-menu-open' ),
+
+		isMobile: isMobileView,
+
+		open() {
+			if ( controller.isOpen() ) {
+				return;
+			}
+			elements.menuContainer.classList.add( 'is-menu-open' );
+			elements.menuContainer.style.display = 'grid';
+			setMenuIconState( true );
+			dispatchNavigationEvent( NAV_OPEN_EVENT, { controller } );
+		},
+
+		close() {
+			if ( ! controller.isOpen() ) {
+				return;
+			}
+			elements.menuContainer.classList.remove( 'is-menu-open' );
+			elements.menuContainer.style.display = 'none';
+			setMenuIconState( false );
+			controller.closeAllSubmenus();
+			dispatchNavigationEvent( NAV_CLOSE_EVENT, { controller } );
+		},
+
+		toggle() {
+			if ( controller.isOpen() ) {
+				controller.close();
+			} else {
+				controller.open();
+			}
+		},
+
+		toggleSubmenu( submenu, open ) {
+			if ( ! nav.contains( submenu ) ) {
+				return;
+			}
+			const shouldOpen =
+				open ?? ! submenu.classList.contains( 'is-open' );
+
+			// On mobile, close other submenus that are not ancestors of this one.
+			if ( shouldOpen && isMobileMenu() ) {
+				const currentPath: HTMLElement[] = [];
+				let parent: HTMLElement | null = submenu;
+				while ( parent ) {
+					currentPath.push( parent );
+					parent =
+						parent.parentElement?.closest< HTMLElement >(
+							SUBMENU_SELECTOR
+						) ?? null;
+				}
+
+				queryAll( nav, `${ SUBMENU_SELECTOR }.is-open` ).forEach(
+					( openSubmenu ) => {
+						if ( ! currentPath.includes( openSubmenu ) ) {
+							setSubmenuOpen( openSubmenu, false );
+						}
+					}
+				);
+			}
+
+			setSubmenuOpen( submenu, shouldOpen );
+		},
+
+		closeAllSubmenus() {
+			queryAll( nav, `${ SUBMENU_SELECTOR }.is-open` ).forEach(
+				( submenu ) => setSubmenuOpen( submenu, false )
+			);
+		},
+
+		destroy() {
+			listeners.abort();
+			arrowButtons.forEach( ( button ) => button.remove() );
+			[
+				'dswp-mega-menu',
+				'dswp-mega-menu__panel',
+				'dswp-mega-menu__column',
+				'dswp-mega-menu__heading',
+			].forEach( ( className ) =>
+				queryAll( nav, `.${ className }` ).forEach( ( element ) =>
+					element.classList.remove( className )
+				)
+			);
+			nav.style.removeProperty( 'display' );
+			elements.mobileNavIcon.style.removeProperty( 'display' );
+			elements.menuContainer.style.removeProperty( 'display' );
+			unregisterController( controller );
+			dispatchNavigationEvent( NAV_DESTROY_EVENT, { controller } );
+		},
+	};
+
+	if ( config.submenuLayout === 'mega' ) {
+		initializeMegaMenus( elements.menuContainer );
+	}
+
+	// Set initial states.
+	if (
+		isAlwaysMode ||
+		nav.classList.contains( 'dswp-block-navigation-is-mobile-only' )
+	) {
+		elements.mobileNavIcon.style.display = 'flex';
+		elements.menuContainer.style.display = 'none';
+		elements.menuContainer.classList.add( 'dswp-is-mobile' );
+	} else if ( isMobileMode ) {
+		handleResize();
+	}
+
+	window.addEventListener(
+		'resize',
+		() => {
+			if ( isMobileMode ) {
+				handleResize();
+			}
+			updateDisplay();
+			detectBreakpointChange();
+		},
+		{ signal }
+	);
+
+	// Mobile menu toggle functionality.
+	elements.mobileNavIcon.addEventListener( 'click', controller.toggle, {
+		signal,
+	} );
+
+	// Close menu when clicking outside.
+	document.addEventListener(
+		'click',
+		( event ) => {
+			if ( nav.contains( event.target as Node ) ) {
+				return;
+			}
+
+			if ( isMobileView() ) {
+				// Mobile mode - close everything.
+				controller.close();
+			} else {
+				// Desktop mode - only close submenus.
+				controller.closeAllSubmenus();
+				resetArrowRotations();
+			}
+		},
+		{ signal }
+	);
+
+	// Handle escape key.
+	document.addEventListener(
+		'keydown',
+		( event ) => {
+			if ( event.key !== 'Escape' ) {
+				return;
+			}
+
+			// Return focus to the toggle of a mega-menu panel being closed.
+			const activeElement = nav.ownerDocument.activeElement;
+			const megaMenu = isMegaLayout()
+				? activeElement?.closest< HTMLElement >( '.dswp-mega-menu' )
+				: null;
+			if ( megaMenu && nav.contains( megaMenu ) ) {
+				query( megaMenu, SUBMENU_TOGGLE_SELECTOR )?.focus();
+			}
+
+			controller.close();
+			controller.closeAllSubmenus();
+			resetArrowRotations();
+		},
+		{ signal }
+	);
+
+	// Initialize submenu functionality.
+	queryAll< HTMLAnchorElement >(
+		nav,
+		`${ SUBMENU_SELECTOR } > .wp-block-navigation-item__content`
+	).forEach( ( link ) => {
+		const submenu = link.closest< HTMLElement >( SUBMENU_SELECTOR );
+		if ( ! submenu || ! query( submenu, SUBMENU_CONTAINER_SELECTOR ) ) {
+			return;
+		}
+
+		// Create submenu toggle button.
+		const arrowButton = document.createElement( 'button' );
+		arrowButton.className = 'dswp-submenu-toggle';
+		setExpanded( arrowButton, false );
+		arrowButton.setAttribute( 'aria-label', 'Toggle submenu' );
+		link.parentNode?.insertBefore( arrowButton, link.nextSibling );
+		arrowButtons.push( arrowButton );
+
+		// Handle keyboard interaction.
+		arrowButton.addEventListener(
+			'keydown',
+			( e ) => {
+				if ( e.key !== 'Enter' && e.key !== ' ' ) {
+					return;
+				}
+				e.preventDefault();
+				controller.toggleSubmenu( submenu );
+			},
+			{ signal }
+		);
+
+		// Handle submenu toggle click (mobile only).
+		arrowButton.addEventListener(
+			'click',
+			() => {
+				if ( isMobileMenu() ) {
+					controller.toggleSubmenu( submenu );
+				}
+			},
+			{ signal }
+		);
+
+		// Close a mega-menu panel once keyboard focus leaves it.
+		if ( submenu.classList.contains( 'dswp-mega-menu' ) ) {
+			submenu.addEventListener(
+				'focusout',
+				( event ) => {
+					const next = event.relatedTarget as Node | null;
+					if (
+						isMegaLayout() &&
+						( ! next || ! submenu.contains( next ) )
+					) {
+						setSubmenuOpen( submenu, false );
+					}
+				},
+				{ signal }
+			);
+		}
+
+		// Add hover functionality for desktop.
+		if ( ! isMobileMenu() ) {
+			submenu.addEventListener(
+				'mouseenter',
+				() => {
+					if ( ! isMobileMenu() && ! isInMegaPanel( submenu ) ) {
+						setSubmenuOpen( submenu, true );
+					}
+				},
+				{ signal }
+			);
+
+			submenu.addEventListener(
+				'mouseleave',
+				() => {
+					if ( ! isMobileMenu() && ! isInMegaPanel( submenu ) ) {
+						setSubmenuOpen( submenu, false );
+					}
+				},
+				{ signal }
+			);
+		}
+	} );
+
+	highlightActiveLinks( nav );
+	updateDisplay();
+	registerController( controller );
+
+	return controller;
+}
@@ -28,6 +28,11 @@ const ALLOWED_BLOCKS = [
 	'core/spacer',
 ];
 
+const SUBMENU_LAYOUT_OPTIONS = [
+	{ label: __( 'Flyout', 'dswp' ), value: 'flyout' },
+	{ label: __( 'Mega menu', 'dswp' ), value: 'mega' },
+];
+
 /**
  * Navigation Inner Blocks Component
  * Uses EntityProvider context to get blocks from wp_navigation
@@ -83,6 +88,7 @@ export default function Edit( { attributes, setAttributes } ) {
 		menuId, // Keep menuId for backward compatibility, but also support ref
 		ref, // WordPress core uses 'ref'
 		overlayMenu = 'never',
+		submenuLayout = 'flyout',
 		mobileBreakpoint = 768,
 		showInDesktop,
 		showInMobile,
@@ -107,7 +113,12 @@ export default function Edit( { attributes, setAttributes } ) {
 	 * Memoized to prevent unnecessary re-renders
 	 */
 	const blockProps = useBlockProps( {
-		className: `dswp-block-navigation-is-${ overlayMenu }-overlay`,
+		className: [
+			`dswp-block-navigation-is-${ overlayMenu }-overlay`,
+			submenuLayout === 'mega' && 'dswp-block-navigation-has-mega-menu',
+		]
+			.filter( Boolean )
+			.join( ' ' ),
 		'data-dswp-mobile-breakpoint': mobileBreakpoint,
 	} );
 
@@ -267,6 +278,19 @@ export default function Edit( { attributes, setAttributes } ) {
 							</Button>
 						</ButtonGroup>
 
+						<SelectControl
+							label={ __( 'Submenu Layout', 'dswp' ) }
+							help={ __(
+								'Mega menu shows top-level submenus as a full-width panel on desktop, with a column for each second-level item.',
+								'dswp'
+							) }
+							value={ submenuLayout }
+							options={ SUBMENU_LAYOUT_OPTIONS }
+							onChange={ ( value ) =>
+								setAttributes( { submenuLayout: value } )
+							}
+						/>
+
 						{ ( showInDesktop ||
 							showInMobile ||
 							overlayMenu === 'mobile' ) && (
@@ -395,6 +419,19 @@ export default function Edit( { attributes, setAttributes } ) {
 							</Button>
 						</ButtonGroup>
 
+						<SelectControl
+							label={ __( 'Submenu Layout', 'dswp' ) }
+							help={ __(
+								'Mega menu shows top-level submenus as a full-width panel on desktop, with a column for each second-level item.',
+								'dswp'
+							) }
+							value={ submenuLayout }
+							options={ SUBMENU_LAYOUT_OPTIONS }
+							onChange={ ( value ) =>
+								setAttributes( { submenuLayout: value } )
+							}
+						/>
+
 						{ ( showInDesktop ||
 							showInMobile ||
 							overlayMenu === 'mobile' ) && (
@@ -0,0 +1,105 @@
+/**
+ * Navigation Block Events
+ *
+ * CustomEvents dispatched on the `<nav>` element. All events bubble, so a
+ * theme can listen once on `document`:
+ *
+ *     document.addEventListener( 'dswp:nav:open', ( event ) => {
+ *         document.body.classList.add( 'is-scroll-locked' );
+ *     } );
+ *
+ * @since 2.18.0
+ */
+
+import type { NavigationController } from './types';
+
+export const NAV_INIT_EVENT = 'dswp:nav:init';
+export const NAV_OPEN_EVENT = 'dswp:nav:open';
+export const NAV_CLOSE_EVENT = 'dswp:nav:close';
+export const NAV_SUBMENU_TOGGLE_EVENT = 'dswp:nav:submenu-toggle';
+export const NAV_BREAKPOINT_CHANGE_EVENT = 'dswp:nav:breakpoint-change';
+export const NAV_DESTROY_EVENT = 'dswp:nav:destroy';
+
+/**
+ * Detail shared by every navigation event.
+ */
+export interface NavigationEventDetail {
+	controller: NavigationController;
+}
+
+/**
+ * Detail for `dswp:nav:submenu-toggle`.
+ */
+export interface NavigationSubmenuToggleDetail extends NavigationEventDetail {
+	/** The `.wp-block-navigation-submenu` item that changed. */
+	submenu: HTMLElement;
+	/** Whether the submenu is now open. */
+	open: boolean;
+	/** Nesting level of the submenu (1-based). */
+	level: number;
+}
+
+/**
+ * Detail for `dswp:nav:breakpoint-change`.
+ */
+export interface NavigationBreakpointChangeDetail
+	extends NavigationEventDetail {
+	/** Whether the viewport is now at or below the breakpoint. */
+	isMobile: boolean;
+	/** The block's mobile breakpoint in px. */
+	breakpoint: number;
+}
+
+/**
+ * Maps event names to their detail payloads.
+ */
+export interface NavigationEventDetailMap {
+	[ NAV_INIT_EVENT ]: NavigationEventDetail;
+	[ NAV_OPEN_EVENT ]: NavigationEventDetail;
+	[ NAV_CLOSE_EVENT ]: NavigationEventDetail;
+	[ NAV_SUBMENU_TOGGLE_EVENT ]: NavigationSubmenuToggleDetail;
+	[ NAV_BREAKPOINT_CHANGE_EVENT ]: NavigationBreakpointChangeDetail;
+	[ NAV_DESTROY_EVENT ]: NavigationEventDetail;
+}
+
+/**
+ * Event map for typed `addEventListener` calls.
+ */
+export type NavigationEventMap = {
+	[ K in keyof NavigationEventDetailMap ]: CustomEvent<
+		NavigationEventDetailMap[ K ]
+	>;
+};
+
+declare global {
+	interface DocumentEventMap {
+		[ NAV_INIT_EVENT ]: CustomEvent< NavigationEventDetail >;
+		[ NAV_OPEN_EVENT ]: CustomEvent< NavigationEventDetail >;
+		[ NAV_CLOSE_EVENT ]: CustomEvent< NavigationEventDetail >;
+		[ NAV_SUBMENU_TOGGLE_EVENT ]: CustomEvent< NavigationSubmenuToggleDetail >;
+		[ NAV_BREAKPOINT_CHANGE_EVENT ]: CustomEvent< NavigationBreakpointChangeDetail >;
+		[ NAV_DESTROY_EVENT ]: CustomEvent< NavigationEventDetail >;
+	}
+	interface HTMLElementEventMap {
+		[ NAV_INIT_EVENT ]: CustomEvent< NavigationEventDetail >;
+		[ NAV_OPEN_EVENT ]: CustomEvent< NavigationEventDetail >;
+		[ NAV_CLOSE_EVENT ]: CustomEvent< NavigationEventDetail >;
+		[ NAV_SUBMENU_TOGGLE_EVENT ]: CustomEvent< NavigationSubmenuToggleDetail >;
+		[ NAV_BREAKPOINT_CHANGE_EVENT ]: CustomEvent< NavigationBreakpointChangeDetail >;
+		[ NAV_DESTROY_EVENT ]: CustomEvent< NavigationEventDetail >;
+	}
+}
+
+/**
+ * Dispatches a navigation event on the controller's element.
+ *
+ * @param name   Event name.
+ * @param detail Event payload.
+ */
+export function dispatchNavigationEvent<
+	K extends keyof NavigationEventDetailMap,
+>( name: K, detail: NavigationEventDetailMap[ K ] ): void {
+	detail.controller.element.dispatchEvent(
+		new CustomEvent( name, { bubbles: true, detail } )
+	);
+}
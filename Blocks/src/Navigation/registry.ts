@@ -0,0 +1,37 @@
+/**
+ * Navigation Block Controller Registry
+ *
+ * Tracks the controller created for each navigation block on the page and
+ * backs the `window.dswpNavigation` global.
+ *
+ * @since 2.18.0
+ */
+
+import type { NavigationController, NavigationRegistry } from './types';
+
+const controllers = new Map< Element, NavigationController >();
+
+/**
+ * Adds a controller to the registry.
+ *
+ * @param controller Controller to register.
+ */
+export function registerController( controller: NavigationController ): void {
+	controllers.set( controller.element, controller );
+}
+
+/**
+ * Removes a controller from the registry.
+ *
+ * @param controller Controller to remove.
+ */
+export function unregisterController( controller: NavigationController ): void {
+	if ( controllers.get( controller.element ) === controller ) {
+		controllers.delete( controller.element );
+	}
+}
+
+export const registry: NavigationRegistry = {
+	get: ( nav ) => controllers.get( nav ),
+	getAll: () => Array.from( controllers.values() ),
+};
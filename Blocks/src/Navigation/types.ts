@@ -0,0 +1,112 @@
+/**
+ * Navigation Block Frontend Types
+ *
+ * Describes the markup contract between render.php and view.ts so that
+ * extensions can rely on it at compile time.
+ *
+ * @since 2.18.0
+ */
+
+/**
+ * Values accepted by the block's `overlayMenu` attribute.
+ */
+export type OverlayMenu = 'never' | 'mobile' | 'always';
+
+/**
+ * Values accepted by the block's `submenuLayout` attribute.
+ */
+export type SubmenuLayout = 'flyout' | 'mega';
+
+/**
+ * `data-*` attributes written onto the `<nav>` wrapper by render.php.
+ */
+export interface NavigationDataset extends DOMStringMap {
+	/** Width in px at or below which the mobile overlay is used. */
+	dswpMobileBreakpoint?: string;
+	/** How top-level submenus are laid out on desktop. */
+	dswpSubmenuLayout?: SubmenuLayout;
+	/** "true" when the block should be visible on desktop. */
+	showInDesktop?: 'true' | 'false';
+	/** "true" when the block should be visible on mobile. */
+	showInMobile?: 'true' | 'false';
+}
+
+/**
+ * A navigation block wrapper as rendered on the frontend.
+ */
+export interface NavigationElement extends HTMLElement {
+	readonly dataset: NavigationDataset;
+}
+
+/**
+ * Parsed configuration for a single navigation block.
+ */
+export interface NavigationConfig {
+	overlayMenu: OverlayMenu;
+	submenuLayout: SubmenuLayout;
+	mobileBreakpoint: number;
+	showInDesktop: boolean;
+	showInMobile: boolean;
+}
+
+/**
+ * Frequently used elements inside a navigation block.
+ */
+export interface NavigationElements {
+	mobileNavIcon: HTMLButtonElement;
+	menuContainer: HTMLUListElement;
+	iconText: HTMLElement | null;
+	topBar: SVGElement | null;
+	middleBar: SVGElement | null;
+	bottomBar: SVGElement | null;
+}
+
+/**
+ * Public controller for a single navigation block.
+ *
+ * Obtain one with `window.dswpNavigation.get( nav )` or from the `controller`
+ * property of the `dswp:nav:init` event.
+ */
+export interface NavigationController {
+	/** The `<nav>` element this controller manages. */
+	readonly element: NavigationElement;
+	/** Configuration read from the block markup. */
+	readonly config: NavigationConfig;
+	/** Whether the overlay menu is open. */
+	isOpen: () => boolean;
+	/** Whether the viewport is at or below the block's mobile breakpoint. */
+	isMobile: () => boolean;
+	/** Opens the overlay menu. */
+	open: () => void;
+	/** Closes the overlay menu and any open submenus. */
+	close: () => void;
+	/** Opens the overlay menu if closed, closes it otherwise. */
+	toggle: () => void;
+	/**
+	 * Opens or closes a submenu.
+	 *
+	 * @param submenu A `.wp-block-navigation-submenu` item inside this block.
+	 * @param open    Force the submenu open or closed; toggles when omitted.
+	 */
+	toggleSubmenu: ( submenu: HTMLElement, open?: boolean ) => void;
+	/** Closes every open submenu. */
+	closeAllSubmenus: () => void;
+	/** Removes all listeners and generated markup added by the script. */
+	destroy: () => void;
+}
+
+/**
+ * Global registry exposed as `window.dswpNavigation`.
+ */
+export interface NavigationRegistry {
+	/** Returns the controller for a navigation element, if initialised. */
+	get: ( nav: Element ) => NavigationController | undefined;
+	/** Returns the controllers for every initialised navigation block. */
+	getAll: () => NavigationController[];
+}
+
+declare global {
+	interface Window {
+		dswpNavigation?: NavigationRegistry;
+	}
+}
@@ -0,0 +1,36 @@
+/**
+ * Navigation Block Frontend Script
+ *
+ * Creates a controller for every navigation block on the page and exposes
+ * them through `window.dswpNavigation`. Each block announces itself with a
+ * `dswp:nav:init` event once its controller is ready.
+ *
+ * @since 1.0.0
+ */
+
+import { onReady, queryAll } from '../../../src/utils';
+import { createNavigationController } from './controller';
+import { NAV_INIT_EVENT, dispatchNavigationEvent } from './events';
+import { registry } from './registry';
+import type { NavigationElement } from './types';
+
+const NAV_SELECTOR =
+	'.dswp-block-navigation-is-mobile-overlay, ' +
+	'.dswp-block-navigation-is-always-overlay, ' +
+	'.dswp-block-navigation-is-never-overlay';
+
+window.dswpNavigation = registry;
+
+onReady( () => {
+	queryAll< NavigationElement >( document, NAV_SELECTOR ).forEach(
+		( nav ) => {
+			if ( registry.get( nav ) ) {
+				return;
+			}
+			const controller = createNavigationController( nav );
+			if ( controller ) {
+				dispatchNavigationEvent( NAV_INIT_EVENT, { controller } );
+			}
+		}
+	);
+} );
@@ -0,0 +1,159 @@
+/**
+ * WordPress Block Editor and Component Imports
+ * Importing necessary components for block editing interface
+ */
+import {
+	useBlockProps,
+	InspectorControls,
+	RichText,
+	store as blockEditorStore,
+} from '@wordpress/block-editor';
+import { PanelBody, RadioControl, ToggleControl } from '@wordpress/components';
+import { useSelect } from '@wordpress/data';
+import { useEffect } from '@wordpress/element';
+import { __ } from '@wordpress/i18n';
+// Import block metadata
+import metadata from '../block.json';
+
+/**
+ * Banner colors, matching NotificationBanner::get_color_options() and
+ * the severity classes from NotificationBanner::SEVERITY_MAP.
+ */
+const COLOR_OPTIONS = [
+	{
+		label: __( 'Warning', 'dswp' ),
+		value: 'var(--dswp-icons-color-warning)',
+		severity: 'warning',
+	},
+	{
+		label: __( 'Danger', 'dswp' ),
+		value: 'var(--dswp-icons-color-danger)',
+		severity: 'danger',
+	},
+	{
+		label: __( 'Success', 'dswp' ),
+		value: 'var(--dswp-icons-color-success)',
+		severity: 'success',
+	},
+	{
+		label: __( 'Info', 'dswp' ),
+		value: 'var(--dswp-icons-color-info)',
+		severity: 'info',
+	},
+	{ label: __( 'Black', 'dswp' ), value: '#2d2d2d', severity: 'neutral' },
+];
+
+/**
+ * Edit Component for Notification Banner Block
+ *
+ * @param {Object}   props               - Component properties
+ * @param {Object}   props.attributes    - Block attributes
+ * @param {Function} props.setAttributes - Function to update block attributes
+ * @param {string}   props.clientId      - Block client ID
+ * @return {JSX.Element} Rendered edit interface for the notification banner block
+ */
+export default function Edit( { attributes, setAttributes, clientId } ) {
+	const { message, color, dismissible, bannerId } = attributes;
+	const blockProps = useBlockProps();
+
+	/**
+	 * Whether an earlier banner has the same ID, e.g. after this one was
+	 * duplicated or pasted. The earlier banner keeps the ID, so visitors who
+	 * closed it do not see it again.
+	 */
+	const isDuplicateId = useSelect(
+		( select ) => {
+			if ( ! bannerId ) {
+				return false;
+			}
+
+			const {
+				getClientIdsWithDescendants,
+				getBlockName,
+				getBlockAttributes,
+			} = select( blockEditorStore );
+			const firstWithId = getClientIdsWithDescendants().find(
+				( id ) =>
+					getBlockName( id ) === metadata.name &&
+					getBlockAttributes( id )?.bannerId === bannerId
+			);
+
+			return firstWithId !== undefined && firstWithId !== clientId;
+		},
+		[ bannerId, clientId ]
+	);
+
+	// Give the banner a stable ID, used to remember that a visitor closed it.
+	useEffect( () => {
+		if ( ! bannerId || isDuplicateId ) {
+			setAttributes( { bannerId: clientId.slice( 0, 8 ) } );
+		}
+	}, [ bannerId, isDuplicateId, clientId, setAttributes ] );
+
+	const severity =
+		COLOR_OPTIONS.find( ( option ) => option.value === color )?.severity ??
+		'warning';
+
+	return (
+		<>
+			{ /* Inspector Controls for Block Settings */ }
+			<InspectorControls>
+				<PanelBody title={ __( 'Banner Settings', 'dswp' ) }>
+					<RadioControl
+						label={ __( 'Banner Color', 'dswp' ) }
+						selected={ color }
+						options={ COLOR_OPTIONS.map( ( { label, value } ) => ( {
+							label,
+							value,
+						} ) ) }
+						onChange={ ( value ) =>
+							setAttributes( { color: value } )
+						}
+					/>
+					<ToggleControl
+						label={ __( 'Let visitors close the banner', 'dswp' ) }
+						help={ __(
+							'A closed banner stays hidden in that browser until its content changes.',
+							'dswp'
+						) }
+						checked={ dismissible }
+						onChange={ ( value ) =>
+							setAttributes( { dismissible: value } )
+						}
+					/>
+				</PanelBody>
+				<div className="dswp-block-version">
+					{ __( 'Block Version:', 'dswp' ) } { metadata.version }
+				</div>
+			</InspectorControls>
+
+			{ /* Editor Preview Container */ }
+			<div { ...blockProps }>
+				<div
+					className={ `dswp-notification-banner dswp-notification-banner--${ severity }${
+						dismissible ? ' is-dismissible' : ''
+					}` }
+				>
+					<RichText
+						tagName="div"
+						className="dswp-notification-banner__message"
+						value={ message }
+						onChange={ ( value ) =>
+							setAttributes( { message: value } )
+						}
+						placeholder={ __( 'Write the notification…', 'dswp' ) }
+						aria-label={ __( 'Notification message', 'dswp' ) }
+					/>
+					{ dismissible && (
+						<span
+							className="dswp-notification-banner__dismiss"
+							aria-hidden="true"
+						>
+							&times;
+						</span>
+					) }
+				</div>
+			</div>
+		</>
+	);
+}
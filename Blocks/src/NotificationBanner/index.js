@@ -0,0 +1,35 @@
+/**
+ * WordPress Dependencies
+ * Imports necessary WordPress block registration and related functions
+ */
+import { registerBlockType } from '@wordpress/blocks';
+
+/**
+ * Internal Dependencies
+ * Imports the Edit component, block metadata, and styles
+ */
+import Edit from './edit';
+import metadata from './block.json';
+import './editor.scss';
+
+/**
+ * Register Notification Banner Block
+ *
+ * @description Registers a block for placing an alert on a page or template part
+ * @param {string} metadata.name      - The block's unique identifier
+ * @param {Object} blockConfiguration - Configuration object for the block
+ */
+registerBlockType( metadata.name, {
+	/**
+	 * Edit Component
+	 * Renders the block's interface in the WordPress block editor
+	 */
+	edit: Edit,
+
+	/**
+	 * Save Method
+	 * Returns null as the block's content is rendered dynamically via PHP
+	 * @return {null} This block is dynamic and does not save content to the post content.
+	 */
+	save: () => null,
+} );
@@ -50,6 +50,10 @@ export default defineUserConfig({
 						text: "BreadCrumb Block",
 						link: "/guide/SiteEditor/BreadCrumbBlock",
 					},
+					{
+						text: "Skip Navigation",
+						link: "/guide/SiteEditor/SkipNavigation",
+					},
 				],
 			},
 			{
@@ -13,55 +13,212 @@ class ContentSecurityPolicy {
 
     const OPTION_PREFIX = 'dswp_csp_';
 
+    /**
+     * Settings group for the Content Security Policy page.
+     *
+     * Separate from the plugin's other settings pages, since options.php
+     * saves every option in the submitted group that is missing from the form.
+     *
+     * @var string
+     */
+    const OPTION_GROUP = 'dswp_csp_options_group';
+
+    /**
+     * How the policy is applied:
+     * - enforce: block violations
+     * - report-only: report violations without blocking them
+     * - both: block violations and report them
+     *
+     * @var string[]
+     */
+    const MODES = [ 'enforce', 'report-only', 'both' ];
+
+    /**
+     * Name of the Reporting API endpoint used by the `report-to` directive.
+     *
+     * @var string
+     */
+    const REPORT_GROUP = 'dswp-csp';
+
+    /**
+     * Keywords that can be saved. Nonces and hashes are not included, as
+     * nonces change on every request and the saved value cannot hold hashes.
+     * Kept in sync with src/scripts/csp-sources.ts.
+     *
+     * @var string[]
+     */
+    const SOURCE_KEYWORDS = [ "'self'", "'none'", "'strict-dynamic'", "'unsafe-hashes'", "'report-sample'", "'wasm-unsafe-eval'" ];
+
+    /**
+     * Keywords that are never saved.
+     *
+     * @var string[]
+     */
+    const DISALLOWED_KEYWORDS = [ "'unsafe-inline'", "'unsafe-eval'" ];
+
+    /**
+     * A scheme source, e.g. "data:" or "https:".
+     *
+     * @var string
+     */
+    const SCHEME_PATTERN = '/^[a-z][a-z0-9.-]*:$/';
+
+    /**
+     * A host source with optional scheme, wildcard subdomain, port and path,
+     * e.g. "https://*.example.com:8080/path".
+     *
+     * @var string
+     */
+    const HOST_PATTERN = '#^(?:[a-z][a-z0-9.-]*://)?(?:\*|(?:\*\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)*)(?::(?:\d{1,5}|\*))?(?:/[a-z0-9./-]*)?$#';
+
+    /**
+     * Violation report collection.
+     *
+     * @var ContentSecurityPolicy\Reports|null
+     */
+    private $reports;
+
+    /**
+     * Script and style nonces.
+     *
+     * @var ContentSecurityPolicy\Nonces|null
+     */
+    private $nonces;
+
+    /**
+     * Security headers sent with the policy.
+     *
+     * @var ContentSecurityPolicy\SecurityHeaders|null
+     */
+    private $security_headers;
+
+    /**
+     * Post and page rule additions to the policy.
+     *
+     * @var ContentSecurityPolicy\Overrides|null
+     */
+    private $overrides;
+
+    /**
+     * Presets of sources for common services.
+     *
+     * @var ContentSecurityPolicy\Presets|null
+     */
+    private $presets;
+
+    /**
+     * Settings export and import.
+     *
+     * @var ContentSecurityPolicy\ImportExport|null
+     */
+    private $import_export;
+
+    /**
+     * Checks pages against the unsaved policy.
+     *
+     * @var ContentSecurityPolicy\Evaluator|null
+     */
+    private $evaluator;
+
+    /**
+     * Hook suffix of the Content Security Policy page, set when the menu is added.
+     *
+     * @var string|false
+     */
+    private $page_hook = false;
+
     const CSP_SETTINGS = [
-        'default-src' => [
+        'default-src'     => [
             'option'      => 'default_src',
             'title'       => 'Default-src Policy',
             'description' => 'Fallback whitelist item for most sources. Default includes: ',
             'default'     => "'self' gov.bc.ca *.gov.bc.ca data: *.twimg.com",
         ],
-        'script-src'  => [
+        'script-src'      => [
             'option'      => 'script_src',
             'title'       => 'Script-src Policy',
             'description' => 'Allowlist for script sources. Default includes: ',
             'default'     => "'self' 'unsafe-inline' 'unsafe-eval' gov.bc.ca *.gov.bc.ca *.twimg.com *.flickr.com",
         ],
-        'style-src'   => [
+        'style-src'       => [
             'option'      => 'style_src',
             'title'       => 'Style-src Policy',
             'description' => 'Allowlist for CSS stylesheet sources. Default includes: ',
             'default'     => "'self' 'unsafe-inline' *.twimg.com",
         ],
-        'connect-src' => [
+        'connect-src'     => [
             'option'      => 'connect_src',
             'title'       => 'Connect-src Policy',
             'description' => 'Permitted origins for direct JavaScript connections. Default includes: ',
             'default'     => "'self' gov.bc.ca *.gov.bc.ca *.flickr.com",
         ],
-        'img-src'     => [
+        'img-src'         => [
             'option'      => 'img_src',
             'title'       => 'Img-src Policy',
             'description' => 'Restrict image sources. Default includes: ',
             'default'     => "'self' data: gov.bc.ca *.gov.bc.ca *.twimg.com *.staticflickr.com",
         ],
-        'font-src'    => [
+        'font-src'        => [
             'option'      => 'font_src',
             'title'       => 'Font-src Policy',
             'description' => 'Permitted sources for loading fonts. Default includes: ',
             'default'     => "'self' 'unsafe-inline' data:",
         ],
-        'media-src'   => [
+        'media-src'       => [
             'option'      => 'media_src',
             'title'       => 'Media-src Policy',
             'description' => 'Restrict origins for loading sound and video resources. Default includes: ',
             'default'     => "'self' 'unsafe-inline'",
         ],
-        'frame-src'   => [
+        'frame-src'       => [
             'option'      => 'frame_src',
             'title'       => 'Frame-src Policy',
             'description' => 'Restrict permitted URLs for JavaScript workers and embedded frame contents. Default includes: ',
             'default'     => "'self' gov.bc.ca *.gov.bc.ca youtube.com *.youtube.com youtu.be",
         ],
+        'worker-src'      => [
+            'option'      => 'worker_src',
+            'title'       => 'Worker-src Policy',
+            'description' => 'Permitted sources for Worker, SharedWorker and ServiceWorker scripts. Default includes: ',
+            'default'     => "'self' blob:",
+        ],
+        'child-src'       => [
+            'option'      => 'child_src',
+            'title'       => 'Child-src Policy',
+            'description' => 'Fallback for frames and workers in browsers without Frame-src or Worker-src support. Default includes: ',
+            'default'     => "'self' gov.bc.ca *.gov.bc.ca youtube.com *.youtube.com youtu.be",
+        ],
+        'object-src'      => [
+            'option'      => 'object_src',
+            'title'       => 'Object-src Policy',
+            'description' => 'Permitted sources for <object> and <embed> plugin content. Default includes: ',
+            'default'     => "'none'",
+        ],
+        'manifest-src'    => [
+            'option'      => 'manifest_src',
+            'title'       => 'Manifest-src Policy',
+            'description' => 'Permitted sources for web app manifests. Default includes: ',
+            'default'     => "'self'",
+        ],
+        'base-uri'        => [
+            'option'      => 'base_uri',
+            'title'       => 'Base-uri Policy',
+            'description' => 'Restrict URLs that can be used in a <base> element. Default includes: ',
+            'default'     => "'self'",
+        ],
+        'form-action'     => [
+            'option'      => 'form_action',
+            'title'       => 'Form-action Policy',
+            'description' => 'Restrict URLs that forms can submit to. Default includes: ',
+            'default'     => "'self'",
+        ],
+        'frame-ancestors' => [
+            'option'           => 'frame_ancestors',
+            'title'            => 'Frame-ancestors Policy',
+            'description'      => 'Restrict sites that can embed this site in a frame. Use \'none\' to block all framing. Saved sources replace the default; if none are saved, the default is used: ',
+            'default'          => "'self'",
+            'replaces_default' => true,
+        ],
     ];
 
     /**
@@ -70,52 +227,125 @@ class ContentSecurityPolicy {
     public function register_settings() {
         foreach ( self::CSP_SETTINGS as $setting ) {
             // Register each CSP setting with validation logic.
-            register_setting( 'dswp_options_group', self::OPTION_PREFIX . $setting['option'], [ $this, 'validate_csp_input' ] );
+            register_setting( self::OPTION_GROUP, self::OPTION_PREFIX . $setting['option'], [ $this, 'validate_csp_input' ] );
         }
+
+        register_setting( self::OPTION_GROUP, self::OPTION_PREFIX . 'mode', [ $this, 'sanitize_mode' ] );
+        register_setting( self::OPTION_GROUP, self::OPTION_PREFIX . 'upgrade_insecure_requests', [ $this->get_security_headers(), 'sanitize_flag' ] );
+        register_setting( self::OPTION_GROUP, ContentSecurityPolicy\Nonces::OPTION, [ $this->get_nonces(), 'sanitize_mode' ] );
+        $this->get_security_headers()->register_settings();
+        register_setting( self::OPTION_GROUP, ContentSecurityPolicy\Overrides::RULES_OPTION, [ $this->get_overrides(), 'sanitize_rules' ] );
     }
 
     /**
-     * Validates the CSP input values.
+     * Sanitizes the policy mode setting.
+     *
+     * @param string $mode The mode to sanitize.
+     * @return string One of MODES, or 'enforce' if invalid.
+     */
+    public function sanitize_mode( $mode ) {
+        return in_array( $mode, self::MODES, true ) ? $mode : 'enforce';
+    }
+
+    /**
+     * Gets how the policy is applied.
+     *
+     * @return string One of MODES.
+     */
+    public function get_mode() {
+        return $this->sanitize_mode( get_option( self::OPTION_PREFIX . 'mode', 'enforce' ) );
+    }
+
+    /**
+     * Checks whether the policy asks browsers to load http:// resources over https://.
+     *
+     * @return bool True if upgrade-insecure-requests is sent.
+     */
+    public function upgrades_insecure_requests() {
+        return '1' === (string) get_option( self::OPTION_PREFIX . 'upgrade_insecure_requests', '1' );
+    }
+
+    /**
+     * Validates the CSP input values, one source at a time.
+     *
+     * Invalid sources and disallowed keywords are removed, with a settings error listing them.
      *
      * @param string $input The input value to validate.
-     * @return string The sanitized and validated input value.
+     * @return string The valid sources, space separated.
      */
     public function validate_csp_input( $input ) {
         // Normalize input: decode entities and convert to lowercase.
-        $input = strtolower( html_entity_decode( $input, ENT_QUOTES ) );
+        $input = strtolower( html_entity_decode( (string) $input, ENT_QUOTES ) );
 
-        // Remove disallowed keywords and track which were found.
-        $disallowed_keywords = [ "'unsafe-inline'", "'unsafe-eval'" ];
-        $found_keywords      = [];
+        $sources        = [];
+        $found_keywords = [];
+        $invalid        = [];
 
-        foreach ( $disallowed_keywords as $keyword ) {
-            if ( strpos( $input, $keyword ) !== false ) {
-                $found_keywords[] = $keyword;
-                $input            = str_replace( $keyword, '', $input );
+        foreach ( preg_split( '/\s+/', $input, -1, PREG_SPLIT_NO_EMPTY ) as $source ) {
+            // Remove invalid characters: keep alphanumeric, hyphens, colons, periods, slashes, asterisks, and single quotes.
+            $source = preg_replace( '/[^a-z0-9\-:\.\/\*\']/', '', $source );
+
+            if ( in_array( $source, self::DISALLOWED_KEYWORDS, true ) ) {
+                $found_keywords[] = $source;
+            } elseif ( $this->is_valid_source( $source ) ) {
+                $sources[] = $source;
+            } elseif ( '' !== $source ) {
+                $invalid[] = $source;
             }
         }
 
-        $input = trim( $input );
-
         // If only disallowed keywords were provided, show error and reject.
-        if ( empty( $input ) && $found_keywords ) {
-            add_settings_error(
-                'dswp_options_group',
+        if ( empty( $sources ) && $found_keywords ) {
+            $this->add_input_error(
                 'invalid_csp',
                 sprintf(
                     /* translators: %s: List of disallowed CSP keywords */
                     __( 'Disallowed keyword(s) found: %s', 'dswp' ),
-                    implode( ', ', $found_keywords )
-                ),
-                'error'
+                    implode( ', ', array_unique( $found_keywords ) )
+                )
+            );
+        }
+
+        if ( $invalid ) {
+            $this->add_input_error(
+                'invalid_csp_source',
+                sprintf(
+                    /* translators: %s: List of invalid sources */
+                    __( 'Invalid source(s) removed: %s', 'dswp' ),
+                    implode( ', ', array_unique( $invalid ) )
+                )
             );
-            return '';
         }
 
-        // Remove invalid characters: keep alphanumeric, spaces, hyphens, colons, periods, slashes, asterisks, and single quotes.
-        $input = preg_replace( '/[^a-z0-9 \-:\.\/\*\']/i', '', $input );
+        return implode( ' ', array_unique( $sources ) );
+    }
 
-        return sanitize_text_field( $input );
+    /**
+     * Checks a single source, with the same rules as src/scripts/csp-sources.ts.
+     *
+     * @param string $source Lower case source.
+     * @return bool True if the source can be saved.
+     */
+    public function is_valid_source( $source ) {
+        return in_array( $source, self::SOURCE_KEYWORDS, true )
+            || 1 === preg_match( self::SCHEME_PATTERN, $source )
+            || 1 === preg_match( self::HOST_PATTERN, $source );
+    }
+
+    /**
+     * Adds a settings error for the CSP input.
+     *
+     * Sources are also validated outside the settings page, e.g. post meta saved
+     * through the REST API, where the settings error functions are not loaded.
+     *
+     * @param string $code    Error code.
+     * @param string $message Error message.
+     * @return void
+     */
+    private function add_input_error( $code, $message ) {
+        if ( function_exists( 'add_settings_error' ) ) {
+            add_settings_error( self::OPTION_GROUP, $code, $message, 'error' );
+        }
     }
 
     /**
@@ -124,14 +354,113 @@ class ContentSecurityPolicy {
     public function init() {
         add_action( 'admin_menu', [ $this, 'add_menu' ] );
         add_action( 'admin_init', [ $this, 'register_settings' ] );
+        add_action( 'admin_enqueue_scripts', [ $this, 'enqueue_settings_assets' ] );
         add_filter( 'wp_headers', [ $this, 'add_csp_header' ] );
+
+        $this->get_reports()->init();
+        $this->get_nonces()->init();
+        $this->get_overrides()->init();
+        $this->get_presets()->init();
+        $this->get_import_export()->init();
+        $this->get_evaluator()->init();
+    }
+
+    /**
+     * Gets the violation report collection.
+     *
+     * @return ContentSecurityPolicy\Reports
+     */
+    public function get_reports() {
+        if ( ! $this->reports ) {
+            $this->reports = new ContentSecurityPolicy\Reports();
+        }
+
+        return $this->reports;
+    }
+
+    /**
+     * Gets the script and style nonces.
+     *
+     * @return ContentSecurityPolicy\Nonces
+     */
+    public function get_nonces() {
+        if ( ! $this->nonces ) {
+            $this->nonces = new ContentSecurityPolicy\Nonces();
+        }
+
+        return $this->nonces;
+    }
+
+    /**
+     * Gets the security headers sent with the policy.
+     *
+     * @return ContentSecurityPolicy\SecurityHeaders
+     */
+    public function get_security_headers() {
+        if ( ! $this->security_headers ) {
+            $this->security_headers = new ContentSecurityPolicy\SecurityHeaders();
+        }
+
+        return $this->security_headers;
+    }
+
+    /**
+     * Gets the post and page rule additions to the policy.
+     *
+     * @return ContentSecurityPolicy\Overrides
+     */
+    public function get_overrides() {
+        if ( ! $this->overrides ) {
+            $this->overrides = new ContentSecurityPolicy\Overrides( $this );
+        }
+
+        return $this->overrides;
+    }
+
+    /**
+     * Gets the presets of sources for common services.
+     *
+     * @return ContentSecurityPolicy\Presets
+     */
+    public function get_presets() {
+        if ( ! $this->presets ) {
+            $this->presets = new ContentSecurityPolicy\Presets( $this );
+        }
+
+        return $this->presets;
+    }
+
+    /**
+     * Gets the settings export and import.
+     *
+     * @return ContentSecurityPolicy\ImportExport
+     */
+    public function get_import_export() {
+        if ( ! $this->import_export ) {
+            $this->import_export = new ContentSecurityPolicy\ImportExport( $this );
+        }
+
+        return $this->import_export;
+    }
+
+    /**
+     * Gets the page checker for the unsaved policy.
+     *
+     * @return ContentSecurityPolicy\Evaluator
+     */
+    public function get_evaluator() {
+        if ( ! $this->evaluator ) {
+            $this->evaluator = new ContentSecurityPolicy\Evaluator( $this );
+        }
+
+        return $this->evaluator;
     }
 
     /**
      * Adds the admin menu and submenu for CSP settings.
      */
     public function add_menu() {
-        add_submenu_page(
+        $this->page_hook = add_submenu_page(
             'dswp-admin-menu',
             __( 'Content Security Policy', 'dswp' ),
             __( 'Content Security Policy', 'dswp' ),
@@ -141,6 +470,36 @@ class ContentSecurityPolicy {
         );
     }
 
+    /**
+     * Enqueues the scripts for the settings page, only on that page.
+     *
+     * @param string $hook_suffix The current admin page.
+     * @return void
+     */
+    public function enqueue_settings_assets( $hook_suffix ) {
+        if ( ! $this->page_hook || $this->page_hook !== $hook_suffix ) {
+            return;
+        }
+
+        $plugin_dir      = plugin_dir_path( __DIR__ );
+        $plugin_url      = plugin_dir_url( __DIR__ );
+        $script_path     = $plugin_dir . 'dist/csp-settings.js';
+        $asset_file_path = $plugin_dir . 'dist/csp-settings.asset.php';
+
+        if ( ! file_exists( $script_path ) ) {
+            return;
+        }
+
+        $asset_file = file_exists( $asset_file_path )
+            ? include $asset_file_path
+            : [
+                'dependencies' => [],
+                'version'      => filemtime( $script_path ),
+            ];
+
+        wp_enqueue_script( 'dswp-csp-settings', $plugin_url . 'dist/csp-settings.js', $asset_file['dependencies'], $asset_file['version'], true );
+    }
+
     /**
      * Renders the Content Security Policy settings page.
      */
@@ -150,30 +509,199 @@ class ContentSecurityPolicy {
             <?php settings_errors(); ?>
             <h1><?php esc_html_e( 'Content Security Policy Settings', 'dswp' ); ?></h1>
             <form method="post" action="options.php">
-                <?php settings_fields( 'dswp_options_group' ); ?>
-                <?php foreach ( self::CSP_SETTINGS as $setting ) : ?>
-                    <?php
-                        $option_name = esc_attr( self::OPTION_PREFIX . $setting['option'] );
-                    ?>
+                <?php settings_fields( self::OPTION_GROUP ); ?>
+                <h2><?php esc_html_e( 'Mode', 'dswp' ); ?></h2>
+                <?php $this->render_mode_field(); ?>
+                <h2><?php esc_html_e( 'Upgrade Insecure Requests', 'dswp' ); ?></h2>
+                <?php $this->render_upgrade_field(); ?>
+                <h2><?php esc_html_e( 'Script and Style Nonces', 'dswp' ); ?></h2>
+                <?php $this->get_nonces()->render_field(); ?>
+                <?php foreach ( self::CSP_SETTINGS as $directive => $setting ) : ?>
                     <h2><?php echo esc_html( $setting['title'] ); ?></h2>
-                    <p><?php echo esc_html( $setting['description'] . ' ' . $setting['default'] ); ?></p>
-                    <input class="admin-form-inputs"
-                        type="text"
-                        name="<?php echo esc_attr( $option_name ); ?>"
-                        value="<?php echo esc_attr( get_option( $option_name, $setting['default'] ) ); ?>" />
+                    <p id="<?php echo esc_attr( self::OPTION_PREFIX . $setting['option'] . '_description' ); ?>"><?php echo esc_html( $setting['description'] . ' ' . $setting['default'] ); ?></p>
+                    <?php $this->render_sources_field( $directive, $setting ); ?>
                 <?php endforeach; ?>
+                <?php $this->get_overrides()->render_rules_field(); ?>
+                <?php $this->get_security_headers()->render_fields(); ?>
+                <?php $this->get_evaluator()->render_field(); ?>
                 <?php submit_button( __( 'Save Settings', 'dswp' ) ); ?>
             </form>
+            <?php $this->get_presets()->render_form(); ?>
+            <?php $this->get_import_export()->render_forms(); ?>
         </div>
         <?php
     }
 
     /**
-     * Adds the Content Security Policy header to the response.
+     * Renders the radio buttons for choosing how the policy is applied.
+     */
+    public function render_mode_field() {
+        $mode   = $this->get_mode();
+        $labels = [
+            'enforce'     => __( 'Enforce: block anything the policy does not allow', 'dswp' ),
+            'report-only' => __( 'Report only: allow everything, and report what the policy would block', 'dswp' ),
+            'both'        => __( 'Enforce and report: block, and report what was blocked', 'dswp' ),
+        ];
+
+        foreach ( $labels as $value => $label ) {
+            echo '<label for="dswp_csp_mode_' . esc_attr( $value ) . '">
+                    <input type="radio" id="dswp_csp_mode_' . esc_attr( $value ) . '" name="' . esc_attr( self::OPTION_PREFIX . 'mode' ) . '" value="' . esc_attr( $value ) . '" ' . checked( $mode, $value, false ) . ' /> ' . esc_html( $label ) . '
+                  </label><br />';
+        }
+
+        echo '<p class="description">';
+        printf(
+            /* translators: %s: Link to the CSP Violations page. */
+            esc_html__( 'Reports are listed under %s. Use Report only to test changes before enforcing them.', 'dswp' ),
+            '<a href="' . esc_url( admin_url( 'admin.php?page=' . ContentSecurityPolicy\Reports::MENU_SLUG ) ) . '">' . esc_html__( 'CSP Violations', 'dswp' ) . '</a>'
+        );
+        echo '</p>';
+    }
+
+    /**
+     * Renders the checkbox for the upgrade-insecure-requests directive.
+     */
+    public function render_upgrade_field() {
+        $option_name = self::OPTION_PREFIX . 'upgrade_insecure_requests';
+
+        echo '<label for="' . esc_attr( $option_name ) . '">
+                <input type="checkbox" id="' . esc_attr( $option_name ) . '" name="' . esc_attr( $option_name ) . '" value="1" ' . checked( $this->upgrades_insecure_requests(), true, false ) . ' /> ' . esc_html__( 'Load http:// resources over https:// (upgrade-insecure-requests)', 'dswp' ) . '
+              </label>';
+        echo '<p class="description">' . esc_html__( 'Turn off only if the site embeds resources that are not available over https://. Not sent in Report only mode, where browsers ignore it.', 'dswp' ) . '</p>';
+    }
+
+    /**
+     * Renders the source list editor for a directive.
+     *
+     * The text input works without JavaScript. The script in src/scripts/csp-sources.ts
+     * replaces it with a list of sources that can be added and removed one at a time,
+     * validating each one. Default sources are always included, so they cannot be removed.
+     *
+     * @param string $directive Directive name, e.g. "script-src".
+     * @param array  $setting   Setting from CSP_SETTINGS.
+     * @return void
+     */
+    private function render_sources_field( $directive, $setting ) {
+        $option_name = self::OPTION_PREFIX . $setting['option'];
+        $value       = get_option( $option_name, $setting['default'] );
+        $messages    = [
+            /* translators: %s: Source, e.g. "cdn.example.com". */
+            'invalid'    => __( '%s is not a valid source. Use a host (cdn.example.com, *.example.com, https://example.com:8080/path), a scheme (data:) or a keyword (\'self\').', 'dswp' ),
+            /* translators: %s: Source, e.g. "'unsafe-inline'". */
+            'disallowed' => __( '%s is not allowed.', 'dswp' ),
+            /* translators: %s: Source, e.g. "cdn.example.com". */
+            'duplicate'  => __( '%s is already in the list.', 'dswp' ),
+            'none'       => __( '\'none\' cannot be combined with other sources.', 'dswp' ),
+            /* translators: %s: Source, e.g. "cdn.example.com". */
+            'added'      => __( '%s added.', 'dswp' ),
+            /* translators: %s: Source, e.g. "cdn.example.com". */
+            'removed'    => __( '%s removed.', 'dswp' ),
+        ];
+        ?>
+        <div class="dswp-csp-sources"
+            data-dswp-csp-sources
+            data-directive="<?php echo esc_attr( $directive ); ?>"
+            data-defaults="<?php echo esc_attr( empty( $setting['replaces_default'] ) ? implode( ' ', $this->get_sources( $setting['default'] ) ) : '' ); ?>"
+            data-messages="<?php echo esc_attr( wp_json_encode( $messages ) ); ?>">
+            <input class="admin-form-inputs dswp-csp-sources__value"
+                type="text"
+                id="<?php echo esc_attr( $option_name ); ?>"
+                name="<?php echo esc_attr( $option_name ); ?>"
+                value="<?php echo esc_attr( $value ); ?>"
+                aria-describedby="<?php echo esc_attr( $option_name . '_description' ); ?>" />
+            <div class="dswp-csp-sources__editor" hidden>
+                <ul class="dswp-csp-sources__list" aria-label="<?php echo esc_attr( sprintf( /* translators: %s: Directive name, e.g. "script-src". */ __( '%s sources', 'dswp' ), $directive ) ); ?>"></ul>
+                <label class="screen-reader-text" for="<?php echo esc_attr( $option_name . '_new' ); ?>">
+                    <?php echo esc_html( sprintf( /* translators: %s: Directive name, e.g. "script-src". */ __( 'Add a source to %s', 'dswp' ), $directive ) ); ?>
+                </label>
+                <input class="dswp-csp-sources__new" type="text" id="<?php echo esc_attr( $option_name . '_new' ); ?>" aria-describedby="<?php echo esc_attr( $option_name . '_status' ); ?>" />
+                <button type="button" class="button dswp-csp-sources__add"><?php esc_html_e( 'Add Source', 'dswp' ); ?></button>
+                <p class="dswp-csp-sources__status" id="<?php echo esc_attr( $option_name . '_status' ); ?>" aria-live="polite"></p>
+            </div>
+            <template class="dswp-csp-sources__template">
+                <li class="dswp-csp-sources__chip">
+                    <code class="dswp-csp-sources__source"></code>
+                    <span class="dswp-csp-sources__default"><?php esc_html_e( 'Default', 'dswp' ); ?></span>
+                    <button type="button" class="dswp-csp-sources__remove" data-label="<?php /* translators: %s: Source, e.g. "cdn.example.com". */ echo esc_attr__( 'Remove %s', 'dswp' ); ?>">
+                        <span aria-hidden="true">&times;</span>
+                    </button>
+                </li>
+            </template>
+        </div>
+        <?php
+    }
+
+    /**
+     * Gets the policy directives, with the saved allowlists appended to the defaults.
+     *
+     * Directives with 'replaces_default' in CSP_SETTINGS use the saved allowlist
+     * instead of the default, so they can be tightened, e.g. to 'none'.
+     *
+     * @param array $drafts Optional unsaved allowlists keyed by directive, used instead of the saved ones.
+     * @return array Directive values keyed by directive name. Directives without a value have an empty string.
+     */
+    public function get_directives( $drafts = [] ) {
+        $directives = [];
+
+        if ( $this->upgrades_insecure_requests() ) {
+            $directives['upgrade-insecure-requests'] = '';
+        }
+
+        foreach ( self::CSP_SETTINGS as $key => $value ) {
+            $option_value = $drafts[ $key ] ?? get_option( self::OPTION_PREFIX . $value['option'] );
+            // Values saved before sources were validated one at a time may hold invalid sources.
+            $option_value = implode( ' ', array_filter( $this->get_sources( $option_value ), [ $this, 'is_valid_source' ] ) );
+
+            if ( ! empty( $value['replaces_default'] ) && '' !== $option_value ) {
+                $directives[ $key ] = implode( ' ', $this->get_sources( $option_value ) );
+            } else {
+                $directives[ $key ] = implode( ' ', $this->get_sources( sprintf( '%s %s', $value['default'], $option_value ) ) );
+            }
+        }
+
+        return $directives;
+    }
+
+    /**
+     * Splits a source list into unique sources.
+     *
+     * 'none' only applies on its own, so it is dropped when other sources are allowed.
+     *
+     * @param string $value Space separated sources.
+     * @return string[] Sources.
+     */
+    public function get_sources( $value ) {
+        $sources = array_values( array_unique( preg_split( '/\s+/', trim( (string) $value ), -1, PREG_SPLIT_NO_EMPTY ) ) );
+
+        if ( count( $sources ) > 1 ) {
+            $sources = array_values( array_diff( $sources, [ "'none'" ] ) );
+        }
+
+        return $sources;
+    }
+
+    /**
+     * Builds a policy string from directives.
+     *
+     * @param array $directives Directive values keyed by directive name.
+     * @return string Policy, e.g. "default-src 'self'; img-src 'self' data:;".
+     */
+    public function build_policy( $directives ) {
+        $policy = '';
+
+        foreach ( $directives as $directive => $value ) {
+            $policy .= trim( $directive . ' ' . $value ) . '; ';
+        }
+
+        return trim( $policy );
+    }
+
+    /**
+     * Adds the Content Security Policy and security headers to the response.
      * Skipped in the admin so core scripts/styles (e.g. wp) load correctly.
      *
      * @param array $headers Existing headers.
-     * @return array Modified headers with CSP.
+     * @return array Modified headers with CSP and security headers.
      */
     public function add_csp_header( $headers ) {
         // Do not apply CSP or HSTS in admin; it breaks script/style loading and causes "wp is not defined" etc.
@@ -181,22 +709,26 @@ class ContentSecurityPolicy {
             return $headers;
         }
 
-        $csp        = '';
-        $white_list = [
-            'upgrade-insecure-requests',
-            'frame-ancestors' => "'self'",
-        ];
+        $directives = $this->get_overrides()->merge( $this->get_directives(), $this->get_overrides()->get_request_additions() );
+        $directives = $this->get_nonces()->add_to_directives( $directives );
+        $mode       = $this->get_mode();
 
-        foreach ( self::CSP_SETTINGS as $key => $value ) {
-            $option_value       = get_option( self::OPTION_PREFIX . $value['option'] );
-            $white_list[ $key ] = sprintf( '%s %s', $value['default'], $option_value );
+        if ( 'enforce' !== $mode ) {
+            // report-uri is deprecated but still the only option in some browsers; others use report-to.
+            $report_url                     = $this->get_reports()->get_endpoint_url();
+            $directives['report-uri']       = $report_url;
+            $directives['report-to']        = self::REPORT_GROUP;
+            $headers['Reporting-Endpoints'] = sprintf( '%s="%s"', self::REPORT_GROUP, $report_url );
         }
 
-        foreach ( $white_list as $white_list_item => $rule ) {
-            $csp .= sprintf( ' %s %s; ', is_string( $white_list_item ) ? $white_list_item : '', $rule );
+        $header = 'Content-Security-Policy';
+        if ( 'report-only' === $mode ) {
+            // Browsers ignore upgrade-insecure-requests in a report-only policy and warn about it.
+            unset( $directives['upgrade-insecure-requests'] );
+            $header = 'Content-Security-Policy-Report-Only';
         }
-        $headers['Content-Security-Policy']   = trim( $csp );
-        $headers['Strict-Transport-Security'] = 'max-age=10886400; preload';
-        return $headers;
+
+        $headers[ $header ] = $this->build_policy( $directives );
+        return array_merge( $headers, $this->get_security_headers()->get_headers() );
     }
 }
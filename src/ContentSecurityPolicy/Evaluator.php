@@ -0,0 +1,669 @@
+<?php
+
+namespace Bcgov\DesignSystemPlugin\ContentSecurityPolicy;
+
+use Bcgov\DesignSystemPlugin\ContentSecurityPolicy;
+
+/**
+ * Class Evaluator
+ *
+ * Checks a page against the policy being edited, before it is saved:
+ * - Fetches the page's rendered HTML from the server
+ * - Finds the resources it loads: scripts, stylesheets, images, frames,
+ *   fonts, media, objects, forms and preconnect hints, plus inline scripts and styles
+ * - Reports which would be blocked by the policy, built the same way as
+ *   ContentSecurityPolicy::add_csp_header() but with the unsaved sources
+ *
+ * Used by the Check a Page section of the Content Security Policy page
+ * through POST /wp-json/dswp/v1/csp-evaluate. Resources a script loads
+ * while the page runs cannot be found this way; use Report only mode for those.
+ *
+ * @package Bcgov\DesignSystemPlugin\ContentSecurityPolicy
+ * @since 2.18.0
+ */
+class Evaluator {
+
+    /**
+     * Directives checked for each resource directive, in order, as browsers fall back to them.
+     *
+     * @var array
+     */
+    const FALLBACKS = [
+        'script-src'   => [ 'script-src', 'default-src' ],
+        'style-src'    => [ 'style-src', 'default-src' ],
+        'img-src'      => [ 'img-src', 'default-src' ],
+        'font-src'     => [ 'font-src', 'default-src' ],
+        'media-src'    => [ 'media-src', 'default-src' ],
+        'frame-src'    => [ 'frame-src', 'child-src', 'default-src' ],
+        'connect-src'  => [ 'connect-src', 'default-src' ],
+        'object-src'   => [ 'object-src', 'default-src' ],
+        'manifest-src' => [ 'manifest-src', 'default-src' ],
+        'form-action'  => [ 'form-action' ],
+    ];
+
+    /**
+     * Most resources reported for a page.
+     *
+     * @var int
+     */
+    const MAX_RESOURCES = 200;
+
+    /**
+     * The policy being checked.
+     *
+     * @var ContentSecurityPolicy
+     */
+    private $csp;
+
+    /**
+     * Evaluator constructor.
+     *
+     * @param ContentSecurityPolicy $csp The policy being checked.
+     */
+    public function __construct( ContentSecurityPolicy $csp ) {
+        $this->csp = $csp;
+    }
+
+    /**
+     * Registers the hook for the evaluate endpoint.
+     *
+     * @return void
+     */
+    public function init() {
+        add_action( 'rest_api_init', [ $this, 'register_routes' ] );
+    }
+
+    /**
+     * Registers the evaluate endpoint.
+     *
+     * @return void
+     */
+    public function register_routes() {
+        register_rest_route(
+            'dswp/v1',
+            '/csp-evaluate',
+            [
+                'methods'             => \WP_REST_Server::CREATABLE,
+                'callback'            => [ $this, 'evaluate_request' ],
+                'permission_callback' => [ $this, 'check_permission' ],
+                'args'                => [
+                    'path'       => [
+                        'description' => __( 'Path of the page to check, e.g. /about/.', 'dswp' ),
+                        'type'        => 'string',
+                        'required'    => true,
+                    ],
+                    'directives' => [
+                        'description' => __( 'Unsaved sources keyed by directive. Saved sources are used for directives not included.', 'dswp' ),
+                        'type'        => 'object',
+                        'default'     => [],
+                    ],
+                ],
+            ]
+        );
+    }
+
+    /**
+     * Checks that the current user can manage the policy, like the settings page.
+     *
+     * @return true|\WP_Error True, or an error if the user cannot manage options.
+     */
+    public function check_permission() {
+        if ( current_user_can( 'manage_options' ) ) {
+            return true;
+        }
+
+        return new \WP_Error(
+            'rest_forbidden',
+            __( 'Sorry, you are not allowed to check the Content Security Policy.', 'dswp' ),
+            [ 'status' => rest_authorization_required_code() ]
+        );
+    }
+
+    /**
+     * Fetches a page and reports the resources the draft policy would block.
+     *
+     * @param \WP_REST_Request $request Request.
+     * @return \WP_REST_Response|\WP_Error Results, or an error if the page could not be fetched.
+     */
+    public function evaluate_request( $request ) {
+        // Only pages on this site can be checked.
+        $path = '/' . ltrim( (string) $request['path'], '/' );
+        $url  = home_url( $path );
+
+        $drafts = [];
+        foreach ( (array) $request['directives'] as $directive => $sources ) {
+            if ( isset( ContentSecurityPolicy::CSP_SETTINGS[ $directive ] ) && is_string( $sources ) ) {
+                $drafts[ $directive ] = $this->csp->validate_csp_input( $sources );
+            }
+        }
+
+        // Redirects are not followed, so the request cannot be sent on to another host.
+        $response = wp_safe_remote_get(
+            $url,
+            [
+                'timeout'     => 15,
+                'redirection' => 0,
+            ]
+        );
+        if ( is_wp_error( $response ) ) {
+            return new \WP_Error(
+                'dswp_csp_fetch_failed',
+                /* translators: %s: Error message. */
+                sprintf( __( 'The page could not be fetched: %s', 'dswp' ), $response->get_error_message() ),
+                [ 'status' => 502 ]
+            );
+        }
+
+        $status = (int) wp_remote_retrieve_response_code( $response );
+        if ( $status >= 300 && $status < 400 ) {
+            return new \WP_Error(
+                'dswp_csp_redirected',
+                /* translators: %s: URL the page redirects to. */
+                sprintf( __( 'The page redirects to %s. Check that page instead.', 'dswp' ), esc_url_raw( wp_remote_retrieve_header( $response, 'location' ) ) ),
+                [ 'status' => 400 ]
+            );
+        }
+
+        $overrides  = $this->csp->get_overrides();
+        $directives = $overrides->merge( $this->csp->get_directives( $drafts ), $overrides->get_additions( (string) wp_parse_url( $path, PHP_URL_PATH ), url_to_postid( $url ) ) );
+        $resources  = $this->evaluate( wp_remote_retrieve_body( $response ), $url, $directives );
+
+        return rest_ensure_response(
+            [
+                'url'       => $url,
+                'status'    => $status,
+                'policy'    => $this->csp->build_policy( $directives ),
+                'blocked'   => count( wp_list_filter( $resources, [ 'allowed' => false ] ) ),
+                'resources' => $resources,
+            ]
+        );
+    }
+
+    /**
+     * Checks the resources in a page against directives.
+     *
+     * @param string $html       Page HTML.
+     * @param string $page_url   URL of the page, for resolving relative URLs.
+     * @param array  $directives Directive values keyed by directive name.
+     * @return array Resources, each with 'type', 'label', 'directive', 'url' and 'allowed'.
+     */
+    public function evaluate( $html, $page_url, $directives ) {
+        $nonce_mode = $this->csp->get_nonces()->get_mode();
+        $upgrade    = array_key_exists( 'upgrade-insecure-requests', $directives );
+        $results    = [];
+
+        foreach ( $this->extract_resources( $html, $page_url ) as $resource ) {
+            $sources = $this->get_effective_sources( $resource['directive'], $directives );
+
+            if ( '' === $resource['url'] ) {
+                $allowed = $this->is_inline_allowed( $sources, $resource['nonce'], $nonce_mode );
+            } elseif ( 'script-src' === $resource['directive'] && 'strict-dynamic' === $nonce_mode ) {
+                // With 'strict-dynamic', browsers ignore the allowlist and only run scripts with the nonce.
+                $allowed = $resource['nonce'];
+            } else {
+                $url     = $upgrade ? preg_replace( '#^http://#i', 'https://', $resource['url'] ) : $resource['url'];
+                $allowed = $this->is_allowed( $url, $sources ) || ( $resource['nonce'] && 'off' !== $nonce_mode );
+            }
+
+            $results[] = [
+                'type'      => $resource['type'],
+                'label'     => $this->get_type_label( $resource['type'] ),
+                'directive' => $resource['directive'],
+                'url'       => $resource['url'],
+                'allowed'   => $allowed,
+            ];
+        }
+
+        return $results;
+    }
+
+    /**
+     * Finds the resources a page loads.
+     *
+     * @param string $html     Page HTML.
+     * @param string $page_url URL of the page, for resolving relative URLs.
+     * @return array Unique resources, each with 'type', 'directive', 'url' (empty for inline) and 'nonce'.
+     */
+    public function extract_resources( $html, $page_url ) {
+        $processor = new \WP_HTML_Tag_Processor( (string) $html );
+        $resources = [];
+
+        $add = function ( $type, $directive, $url, $nonce = false ) use ( &$resources, $page_url ) {
+            $inline = 0 === strpos( $type, 'inline-' );
+            if ( '' === $url && ! $inline ) {
+                // An empty attribute, e.g. an image without a src, loads nothing.
+                return;
+            }
+
+            $url = $inline ? '' : $this->resolve_url( $url, $page_url );
+            $key = $directive . ' ' . $type . ' ' . ( $inline ? count( $resources ) : $url );
+            if ( ! isset( $resources[ $key ] ) && count( $resources ) < self::MAX_RESOURCES ) {
+                $resources[ $key ] = [
+                    'type'      => $type,
+                    'directive' => $directive,
+                    'url'       => $url,
+                    'nonce'     => $nonce,
+                ];
+            }
+        };
+
+        while ( $processor->next_tag() ) {
+            $nonce = null !== $processor->get_attribute( 'nonce' );
+
+            switch ( $processor->get_tag() ) {
+                case 'SCRIPT':
+                    $src  = $this->get_string_attribute( $processor, 'src' );
+                    $type = strtolower( $this->get_string_attribute( $processor, 'type' ) );
+                    if ( '' !== $src ) {
+                        $add( 'script', 'script-src', $src, $nonce );
+                    } elseif ( in_array( $type, [ '', 'text/javascript', 'application/javascript', 'module' ], true ) ) {
+                        $add( 'inline-script', 'script-src', '', $nonce );
+                    }
+                    break;
+
+                case 'STYLE':
+                    $add( 'inline-style', 'style-src', '', $nonce );
+                    if ( method_exists( $processor, 'get_modifiable_text' ) ) {
+                        foreach ( $this->extract_css_urls( $processor->get_modifiable_text() ) as $directive => $urls ) {
+                            foreach ( $urls as $url ) {
+                                $add( 'font-src' === $directive ? 'font' : 'image', $directive, $url );
+                            }
+                        }
+                    }
+                    break;
+
+                case 'LINK':
+                    $this->add_link( $processor, $add, $nonce );
+                    break;
+
+                case 'IMG':
+                    $add( 'image', 'img-src', $this->get_string_attribute( $processor, 'src' ) );
+                    foreach ( $this->parse_srcset( $this->get_string_attribute( $processor, 'srcset' ) ) as $url ) {
+                        $add( 'image', 'img-src', $url );
+                    }
+                    break;
+
+                case 'SOURCE':
+                    // A source with srcset is in a <picture>, otherwise in <video> or <audio>.
+                    foreach ( $this->parse_srcset( $this->get_string_attribute( $processor, 'srcset' ) ) as $url ) {
+                        $add( 'image', 'img-src', $url );
+                    }
+                    $add( 'media', 'media-src', $this->get_string_attribute( $processor, 'src' ) );
+                    break;
+
+                case 'VIDEO':
+                case 'AUDIO':
+                    $add( 'media', 'media-src', $this->get_string_attribute( $processor, 'src' ) );
+                    $add( 'image', 'img-src', $this->get_string_attribute( $processor, 'poster' ) );
+                    break;
+
+                case 'IFRAME':
+                    $add( 'frame', 'frame-src', $this->get_string_attribute( $processor, 'src' ) );
+                    break;
+
+                case 'OBJECT':
+                    $add( 'object', 'object-src', $this->get_string_attribute( $processor, 'data' ) );
+                    break;
+
+                case 'EMBED':
+                    $add( 'object', 'object-src', $this->get_string_attribute( $processor, 'src' ) );
+                    break;
+
+                case 'FORM':
+                    // A form without an action submits to the page itself.
+                    $action = $this->get_string_attribute( $processor, 'action' );
+                    $add( 'form', 'form-action', '' === $action ? $page_url : $action );
+                    break;
+            }
+        }
+
+        return array_values( $resources );
+    }
+
+    /**
+     * Checks whether a URL matches a source list.
+     *
+     * Follows the matching rules browsers use for keywords, schemes and hosts
+     * (with wildcard subdomains, ports and paths). Keywords that allow inline
+     * code, nonces and hashes do not allow URLs.
+     *
+     * @param string   $url     Absolute URL.
+     * @param string[] $sources Sources, e.g. [ "'self'", '*.gov.bc.ca', 'data:' ].
+     * @return bool True if the URL is allowed.
+     */
+    public function is_allowed( $url, $sources ) {
+        $parts  = wp_parse_url( $url );
+        $scheme = strtolower( $parts['scheme'] ?? '' );
+        $self   = wp_parse_url( home_url() );
+
+        foreach ( $sources as $source ) {
+            $source = strtolower( $source );
+
+            if ( '*' === $source ) {
+                // The wildcard does not match data:, blob: or filesystem: URLs.
+                if ( ! in_array( $scheme, [ 'data', 'blob', 'filesystem' ], true ) ) {
+                    return true;
+                }
+                continue;
+            }
+
+            if ( "'self'" === $source ) {
+                if ( $this->matches_host_source( $parts, $self['scheme'] ?? 'https', $self['host'] ?? '', (string) ( $self['port'] ?? '' ), '' ) ) {
+                    return true;
+                }
+                continue;
+            }
+
+            if ( "'" === substr( $source, 0, 1 ) ) {
+                continue;
+            }
+
+            if ( preg_match( '/^([a-z][a-z0-9+.-]*):$/', $source, $matches ) ) {
+                if ( $scheme === $matches[1] || ( 'http' === $matches[1] && 'https' === $scheme ) ) {
+                    return true;
+                }
+                continue;
+            }
+
+            if ( preg_match( '#^(?:([a-z][a-z0-9+.-]*)://)?(\*|(?:\*\.)?[a-z0-9.-]+)(?::(\d+|\*))?(/.*)?$#', $source, $matches ) ) {
+                $source_scheme = '' !== $matches[1] ? $matches[1] : ( $self['scheme'] ?? 'https' );
+                if ( $this->matches_host_source( $parts, $source_scheme, $matches[2], $matches[3] ?? '', $matches[4] ?? '' ) ) {
+                    return true;
+                }
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Gets the sources that apply to a directive, following browser fallbacks.
+     *
+     * @param string $directive  Directive, a key of FALLBACKS.
+     * @param array  $directives Directive values keyed by directive name.
+     * @return string[] Sources. Empty if no directive applies, which allows everything.
+     */
+    public function get_effective_sources( $directive, $directives ) {
+        foreach ( self::FALLBACKS[ $directive ] ?? [ $directive ] as $name ) {
+            if ( isset( $directives[ $name ] ) ) {
+                return $this->csp->get_sources( $directives[ $name ] );
+            }
+        }
+
+        return [ '*', 'data:', 'blob:', "'unsafe-inline'" ];
+    }
+
+    /**
+     * Renders the Check a Page section of the settings form.
+     *
+     * The fields have no names, so they are not saved with the form. The script in
+     * src/scripts/csp-evaluator.ts sends the path and the unsaved sources to the
+     * evaluate endpoint and lists the results.
+     *
+     * @return void
+     */
+    public function render_field() {
+        $messages = [
+            'checking' => __( 'Checking…', 'dswp' ),
+            /* translators: 1: Number of blocked resources, 2: Number of resources, 3: Page URL. */
+            'summary'  => __( '%1$s of %2$s resources on %3$s would be blocked.', 'dswp' ),
+            'none'     => __( 'No resources found on the page.', 'dswp' ),
+            'allowed'  => __( 'Allowed', 'dswp' ),
+            'blocked'  => __( 'Blocked', 'dswp' ),
+            'inline'   => __( '(inline)', 'dswp' ),
+            'error'    => __( 'The page could not be checked.', 'dswp' ),
+        ];
+        ?>
+        <h2><?php esc_html_e( 'Check a Page', 'dswp' ); ?></h2>
+        <div class="dswp-csp-evaluator"
+            data-dswp-csp-evaluator
+            data-endpoint="<?php echo esc_url( rest_url( 'dswp/v1/csp-evaluate' ) ); ?>"
+            data-nonce="<?php echo esc_attr( wp_create_nonce( 'wp_rest' ) ); ?>"
+            data-messages="<?php echo esc_attr( wp_json_encode( $messages ) ); ?>">
+            <p id="dswp_csp_evaluate_description"><?php esc_html_e( 'Check which resources on a page would be blocked by the sources above, before saving them. Resources loaded by scripts while the page runs are not found; use Report only mode for those.', 'dswp' ); ?></p>
+            <label for="dswp_csp_evaluate_path"><?php esc_html_e( 'Page path', 'dswp' ); ?></label>
+            <input type="text"
+                class="regular-text"
+                id="dswp_csp_evaluate_path"
+                placeholder="/about/"
+                value="/"
+                aria-describedby="dswp_csp_evaluate_description" />
+            <button type="button" class="button dswp-csp-evaluator__check"><?php esc_html_e( 'Check Page', 'dswp' ); ?></button>
+            <p class="dswp-csp-evaluator__status" aria-live="polite"></p>
+            <table class="widefat striped dswp-csp-evaluator__results" hidden>
+                <thead>
+                    <tr>
+                        <th scope="col"><?php esc_html_e( 'Result', 'dswp' ); ?></th>
+                        <th scope="col"><?php esc_html_e( 'Type', 'dswp' ); ?></th>
+                        <th scope="col"><?php esc_html_e( 'Directive', 'dswp' ); ?></th>
+                        <th scope="col"><?php esc_html_e( 'URL', 'dswp' ); ?></th>
+                    </tr>
+                </thead>
+                <tbody></tbody>
+            </table>
+        </div>
+        <?php
+    }
+
+    /**
+     * Checks whether inline code is allowed.
+     *
+     * @param string[] $sources    Sources for the directive.
+     * @param bool     $has_nonce  Whether the tag has a nonce attribute.
+     * @param string   $nonce_mode Nonce mode, one of Nonces::MODES.
+     * @return bool True if allowed.
+     */
+    private function is_inline_allowed( $sources, $has_nonce, $nonce_mode ) {
+        // With nonces, browsers ignore 'unsafe-inline' and only allow tags with the nonce.
+        if ( 'off' !== $nonce_mode ) {
+            return $has_nonce;
+        }
+
+        return in_array( "'unsafe-inline'", array_map( 'strtolower', $sources ), true );
+    }
+
+    /**
+     * Checks a URL against the parts of a host source.
+     *
+     * @param array  $parts  Parsed URL.
+     * @param string $scheme Source scheme. http also allows https.
+     * @param string $host   Source host, possibly with a "*." prefix, or "*".
+     * @param string $port   Source port, "*", or empty for the scheme's default port.
+     * @param string $path   Source path, or empty for any path.
+     * @return bool True if the URL matches.
+     */
+    private function matches_host_source( $parts, $scheme, $host, $port, $path ) {
+        $url_scheme = strtolower( $parts['scheme'] ?? '' );
+        $url_host   = strtolower( $parts['host'] ?? '' );
+        $secure     = [
+            'http' => 'https',
+            'ws'   => 'wss',
+        ];
+
+        if ( '' === $url_host || ( $url_scheme !== $scheme && ( $secure[ $scheme ] ?? '' ) !== $url_scheme ) ) {
+            return false;
+        }
+
+        if ( '*' !== $host ) {
+            if ( 0 === strpos( $host, '*.' ) ) {
+                if ( substr( $url_host, -strlen( $host ) + 1 ) !== substr( $host, 1 ) ) {
+                    return false;
+                }
+            } elseif ( strtolower( $host ) !== $url_host ) {
+                return false;
+            }
+        }
+
+        if ( '*' !== $port ) {
+            $defaults = [
+                'http'  => 80,
+                'https' => 443,
+                'ws'    => 80,
+                'wss'   => 443,
+            ];
+            $url_port = (int) ( $parts['port'] ?? ( $defaults[ $url_scheme ] ?? 0 ) );
+            if ( '' === $port ) {
+                // An upgraded http source on the default port also allows the https default port.
+                $allowed = [ $defaults[ $scheme ] ?? 0, $defaults[ $url_scheme ] ?? 0 ];
+                if ( ! in_array( $url_port, $allowed, true ) ) {
+                    return false;
+                }
+            } elseif ( (int) $port !== $url_port ) {
+                return false;
+            }
+        }
+
+        if ( '' !== $path && '/' !== $path ) {
+            $url_path = $parts['path'] ?? '/';
+            if ( '/' === substr( $path, -1 ) ? 0 !== strpos( $url_path, $path ) : $url_path !== $path ) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * Adds the resource a link tag loads.
+     *
+     * @param \WP_HTML_Tag_Processor $processor Processor at the link tag.
+     * @param callable               $add       Adds a resource.
+     * @param bool                   $nonce     Whether the tag has a nonce attribute.
+     * @return void
+     */
+    private function add_link( $processor, $add, $nonce ) {
+        $rels = preg_split( '/\s+/', strtolower( $this->get_string_attribute( $processor, 'rel' ) ), -1, PREG_SPLIT_NO_EMPTY );
+        $href = $this->get_string_attribute( $processor, 'href' );
+        $as   = strtolower( $this->get_string_attribute( $processor, 'as' ) );
+
+        if ( in_array( 'stylesheet', $rels, true ) ) {
+            $add( 'stylesheet', 'style-src', $href, $nonce );
+        } elseif ( array_intersect( [ 'icon', 'apple-touch-icon' ], $rels ) ) {
+            $add( 'image', 'img-src', $href );
+        } elseif ( in_array( 'manifest', $rels, true ) ) {
+            $add( 'manifest', 'manifest-src', $href );
+        } elseif ( in_array( 'modulepreload', $rels, true ) ) {
+            $add( 'script', 'script-src', $href, $nonce );
+        } elseif ( in_array( 'preconnect', $rels, true ) ) {
+            // Pages preconnect to origins their scripts will request.
+            $add( 'connection', 'connect-src', $href );
+        } elseif ( in_array( 'preload', $rels, true ) ) {
+            $directives = [
+                'script' => [ 'script', 'script-src' ],
+                'style'  => [ 'stylesheet', 'style-src' ],
+                'image'  => [ 'image', 'img-src' ],
+                'font'   => [ 'font', 'font-src' ],
+                'fetch'  => [ 'connection', 'connect-src' ],
+            ];
+            if ( isset( $directives[ $as ] ) ) {
+                $add( $directives[ $as ][0], $directives[ $as ][1], $href, $nonce );
+            }
+        }
+    }
+
+    /**
+     * Finds the URLs in CSS, as fonts (from @font-face rules) or images.
+     *
+     * @param string $css CSS.
+     * @return array URLs keyed by directive, 'font-src' and 'img-src'.
+     */
+    private function extract_css_urls( $css ) {
+        $urls = [
+            'font-src' => [],
+            'img-src'  => [],
+        ];
+
+        preg_match_all( '/@font-face\s*{[^}]*}/i', $css, $font_faces );
+        $font_css = implode( ' ', $font_faces[0] );
+
+        foreach ( [ 'font-src' => $font_css, 'img-src' => str_replace( $font_faces[0], '', $css ) ] as $directive => $text ) {
+            preg_match_all( '/url\(\s*([\'"]?)([^\'")]+)\1\s*\)/i', $text, $matches );
+            $urls[ $directive ] = array_unique( $matches[2] );
+        }
+
+        return $urls;
+    }
+
+    /**
+     * Gets the URLs in a srcset attribute.
+     *
+     * @param string $srcset Attribute value, e.g. "a.jpg 1x, b.jpg 2x".
+     * @return string[] URLs.
+     */
+    private function parse_srcset( $srcset ) {
+        $urls = [];
+        foreach ( explode( ',', $srcset ) as $candidate ) {
+            $url = strtok( trim( $candidate ), ' ' );
+            if ( $url ) {
+                $urls[] = $url;
+            }
+        }
+
+        return $urls;
+    }
+
+    /**
+     * Resolves a URL found in the page against the page URL.
+     *
+     * @param string $url      URL as written in the page.
+     * @param string $page_url URL of the page.
+     * @return string Absolute URL.
+     */
+    private function resolve_url( $url, $page_url ) {
+        $url  = html_entity_decode( trim( $url ), ENT_QUOTES );
+        $page = wp_parse_url( $page_url );
+        $base = ( $page['scheme'] ?? 'https' ) . '://' . ( $page['host'] ?? '' ) . ( isset( $page['port'] ) ? ':' . $page['port'] : '' );
+
+        if ( preg_match( '#^[a-z][a-z0-9+.-]*:#i', $url ) ) {
+            return $url;
+        }
+        if ( 0 === strpos( $url, '//' ) ) {
+            return ( $page['scheme'] ?? 'https' ) . ':' . $url;
+        }
+        if ( 0 === strpos( $url, '/' ) ) {
+            return $base . $url;
+        }
+
+        // Relative to the page's directory.
+        $directory = preg_replace( '#/[^/]*$#', '/', $page['path'] ?? '/' );
+        return $base . $directory . $url;
+    }
+
+    /**
+     * Gets an attribute as a string, treating boolean attributes as empty.
+     *
+     * @param \WP_HTML_Tag_Processor $processor Processor at a tag.
+     * @param string                 $name      Attribute name.
+     * @return string Attribute value.
+     */
+    private function get_string_attribute( $processor, $name ) {
+        $value = $processor->get_attribute( $name );
+
+        return is_string( $value ) ? trim( $value ) : '';
+    }
+
+    /**
+     * Gets a readable name for a resource type.
+     *
+     * @param string $type Resource type.
+     * @return string Name.
+     */
+    private function get_type_label( $type ) {
+        $labels = [
+            'script'        => __( 'Script', 'dswp' ),
+            'inline-script' => __( 'Inline script', 'dswp' ),
+            'stylesheet'    => __( 'Stylesheet', 'dswp' ),
+            'inline-style'  => __( 'Inline style', 'dswp' ),
+            'image'         => __( 'Image', 'dswp' ),
+            'font'          => __( 'Font', 'dswp' ),
+            'media'         => __( 'Audio or video', 'dswp' ),
+            'frame'         => __( 'Frame', 'dswp' ),
+            'object'        => __( 'Object or embed', 'dswp' ),
+            'form'          => __( 'Form', 'dswp' ),
+            'manifest'      => __( 'Manifest', 'dswp' ),
+            'connection'    => __( 'Connection', 'dswp' ),
+        ];
+
+        return $labels[ $type ] ?? $type;
+    }
+}
@@ -0,0 +1,248 @@
+<?php
+
+namespace Bcgov\DesignSystemPlugin\ContentSecurityPolicy;
+
+use Bcgov\DesignSystemPlugin\ContentSecurityPolicy;
+
+/**
+ * Class ImportExport
+ *
+ * Exports the Content Security Policy settings to a JSON file, and imports
+ * them on another site. Imported values are validated like the settings page,
+ * e.g. directives with ContentSecurityPolicy::validate_csp_input().
+ *
+ * The file holds the saved sources for each directive (not the defaults),
+ * the mode, upgrade-insecure-requests, nonce mode, page rules and security headers:
+ *
+ *     {
+ *         "version": 1,
+ *         "directives": { "frame-src": "app.powerbi.com" },
+ *         "mode": "enforce",
+ *         "upgrade_insecure_requests": "1",
+ *         "nonce": "off",
+ *         "page_rules": [ { "pattern": "/reports/*", "directive": "frame-src", "sources": "app.powerbi.com" } ],
+ *         "security_headers": { "referrer_policy": "strict-origin-when-cross-origin" }
+ *     }
+ *
+ * Sections missing from an imported file are left unchanged.
+ *
+ * @package Bcgov\DesignSystemPlugin\ContentSecurityPolicy
+ * @since 2.18.0
+ */
+class ImportExport {
+
+    /**
+     * Version of the export format.
+     *
+     * @var int
+     */
+    const VERSION = 1;
+
+    /**
+     * The policy being exported or imported.
+     *
+     * @var ContentSecurityPolicy
+     */
+    private $csp;
+
+    /**
+     * ImportExport constructor.
+     *
+     * @param ContentSecurityPolicy $csp The policy being exported or imported.
+     */
+    public function __construct( ContentSecurityPolicy $csp ) {
+        $this->csp = $csp;
+    }
+
+    /**
+     * Registers the hooks for exporting and importing.
+     *
+     * @return void
+     */
+    public function init() {
+        add_action( 'admin_post_dswp_export_csp', [ $this, 'handle_export' ] );
+        add_action( 'admin_post_dswp_import_csp', [ $this, 'handle_import' ] );
+    }
+
+    /**
+     * Gets the settings to export.
+     *
+     * @return array Export data.
+     */
+    public function export_policy() {
+        $directives = [];
+        foreach ( ContentSecurityPolicy::CSP_SETTINGS as $directive => $setting ) {
+            $directives[ $directive ] = (string) get_option( ContentSecurityPolicy::OPTION_PREFIX . $setting['option'], '' );
+        }
+
+        $security_headers = [];
+        foreach ( array_keys( SecurityHeaders::DEFAULTS ) as $name ) {
+            $security_headers[ $name ] = $this->csp->get_security_headers()->get_setting( $name );
+        }
+
+        return [
+            'version'                   => self::VERSION,
+            'directives'                => $directives,
+            'mode'                      => $this->csp->get_mode(),
+            'upgrade_insecure_requests' => $this->csp->upgrades_insecure_requests() ? '1' : '0',
+            'nonce'                     => $this->csp->get_nonces()->get_mode(),
+            'page_rules'                => $this->csp->get_overrides()->get_rules(),
+            'security_headers'          => $security_headers,
+        ];
+    }
+
+    /**
+     * Validates and saves imported settings.
+     *
+     * @param mixed $data Decoded JSON from an export.
+     * @return true|\WP_Error True, or an error if the data is not an export.
+     */
+    public function import_policy( $data ) {
+        if ( ! is_array( $data ) || ! isset( $data['version'] ) ) {
+            return new \WP_Error( 'dswp_csp_import_invalid', __( 'The file is not a Content Security Policy export.', 'dswp' ) );
+        }
+        if ( (int) $data['version'] > self::VERSION ) {
+            return new \WP_Error( 'dswp_csp_import_version', __( 'The file was exported from a newer version of the plugin. Update the plugin and try again.', 'dswp' ) );
+        }
+
+        if ( isset( $data['directives'] ) && is_array( $data['directives'] ) ) {
+            foreach ( ContentSecurityPolicy::CSP_SETTINGS as $directive => $setting ) {
+                if ( isset( $data['directives'][ $directive ] ) && is_string( $data['directives'][ $directive ] ) ) {
+                    update_option( ContentSecurityPolicy::OPTION_PREFIX . $setting['option'], $this->csp->validate_csp_input( $data['directives'][ $directive ] ) );
+                }
+            }
+        }
+
+        if ( isset( $data['mode'] ) ) {
+            update_option( ContentSecurityPolicy::OPTION_PREFIX . 'mode', $this->csp->sanitize_mode( $data['mode'] ) );
+        }
+
+        if ( isset( $data['upgrade_insecure_requests'] ) ) {
+            update_option( ContentSecurityPolicy::OPTION_PREFIX . 'upgrade_insecure_requests', $this->csp->get_security_headers()->sanitize_flag( $data['upgrade_insecure_requests'] ) );
+        }
+
+        if ( isset( $data['nonce'] ) ) {
+            update_option( Nonces::OPTION, $this->csp->get_nonces()->sanitize_mode( $data['nonce'] ) );
+        }
+
+        if ( isset( $data['page_rules'] ) ) {
+            update_option( Overrides::RULES_OPTION, $this->csp->get_overrides()->sanitize_rules( $data['page_rules'] ) );
+        }
+
+        if ( isset( $data['security_headers'] ) && is_array( $data['security_headers'] ) ) {
+            $this->import_security_headers( $data['security_headers'] );
+        }
+
+        return true;
+    }
+
+    /**
+     * Downloads the settings as a JSON file.
+     *
+     * @return void
+     */
+    public function handle_export() {
+        $this->check_permission( 'dswp_export_csp' );
+
+        $filename = sprintf( 'csp-%s-%s.json', sanitize_file_name( wp_parse_url( home_url(), PHP_URL_HOST ) ), gmdate( 'Y-m-d' ) );
+
+        nocache_headers();
+        header( 'Content-Type: application/json; charset=utf-8' );
+        header( 'Content-Disposition: attachment; filename="' . $filename . '"' );
+        echo wp_json_encode( $this->export_policy(), JSON_PRETTY_PRINT | JSON_UNESCAPED_SLASHES );
+        exit;
+    }
+
+    /**
+     * Imports an uploaded export and returns to the Content Security Policy page.
+     *
+     * @return void
+     */
+    public function handle_import() {
+        $this->check_permission( 'dswp_import_csp' );
+
+        // phpcs:ignore WordPress.Security.ValidatedSanitizedInput -- Only the uploaded file's temporary path is used, and its contents are validated.
+        $file = $_FILES['dswp_csp_import']['tmp_name'] ?? '';
+
+        if ( ! $file || ! is_uploaded_file( $file ) ) {
+            $result = new \WP_Error( 'dswp_csp_import_missing', __( 'Choose an exported JSON file to import.', 'dswp' ) );
+        } else {
+            $result = $this->import_policy( json_decode( (string) file_get_contents( $file ), true ) ); // phpcs:ignore WordPress.WP.AlternativeFunctions.file_get_contents_file_get_contents -- Local uploaded file.
+        }
+
+        if ( is_wp_error( $result ) ) {
+            add_settings_error( ContentSecurityPolicy::OPTION_GROUP, $result->get_error_code(), $result->get_error_message(), 'error' );
+        } else {
+            add_settings_error( ContentSecurityPolicy::OPTION_GROUP, 'csp_imported', __( 'Content Security Policy settings imported.', 'dswp' ), 'success' );
+        }
+
+        // Like options.php, keep the messages for the page it redirects to.
+        set_transient( 'settings_errors', get_settings_errors(), 30 );
+        wp_safe_redirect( admin_url( 'admin.php?page=dswp-content-security-policy-menu&settings-updated=true' ) );
+        exit;
+    }
+
+    /**
+     * Renders the export and import forms.
+     *
+     * @return void
+     */
+    public function render_forms() {
+        ?>
+        <h2><?php esc_html_e( 'Export and Import', 'dswp' ); ?></h2>
+        <p><?php esc_html_e( 'Download these settings as a JSON file, to import them on another site. Importing replaces the settings in the file, after checking them like this page does.', 'dswp' ); ?></p>
+        <form method="post" action="<?php echo esc_url( admin_url( 'admin-post.php' ) ); ?>">
+            <input type="hidden" name="action" value="dswp_export_csp" />
+            <?php wp_nonce_field( 'dswp_export_csp' ); ?>
+            <?php submit_button( __( 'Export Settings', 'dswp' ), 'secondary', 'submit', false ); ?>
+        </form>
+        <form method="post" action="<?php echo esc_url( admin_url( 'admin-post.php' ) ); ?>" enctype="multipart/form-data">
+            <input type="hidden" name="action" value="dswp_import_csp" />
+            <?php wp_nonce_field( 'dswp_import_csp' ); ?>
+            <p>
+                <label for="dswp_csp_import"><?php esc_html_e( 'Exported file', 'dswp' ); ?></label>
+                <input type="file" id="dswp_csp_import" name="dswp_csp_import" accept=".json,application/json" />
+            </p>
+            <?php submit_button( __( 'Import Settings', 'dswp' ), 'secondary', 'submit', false ); ?>
+        </form>
+        <?php
+    }
+
+    /**
+     * Saves imported security headers with the same sanitization as the settings page.
+     *
+     * @param array $settings Settings keyed by option suffix.
+     * @return void
+     */
+    private function import_security_headers( $settings ) {
+        $security_headers = $this->csp->get_security_headers();
+        $sanitizers       = [
+            'hsts_max_age'            => 'sanitize_hsts_max_age',
+            'hsts_include_subdomains' => 'sanitize_flag',
+            'hsts_preload'            => 'sanitize_flag',
+            'referrer_policy'         => 'sanitize_referrer_policy',
+            'permissions_policy'      => 'sanitize_permissions_policy',
+            'nosniff'                 => 'sanitize_flag',
+            'coop'                    => 'sanitize_coop',
+        ];
+
+        foreach ( $sanitizers as $name => $sanitizer ) {
+            if ( isset( $settings[ $name ] ) && is_scalar( $settings[ $name ] ) ) {
+                update_option( SecurityHeaders::OPTION_PREFIX . $name, $security_headers->$sanitizer( $settings[ $name ] ) );
+            }
+        }
+    }
+
+    /**
+     * Stops the request unless the user can manage the policy and the nonce is valid.
+     *
+     * @param string $action Nonce action.
+     * @return void
+     */
+    private function check_permission( $action ) {
+        if ( ! current_user_can( 'manage_options' ) ) {
+            wp_die( esc_html__( 'Sorry, you are not allowed to change the Content Security Policy.', 'dswp' ), 403 );
+        }
+        check_admin_referer( $action );
+    }
+}
@@ -0,0 +1,222 @@
+<?php
+
+namespace Bcgov\DesignSystemPlugin\ContentSecurityPolicy;
+
+/**
+ * Class Nonces
+ *
+ * Allows the site's own inline scripts and styles without 'unsafe-inline',
+ * using a nonce generated for each request:
+ * - Enqueued and inline scripts get the nonce through the
+ *   `wp_script_attributes` and `wp_inline_script_attributes` filters
+ * - Enqueued stylesheets get it through `style_loader_tag`, and the inline
+ *   `<style>` tags printed in wp_head and wp_footer get it from the Tag Processor,
+ *   as WordPress has no filter for their attributes
+ * - The nonce is added to script-src and style-src, optionally with 'strict-dynamic'
+ *
+ * @package Bcgov\DesignSystemPlugin\ContentSecurityPolicy
+ * @since 2.18.0
+ */
+class Nonces {
+
+    /**
+     * Option storing the nonce mode.
+     *
+     * @var string
+     */
+    const OPTION = 'dswp_csp_nonce';
+
+    /**
+     * How nonces are used:
+     * - off: no nonces
+     * - nonce: allow tags with the nonce, in addition to the allowlists
+     * - strict-dynamic: also allow scripts loaded by scripts with the nonce,
+     *   and ignore the script-src allowlist in browsers that support it
+     *
+     * @var string[]
+     */
+    const MODES = [ 'off', 'nonce', 'strict-dynamic' ];
+
+    /**
+     * Nonce for the current request.
+     *
+     * @var string|null
+     */
+    private $nonce;
+
+    /**
+     * Registers hooks that add the nonce to script and style tags.
+     *
+     * @return void
+     */
+    public function init() {
+        add_filter( 'wp_script_attributes', [ $this, 'add_nonce_attribute' ] );
+        add_filter( 'wp_inline_script_attributes', [ $this, 'add_nonce_attribute' ] );
+        add_filter( 'style_loader_tag', [ $this, 'add_style_nonce' ] );
+
+        foreach ( [ 'wp_head', 'wp_footer' ] as $hook ) {
+            add_action( $hook, [ $this, 'start_buffer' ], PHP_INT_MIN );
+            add_action( $hook, [ $this, 'end_buffer' ], PHP_INT_MAX );
+        }
+    }
+
+    /**
+     * Sanitizes the nonce mode setting.
+     *
+     * @param string $mode The mode to sanitize.
+     * @return string One of MODES, or 'off' if invalid.
+     */
+    public function sanitize_mode( $mode ) {
+        return in_array( $mode, self::MODES, true ) ? $mode : 'off';
+    }
+
+    /**
+     * Gets how nonces are used.
+     *
+     * @return string One of MODES.
+     */
+    public function get_mode() {
+        return $this->sanitize_mode( get_option( self::OPTION, 'off' ) );
+    }
+
+    /**
+     * Checks whether nonces are added to the policy and tags.
+     * Like the policy header, they are not used in the admin.
+     *
+     * @return bool True if enabled.
+     */
+    public function is_enabled() {
+        return 'off' !== $this->get_mode() && ! is_admin();
+    }
+
+    /**
+     * Gets the nonce for the current request, generating it on first use.
+     *
+     * @return string Base64 encoded nonce.
+     */
+    public function get_nonce() {
+        if ( ! $this->nonce ) {
+            $this->nonce = base64_encode( random_bytes( 16 ) ); // phpcs:ignore WordPress.PHP.DiscouragedPHPFunctions.obfuscation_base64_encode -- CSP nonces are base64.
+        }
+
+        return $this->nonce;
+    }
+
+    /**
+     * Adds the nonce to script-src and style-src.
+     *
+     * @param array $directives Directive values keyed by directive name.
+     * @return array Directives with the nonce sources added.
+     */
+    public function add_to_directives( $directives ) {
+        if ( ! $this->is_enabled() ) {
+            return $directives;
+        }
+
+        $source = "'nonce-" . $this->get_nonce() . "'";
+
+        $directives['script-src'] = trim( ( $directives['script-src'] ?? '' ) . ' ' . $source );
+        if ( 'strict-dynamic' === $this->get_mode() ) {
+            $directives['script-src'] .= " 'strict-dynamic'";
+        }
+
+        // A nonce makes browsers ignore 'unsafe-inline', which blocks the style attributes blocks rely on, so allow those separately.
+        $directives['style-src']      = trim( ( $directives['style-src'] ?? '' ) . ' ' . $source );
+        $directives['style-src-attr'] = "'unsafe-inline'";
+
+        return $directives;
+    }
+
+    /**
+     * Adds the nonce to a script tag's attributes.
+     *
+     * @param array $attributes Script tag attributes.
+     * @return array Attributes with the nonce.
+     */
+    public function add_nonce_attribute( $attributes ) {
+        if ( $this->is_enabled() ) {
+            $attributes['nonce'] = $this->get_nonce();
+        }
+
+        return $attributes;
+    }
+
+    /**
+     * Adds the nonce to an enqueued stylesheet's link tag.
+     *
+     * @param string $tag Link tag HTML.
+     * @return string Link tag with the nonce.
+     */
+    public function add_style_nonce( $tag ) {
+        if ( ! $this->is_enabled() ) {
+            return $tag;
+        }
+
+        return $this->add_nonce_to_tags( $tag, [ 'LINK' ] );
+    }
+
+    /**
+     * Starts buffering wp_head or wp_footer output, so its inline styles can get the nonce.
+     *
+     * @return void
+     */
+    public function start_buffer() {
+        if ( $this->is_enabled() ) {
+            ob_start();
+        }
+    }
+
+    /**
+     * Prints the buffered wp_head or wp_footer output with the nonce added to its inline styles.
+     *
+     * @return void
+     */
+    public function end_buffer() {
+        if ( ! $this->is_enabled() ) {
+            return;
+        }
+
+        echo $this->add_nonce_to_tags( ob_get_clean(), [ 'STYLE' ] ); // phpcs:ignore WordPress.Security.EscapeOutput.OutputNotEscaped -- Output of other hooks, only the nonce is added.
+    }
+
+    /**
+     * Adds the nonce to tags that do not have one.
+     *
+     * @param string   $html      HTML to update.
+     * @param string[] $tag_names Upper case names of the tags to update.
+     * @return string Updated HTML.
+     */
+    public function add_nonce_to_tags( $html, $tag_names ) {
+        $processor = new \WP_HTML_Tag_Processor( (string) $html );
+
+        while ( $processor->next_tag() ) {
+            if ( in_array( $processor->get_tag(), $tag_names, true ) && null === $processor->get_attribute( 'nonce' ) ) {
+                $processor->set_attribute( 'nonce', $this->get_nonce() );
+            }
+        }
+
+        return $processor->get_updated_html();
+    }
+
+    /**
+     * Renders the radio buttons for choosing how nonces are used.
+     *
+     * @return void
+     */
+    public function render_field() {
+        $mode   = $this->get_mode();
+        $labels = [
+            'off'            => __( 'Off: only use the allowlists', 'dswp' ),
+            'nonce'          => __( 'Nonce: also allow the site\'s own inline scripts and styles', 'dswp' ),
+            'strict-dynamic' => __( 'Nonce with strict-dynamic: also allow scripts they load, ignoring the Script-src allowlist', 'dswp' ),
+        ];
+
+        foreach ( $labels as $value => $label ) {
+            echo '<label for="dswp_csp_nonce_' . esc_attr( $value ) . '">
+                    <input type="radio" id="dswp_csp_nonce_' . esc_attr( $value ) . '" name="' . esc_attr( self::OPTION ) . '" value="' . esc_attr( $value ) . '" ' . checked( $mode, $value, false ) . ' /> ' . esc_html( $label ) . '
+                  </label><br />';
+        }
+
+        echo '<p class="description">' . esc_html__( 'Scripts added with wp_enqueue_script(), wp_add_inline_script() and wp_localize_script(), and styles added with wp_enqueue_style() and wp_add_inline_style(), get the nonce. Browsers ignore \'unsafe-inline\' when a nonce is present, so scripts written directly into pages or templates are blocked. Try this with Report only first.', 'dswp' ) . '</p>';
+    }
+}
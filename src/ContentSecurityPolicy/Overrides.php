@@ -0,0 +1,359 @@
+<?php
+
+namespace Bcgov\DesignSystemPlugin\ContentSecurityPolicy;
+
+use Bcgov\DesignSystemPlugin\ContentSecurityPolicy;
+
+/**
+ * Class Overrides
+ *
+ * Widens the policy for some pages only, so one page embedding a report
+ * does not need a site-wide allowance:
+ * - Post additions, edited in the Content Security Policy panel of the
+ *   editor by users who can manage the policy
+ * - Page rules, matching request paths such as /reports/*, set on the
+ *   Content Security Policy page
+ *
+ * Additions are merged with the site-wide directives when the header is sent.
+ *
+ * @package Bcgov\DesignSystemPlugin\ContentSecurityPolicy
+ * @since 2.18.0
+ */
+class Overrides {
+
+    /**
+     * Post meta storing the additions, keyed by directive.
+     *
+     * @var string
+     */
+    const META_KEY = 'dswp_csp_additions';
+
+    /**
+     * Option storing the page rules.
+     *
+     * @var string
+     */
+    const RULES_OPTION = 'dswp_csp_page_rules';
+
+    /**
+     * The policy the additions are merged into, used for validation.
+     *
+     * @var ContentSecurityPolicy
+     */
+    private $csp;
+
+    /**
+     * Overrides constructor.
+     *
+     * @param ContentSecurityPolicy $csp The policy the additions are merged into.
+     */
+    public function __construct( ContentSecurityPolicy $csp ) {
+        $this->csp = $csp;
+    }
+
+    /**
+     * Registers hooks for the post additions.
+     *
+     * @return void
+     */
+    public function init() {
+        add_action( 'init', [ $this, 'register_meta' ] );
+        add_action( 'enqueue_block_editor_assets', [ $this, 'enqueue_editor_assets' ] );
+    }
+
+    /**
+     * Gets the capability needed to change post additions.
+     *
+     * @return string Capability.
+     */
+    public function get_capability() {
+        /**
+         * Filters the capability needed to add to the policy for a post.
+         *
+         * @param string $capability Capability. Default 'manage_options', like the Content Security Policy page.
+         */
+        return (string) apply_filters( 'dswp_csp_overrides_capability', 'manage_options' );
+    }
+
+    /**
+     * Registers the post additions meta for all post types.
+     *
+     * @return void
+     */
+    public function register_meta() {
+        $properties = [];
+        foreach ( array_keys( ContentSecurityPolicy::CSP_SETTINGS ) as $directive ) {
+            $properties[ $directive ] = [ 'type' => 'string' ];
+        }
+
+        register_post_meta(
+            '',
+            self::META_KEY,
+            [
+                'show_in_rest'      => [
+                    'schema' => [
+                        'type'                 => 'object',
+                        'additionalProperties' => false,
+                        'properties'           => $properties,
+                    ],
+                ],
+                'single'            => true,
+                'type'              => 'object',
+                'default'           => [],
+                'sanitize_callback' => [ $this, 'sanitize_additions' ],
+                'auth_callback'     => function () {
+                    return current_user_can( $this->get_capability() );
+                },
+            ]
+        );
+    }
+
+    /**
+     * Sanitizes additions, keeping known directives with valid sources.
+     *
+     * @param mixed $additions Sources keyed by directive.
+     * @return array Sanitized additions.
+     */
+    public function sanitize_additions( $additions ) {
+        $sanitized = [];
+
+        foreach ( (array) $additions as $directive => $sources ) {
+            if ( ! isset( ContentSecurityPolicy::CSP_SETTINGS[ $directive ] ) || ! is_string( $sources ) ) {
+                continue;
+            }
+
+            $sources = $this->csp->validate_csp_input( $sources );
+            if ( '' !== $sources ) {
+                $sanitized[ $directive ] = $sources;
+            }
+        }
+
+        return $sanitized;
+    }
+
+    /**
+     * Sanitizes the page rules, dropping incomplete rules and those marked for removal.
+     *
+     * @param mixed $rules Rules, each with 'pattern', 'directive' and 'sources'.
+     * @return array Sanitized rules.
+     */
+    public function sanitize_rules( $rules ) {
+        $sanitized = [];
+
+        foreach ( (array) $rules as $rule ) {
+            if ( ! is_array( $rule ) || ! empty( $rule['remove'] ) ) {
+                continue;
+            }
+
+            $pattern   = $this->sanitize_pattern( $rule['pattern'] ?? '' );
+            $directive = (string) ( $rule['directive'] ?? '' );
+            $sources   = $this->csp->validate_csp_input( (string) ( $rule['sources'] ?? '' ) );
+
+            if ( '' === $pattern || '' === $sources || ! isset( ContentSecurityPolicy::CSP_SETTINGS[ $directive ] ) ) {
+                continue;
+            }
+
+            $sanitized[] = [
+                'pattern'   => $pattern,
+                'directive' => $directive,
+                'sources'   => $sources,
+            ];
+        }
+
+        return $sanitized;
+    }
+
+    /**
+     * Gets the page rules.
+     *
+     * @return array Rules, each with 'pattern', 'directive' and 'sources'.
+     */
+    public function get_rules() {
+        $rules = get_option( self::RULES_OPTION, [] );
+
+        return is_array( $rules ) ? $rules : [];
+    }
+
+    /**
+     * Gets the additions for a request.
+     *
+     * @param string $path    Request path, e.g. "/reports/annual/".
+     * @param int    $post_id ID of the requested post, or 0.
+     * @return array Sources keyed by directive.
+     */
+    public function get_additions( $path, $post_id = 0 ) {
+        $additions = [];
+
+        foreach ( $this->get_rules() as $rule ) {
+            if ( $this->matches_path( $rule['pattern'], $path ) ) {
+                $additions[ $rule['directive'] ] = trim( ( $additions[ $rule['directive'] ] ?? '' ) . ' ' . $rule['sources'] );
+            }
+        }
+
+        if ( $post_id ) {
+            foreach ( $this->sanitize_additions( get_post_meta( $post_id, self::META_KEY, true ) ) as $directive => $sources ) {
+                $additions[ $directive ] = trim( ( $additions[ $directive ] ?? '' ) . ' ' . $sources );
+            }
+        }
+
+        return $additions;
+    }
+
+    /**
+     * Gets the additions for the current request.
+     *
+     * Headers are sent before the main query runs, so the post is found from the URL.
+     *
+     * @return array Sources keyed by directive.
+     */
+    public function get_request_additions() {
+        $request_uri = isset( $_SERVER['REQUEST_URI'] ) ? esc_url_raw( wp_unslash( $_SERVER['REQUEST_URI'] ) ) : '/';
+        $path        = (string) wp_parse_url( $request_uri, PHP_URL_PATH );
+
+        // Rule paths are relative to the site, which may be installed in a subdirectory.
+        $home_path = (string) wp_parse_url( home_url( '/' ), PHP_URL_PATH );
+        if ( '/' !== $home_path && 0 === strpos( $path, $home_path ) ) {
+            $path = '/' . substr( $path, strlen( $home_path ) );
+        }
+
+        return $this->get_additions( $path, url_to_postid( $request_uri ) );
+    }
+
+    /**
+     * Merges additions into directives.
+     *
+     * @param array $directives Directive values keyed by directive name.
+     * @param array $additions  Sources to add, keyed by directive name.
+     * @return array Merged directives.
+     */
+    public function merge( $directives, $additions ) {
+        foreach ( $additions as $directive => $sources ) {
+            $directives[ $directive ] = implode( ' ', $this->csp->get_sources( ( $directives[ $directive ] ?? '' ) . ' ' . $sources ) );
+        }
+
+        return $directives;
+    }
+
+    /**
+     * Checks whether a path matches a rule pattern. `*` matches any characters,
+     * and trailing slashes are ignored.
+     *
+     * @param string $pattern Pattern, e.g. "/reports/*".
+     * @param string $path    Request path.
+     * @return bool True if the path matches.
+     */
+    public function matches_path( $pattern, $path ) {
+        $regex = '#^' . str_replace( '\*', '.*', preg_quote( untrailingslashit( $pattern ), '#' ) ) . '$#i';
+
+        return (bool) preg_match( $regex, untrailingslashit( $path ) );
+    }
+
+    /**
+     * Renders the Page Rules section of the Content Security Policy page.
+     *
+     * @return void
+     */
+    public function render_rules_field() {
+        // An empty row at the end adds a rule.
+        $rules   = $this->get_rules();
+        $rules[] = [
+            'pattern'   => '',
+            'directive' => 'frame-src',
+            'sources'   => '',
+        ];
+        ?>
+        <h2><?php esc_html_e( 'Page Rules', 'dswp' ); ?></h2>
+        <p><?php esc_html_e( 'Add sources on matching pages only, e.g. allow app.powerbi.com in Frame-src on /reports/*. Use * to match any characters. Sources for a single post can also be added in the editor, in the Content Security Policy panel.', 'dswp' ); ?></p>
+        <table class="widefat striped dswp-csp-rules">
+            <thead>
+                <tr>
+                    <th scope="col"><?php esc_html_e( 'Path', 'dswp' ); ?></th>
+                    <th scope="col"><?php esc_html_e( 'Directive', 'dswp' ); ?></th>
+                    <th scope="col"><?php esc_html_e( 'Sources', 'dswp' ); ?></th>
+                    <th scope="col"><?php esc_html_e( 'Remove', 'dswp' ); ?></th>
+                </tr>
+            </thead>
+            <tbody>
+                <?php foreach ( $rules as $index => $rule ) : ?>
+                    <?php $name = self::RULES_OPTION . '[' . $index . ']'; ?>
+                    <tr>
+                        <td>
+                            <label class="screen-reader-text" for="<?php echo esc_attr( self::RULES_OPTION . '_' . $index . '_pattern' ); ?>"><?php esc_html_e( 'Path', 'dswp' ); ?></label>
+                            <input type="text" id="<?php echo esc_attr( self::RULES_OPTION . '_' . $index . '_pattern' ); ?>" name="<?php echo esc_attr( $name . '[pattern]' ); ?>" value="<?php echo esc_attr( $rule['pattern'] ); ?>" placeholder="/reports/*" />
+                        </td>
+                        <td>
+                            <label class="screen-reader-text" for="<?php echo esc_attr( self::RULES_OPTION . '_' . $index . '_directive' ); ?>"><?php esc_html_e( 'Directive', 'dswp' ); ?></label>
+                            <select id="<?php echo esc_attr( self::RULES_OPTION . '_' . $index . '_directive' ); ?>" name="<?php echo esc_attr( $name . '[directive]' ); ?>">
+                                <?php foreach ( array_keys( ContentSecurityPolicy::CSP_SETTINGS ) as $directive ) : ?>
+                                    <option value="<?php echo esc_attr( $directive ); ?>" <?php selected( $rule['directive'], $directive ); ?>><?php echo esc_html( $directive ); ?></option>
+                                <?php endforeach; ?>
+                            </select>
+                        </td>
+                        <td>
+                            <label class="screen-reader-text" for="<?php echo esc_attr( self::RULES_OPTION . '_' . $index . '_sources' ); ?>"><?php esc_html_e( 'Sources', 'dswp' ); ?></label>
+                            <input type="text" class="regular-text" id="<?php echo esc_attr( self::RULES_OPTION . '_' . $index . '_sources' ); ?>" name="<?php echo esc_attr( $name . '[sources]' ); ?>" value="<?php echo esc_attr( $rule['sources'] ); ?>" placeholder="app.powerbi.com" />
+                        </td>
+                        <td>
+                            <?php if ( '' !== $rule['pattern'] ) : ?>
+                                <label class="screen-reader-text" for="<?php echo esc_attr( self::RULES_OPTION . '_' . $index . '_remove' ); ?>"><?php esc_html_e( 'Remove', 'dswp' ); ?></label>
+                                <input type="checkbox" id="<?php echo esc_attr( self::RULES_OPTION . '_' . $index . '_remove' ); ?>" name="<?php echo esc_attr( $name . '[remove]' ); ?>" value="1" />
+                            <?php endif; ?>
+                        </td>
+                    </tr>
+                <?php endforeach; ?>
+            </tbody>
+        </table>
+        <?php
+    }
+
+    /**
+     * Enqueues the Content Security Policy panel for the editor, for users who can use it.
+     *
+     * @return void
+     */
+    public function enqueue_editor_assets() {
+        if ( ! current_user_can( $this->get_capability() ) ) {
+            return;
+        }
+
+        $plugin_dir      = plugin_dir_path( dirname( __DIR__ ) );
+        $plugin_url      = plugin_dir_url( dirname( __DIR__ ) );
+        $script_path     = $plugin_dir . 'dist/csp-editor.js';
+        $asset_file_path = $plugin_dir . 'dist/csp-editor.asset.php';
+
+        if ( ! file_exists( $script_path ) ) {
+            return;
+        }
+
+        $asset_file = file_exists( $asset_file_path )
+            ? include $asset_file_path
+            : [
+                'dependencies' => [ 'wp-plugins', 'wp-editor', 'wp-element', 'wp-components', 'wp-data', 'wp-i18n' ],
+                'version'      => filemtime( $script_path ),
+            ];
+
+        wp_enqueue_script( 'dswp-csp-editor', $plugin_url . 'dist/csp-editor.js', $asset_file['dependencies'], $asset_file['version'], true );
+        wp_localize_script(
+            'dswp-csp-editor',
+            'dswpCspEditor',
+            [
+                'directives' => array_keys( ContentSecurityPolicy::CSP_SETTINGS ),
+            ]
+        );
+    }
+
+    /**
+     * Sanitizes a rule path pattern.
+     *
+     * @param string $pattern Pattern to sanitize.
+     * @return string Pattern starting with "/", or an empty string if invalid.
+     */
+    private function sanitize_pattern( $pattern ) {
+        $pattern = preg_replace( '/[^a-z0-9\-_.\/*~%]/i', '', trim( (string) $pattern ) );
+        if ( '' === $pattern ) {
+            return '';
+        }
+
+        return '/' . ltrim( $pattern, '/' );
+    }
+}
@@ -0,0 +1,174 @@
+<?php
+
+namespace Bcgov\DesignSystemPlugin\ContentSecurityPolicy;
+
+use Bcgov\DesignSystemPlugin\ContentSecurityPolicy;
+
+/**
+ * Class Presets
+ *
+ * Named sets of sources for common services, which add the origins each
+ * service needs to the right directives on the Content Security Policy page.
+ * Applying a preset only adds sources; nothing already allowed is removed.
+ *
+ * @package Bcgov\DesignSystemPlugin\ContentSecurityPolicy
+ * @since 2.18.0
+ */
+class Presets {
+
+    /**
+     * Sources added by each preset, keyed by preset and directive.
+     *
+     * @var array
+     */
+    const PRESETS = [
+        'youtube'          => [
+            'frame-src' => 'www.youtube.com www.youtube-nocookie.com',
+            'child-src' => 'www.youtube.com www.youtube-nocookie.com',
+            'img-src'   => 'i.ytimg.com',
+        ],
+        'vimeo'            => [
+            'frame-src' => 'player.vimeo.com',
+            'child-src' => 'player.vimeo.com',
+            'img-src'   => 'i.vimeocdn.com',
+        ],
+        'google-analytics' => [
+            'script-src'  => 'www.googletagmanager.com www.google-analytics.com',
+            'connect-src' => 'www.google-analytics.com *.google-analytics.com *.analytics.google.com www.googletagmanager.com',
+            'img-src'     => 'www.google-analytics.com www.googletagmanager.com',
+        ],
+        'microsoft-forms'  => [
+            'frame-src' => 'forms.office.com forms.microsoft.com',
+            'child-src' => 'forms.office.com forms.microsoft.com',
+        ],
+        'power-bi'         => [
+            'frame-src' => 'app.powerbi.com',
+            'child-src' => 'app.powerbi.com',
+        ],
+    ];
+
+    /**
+     * The policy the presets are added to.
+     *
+     * @var ContentSecurityPolicy
+     */
+    private $csp;
+
+    /**
+     * Presets constructor.
+     *
+     * @param ContentSecurityPolicy $csp The policy the presets are added to.
+     */
+    public function __construct( ContentSecurityPolicy $csp ) {
+        $this->csp = $csp;
+    }
+
+    /**
+     * Registers the hook for applying a preset.
+     *
+     * @return void
+     */
+    public function init() {
+        add_action( 'admin_post_dswp_apply_csp_preset', [ $this, 'handle_apply' ] );
+    }
+
+    /**
+     * Gets the preset names.
+     *
+     * @return array Names keyed by preset.
+     */
+    public function get_labels() {
+        return [
+            'youtube'          => __( 'YouTube embeds', 'dswp' ),
+            'vimeo'            => __( 'Vimeo embeds', 'dswp' ),
+            'google-analytics' => __( 'Google Analytics', 'dswp' ),
+            'microsoft-forms'  => __( 'Microsoft Forms', 'dswp' ),
+            'power-bi'         => __( 'Power BI reports', 'dswp' ),
+        ];
+    }
+
+    /**
+     * Adds a preset's sources to the saved directives.
+     *
+     * @param string $preset Preset key.
+     * @return bool True if applied, false if the preset does not exist.
+     */
+    public function apply( $preset ) {
+        if ( ! isset( self::PRESETS[ $preset ] ) ) {
+            return false;
+        }
+
+        foreach ( self::PRESETS[ $preset ] as $directive => $sources ) {
+            $option_name = ContentSecurityPolicy::OPTION_PREFIX . ContentSecurityPolicy::CSP_SETTINGS[ $directive ]['option'];
+            $sources     = $this->csp->get_sources( get_option( $option_name, '' ) . ' ' . $sources );
+            update_option( $option_name, implode( ' ', $sources ) );
+        }
+
+        return true;
+    }
+
+    /**
+     * Applies the submitted preset and returns to the Content Security Policy page.
+     *
+     * @return void
+     */
+    public function handle_apply() {
+        if ( ! current_user_can( 'manage_options' ) ) {
+            wp_die( esc_html__( 'Sorry, you are not allowed to change the Content Security Policy.', 'dswp' ), 403 );
+        }
+        check_admin_referer( 'dswp_apply_csp_preset' );
+
+        $preset = isset( $_POST['dswp_csp_preset'] ) ? sanitize_key( wp_unslash( $_POST['dswp_csp_preset'] ) ) : '';
+        $labels = $this->get_labels();
+
+        if ( $this->apply( $preset ) ) {
+            /* translators: %s: Preset name, e.g. "YouTube embeds". */
+            add_settings_error( ContentSecurityPolicy::OPTION_GROUP, 'csp_preset_applied', sprintf( __( 'Added the sources for %s.', 'dswp' ), $labels[ $preset ] ), 'success' );
+        } else {
+            add_settings_error( ContentSecurityPolicy::OPTION_GROUP, 'invalid_csp_preset', __( 'Choose a preset to apply.', 'dswp' ), 'error' );
+        }
+
+        // Like options.php, keep the message for the page it redirects to.
+        set_transient( 'settings_errors', get_settings_errors(), 30 );
+        wp_safe_redirect( admin_url( 'admin.php?page=dswp-content-security-policy-menu&settings-updated=true' ) );
+        exit;
+    }
+
+    /**
+     * Renders the form for applying a preset.
+     *
+     * @return void
+     */
+    public function render_form() {
+        ?>
+        <h2><?php esc_html_e( 'Presets', 'dswp' ); ?></h2>
+        <p><?php esc_html_e( 'Add the sources a common service needs to the right directives. Nothing already allowed is removed.', 'dswp' ); ?></p>
+        <form method="post" action="<?php echo esc_url( admin_url( 'admin-post.php' ) ); ?>">
+            <input type="hidden" name="action" value="dswp_apply_csp_preset" />
+            <?php wp_nonce_field( 'dswp_apply_csp_preset' ); ?>
+            <label class="screen-reader-text" for="dswp_csp_preset"><?php esc_html_e( 'Preset', 'dswp' ); ?></label>
+            <select id="dswp_csp_preset" name="dswp_csp_preset">
+                <?php foreach ( $this->get_labels() as $preset => $label ) : ?>
+                    <option value="<?php echo esc_attr( $preset ); ?>"><?php echo esc_html( $label . ': ' . $this->describe( $preset ) ); ?></option>
+                <?php endforeach; ?>
+            </select>
+            <?php submit_button( __( 'Apply Preset', 'dswp' ), 'secondary', 'submit', false ); ?>
+        </form>
+        <?php
+    }
+
+    /**
+     * Describes a preset's sources, e.g. "frame-src app.powerbi.com".
+     *
+     * @param string $preset Preset key.
+     * @return string Description.
+     */
+    private function describe( $preset ) {
+        $parts = [];
+        foreach ( self::PRESETS[ $preset ] as $directive => $sources ) {
+            $parts[] = $directive . ' ' . $sources;
+        }
+
+        return implode( '; ', $parts );
+    }
+}
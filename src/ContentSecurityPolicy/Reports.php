@@ -0,0 +1,398 @@
+<?php
+
+namespace Bcgov\DesignSystemPlugin\ContentSecurityPolicy;
+
+/**
+ * Class Reports
+ *
+ * Collects Content Security Policy violation reports sent by browsers and
+ * lists them under Design System → CSP Violations:
+ * - Accepts both `report-uri` (application/csp-report) and `report-to`
+ *   (application/reports+json) reports at /wp-json/dswp/v1/csp-report
+ * - Aggregates reports by directive and blocked origin, rather than storing
+ *   each one, so the stored data stays small
+ *
+ * @package Bcgov\DesignSystemPlugin\ContentSecurityPolicy
+ * @since 2.18.0
+ */
+class Reports {
+
+    /**
+     * Option storing the aggregated violations.
+     *
+     * @var string
+     */
+    const OPTION = 'dswp_csp_violations';
+
+    /**
+     * Most violations to keep. Once reached, each new violation replaces the
+     * least recently reported one, so a flood of bogus reports can neither
+     * grow the option nor stop real violations from being recorded.
+     *
+     * @var int
+     */
+    const MAX_VIOLATIONS = 500;
+
+    /**
+     * Most reports recorded from one request. Browsers batch only a few.
+     *
+     * @var int
+     */
+    const MAX_REPORTS_PER_REQUEST = 20;
+
+    /**
+     * Most report requests accepted from one IP address per minute. Further
+     * requests are dropped without writing to the database.
+     *
+     * @var int
+     */
+    const RATE_LIMIT = 60;
+
+    /**
+     * Slug of the CSP Violations admin page.
+     *
+     * @var string
+     */
+    const MENU_SLUG = 'dswp-csp-violations';
+
+    /**
+     * Registers hooks for the report endpoint and admin page.
+     *
+     * @return void
+     */
+    public function init() {
+        add_action( 'rest_api_init', [ $this, 'register_routes' ] );
+        add_action( 'admin_menu', [ $this, 'add_menu' ] );
+        add_action( 'admin_post_dswp_clear_csp_violations', [ $this, 'clear_violations' ] );
+    }
+
+    /**
+     * Registers the report endpoint.
+     *
+     * Browsers send reports without credentials, so the endpoint is public.
+     *
+     * @return void
+     */
+    public function register_routes() {
+        register_rest_route(
+            'dswp/v1',
+            '/csp-report',
+            [
+                'methods'             => \WP_REST_Server::CREATABLE,
+                'callback'            => [ $this, 'receive_reports' ],
+                'permission_callback' => '__return_true',
+            ]
+        );
+    }
+
+    /**
+     * Gets the URL browsers send reports to.
+     *
+     * @return string Endpoint URL.
+     */
+    public function get_endpoint_url() {
+        return rest_url( 'dswp/v1/csp-report' );
+    }
+
+    /**
+     * Receives violation reports.
+     *
+     * @param \WP_REST_Request $request Request.
+     * @return \WP_REST_Response Empty response.
+     */
+    public function receive_reports( $request ) {
+        if ( $this->is_rate_limited() ) {
+            return new \WP_REST_Response( null, 429 );
+        }
+
+        // Report content types are not parsed by the REST API, so decode the body directly.
+        $body = json_decode( $request->get_body(), true );
+
+        $this->record_violations( array_slice( $this->parse_reports( $body ), 0, self::MAX_REPORTS_PER_REQUEST ) );
+
+        return new \WP_REST_Response( null, 204 );
+    }
+
+    /**
+     * Counts a report request against the sender's limit for the current minute.
+     *
+     * @return bool True if the sender is over RATE_LIMIT.
+     */
+    private function is_rate_limited() {
+        $ip  = isset( $_SERVER['REMOTE_ADDR'] ) ? sanitize_text_field( wp_unslash( $_SERVER['REMOTE_ADDR'] ) ) : '';
+        $key = 'dswp_csp_reports_' . md5( $ip . '|' . floor( time() / MINUTE_IN_SECONDS ) );
+
+        $count = (int) get_transient( $key );
+        if ( $count >= self::RATE_LIMIT ) {
+            return true;
+        }
+
+        set_transient( $key, $count + 1, MINUTE_IN_SECONDS );
+
+        return false;
+    }
+
+    /**
+     * Normalizes report payloads from either reporting mechanism.
+     *
+     * @param mixed $body Decoded request body.
+     * @return array List of [ 'directive', 'blocked', 'document' ].
+     */
+    public function parse_reports( $body ) {
+        if ( ! is_array( $body ) ) {
+            return [];
+        }
+
+        // report-uri sends a single report: { "csp-report": { "violated-directive": ... } }.
+        if ( isset( $body['csp-report'] ) && is_array( $body['csp-report'] ) ) {
+            $report = $body['csp-report'];
+            return [
+                [
+                    'directive' => $report['effective-directive'] ?? $report['violated-directive'] ?? '',
+                    'blocked'   => $report['blocked-uri'] ?? '',
+                    'document'  => $report['document-uri'] ?? '',
+                ],
+            ];
+        }
+
+        // report-to sends a list: [ { "type": "csp-violation", "body": { "effectiveDirective": ... } } ].
+        $reports = [];
+        foreach ( $body as $report ) {
+            if ( ! is_array( $report ) || 'csp-violation' !== ( $report['type'] ?? '' ) || ! is_array( $report['body'] ?? null ) ) {
+                continue;
+            }
+            $reports[] = [
+                'directive' => $report['body']['effectiveDirective'] ?? '',
+                'blocked'   => $report['body']['blockedURL'] ?? '',
+                'document'  => $report['body']['documentURL'] ?? '',
+            ];
+        }
+
+        return $reports;
+    }
+
+    /**
+     * Counts a violation against its directive and blocked origin.
+     *
+     * @param string $directive Violated directive, e.g. "script-src-elem".
+     * @param string $blocked   Blocked URL, or a keyword such as "inline".
+     * @param string $document  URL of the page the violation happened on.
+     * @return void
+     */
+    public function record_violation( $directive, $blocked, $document ) {
+        $this->record_violations(
+            [
+                [
+                    'directive' => $directive,
+                    'blocked'   => $blocked,
+                    'document'  => $document,
+                ],
+            ]
+        );
+    }
+
+    /**
+     * Counts violations, saving the aggregated violations once.
+     *
+     * @param array $reports List of [ 'directive', 'blocked', 'document' ], as from parse_reports().
+     * @return void
+     */
+    public function record_violations( $reports ) {
+        $violations = $this->get_violations();
+        $updated    = false;
+
+        foreach ( $reports as $report ) {
+            $directive = $this->normalize_directive( $report['directive'] );
+            if ( '' === $directive ) {
+                continue;
+            }
+
+            $origin = $this->get_origin( $report['blocked'] );
+            $key    = $directive . ' ' . $origin;
+
+            if ( ! isset( $violations[ $key ] ) ) {
+                if ( count( $violations ) >= self::MAX_VIOLATIONS ) {
+                    unset( $violations[ $this->get_least_recent_key( $violations ) ] );
+                }
+                $violations[ $key ] = [
+                    'directive'  => $directive,
+                    'origin'     => $origin,
+                    'count'      => 0,
+                    'first_seen' => time(),
+                ];
+            }
+
+            $violations[ $key ]['count']++;
+            $violations[ $key ]['last_seen'] = time();
+            $violations[ $key ]['document']  = esc_url_raw( $report['document'] );
+            $updated                         = true;
+        }
+
+        if ( $updated ) {
+            update_option( self::OPTION, $violations, false );
+        }
+    }
+
+    /**
+     * Gets the key of the violation reported least recently.
+     *
+     * @param array $violations Violations from get_violations().
+     * @return string Violation key.
+     */
+    private function get_least_recent_key( $violations ) {
+        $last_seen = array_map(
+            function ( $violation ) {
+                return $violation['last_seen'] ?? 0;
+            },
+            $violations
+        );
+
+        return array_search( min( $last_seen ), $last_seen, true );
+    }
+
+    /**
+     * Gets the aggregated violations.
+     *
+     * @return array Violations keyed by directive and origin, each with 'directive', 'origin', 'count', 'first_seen', 'last_seen' and 'document'.
+     */
+    public function get_violations() {
+        $violations = get_option( self::OPTION, [] );
+
+        return is_array( $violations ) ? $violations : [];
+    }
+
+    /**
+     * Adds the CSP Violations admin page.
+     *
+     * @return void
+     */
+    public function add_menu() {
+        add_submenu_page(
+            'dswp-admin-menu',
+            __( 'CSP Violations', 'dswp' ),
+            __( 'CSP Violations', 'dswp' ),
+            'manage_options',
+            self::MENU_SLUG,
+            [ $this, 'render_violations_page' ]
+        );
+    }
+
+    /**
+     * Renders the CSP Violations admin page, most frequent first.
+     *
+     * @return void
+     */
+    public function render_violations_page() {
+        $violations = $this->get_violations();
+        uasort(
+            $violations,
+            function ( $a, $b ) {
+                return $b['count'] <=> $a['count'];
+            }
+        );
+		?>
+        <div class="wrap">
+            <h1><?php esc_html_e( 'CSP Violations', 'dswp' ); ?></h1>
+            <p>
+                <?php
+                printf(
+                    /* translators: %s: Link to the Content Security Policy settings page. */
+                    esc_html__( 'Resources blocked by the policy, reported by visitors\' browsers when the %s mode is Report only or Enforce and report. Add origins you trust to the matching directive.', 'dswp' ),
+                    '<a href="' . esc_url( admin_url( 'admin.php?page=dswp-content-security-policy-menu' ) ) . '">' . esc_html__( 'Content Security Policy', 'dswp' ) . '</a>'
+                );
+                ?>
+            </p>
+            <?php if ( ! $violations ) : ?>
+                <p><strong><?php esc_html_e( 'No violations have been reported.', 'dswp' ); ?></strong></p>
+            <?php else : ?>
+                <table class="widefat striped">
+                    <thead>
+                        <tr>
+                            <th scope="col"><?php esc_html_e( 'Directive', 'dswp' ); ?></th>
+                            <th scope="col"><?php esc_html_e( 'Blocked Origin', 'dswp' ); ?></th>
+                            <th scope="col"><?php esc_html_e( 'Reports', 'dswp' ); ?></th>
+                            <th scope="col"><?php esc_html_e( 'Last Reported', 'dswp' ); ?></th>
+                            <th scope="col"><?php esc_html_e( 'Example Page', 'dswp' ); ?></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        <?php foreach ( $violations as $violation ) : ?>
+                            <tr>
+                                <td><code><?php echo esc_html( $violation['directive'] ); ?></code></td>
+                                <td><code><?php echo esc_html( $violation['origin'] ); ?></code></td>
+                                <td><?php echo esc_html( number_format_i18n( $violation['count'] ) ); ?></td>
+                                <td><?php echo esc_html( wp_date( get_option( 'date_format' ) . ' ' . get_option( 'time_format' ), $violation['last_seen'] ) ); ?></td>
+                                <td>
+                                    <?php if ( ! empty( $violation['document'] ) ) : ?>
+                                        <a href="<?php echo esc_url( $violation['document'] ); ?>"><?php echo esc_html( wp_make_link_relative( $violation['document'] ) ); ?></a>
+                                    <?php endif; ?>
+                                </td>
+                            </tr>
+                        <?php endforeach; ?>
+                    </tbody>
+                </table>
+                <form method="post" action="<?php echo esc_url( admin_url( 'admin-post.php' ) ); ?>">
+                    <input type="hidden" name="action" value="dswp_clear_csp_violations" />
+                    <?php wp_nonce_field( 'dswp_clear_csp_violations' ); ?>
+                    <?php submit_button( __( 'Clear Reports', 'dswp' ), 'secondary' ); ?>
+                </form>
+            <?php endif; ?>
+        </div>
+		<?php
+    }
+
+    /**
+     * Clears the stored violations and returns to the CSP Violations page.
+     *
+     * @return void
+     */
+    public function clear_violations() {
+        if ( ! current_user_can( 'manage_options' ) ) {
+            wp_die( esc_html__( 'Sorry, you are not allowed to clear CSP reports.', 'dswp' ), 403 );
+        }
+        check_admin_referer( 'dswp_clear_csp_violations' );
+
+        delete_option( self::OPTION );
+
+        wp_safe_redirect( admin_url( 'admin.php?page=' . self::MENU_SLUG ) );
+        exit;
+    }
+
+    /**
+     * Normalizes a reported directive to its name, e.g. "script-src-elem".
+     *
+     * Older browsers report the whole violated directive including its sources.
+     *
+     * @param string $directive Reported directive.
+     * @return string Directive name, or an empty string if invalid.
+     */
+    private function normalize_directive( $directive ) {
+        $directive = strtolower( strtok( trim( (string) $directive ), ' ' ) );
+
+        return preg_match( '/^[a-z-]{1,40}$/', $directive ) ? $directive : '';
+    }
+
+    /**
+     * Gets the origin of a blocked URL, which is what an allowlist needs.
+     *
+     * @param string $blocked Blocked URL, or a keyword such as "inline" or "eval".
+     * @return string Origin (e.g. "https://cdn.example.com"), scheme (e.g. "data:") or keyword.
+     */
+    private function get_origin( $blocked ) {
+        $blocked = trim( (string) $blocked );
+        $parts   = wp_parse_url( $blocked );
+
+        if ( ! empty( $parts['host'] ) ) {
+            $scheme = isset( $parts['scheme'] ) ? strtolower( $parts['scheme'] ) . '://' : '';
+            $port   = isset( $parts['port'] ) ? ':' . $parts['port'] : '';
+            return $scheme . strtolower( $parts['host'] ) . $port;
+        }
+
+        if ( ! empty( $parts['scheme'] ) ) {
+            return strtolower( $parts['scheme'] ) . ':';
+        }
+
+        $keyword = strtolower( $blocked );
+        return preg_match( '/^[a-z-]{1,20}$/', $keyword ) ? $keyword : 'unknown';
+    }
+}
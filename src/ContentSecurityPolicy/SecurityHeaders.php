@@ -0,0 +1,291 @@
+<?php
+
+namespace Bcgov\DesignSystemPlugin\ContentSecurityPolicy;
+
+use Bcgov\DesignSystemPlugin\ContentSecurityPolicy;
+
+/**
+ * Class SecurityHeaders
+ *
+ * Manages the hardening headers sent with the Content Security Policy,
+ * set in the Security Headers section of the Content Security Policy page:
+ * - Strict-Transport-Security (max-age, includeSubDomains, preload)
+ * - Referrer-Policy
+ * - Permissions-Policy
+ * - X-Content-Type-Options
+ * - Cross-Origin-Opener-Policy
+ *
+ * @package Bcgov\DesignSystemPlugin\ContentSecurityPolicy
+ * @since 2.18.0
+ */
+class SecurityHeaders {
+
+    const OPTION_PREFIX = 'dswp_security_';
+
+    /**
+     * Default values, keyed by option suffix. The HSTS defaults match the
+     * header sent before it was configurable.
+     *
+     * @var array
+     */
+    const DEFAULTS = [
+        'hsts_max_age'            => 10886400,
+        'hsts_include_subdomains' => '0',
+        'hsts_preload'            => '1',
+        'referrer_policy'         => 'strict-origin-when-cross-origin',
+        'permissions_policy'      => 'camera=(), microphone=(), geolocation=(), payment=(), usb=()',
+        'nosniff'                 => '1',
+        'coop'                    => 'same-origin-allow-popups',
+    ];
+
+    /**
+     * Longest HSTS max-age allowed, two years in seconds.
+     *
+     * @var int
+     */
+    const MAX_HSTS_AGE = 63072000;
+
+    /**
+     * Referrer-Policy values.
+     *
+     * @var string[]
+     */
+    const REFERRER_POLICIES = [
+        'no-referrer',
+        'no-referrer-when-downgrade',
+        'origin',
+        'origin-when-cross-origin',
+        'same-origin',
+        'strict-origin',
+        'strict-origin-when-cross-origin',
+        'unsafe-url',
+    ];
+
+    /**
+     * Cross-Origin-Opener-Policy values. 'off' does not send the header.
+     *
+     * @var string[]
+     */
+    const COOP_POLICIES = [ 'off', 'unsafe-none', 'same-origin-allow-popups', 'same-origin' ];
+
+    /**
+     * Registers the security header settings.
+     *
+     * @return void
+     */
+    public function register_settings() {
+        register_setting( ContentSecurityPolicy::OPTION_GROUP, self::OPTION_PREFIX . 'hsts_max_age', [ $this, 'sanitize_hsts_max_age' ] );
+        register_setting( ContentSecurityPolicy::OPTION_GROUP, self::OPTION_PREFIX . 'hsts_include_subdomains', [ $this, 'sanitize_flag' ] );
+        register_setting( ContentSecurityPolicy::OPTION_GROUP, self::OPTION_PREFIX . 'hsts_preload', [ $this, 'sanitize_flag' ] );
+        register_setting( ContentSecurityPolicy::OPTION_GROUP, self::OPTION_PREFIX . 'referrer_policy', [ $this, 'sanitize_referrer_policy' ] );
+        register_setting( ContentSecurityPolicy::OPTION_GROUP, self::OPTION_PREFIX . 'permissions_policy', [ $this, 'sanitize_permissions_policy' ] );
+        register_setting( ContentSecurityPolicy::OPTION_GROUP, self::OPTION_PREFIX . 'nosniff', [ $this, 'sanitize_flag' ] );
+        register_setting( ContentSecurityPolicy::OPTION_GROUP, self::OPTION_PREFIX . 'coop', [ $this, 'sanitize_coop' ] );
+    }
+
+    /**
+     * Gets a setting, falling back to its default.
+     *
+     * @param string $name Option suffix, a key of DEFAULTS.
+     * @return mixed Setting value.
+     */
+    public function get_setting( $name ) {
+        return get_option( self::OPTION_PREFIX . $name, self::DEFAULTS[ $name ] );
+    }
+
+    /**
+     * Gets the security headers to send.
+     *
+     * @return array Header values keyed by header name.
+     */
+    public function get_headers() {
+        $hsts = 'max-age=' . $this->sanitize_hsts_max_age( $this->get_setting( 'hsts_max_age' ) );
+        if ( '1' === $this->get_setting( 'hsts_include_subdomains' ) ) {
+            $hsts .= '; includeSubDomains';
+        }
+        if ( '1' === $this->get_setting( 'hsts_preload' ) ) {
+            $hsts .= '; preload';
+        }
+
+        $headers = [
+            'Strict-Transport-Security' => $hsts,
+            'Referrer-Policy'           => $this->sanitize_referrer_policy( $this->get_setting( 'referrer_policy' ) ),
+        ];
+
+        $permissions_policy = (string) $this->get_setting( 'permissions_policy' );
+        if ( '' !== $permissions_policy ) {
+            $headers['Permissions-Policy'] = $permissions_policy;
+        }
+
+        if ( '1' === $this->get_setting( 'nosniff' ) ) {
+            $headers['X-Content-Type-Options'] = 'nosniff';
+        }
+
+        $coop = $this->sanitize_coop( $this->get_setting( 'coop' ) );
+        if ( 'off' !== $coop ) {
+            $headers['Cross-Origin-Opener-Policy'] = $coop;
+        }
+
+        return $headers;
+    }
+
+    /**
+     * Sanitizes the HSTS max-age, in seconds.
+     *
+     * @param mixed $value The value to sanitize.
+     * @return int Seconds, at most MAX_HSTS_AGE.
+     */
+    public function sanitize_hsts_max_age( $value ) {
+        return min( absint( $value ), self::MAX_HSTS_AGE );
+    }
+
+    /**
+     * Sanitizes a checkbox setting.
+     *
+     * @param mixed $value The value to sanitize.
+     * @return string '1' if checked, otherwise '0'.
+     */
+    public function sanitize_flag( $value ) {
+        return '1' === (string) $value ? '1' : '0';
+    }
+
+    /**
+     * Sanitizes the Referrer-Policy setting.
+     *
+     * @param string $value The value to sanitize.
+     * @return string One of REFERRER_POLICIES, or the default if invalid.
+     */
+    public function sanitize_referrer_policy( $value ) {
+        return in_array( $value, self::REFERRER_POLICIES, true ) ? $value : self::DEFAULTS['referrer_policy'];
+    }
+
+    /**
+     * Sanitizes the Cross-Origin-Opener-Policy setting.
+     *
+     * @param string $value The value to sanitize.
+     * @return string One of COOP_POLICIES, or the default if invalid.
+     */
+    public function sanitize_coop( $value ) {
+        return in_array( $value, self::COOP_POLICIES, true ) ? $value : self::DEFAULTS['coop'];
+    }
+
+    /**
+     * Validates the Permissions-Policy setting, removing invalid entries.
+     *
+     * Each entry is a feature and its allowlist, separated by commas, e.g.
+     * `camera=(), geolocation=(self "https://maps.gov.bc.ca"), fullscreen=*`.
+     *
+     * @param string $value The value to validate.
+     * @return string The valid entries, normalized.
+     */
+    public function sanitize_permissions_policy( $value ) {
+        $origin  = '(?:self|\*|"https?:\/\/[a-z0-9.\-]+(?::\d{1,5})?")';
+        $pattern = '/^([a-z][a-z0-9-]*)\s*=\s*(\*|\(\s*(?:' . $origin . '(?:\s+' . $origin . ')*)?\s*\))$/';
+        $valid   = [];
+        $invalid = [];
+
+        foreach ( explode( ',', strtolower( (string) $value ) ) as $entry ) {
+            $entry = trim( $entry );
+            if ( '' === $entry ) {
+                continue;
+            }
+
+            if ( preg_match( $pattern, $entry, $matches ) ) {
+                $valid[] = $matches[1] . '=' . preg_replace( [ '/\(\s+/', '/\s+\)/', '/\s+/' ], [ '(', ')', ' ' ], $matches[2] );
+            } else {
+                $invalid[] = $entry;
+            }
+        }
+
+        if ( $invalid ) {
+            add_settings_error(
+                ContentSecurityPolicy::OPTION_GROUP,
+                'invalid_permissions_policy',
+                sprintf(
+                    /* translators: %s: List of invalid Permissions-Policy entries */
+                    __( 'Invalid Permissions-Policy entries removed: %s', 'dswp' ),
+                    implode( ', ', $invalid )
+                ),
+                'error'
+            );
+        }
+
+        return implode( ', ', $valid );
+    }
+
+    /**
+     * Renders the Security Headers section of the Content Security Policy page.
+     *
+     * @return void
+     */
+    public function render_fields() {
+        $max_age   = $this->sanitize_hsts_max_age( $this->get_setting( 'hsts_max_age' ) );
+        $referrer  = $this->sanitize_referrer_policy( $this->get_setting( 'referrer_policy' ) );
+        $coop      = $this->sanitize_coop( $this->get_setting( 'coop' ) );
+        $coop_text = [
+            'off'                      => __( 'Off: do not send the header', 'dswp' ),
+            'unsafe-none'              => __( 'unsafe-none: share the browsing context with any window', 'dswp' ),
+            'same-origin-allow-popups' => __( 'same-origin-allow-popups: keep popups this site opens, such as sign in windows', 'dswp' ),
+            'same-origin'              => __( 'same-origin: isolate this site from all other windows', 'dswp' ),
+        ];
+        ?>
+        <h2><?php esc_html_e( 'Security Headers', 'dswp' ); ?></h2>
+
+        <h3><?php esc_html_e( 'Strict-Transport-Security', 'dswp' ); ?></h3>
+        <p><?php esc_html_e( 'Tells browsers to only use HTTPS for this site. The preload list requires a max-age of at least 31536000 (one year) and includeSubDomains.', 'dswp' ); ?></p>
+        <label for="<?php echo esc_attr( self::OPTION_PREFIX . 'hsts_max_age' ); ?>"><?php esc_html_e( 'max-age (seconds)', 'dswp' ); ?></label>
+        <input type="number"
+            id="<?php echo esc_attr( self::OPTION_PREFIX . 'hsts_max_age' ); ?>"
+            name="<?php echo esc_attr( self::OPTION_PREFIX . 'hsts_max_age' ); ?>"
+            value="<?php echo esc_attr( $max_age ); ?>"
+            min="0"
+            max="<?php echo esc_attr( self::MAX_HSTS_AGE ); ?>" /><br />
+        <?php
+        $this->render_checkbox( 'hsts_include_subdomains', __( 'includeSubDomains: also use HTTPS for all subdomains', 'dswp' ) );
+        $this->render_checkbox( 'hsts_preload', __( 'preload: allow the site to be added to browsers\' HTTPS preload list', 'dswp' ) );
+        ?>
+
+        <h3><?php esc_html_e( 'Referrer-Policy', 'dswp' ); ?></h3>
+        <p><?php esc_html_e( 'How much of the page address is sent when following links or loading resources.', 'dswp' ); ?></p>
+        <label class="screen-reader-text" for="<?php echo esc_attr( self::OPTION_PREFIX . 'referrer_policy' ); ?>"><?php esc_html_e( 'Referrer-Policy', 'dswp' ); ?></label>
+        <select id="<?php echo esc_attr( self::OPTION_PREFIX . 'referrer_policy' ); ?>" name="<?php echo esc_attr( self::OPTION_PREFIX . 'referrer_policy' ); ?>">
+            <?php foreach ( self::REFERRER_POLICIES as $policy ) : ?>
+                <option value="<?php echo esc_attr( $policy ); ?>" <?php selected( $referrer, $policy ); ?>><?php echo esc_html( $policy ); ?></option>
+            <?php endforeach; ?>
+        </select>
+
+        <h3><?php esc_html_e( 'Permissions-Policy', 'dswp' ); ?></h3>
+        <p><?php echo esc_html( __( 'Browser features the site and its frames can use, separated by commas. Leave empty to not send the header. Default includes: ', 'dswp' ) . self::DEFAULTS['permissions_policy'] ); ?></p>
+        <label class="screen-reader-text" for="<?php echo esc_attr( self::OPTION_PREFIX . 'permissions_policy' ); ?>"><?php esc_html_e( 'Permissions-Policy', 'dswp' ); ?></label>
+        <input class="admin-form-inputs"
+            type="text"
+            id="<?php echo esc_attr( self::OPTION_PREFIX . 'permissions_policy' ); ?>"
+            name="<?php echo esc_attr( self::OPTION_PREFIX . 'permissions_policy' ); ?>"
+            value="<?php echo esc_attr( $this->get_setting( 'permissions_policy' ) ); ?>" />
+
+        <h3><?php esc_html_e( 'X-Content-Type-Options', 'dswp' ); ?></h3>
+        <?php $this->render_checkbox( 'nosniff', __( 'nosniff: stop browsers guessing file types, so uploads cannot run as scripts', 'dswp' ) ); ?>
+
+        <h3><?php esc_html_e( 'Cross-Origin-Opener-Policy', 'dswp' ); ?></h3>
+        <p><?php esc_html_e( 'Whether windows on other sites can keep a reference to this site\'s pages.', 'dswp' ); ?></p>
+        <?php
+        foreach ( $coop_text as $value => $label ) {
+            echo '<label for="dswp_security_coop_' . esc_attr( $value ) . '">
+                    <input type="radio" id="dswp_security_coop_' . esc_attr( $value ) . '" name="' . esc_attr( self::OPTION_PREFIX . 'coop' ) . '" value="' . esc_attr( $value ) . '" ' . checked( $coop, $value, false ) . ' /> ' . esc_html( $label ) . '
+                  </label><br />';
+        }
+    }
+
+    /**
+     * Renders a checkbox setting.
+     *
+     * @param string $name  Option suffix, a key of DEFAULTS.
+     * @param string $label Checkbox label.
+     * @return void
+     */
+    private function render_checkbox( $name, $label ) {
+        echo '<label for="' . esc_attr( self::OPTION_PREFIX . $name ) . '">
+                <input type="checkbox" id="' . esc_attr( self::OPTION_PREFIX . $name ) . '" name="' . esc_attr( self::OPTION_PREFIX . $name ) . '" value="1" ' . checked( $this->get_setting( $name ), '1', false ) . ' /> ' . esc_html( $label ) . '
+              </label><br />';
+    }
+}
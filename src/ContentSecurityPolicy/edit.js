@@ -0,0 +1,117 @@
+/**
+ * WordPress Content Security Policy Editor Panel
+ *
+ * Adds a settings panel to the WordPress editor sidebar for adding sources
+ * to the site's Content Security Policy on the current post only, e.g. to
+ * allow an embedded report in frame-src. Only loaded for users who can
+ * manage the policy (see Overrides::enqueue_editor_assets()).
+ *
+ * @requires @wordpress/editor
+ * @requires @wordpress/components
+ * @requires @wordpress/data
+ * @requires @wordpress/plugins
+ */
+
+// Import WordPress dependencies
+import { PluginDocumentSettingPanel } from '@wordpress/editor';
+import { SelectControl, TextControl } from '@wordpress/components';
+import { useSelect, useDispatch } from '@wordpress/data';
+import { __, sprintf } from '@wordpress/i18n';
+import { registerPlugin } from '@wordpress/plugins';
+
+/**
+ * Directives that can be added to, from ContentSecurityPolicy::CSP_SETTINGS.
+ */
+const DIRECTIVES = window.dswpCspEditor?.directives ?? [];
+
+/**
+ * Content Security Policy Settings Panel Component
+ *
+ * Lists a text field for each directive with additions, plus a select
+ * for adding another directive.
+ *
+ * @return {JSX.Element} Settings panel with a field per directive
+ */
+const CspPanel = () => {
+	// Get the additions from post meta
+	const additions = useSelect(
+		( select ) =>
+			select( 'core/editor' ).getEditedPostAttribute( 'meta' )
+				?.dswp_csp_additions ?? {},
+		[]
+	);
+
+	// Get dispatch function for updating post meta
+	const { editPost } = useDispatch( 'core/editor' );
+
+	/**
+	 * Update the sources for a directive, keeping the others.
+	 *
+	 * @param {string} directive Directive name.
+	 * @param {string} sources   Space separated sources.
+	 */
+	const updateSources = ( directive, sources ) => {
+		editPost( {
+			meta: {
+				dswp_csp_additions: { ...additions, [ directive ]: sources },
+			},
+		} );
+	};
+
+	const unused = DIRECTIVES.filter(
+		( directive ) => ! ( directive in additions )
+	);
+
+	return (
+		<PluginDocumentSettingPanel
+			name="dswp-csp-panel"
+			title={ __( 'Content Security Policy', 'dswp' ) }
+		>
+			<p>
+				{ __(
+					'Sources added here are allowed on this page only, in addition to the site-wide policy. Separate sources with spaces.',
+					'dswp'
+				) }
+			</p>
+			{ Object.keys( additions ).map( ( directive ) => (
+				<TextControl
+					key={ directive }
+					label={ directive }
+					help={ sprintf(
+						/* translators: %s: Directive name, e.g. "frame-src". */
+						__( 'Clear to stop adding to %s.', 'dswp' ),
+						directive
+					) }
+					placeholder="app.powerbi.com"
+					value={ additions[ directive ] }
+					onChange={ ( value ) => updateSources( directive, value ) }
+				/>
+			) ) }
+			{ unused.length > 0 && (
+				<SelectControl
+					label={ __( 'Add to a directive', 'dswp' ) }
+					value=""
+					options={ [
+						{
+							label: __( 'Select a directive', 'dswp' ),
+							value: '',
+						},
+						...unused.map( ( directive ) => ( {
+							label: directive,
+							value: directive,
+						} ) ),
+					] }
+					onChange={ ( value ) =>
+						value && updateSources( value, '' )
+					}
+				/>
+			) }
+		</PluginDocumentSettingPanel>
+	);
+};
+
+// Register the plugin with WordPress
+registerPlugin( 'dswp-csp-panel', {
+	render: CspPanel,
+	icon: 'shield',
+} );
@@ -16,6 +16,35 @@ namespace Bcgov\DesignSystemPlugin\InPageNav;
  */
 class InPageNav {
 
+    /**
+     * Heading levels the navigation can be built from.
+     *
+     * @var string[]
+     */
+    const SUPPORTED_HEADING_SELECTORS = [ 'h2', 'h3', 'h4' ];
+
+    /**
+     * Sidebar positions available in the per-page settings.
+     *
+     * @var string[]
+     */
+    const POSITIONS = [ 'top', 'left', 'right' ];
+
+    /**
+     * Default per-page settings stored in the `inpage_nav_settings` meta.
+     *
+     * An empty title uses the translated "On this page:" default.
+     *
+     * @var array
+     */
+    const DEFAULT_SETTINGS = [
+        'heading_depth' => 2,
+        'title'         => '',
+        'show_excerpt'  => true,
+        'show_numbers'  => true,
+        'position'      => 'top',
+    ];
+
     /**
      * Plugin version number.
      *
@@ -51,13 +80,16 @@ class InPageNav {
         add_action( 'init', [ $this, 'register_meta' ] );
         add_action( 'wp_enqueue_scripts', [ $this, 'enqueue_assets' ] );
         add_action( 'enqueue_block_editor_assets', [ $this, 'enqueue_editor_assets' ] );
+        // Run after SkipNavigation adds id="main-content" to the block.
+        add_filter( 'render_block_core/post-content', [ $this, 'render_navigation' ], 20, 3 );
     }
 
     /**
-     * Register the meta field for enabling/disabling in-page navigation.
+     * Register the meta fields for in-page navigation.
      *
-     * Creates a boolean meta field that can be toggled in the WordPress REST API
-     * and is accessible in the block editor.
+     * Creates a boolean meta field to enable/disable the navigation and an
+     * object meta field holding its per-page display settings. Both are
+     * accessible in the WordPress REST API and the block editor.
      *
      * @return void
      */
@@ -75,6 +107,92 @@ class InPageNav {
 				},
 			]
         );
+
+        register_post_meta(
+            'page',
+            'inpage_nav_settings',
+            [
+                'show_in_rest'      => [
+                    'schema' => [
+                        'type'                 => 'object',
+                        'additionalProperties' => false,
+                        'properties'           => [
+                            'heading_depth' => [
+                                'type'    => 'integer',
+                                'minimum' => 2,
+                                'maximum' => 4,
+                            ],
+                            'title'         => [
+                                'type' => 'string',
+                            ],
+                            'show_excerpt'  => [
+                                'type' => 'boolean',
+                            ],
+                            'show_numbers'  => [
+                                'type' => 'boolean',
+                            ],
+                            'position'      => [
+                                'type' => 'string',
+                                'enum' => self::POSITIONS,
+                            ],
+                        ],
+                    ],
+                ],
+                'single'            => true,
+                'type'              => 'object',
+                'default'           => self::DEFAULT_SETTINGS,
+                'sanitize_callback' => [ $this, 'sanitize_settings' ],
+                'auth_callback'     => function () {
+                    return current_user_can( 'edit_posts' );
+                },
+            ]
+        );
+    }
+
+    /**
+     * Sanitize the per-page navigation settings.
+     *
+     * Unknown keys are dropped and missing or invalid values fall back to
+     * their defaults.
+     *
+     * @param mixed $settings Raw settings value.
+     * @return array Sanitized settings.
+     */
+    public function sanitize_settings( $settings ) {
+        $settings  = is_array( $settings ) ? $settings : [];
+        $sanitized = self::DEFAULT_SETTINGS;
+
+        if ( isset( $settings['heading_depth'] ) ) {
+            $sanitized['heading_depth'] = min( 4, max( 2, absint( $settings['heading_depth'] ) ) );
+        }
+
+        if ( isset( $settings['title'] ) ) {
+            $sanitized['title'] = sanitize_text_field( $settings['title'] );
+        }
+
+        foreach ( [ 'show_excerpt', 'show_numbers' ] as $key ) {
+            if ( isset( $settings[ $key ] ) ) {
+                $sanitized[ $key ] = rest_sanitize_boolean( $settings[ $key ] );
+            }
+        }
+
+        if ( isset( $settings['position'] ) && in_array( $settings['position'], self::POSITIONS, true ) ) {
+            $sanitized['position'] = $settings['position'];
+        }
+
+        return $sanitized;
+    }
+
+    /**
+     * Get the navigation settings for a page, merged with the defaults.
+     *
+     * @param int $post_id Page ID.
+     * @return array Settings.
+     */
+    public function get_settings( $post_id ) {
+        $settings = get_post_meta( $post_id, 'inpage_nav_settings', true );
+
+        return $this->sanitize_settings( $settings );
     }
 
     /**
@@ -118,21 +236,9 @@ class InPageNav {
             true
         );
 
-        		// Get page excerpt if available.
-		$page_excerpt = '';
-		if ( is_page() ) {
-			$post = get_post();
-			if ( $post && ! empty( $post->post_excerpt ) ) {
-				$page_excerpt = wp_strip_all_tags( $post->post_excerpt );
-			} elseif ( $post && ! empty( $post->post_content ) ) {
-				// Fallback to first paragraph if no excerpt.
-				$content         = wp_strip_all_tags( $post->post_content );
-				$first_paragraph = strtok( $content, "\n" );
-				if ( strlen( $first_paragraph ) > 20 ) {
-					$page_excerpt = $first_paragraph;
-				}
-			}
-		}
+		$page_excerpt = $this->get_page_excerpt( get_post() );
+
+		$settings = $this->get_settings( get_the_ID() );
 
 		// Pass configuration options and excerpt to JavaScript.
 		wp_localize_script(
@@ -142,14 +248,156 @@ class InPageNav {
 				'options'      => [
 					'nav_breakpoint'    => 768,
 					'mobile_breakpoint' => 1800,
-					'scroll_offset'     => 60,
-					'heading_selectors' => [ 'h2' ],
+					'scroll_offset'     => $this->get_scroll_offset(),
+					'heading_selectors' => $this->get_heading_selectors( $settings['heading_depth'] ),
+					'title'             => $this->get_title( $settings ),
+					'show_excerpt'      => $settings['show_excerpt'],
+					'show_numbers'      => $settings['show_numbers'],
+					'position'          => $settings['position'],
 				],
 				'page_excerpt' => $page_excerpt,
 			]
 		);
     }
 
+    /**
+     * Render the in-page navigation around the page content.
+     *
+     * Adds deterministic IDs to the content's headings and wraps the content
+     * with the navigation markup, so the links work without JavaScript. The
+     * view script then enhances the rendered navigation.
+     *
+     * @param string         $block_content Rendered post content block.
+     * @param array          $block         Parsed block.
+     * @param \WP_Block|null $instance      Block instance.
+     * @return string Block content, wrapped with the navigation when enabled.
+     */
+    public function render_navigation( $block_content, $block, $instance = null ) {
+        if ( ! is_page() || empty( $block_content ) ) {
+            return $block_content;
+        }
+
+        // Only render for the page being viewed, not posts queried inside it.
+        $post_id = $instance instanceof \WP_Block && isset( $instance->context['postId'] )
+            ? (int) $instance->context['postId']
+            : get_the_ID();
+        if ( get_queried_object_id() !== $post_id || ! get_post_meta( $post_id, 'show_inpage_nav', true ) ) {
+            return $block_content;
+        }
+
+        $settings = $this->get_settings( $post_id );
+        $renderer = new Renderer();
+        $result   = $renderer->add_heading_ids( $block_content, $this->get_heading_selectors( $settings['heading_depth'] ) );
+
+        if ( empty( $result['headings'] ) ) {
+            return $block_content;
+        }
+
+        $navigation = $renderer->render_navigation(
+            $result['headings'],
+            [
+                'title'        => $this->get_title( $settings ),
+                'excerpt'      => $settings['show_excerpt'] ? $this->get_page_excerpt( get_post( $post_id ) ) : '',
+                'show_numbers' => $settings['show_numbers'],
+            ]
+        );
+
+        return sprintf(
+            '<div class="dswp-nav-content-container is-nav-%1$s">%2$s%3$s</div>',
+            esc_attr( $settings['position'] ),
+            $navigation,
+            $result['content']
+        );
+    }
+
+    /**
+     * Get the page excerpt shown at the top of the navigation.
+     *
+     * Uses the page excerpt, falling back to the first paragraph of the
+     * content when it is long enough.
+     *
+     * @param \WP_Post|null $post Page.
+     * @return string Plain-text excerpt, or an empty string.
+     */
+    public function get_page_excerpt( $post ) {
+        if ( ! $post ) {
+            return '';
+        }
+
+        if ( ! empty( $post->post_excerpt ) ) {
+            return wp_strip_all_tags( $post->post_excerpt );
+        }
+
+        if ( ! empty( $post->post_content ) ) {
+            // Fallback to first paragraph if no excerpt.
+            $content         = wp_strip_all_tags( $post->post_content );
+            $first_paragraph = strtok( $content, "\n" );
+            if ( strlen( $first_paragraph ) > 20 ) {
+                return $first_paragraph;
+            }
+        }
+
+        return '';
+    }
+
+    /**
+     * Get the navigation title, falling back to the translated default.
+     *
+     * @param array $settings Settings from get_settings().
+     * @return string Title.
+     */
+    private function get_title( $settings ) {
+        return '' !== $settings['title'] ? $settings['title'] : __( 'On this page:', 'dswp' );
+    }
+
+    /**
+     * Get the offset, in px, between the top of the viewport and a heading
+     * scrolled to from the navigation.
+     *
+     * Also moves the line a heading must pass to become the current section.
+     * Sites with a sticky header can increase it with the
+     * `dswp_in_page_nav_scroll_offset` filter.
+     *
+     * @return int Offset in px.
+     */
+    public function get_scroll_offset() {
+        /**
+         * Filters the in-page navigation scroll offset.
+         *
+         * @param int $offset Offset in px. Default 60.
+         */
+        return absint( apply_filters( 'dswp_in_page_nav_scroll_offset', 60 ) );
+    }
+
+    /**
+     * Get the heading levels used to build the navigation outline.
+     *
+     * Defaults to the page's heading depth (h2 only unless changed in the
+     * editor). Sites can override the levels with the
+     * `dswp_in_page_nav_heading_selectors` filter; unsupported values are dropped.
+     *
+     * @param int $depth Deepest heading level to include, 2–4.
+     * @return string[] Heading selectors, in outline order.
+     */
+    public function get_heading_selectors( $depth = 2 ) {
+        $depth = min( 4, max( 2, absint( $depth ) ) );
+
+        /**
+         * Filters the heading levels included in the in-page navigation.
+         *
+         * @param string[] $selectors Heading selectors, e.g. [ 'h2', 'h3' ].
+         */
+        $selectors = (array) apply_filters(
+            'dswp_in_page_nav_heading_selectors',
+            array_slice( self::SUPPORTED_HEADING_SELECTORS, 0, $depth - 1 )
+        );
+        $selectors = array_map( 'strtolower', array_map( 'trim', array_map( 'strval', $selectors ) ) );
+
+        $selectors = array_values( array_intersect( self::SUPPORTED_HEADING_SELECTORS, $selectors ) );
+
+        return empty( $selectors ) ? [ 'h2' ] : $selectors;
+    }
+
     /**
      * Enqueue editor-specific assets.
      *
@@ -179,6 +427,7 @@ class InPageNav {
                     'wp-element',
                     'wp-components',
                     'wp-data',
+                    'wp-hooks',
                 ],
                 'version'      => $this->version,
             ];
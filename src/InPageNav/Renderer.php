@@ -0,0 +1,250 @@
+<?php
+
+namespace Bcgov\DesignSystemPlugin\InPageNav;
+
+/**
+ * In-Page Navigation Renderer
+ *
+ * Builds the in-page navigation markup on the server from the page content:
+ * - Assigns deterministic IDs to headings that do not already have one
+ * - Nests headings into a numbered outline (1, 1.1, 1.2...)
+ * - Renders the `<aside class="dswp-in-page-nav">` the view script enhances
+ *
+ * The markup mirrors what `view.ts` builds client-side so the same styles
+ * and behaviour apply to both.
+ *
+ * @package src\InPageNav
+ * @since 2.18.0
+ */
+class Renderer {
+
+    /**
+     * Prefix added to generated anchors, matching ANCHOR_PREFIX in `anchors.ts`.
+     *
+     * @var string
+     */
+    const ANCHOR_PREFIX = 'section-';
+
+    /**
+     * Add IDs to the navigation headings in the content.
+     *
+     * Headings that already have an ID keep it. Others get an anchor from
+     * their text (see get_anchor()), so the same content always yields the
+     * same IDs.
+     *
+     * @param string   $content   HTML content.
+     * @param string[] $selectors Heading selectors, e.g. [ 'h2', 'h3' ].
+     * @return array {
+     *     @type string $content  Content with heading IDs added.
+     *     @type array  $headings List of [ 'id', 'level', 'text' ], in document order.
+     * }
+     */
+    public function add_heading_ids( $content, $selectors ) {
+        $headings = [];
+        $taken    = $this->get_ids( $content );
+        $pattern  = '/<(' . implode( '|', array_map( 'preg_quote', $selectors ) ) . ')(\s[^>]*)?>(.*?)<\/\1\s*>/is';
+
+        $content = preg_replace_callback(
+            $pattern,
+            function ( $matches ) use ( &$headings, &$taken ) {
+                $tag  = strtolower( $matches[1] );
+                $text = $this->get_heading_text( $matches[3] );
+
+                $processor = new \WP_HTML_Tag_Processor( '<' . $matches[1] . ( $matches[2] ?? '' ) . '>' );
+                $processor->next_tag();
+                $id = $processor->get_attribute( 'id' );
+
+                if ( ! is_string( $id ) || '' === $id ) {
+                    $id           = $this->get_anchor( $text, $taken );
+                    $taken[ $id ] = true;
+                    $processor->set_attribute( 'id', $id );
+                }
+
+                $headings[] = [
+                    'id'    => $id,
+                    'level' => (int) substr( $tag, 1 ),
+                    'text'  => $text,
+                ];
+
+                return $processor->get_updated_html() . $matches[3] . '</' . $matches[1] . '>';
+            },
+            $content
+        );
+
+        return [
+            'content'  => $content,
+            'headings' => $headings,
+        ];
+    }
+
+    /**
+     * Nest headings under the closest preceding heading of a higher level.
+     *
+     * A heading with no higher-level heading before it (e.g. an h3 before the
+     * first h2) is placed at the top level.
+     *
+     * @param array $headings Headings from add_heading_ids().
+     * @return array Top-level items, each with 'heading', 'position' and 'children'.
+     */
+    public function build_outline( $headings ) {
+        // Map each heading to the index of its parent heading, or -1 for the top level.
+        $parents = [];
+        $stack   = [];
+        foreach ( $headings as $index => $heading ) {
+            while ( $stack && $headings[ end( $stack ) ]['level'] >= $heading['level'] ) {
+                array_pop( $stack );
+            }
+            $parents[ $index ] = $stack ? end( $stack ) : -1;
+            $stack[]           = $index;
+        }
+
+        return $this->get_outline_children( $headings, $parents, -1, [] );
+    }
+
+    /**
+     * Build the outline items whose parent is the given heading.
+     *
+     * @param array $headings Headings from add_heading_ids().
+     * @param int[] $parents  Parent index of each heading.
+     * @param int   $parent   Parent heading index, or -1 for the top level.
+     * @param int[] $position Outline position of the parent.
+     * @return array Outline items.
+     */
+    private function get_outline_children( $headings, $parents, $parent, $position ) {
+        $items = [];
+
+        foreach ( array_keys( $parents, $parent, true ) as $index ) {
+            $item_position = array_merge( $position, [ count( $items ) + 1 ] );
+
+            $items[] = [
+                'heading'  => $headings[ $index ],
+                'position' => $item_position,
+                'children' => $this->get_outline_children( $headings, $parents, $index, $item_position ),
+            ];
+        }
+
+        return $items;
+    }
+
+    /**
+     * Render the navigation aside.
+     *
+     * @param array $headings Headings from add_heading_ids().
+     * @param array $args {
+     *     @type string $title        Heading shown above the links.
+     *     @type string $excerpt      Plain-text excerpt, or empty to omit it.
+     *     @type bool   $show_numbers Whether to prefix links with their number.
+     * }
+     * @return string Navigation markup.
+     */
+    public function render_navigation( $headings, $args ) {
+        $excerpt = '';
+        if ( '' !== $args['excerpt'] ) {
+            $excerpt = sprintf(
+                '<li class="nav-excerpt"><span class="excerpt-text">%s</span></li>',
+                esc_html( $args['excerpt'] )
+            );
+        }
+
+        return sprintf(
+            '<aside class="dswp-in-page-nav is-expanded" role="navigation" aria-label="%1$s">
+                <div class="nav-header">
+                    <div class="nav-title">
+                        <h4 id="nav-title">%2$s</h4>
+                    </div>
+                    <button type="button" class="nav-toggle" aria-label="%3$s" aria-expanded="false" aria-controls="nav-links"></button>
+                </div>
+                <ul id="nav-links" class="nav-links" role="list" aria-labelledby="nav-title">%4$s%5$s</ul>
+            </aside>',
+            esc_attr__( 'On this page', 'dswp' ),
+            esc_html( $args['title'] ),
+            esc_attr__( 'Toggle section navigation', 'dswp' ),
+            $excerpt,
+            $this->render_outline( $this->build_outline( $headings ), $args['show_numbers'] )
+        );
+    }
+
+    /**
+     * Render outline items as list items, recursing into sub-levels.
+     *
+     * Top-level items are numbered "1.", sub-levels "1.1", "1.1.1".
+     *
+     * @param array $items        Outline items from build_outline().
+     * @param bool  $show_numbers Whether to prefix links with their number.
+     * @return string List item markup.
+     */
+    private function render_outline( $items, $show_numbers ) {
+        $html = '';
+
+        foreach ( $items as $item ) {
+            $number = 1 === count( $item['position'] )
+                ? $item['position'][0] . '.'
+                : implode( '.', $item['position'] );
+
+            $html .= sprintf(
+                '<li><a href="#%1$s" data-heading-id="%1$s" aria-current="false">%2$s<span class="heading-text">%3$s</span></a>%4$s</li>',
+                esc_attr( $item['heading']['id'] ),
+                $show_numbers ? '<span class="heading-number">' . esc_html( $number ) . '</span>' : '',
+                esc_html( $item['heading']['text'] ),
+                $item['children']
+                    ? '<ul class="nav-sublinks" role="list">' . $this->render_outline( $item['children'], $show_numbers ) . '</ul>'
+                    : ''
+            );
+        }
+
+        return $html;
+    }
+
+    /**
+     * Get the plain text of a heading's inner HTML.
+     *
+     * @param string $html Inner HTML.
+     * @return string Decoded text.
+     */
+    private function get_heading_text( $html ) {
+        return trim( html_entity_decode( wp_strip_all_tags( $html ), ENT_QUOTES | ENT_HTML5, 'UTF-8' ) );
+    }
+
+    /**
+     * Create a unique anchor for a heading.
+     *
+     * Accented letters are transliterated (e.g. "Québec" becomes "quebec").
+     * The anchor only depends on the heading text; a numeric suffix is added
+     * only when the anchor is already taken, so adding or reordering other
+     * headings does not change it. Matches `createAnchor()` in `anchors.ts`.
+     *
+     * @param string $text  Heading text.
+     * @param array  $taken IDs already in use, as keys.
+     * @return string Anchor such as `section-getting-started` or `section-getting-started-2`.
+     */
+    public function get_anchor( $text, $taken ) {
+        $base   = self::ANCHOR_PREFIX . trim( preg_replace( '/[^a-z0-9]+/', '-', strtolower( remove_accents( $text ) ) ), '-' );
+        $anchor = $base;
+
+        for ( $suffix = 2; isset( $taken[ $anchor ] ); $suffix++ ) {
+            $anchor = $base . '-' . $suffix;
+        }
+
+        return $anchor;
+    }
+
+    /**
+     * Get the IDs of all elements in the content.
+     *
+     * @param string $content HTML content.
+     * @return array IDs, as keys.
+     */
+    private function get_ids( $content ) {
+        $ids       = [];
+        $processor = new \WP_HTML_Tag_Processor( $content );
+
+        while ( $processor->next_tag() ) {
+            $id = $processor->get_attribute( 'id' );
+            if ( is_string( $id ) && '' !== $id ) {
+                $ids[ $id ] = true;
+            }
+        }
+
+        return $ids;
+    }
+}
@@ -0,0 +1,70 @@
+/**
+ * In-Page Navigation Heading Anchors
+ *
+ * Generates the heading IDs used by the navigation. Shared by the view
+ * script and the editor so both produce the same anchors as
+ * `Renderer::get_anchor()` on the server.
+ *
+ * @since 2.18.0
+ */
+
+/**
+ * Prefix added to generated anchors, avoiding clashes with IDs used by
+ * the theme (e.g. `main-content`).
+ */
+export const ANCHOR_PREFIX = 'section-';
+
+/**
+ * Letters that do not decompose into a base letter and an accent. Matches
+ * the replacements made by WordPress' `remove_accents()`.
+ */
+const TRANSLITERATIONS: Record< string, string > = {
+	æ: 'ae',
+	œ: 'oe',
+	ø: 'o',
+	ß: 'ss',
+	đ: 'd',
+	ð: 'd',
+	þ: 'th',
+	ł: 'l',
+};
+
+/**
+ * Converts heading text to a slug, transliterating accented letters
+ * (e.g. "Québec" becomes "quebec") rather than dropping them.
+ *
+ * @param text Heading text.
+ * @return Lowercase slug of letters, digits and hyphens.
+ */
+export function slugify( text: string ): string {
+	return text
+		.toLowerCase()
+		.replace( /[æœøßđðþł]/g, ( letter ) => TRANSLITERATIONS[ letter ] )
+		.normalize( 'NFKD' )
+		.replace( /[\u0300-\u036f]/g, '' )
+		.replace( /[^a-z0-9]+/g, '-' )
+		.replace( /(^-|-$)/g, '' );
+}
+
+/**
+ * Creates a unique anchor for a heading.
+ *
+ * The anchor only depends on the heading text; a numeric suffix is added
+ * only when the anchor is already taken, so adding or reordering other
+ * headings does not change it.
+ *
+ * @param text    Heading text.
+ * @param isTaken Returns true when an anchor is already in use.
+ * @return Anchor such as `section-getting-started` or `section-getting-started-2`.
+ */
+export function createAnchor(
+	text: string,
+	isTaken: ( anchor: string ) => boolean
+): string {
+	const base = `${ ANCHOR_PREFIX }${ slugify( text ) }`;
+	let anchor = base;
+	for ( let suffix = 2; isTaken( anchor ); suffix++ ) {
+		anchor = `${ base }-${ suffix }`;
+	}
+	return anchor;
+}
@@ -2,7 +2,8 @@
  * WordPress In-Page Navigation Editor Panel
  *
  * Adds a settings panel to the WordPress editor sidebar that allows
- * enabling/disabling in-page navigation for individual pages.
+ * enabling/disabling in-page navigation for individual pages and
+ * configuring how it is displayed.
  *
  * @requires @wordpress/editor
  * @requires @wordpress/components
@@ -12,29 +13,73 @@
 
 // Import WordPress dependencies
 import { PluginDocumentSettingPanel } from '@wordpress/editor';
-import { ToggleControl } from '@wordpress/components';
+import {
+	SelectControl,
+	TextControl,
+	ToggleControl,
+} from '@wordpress/components';
 import { useSelect, useDispatch } from '@wordpress/data';
 import { registerPlugin } from '@wordpress/plugins';
 
+import './persist-anchors';
+
+/**
+ * Default display settings, matching InPageNav::DEFAULT_SETTINGS.
+ */
+const DEFAULT_SETTINGS = {
+	heading_depth: 2,
+	title: '',
+	show_excerpt: true,
+	show_numbers: true,
+	position: 'top',
+};
+
+const HEADING_DEPTH_OPTIONS = [
+	{ label: 'H2 only', value: '2' },
+	{ label: 'H2 and H3', value: '3' },
+	{ label: 'H2 to H4', value: '4' },
+];
+
+const POSITION_OPTIONS = [
+	{ label: 'Top', value: 'top' },
+	{ label: 'Left sidebar', value: 'left' },
+	{ label: 'Right sidebar', value: 'right' },
+];
+
 /**
  * In-Page Navigation Settings Panel Component
  *
  * Renders a toggle control in the editor sidebar for enabling/disabling
- * in-page navigation on the current page settings panel.
+ * in-page navigation on the current page, plus its display settings
+ * once enabled.
  *
- * @return {JSX.Element} Settings panel with toggle control
+ * @return {JSX.Element} Settings panel with toggle and display controls
  */
 const InPageNavPanel = () => {
-	// Get current in-page navigation state from post meta
-	const { showInPageNav } = useSelect( ( select ) => ( {
-		showInPageNav:
-			select( 'core/editor' ).getEditedPostAttribute( 'meta' )
-				?.show_inpage_nav,
-	} ) );
+	// Get current in-page navigation state and settings from post meta
+	const { showInPageNav, settings } = useSelect( ( select ) => {
+		const meta = select( 'core/editor' ).getEditedPostAttribute( 'meta' );
+		return {
+			showInPageNav: meta?.show_inpage_nav,
+			settings: { ...DEFAULT_SETTINGS, ...meta?.inpage_nav_settings },
+		};
+	} );
 
 	// Get dispatch function for updating post meta
 	const { editPost } = useDispatch( 'core/editor' );
 
+	/**
+	 * Update a single display setting, keeping the others.
+	 *
+	 * @param {string} key   Setting name.
+	 * @param {*}      value New value.
+	 */
+	const updateSetting = ( key, value ) => {
+		editPost( {
+			meta: { inpage_nav_settings: { ...settings, [ key ]: value } },
+		} );
+	};
+
 	return (
 		<PluginDocumentSettingPanel
 			name="in-page-nav-panel"
@@ -48,6 +93,50 @@ const InPageNavPanel = () => {
 					editPost( { meta: { show_inpage_nav: value } } );
 				} }
 			/>
+			{ showInPageNav && (
+				<>
+					<SelectControl
+						label="Heading depth"
+						help="Deepest heading level listed. Sub-levels are nested under their section."
+						value={ String( settings.heading_depth ) }
+						options={ HEADING_DEPTH_OPTIONS }
+						onChange={ ( value ) =>
+							updateSetting( 'heading_depth', Number( value ) )
+						}
+					/>
+					<TextControl
+						label="Title"
+						placeholder="On this page:"
+						value={ settings.title }
+						onChange={ ( value ) =>
+							updateSetting( 'title', value )
+						}
+					/>
+					<ToggleControl
+						label="Show page excerpt"
+						checked={ settings.show_excerpt }
+						onChange={ ( value ) =>
+							updateSetting( 'show_excerpt', value )
+						}
+					/>
+					<ToggleControl
+						label="Number items"
+						checked={ settings.show_numbers }
+						onChange={ ( value ) =>
+							updateSetting( 'show_numbers', value )
+						}
+					/>
+					<SelectControl
+						label="Position"
+						help="Placement on desktop. Mobile always uses the sticky bar at the top."
+						value={ settings.position }
+						options={ POSITION_OPTIONS }
+						onChange={ ( value ) =>
+							updateSetting( 'position', value )
+						}
+					/>
+				</>
+			) }
 		</PluginDocumentSettingPanel>
 	);
 };
@@ -0,0 +1,107 @@
+/**
+ * Heading Anchor Persistence
+ *
+ * Saves generated anchors into the `anchor` attribute of heading blocks when
+ * a page with in-page navigation is saved, so its links keep pointing at the
+ * same heading when other headings are added, removed or reordered later.
+ * Only the heading levels the page's navigation lists get anchors.
+ *
+ * @requires @wordpress/data
+ * @requires @wordpress/hooks
+ */
+
+// Import WordPress dependencies
+import { select, dispatch } from '@wordpress/data';
+import { addFilter } from '@wordpress/hooks';
+
+import { createAnchor } from './anchors';
+
+/**
+ * Heading levels the in-page navigation can list.
+ */
+const HEADING_LEVELS = [ 2, 3, 4 ];
+
+/**
+ * Flatten a block tree into a list, parents before their inner blocks.
+ *
+ * @param {Array} blocks Blocks to flatten.
+ * @return {Array} All blocks in document order.
+ */
+const flattenBlocks = ( blocks ) =>
+	blocks.flatMap( ( block ) => [
+		block,
+		...flattenBlocks( block.innerBlocks ),
+	] );
+
+/**
+ * Get the plain text of heading HTML without running any of its markup.
+ *
+ * @param {string} html Heading content.
+ * @return {string} Text content.
+ */
+const getText = ( html ) =>
+	new window.DOMParser().parseFromString( html, 'text/html' ).body
+		.textContent ?? '';
+
+/**
+ * Add an anchor to every listed heading block that does not have one.
+ *
+ * Existing anchors, including ones set by the author, are never changed.
+ *
+ * @param {number} depth Lowest heading level listed, from the `heading_depth` setting.
+ * @return {boolean} Whether any block was updated.
+ */
+export const persistHeadingAnchors = ( depth = 2 ) => {
+	const blocks = flattenBlocks( select( 'core/block-editor' ).getBlocks() );
+	const taken = new Set(
+		blocks.map( ( block ) => block.attributes.anchor ).filter( Boolean )
+	);
+	let updated = false;
+
+	blocks.forEach( ( { name, clientId, attributes } ) => {
+		if (
+			name !== 'core/heading' ||
+			attributes.anchor ||
+			! HEADING_LEVELS.includes( attributes.level ) ||
+			attributes.level > depth
+		) {
+			return;
+		}
+
+		const text = getText( String( attributes.content ?? '' ) );
+		if ( ! text.trim() ) {
+			return;
+		}
+
+		const anchor = createAnchor( text, ( value ) => taken.has( value ) );
+		taken.add( anchor );
+		dispatch( 'core/block-editor' ).updateBlockAttributes( clientId, {
+			anchor,
+		} );
+		updated = true;
+	} );
+
+	return updated;
+};
+
+// Persist anchors as part of the save, so they are stored with the content.
+addFilter(
+	'editor.preSavePost',
+	'dswp/in-page-nav/persist-heading-anchors',
+	( edits ) => {
+		const editor = select( 'core/editor' );
+		const meta = editor.getEditedPostAttribute( 'meta' );
+		if (
+			editor.getCurrentPostType() !== 'page' ||
+			! meta?.show_inpage_nav ||
+			! persistHeadingAnchors( meta.inpage_nav_settings?.heading_depth )
+		) {
+			return edits;
+		}
+
+		return {
+			...edits,
+			content: editor.getEditedPostContent(),
+		};
+	}
+);
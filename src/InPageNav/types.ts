@@ -0,0 +1,70 @@
+/**
+ * In-Page Navigation Frontend Types
+ *
+ * Describes the `dswpInPageNav` object localized by
+ * `InPageNav::enqueue_assets()`.
+ *
+ * @since 2.18.0
+ */
+
+/**
+ * Where the navigation is placed on desktop.
+ */
+export type InPageNavPosition = 'top' | 'left' | 'right';
+
+/**
+ * Display options passed from PHP.
+ */
+export interface InPageNavOptions {
+	/** Width in px at or below which the mobile layout is used. */
+	nav_breakpoint: number;
+	/** Reserved for wide layouts. */
+	mobile_breakpoint: number;
+	/** Extra offset in px applied when scrolling to a heading. */
+	scroll_offset: number;
+	/** Heading selectors used to build the navigation (h2–h4). */
+	heading_selectors: string[];
+	/** Heading shown above the links. */
+	title: string;
+	/** Whether the page excerpt is shown above the links. */
+	show_excerpt: boolean;
+	/** Whether links are prefixed with their outline number. */
+	show_numbers: boolean;
+	/** Desktop placement relative to the content. */
+	position: InPageNavPosition;
+}
+
+/**
+ * A heading in the navigation outline, with its nested sub-headings.
+ */
+export interface OutlineItem {
+	heading: HTMLHeadingElement;
+	/** Heading level, 2–4. */
+	level: number;
+	/** Outline position, e.g. [ 1, 2 ] for section 1.2. */
+	position: number[];
+	children: OutlineItem[];
+}
+
+/**
+ * The full localized configuration object.
+ */
+export interface InPageNavConfig {
+	options: InPageNavOptions;
+	/** Plain-text excerpt shown above the links. */
+	page_excerpt: string;
+}
+
+/**
+ * The localized object as seen at runtime, where any key may be missing.
+ */
+export interface LocalizedInPageNav {
+	options?: Partial< InPageNavOptions >;
+	page_excerpt?: string;
+}
+
+declare global {
+	interface Window {
+		dswpInPageNav?: LocalizedInPageNav;
+	}
+}
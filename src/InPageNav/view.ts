@@ -0,0 +1,590 @@
+/**
+ * In-Page Navigation Frontend Implementation
+ *
+ * Provides dynamic navigation functionality for page sections, including:
+ * - Enhancement of the server-rendered navigation, or client-side generation
+ *   from headings (nested by level) when it was not rendered
+ * - Active section tracking with IntersectionObserver and reading progress
+ * - Responsive behavior for mobile/desktop
+ * - Smooth scrolling to sections
+ * - Accessibility support
+ */
+
+import {
+	onReady,
+	query,
+	queryAll,
+	parseBreakpoint,
+	isMobileViewport,
+	setExpanded,
+} from '../utils';
+import { createAnchor } from './anchors';
+import type { InPageNavOptions, InPageNavPosition, OutlineItem } from './types';
+
+/**
+ * Heading selectors the navigation can be built from.
+ */
+const SUPPORTED_HEADING_SELECTORS = [ 'h2', 'h3', 'h4' ];
+
+/**
+ * Fraction of the viewport, below the nav and scroll offset, at which a
+ * heading becomes the current section.
+ */
+const ACTIVATION_RATIO = 0.2;
+
+/**
+ * Desktop, mobile at the top of the page, or mobile after scrolling.
+ */
+type LayoutState = 'desktop' | 'top' | 'scrolled';
+
+/**
+ * Desktop placements the navigation supports.
+ */
+const POSITIONS: InPageNavPosition[] = [ 'top', 'left', 'right' ];
+
+/**
+ * Reads the localized options, filling in defaults for anything missing.
+ *
+ * @return Resolved options.
+ */
+function getOptions(): InPageNavOptions {
+	const options: Partial< InPageNavOptions > =
+		window.dswpInPageNav?.options ?? {};
+	return {
+		nav_breakpoint: parseBreakpoint( options.nav_breakpoint ),
+		mobile_breakpoint: parseBreakpoint( options.mobile_breakpoint, 1800 ),
+		scroll_offset: Number( options.scroll_offset ) || 0,
+		heading_selectors: getHeadingSelectors( options.heading_selectors ),
+		title: options.title || 'On this page:',
+		show_excerpt: options.show_excerpt !== false,
+		show_numbers: options.show_numbers !== false,
+		position:
+			POSITIONS.find( ( value ) => value === options.position ) ?? 'top',
+	};
+}
+
+/**
+ * Keeps only the supported heading selectors, falling back to h2.
+ *
+ * @param selectors Selectors passed from PHP.
+ * @return Lowercase, de-duplicated selectors.
+ */
+function getHeadingSelectors( selectors?: string[] ): string[] {
+	const supported = SUPPORTED_HEADING_SELECTORS.filter( ( selector ) =>
+		( selectors ?? [] ).some(
+			( value ) => String( value ).trim().toLowerCase() === selector
+		)
+	);
+	return supported.length ? supported : [ 'h2' ];
+}
+
+/**
+ * Gets the numeric level of a heading element.
+ *
+ * @param heading Heading element.
+ * @return Level from 1 to 6.
+ */
+function getHeadingLevel( heading: HTMLHeadingElement ): number {
+	return Number( heading.tagName.substring( 1 ) );
+}
+
+/**
+ * Nests headings under the closest preceding heading of a higher level.
+ *
+ * A heading with no higher-level heading before it (e.g. an h3 before the
+ * first h2) is placed at the top level.
+ *
+ * @param headings Headings in document order.
+ * @return Top-level outline items.
+ */
+function buildOutline( headings: HTMLHeadingElement[] ): OutlineItem[] {
+	const outline: OutlineItem[] = [];
+	const parents: OutlineItem[] = [];
+
+	headings.forEach( ( heading ) => {
+		const level = getHeadingLevel( heading );
+		while (
+			parents.length &&
+			parents[ parents.length - 1 ].level >= level
+		) {
+			parents.pop();
+		}
+
+		const parent = parents[ parents.length - 1 ];
+		const siblings = parent ? parent.children : outline;
+		const item: OutlineItem = {
+			heading,
+			level,
+			position: [ ...( parent?.position ?? [] ), siblings.length + 1 ],
+			children: [],
+		};
+
+		siblings.push( item );
+		parents.push( item );
+	} );
+
+	return outline;
+}
+
+/**
+ * Renders outline items as list items, recursing into sub-levels. Heading
+ * text is set as text, so it is not parsed as HTML.
+ *
+ * Top-level items are numbered "1.", sub-levels "1.1", "1.1.1".
+ *
+ * @param items       Outline items to render.
+ * @param showNumbers Whether to prefix links with their number.
+ * @return List items, matching `Renderer::render_outline()`.
+ */
+function renderOutline(
+	items: OutlineItem[],
+	showNumbers: boolean
+): HTMLLIElement[] {
+	return items.map( ( { heading, position, children } ) => {
+		const item = document.createElement( 'li' );
+		const link = document.createElement( 'a' );
+		link.href = `#${ heading.id }`;
+		link.dataset.headingId = heading.id;
+		link.setAttribute( 'aria-current', 'false' );
+
+		if ( showNumbers ) {
+			const number = document.createElement( 'span' );
+			number.className = 'heading-number';
+			number.textContent =
+				position.length === 1
+					? `${ position[ 0 ] }.`
+					: position.join( '.' );
+			link.append( number );
+		}
+
+		const text = document.createElement( 'span' );
+		text.className = 'heading-text';
+		text.textContent = heading.textContent;
+		link.append( text );
+		item.append( link );
+
+		if ( children.length ) {
+			const sublinks = document.createElement( 'ul' );
+			sublinks.className = 'nav-sublinks';
+			sublinks.setAttribute( 'role', 'list' );
+			sublinks.append( ...renderOutline( children, showNumbers ) );
+			item.append( sublinks );
+		}
+
+		return item;
+	} );
+}
+
+/**
+ * Finds the main content area using various common selectors.
+ *
+ * @return The content element, or null if none was found.
+ */
+function findMainContent(): HTMLElement | null {
+	return (
+		query( document, '#main-content' ) ||
+		query( document, 'main' ) ||
+		query( document, '.content-area' ) ||
+		query( document, '.entry-content' ) || // Common WordPress class
+		query( document, '.post-content' ) || // Another common class
+		query( document, 'article' ) // Fallback to article element
+	);
+}
+
+/**
+ * Builds the navigation client-side, for pages where it was not rendered by
+ * `InPageNav::render_navigation()` (e.g. content outside the post content
+ * block).
+ *
+ * @param options Resolved options.
+ * @return The navigation element, or null if there are no headings.
+ */
+function buildNavigation( options: InPageNavOptions ): HTMLElement | null {
+	const mainContent = findMainContent();
+	if ( ! mainContent || ! mainContent.parentNode ) {
+		return null;
+	}
+
+	// First, ensure all navigation headings have IDs.
+	const headings = queryAll< HTMLHeadingElement >(
+		mainContent,
+		options.heading_selectors.join( ', ' )
+	);
+
+	headings.forEach( ( heading ) => {
+		if ( ! heading.id ) {
+			// Add an ID from the heading text, unique within the document.
+			heading.id = createAnchor(
+				heading.textContent ?? '',
+				( anchor ) => document.getElementById( anchor ) !== null
+			);
+		}
+	} );
+
+	// Exit if there aren't enough headings to warrant navigation.
+	if ( headings.length < 1 ) {
+		return null;
+	}
+
+	// Create the navigation sidebar structure.
+	const nav = document.createElement( 'aside' );
+	nav.className = 'dswp-in-page-nav';
+	nav.setAttribute( 'role', 'navigation' );
+	nav.setAttribute( 'aria-label', 'On this page' );
+
+	// Get page excerpt from PHP, unless hidden for this page.
+	const pageExcerpt = options.show_excerpt
+		? window.dswpInPageNav?.page_excerpt || ''
+		: '';
+
+	// Insert the navigation HTML structure with accessibility attributes.
+	nav.innerHTML = `
+        <div class="nav-header">
+            <div class="nav-title">
+                <h4 id="nav-title"></h4>
+            </div>
+            <button type="button" 
+                class="nav-toggle" 
+                aria-label="Toggle section navigation" 
+                aria-expanded="false"
+                aria-controls="nav-links">
+            </button>
+        </div>
+        <ul id="nav-links" 
+            class="nav-links" 
+            role="list" 
+            aria-labelledby="nav-title">
+        </ul>
+    `;
+
+	// Set the title, excerpt and headings as text so author-provided values are not parsed as HTML.
+	const navTitle = query( nav, '#nav-title' );
+	if ( navTitle ) {
+		navTitle.textContent = options.title;
+	}
+
+	const navLinks = query( nav, '#nav-links' );
+	if ( navLinks ) {
+		if ( pageExcerpt ) {
+			const excerpt = document.createElement( 'li' );
+			excerpt.className = 'nav-excerpt';
+			const excerptText = document.createElement( 'span' );
+			excerptText.className = 'excerpt-text';
+			excerptText.textContent = pageExcerpt;
+			excerpt.append( excerptText );
+			navLinks.append( excerpt );
+		}
+
+		navLinks.append(
+			...renderOutline( buildOutline( headings ), options.show_numbers )
+		);
+	}
+
+	// Create a wrapper to contain both navigation and content.
+	const wrapper = document.createElement( 'div' );
+	wrapper.className = `dswp-nav-content-container is-nav-${ options.position }`;
+	mainContent.parentNode.insertBefore( wrapper, mainContent );
+	wrapper.appendChild( nav );
+	wrapper.appendChild( mainContent );
+
+	return nav;
+}
+
+onReady( () => {
+	const options = getOptions();
+	const navBreakpoint = options.nav_breakpoint;
+	const isMobile = () => isMobileViewport( navBreakpoint );
+
+	// Detect WordPress admin bar and add class to body.
+	if ( document.getElementById( 'wpadminbar' ) ) {
+		document.body.classList.add( 'admin-bar' );
+	}
+
+	// Enhance the server-rendered navigation, building it only as a fallback.
+	const nav =
+		query< HTMLElement >( document, '.dswp-in-page-nav' ) ??
+		buildNavigation( options );
+	if ( ! nav ) {
+		return;
+	}
+
+	const navToggle = query< HTMLButtonElement >( nav, '.nav-toggle' );
+	const links = queryAll< HTMLAnchorElement >( nav, 'a[data-heading-id]' );
+	const headings = links
+		.map( ( link ) =>
+			document.getElementById(
+				link.getAttribute( 'data-heading-id' ) ?? ''
+			)
+		)
+		.filter( ( heading ): heading is HTMLElement => heading !== null );
+	if ( ! navToggle || ! headings.length ) {
+		return;
+	}
+	const topLevelItems = queryAll< HTMLLIElement >( nav, '.nav-links > li' );
+
+	let activeHeading = headings[ 0 ];
+	let layoutState: LayoutState | undefined;
+	let observer: IntersectionObserver | undefined;
+	const passedHeadings = new Set< Element >();
+	let scrollableHeight = 0;
+	let progressPercent = -1;
+
+	// Add the reading progress bar below the header.
+	const progressBar = document.createElement( 'div' );
+	progressBar.className = 'nav-progress';
+	progressBar.setAttribute( 'role', 'progressbar' );
+	progressBar.setAttribute( 'aria-label', 'Reading progress' );
+	progressBar.setAttribute( 'aria-valuemin', '0' );
+	progressBar.setAttribute( 'aria-valuemax', '100' );
+	query( nav, '.nav-header' )?.after( progressBar );
+
+	/**
+	 * Marks the link for a heading as current.
+	 *
+	 * @param heading Heading of the section being read.
+	 */
+	const setActiveHeading = ( heading: HTMLElement ): void => {
+		activeHeading = heading;
+		const mobile = isMobile();
+
+		// Update navigation links to reflect current section.
+		let currentLink: HTMLAnchorElement | undefined;
+		links.forEach( ( link ) => {
+			const isCurrent =
+				link.getAttribute( 'data-heading-id' ) === heading.id;
+			if ( isCurrent ) {
+				currentLink = link;
+			}
+
+			// Always update aria-current for accessibility.
+			link.setAttribute( 'aria-current', isCurrent ? 'true' : 'false' );
+
+			// Only apply visual styling classes on mobile.
+			link.classList.toggle( 'dswp-current', isCurrent && mobile );
+		} );
+
+		// On mobile, mark the top-level section containing the current link so
+		// the collapsed bar shows it and only its sub-levels are expanded.
+		const currentSection = currentLink?.closest( '.nav-links > li' );
+		topLevelItems.forEach( ( item ) => {
+			item.classList.toggle(
+				'current',
+				item === currentSection && mobile
+			);
+		} );
+	};
+
+	/**
+	 * Applies the desktop, mobile-at-top or mobile-scrolled layout. Only
+	 * touches the DOM when the layout changes.
+	 */
+	const updateLayout = (): void => {
+		let state: LayoutState = 'desktop';
+		if ( isMobile() ) {
+			state = window.scrollY < 50 ? 'top' : 'scrolled';
+		}
+		if ( state === layoutState ) {
+			return;
+		}
+		const wasDesktop = layoutState === 'desktop';
+		layoutState = state;
+
+		if ( state === 'desktop' ) {
+			// Desktop view: Always show expanded navigation, no scroll behavior needed.
+			navToggle.style.display = 'none';
+			nav.classList.add( 'is-expanded' );
+		} else if ( state === 'top' ) {
+			// Mobile view: At top of page - Show expanded navigation.
+			nav.classList.add( 'is-expanded' );
+			nav.classList.remove( 'is-scrolled' );
+			setExpanded( navToggle, true );
+			navToggle.style.display = 'none';
+		} else {
+			// Mobile view: When scrolling - Show toggle button and add scrolled state.
+			nav.classList.add( 'is-scrolled' );
+			navToggle.style.display = 'flex';
+			// Collapse nav unless manually expanded.
+			if ( ! nav.hasAttribute( 'data-manual-expanded' ) ) {
+				nav.classList.remove( 'is-expanded' );
+				setExpanded( navToggle, false );
+			}
+		}
+
+		// Current link styling only applies on mobile.
+		if ( wasDesktop !== ( state === 'desktop' ) ) {
+			setActiveHeading( activeHeading );
+		}
+	};
+
+	/**
+	 * Updates the reading progress bar from the scroll position.
+	 */
+	const updateProgress = (): void => {
+		const progress =
+			scrollableHeight > 0
+				? Math.min(
+						1,
+						Math.max( 0, window.scrollY / scrollableHeight )
+				  )
+				: 1;
+		const percent = Math.round( progress * 100 );
+
+		progressBar.style.setProperty(
+			'--dswp-reading-progress',
+			String( progress )
+		);
+		if ( percent !== progressPercent ) {
+			progressPercent = percent;
+			progressBar.setAttribute( 'aria-valuenow', String( percent ) );
+		}
+	};
+
+	/**
+	 * (Re)creates the observer that tracks which section is being read.
+	 *
+	 * A heading is active once its top passes the activation line: the nav
+	 * height plus `scroll_offset`, plus a fifth of the viewport. The root is
+	 * extended above the viewport by the page height, so every heading above
+	 * the line counts as intersecting and even large jumps (e.g. pressing
+	 * End) are reported.
+	 */
+	const observeHeadings = (): void => {
+		observer?.disconnect();
+		passedHeadings.clear();
+		scrollableHeight =
+			document.documentElement.scrollHeight - window.innerHeight;
+
+		const activationLine =
+			nav.offsetHeight +
+			options.scroll_offset +
+			window.innerHeight * ACTIVATION_RATIO;
+		const bottomMargin = Math.max( 0, window.innerHeight - activationLine );
+
+		observer = new window.IntersectionObserver(
+			( entries ) => {
+				entries.forEach( ( { target, isIntersecting } ) => {
+					if ( isIntersecting ) {
+						passedHeadings.add( target );
+					} else {
+						passedHeadings.delete( target );
+					}
+				} );
+
+				// The last heading above the line is current, defaulting to
+				// the first so the navigation always shows a current link.
+				const current =
+					[ ...headings ]
+						.reverse()
+						.find( ( heading ) => passedHeadings.has( heading ) ) ??
+					headings[ 0 ];
+				if ( current !== activeHeading ) {
+					setActiveHeading( current );
+				}
+			},
+			{
+				rootMargin: `${ document.documentElement.scrollHeight }px 0px -${ bottomMargin }px 0px`,
+			}
+		);
+		headings.forEach( ( heading ) => observer?.observe( heading ) );
+	};
+
+	// On mobile, expand navigation on initial load to show the first element.
+	if ( isMobile() ) {
+		nav.classList.add( 'is-expanded' );
+	}
+
+	// Handle mobile navigation toggle.
+	navToggle.addEventListener( 'click', ( e ) => {
+		e.stopPropagation();
+		const isExpanded = nav.classList.toggle( 'is-expanded' );
+		setExpanded( navToggle, isExpanded );
+
+		// Track manual expansion state.
+		if ( isExpanded ) {
+			nav.setAttribute( 'data-manual-expanded', '' );
+		} else {
+			nav.removeAttribute( 'data-manual-expanded' );
+		}
+	} );
+
+	// Handle smooth scrolling when clicking navigation links.
+	links.forEach( ( link ) => {
+		link.addEventListener( 'click', ( e ) => {
+			e.preventDefault();
+			const targetId = ( link.getAttribute( 'href' ) ?? '' ).substring(
+				1
+			);
+			const target = document.getElementById( targetId );
+			if ( ! target ) {
+				return;
+			}
+
+			// Calculate scroll position with offset.
+			const offset = nav.offsetHeight + options.scroll_offset;
+
+			// Smooth scroll to target.
+			window.scrollTo( {
+				top:
+					target.getBoundingClientRect().top +
+					window.scrollY -
+					offset,
+				behavior: 'smooth',
+			} );
+
+			// Update URL hash without triggering scroll.
+			window.history.pushState( null, '', `#${ targetId }` );
+
+			// Reset navigation state after clicking.
+			nav.removeAttribute( 'data-manual-expanded' );
+			nav.classList.remove( 'is-expanded' );
+		} );
+	} );
+
+	// Throttle scroll and resize listeners for better performance. Scrolling
+	// only updates the layout state and progress; the active section is
+	// tracked by the observer.
+	let scrollFrame: number | undefined;
+	window.addEventListener(
+		'scroll',
+		() => {
+			if ( scrollFrame ) {
+				window.cancelAnimationFrame( scrollFrame );
+			}
+			scrollFrame = window.requestAnimationFrame( () => {
+				updateLayout();
+				updateProgress();
+			} );
+		},
+		{ passive: true }
+	);
+
+	// Rebuild the observer when the viewport or nav size changes, as both
+	// move the activation line.
+	let resizeFrame: number | undefined;
+	const handleResize = (): void => {
+		if ( resizeFrame ) {
+			window.cancelAnimationFrame( resizeFrame );
+		}
+		resizeFrame = window.requestAnimationFrame( () => {
+			updateLayout();
+			observeHeadings();
+			updateProgress();
+		} );
+	};
+	window.addEventListener( 'resize', handleResize );
+	new window.ResizeObserver( handleResize ).observe( nav );
+
+	// Add keyboard accessibility for navigation toggle.
+	navToggle.addEventListener( 'keydown', ( e ) => {
+		if ( e.key === 'Enter' || e.key === ' ' ) {
+			e.preventDefault();
+			navToggle.click();
+		}
+	} );
+
+	// Initialize navigation state.
+	setActiveHeading( activeHeading );
+	updateLayout();
+	observeHeadings();
+	updateProgress();
+} );
@@ -23,13 +23,79 @@ class NotificationBanner {
         '#2d2d2d'                         => '#ffffff',
     ];
 
+    /**
+     * Severity of each banner color, used for the banner's class and icon.
+     *
+     * @var array
+     */
+    const SEVERITY_MAP = [
+        'var(--dswp-icons-color-warning)' => 'warning',
+        'var(--dswp-icons-color-danger)'  => 'danger',
+        'var(--dswp-icons-color-success)' => 'success',
+        'var(--dswp-icons-color-info)'    => 'info',
+        '#2d2d2d'                         => 'neutral',
+    ];
+
+    /**
+     * Where banners can be displayed on the page.
+     *
+     * @var string[]
+     */
+    const POSITIONS = [ 'top', 'bottom', 'sticky' ];
+
+    /**
+     * Priority of the wp_body_open callback. Runs after
+     * SkipNavigation::add_skip_nav() (priority 10), so the skip links stay
+     * the first thing keyboard users reach.
+     *
+     * @var int
+     */
+    const BODY_OPEN_PRIORITY = 20;
+
+    /**
+     * Format of the schedule start/end options, as submitted by a
+     * datetime-local input. Values are in the site timezone.
+     *
+     * @var string
+     */
+    const DATETIME_FORMAT = 'Y-m-d\TH:i';
+
+    /**
+     * Priority of the settings page banner, and the default for new banners.
+     * Banners with a lower number display first.
+     *
+     * @var int
+     */
+    const DEFAULT_PRIORITY = 10;
+
+    /**
+     * localStorage key holding the dismissed version of each banner, by ID.
+     * Shared with the view script.
+     *
+     * @var string
+     */
+    const DISMISSED_STORAGE_KEY = 'dswp-dismissed-notification-banners';
+
+    /**
+     * The targeted banner collection.
+     *
+     * @var NotificationBanner\Banners|null
+     */
+    private $banners;
+
     /**
      * NotificationBanner constructor.
      */
     public function init() {
         add_action( 'admin_menu', [ $this, 'add_menu' ] );
         add_action( 'admin_init', [ $this, 'register_settings' ] );
-        add_action( 'wp_head', [ $this, 'display_banner' ] );
+        add_action( 'wp_body_open', [ $this, 'display_banner' ], self::BODY_OPEN_PRIORITY );
+        add_action( 'wp_footer', [ $this, 'display_bottom_banner' ], 5 );
+
+        $this->get_banners()->init();
+
+        $rest_controller = new NotificationBanner\RestController( $this );
+        add_action( 'rest_api_init', [ $rest_controller, 'register_routes' ] );
     }
 
     /**
@@ -56,11 +122,24 @@ class NotificationBanner {
         register_setting( 'dswp_options_group', 'dswp_notification_banner_enabled', 'sanitize_text_field' );
         register_setting( 'dswp_options_group', 'dswp_notification_banner_color', [ $this, 'sanitize_banner_color' ] );
 
+        // Register the optional schedule window.
+        register_setting( 'dswp_options_group', 'dswp_notification_banner_start', [ $this, 'sanitize_banner_datetime' ] );
+        register_setting( 'dswp_options_group', 'dswp_notification_banner_end', [ $this, 'sanitize_banner_end' ] );
+
+        // Register where banners display on the page.
+        register_setting( 'dswp_options_group', 'dswp_notification_banner_position', [ $this, 'sanitize_banner_position' ] );
+
+        // Register whether visitors can dismiss the banner.
+        register_setting( 'dswp_options_group', 'dswp_notification_banner_dismissible', [ $this, 'sanitize_banner_flag' ] );
+
         // Add settings section and fields.
         add_settings_section( 'dswp_notification_menu_settings_section', __( 'Notification Banner Settings', 'dswp' ), null, 'dswp-notification-menu' );
         add_settings_field( 'banner_enabled', __( 'Enable Banner', 'dswp' ), [ $this, 'render_banner_enabled_field' ], 'dswp-notification-menu', 'dswp_notification_menu_settings_section' );
         add_settings_field( 'banner_content', __( 'Banner Content (HTML allowed)', 'dswp' ), [ $this, 'render_banner_content_field' ], 'dswp-notification-menu', 'dswp_notification_menu_settings_section' );
         add_settings_field( 'banner_color', __( 'Banner Color', 'dswp' ), [ $this, 'render_banner_color_field' ], 'dswp-notification-menu', 'dswp_notification_menu_settings_section' );
+        add_settings_field( 'banner_schedule', __( 'Schedule', 'dswp' ), [ $this, 'render_banner_schedule_field' ], 'dswp-notification-menu', 'dswp_notification_menu_settings_section' );
+        add_settings_field( 'banner_position', __( 'Position', 'dswp' ), [ $this, 'render_banner_position_field' ], 'dswp-notification-menu', 'dswp_notification_menu_settings_section' );
+        add_settings_field( 'banner_dismissible', __( 'Dismissible', 'dswp' ), [ $this, 'render_banner_dismissible_field' ], 'dswp-notification-menu', 'dswp_notification_menu_settings_section' );
     }
 
     /**
@@ -82,7 +161,6 @@ class NotificationBanner {
             <div id="dswp-banner-preview" style="padding: 10px; text-align: center; border: 1px solid #ccc;">
                 <?php
                 // Fetch saved options.
-                $banner_enabled       = get_option( 'dswp_notification_banner_enabled', '0' );
                 $banner_color         = get_option( 'dswp_notification_banner_color' );
                 $notification_message = get_option( 'dswp_notification_banner_notification', '' );
 
@@ -94,14 +172,49 @@ class NotificationBanner {
 
                 // Display status indicator.
                 echo '<p style="margin-top: 10px; font-size: 0.9em;">';
-                if ( '1' === $banner_enabled ) {
-                    echo '<strong style="color: green;">✓ This banner is enabled and will display on the frontend.</strong>';
-                } else {
-                    echo '<strong style="color: darkred;">⚠ This banner is disabled and will NOT display on the frontend.</strong>';
+                switch ( $this->get_schedule_state() ) {
+                    case 'active':
+                        echo '<strong style="color: green;">✓ This banner is enabled and will display on the frontend.</strong>';
+                        $end = $this->parse_datetime( get_option( 'dswp_notification_banner_end', '' ) );
+                        if ( $end ) {
+                            /* translators: %s: Date and time the banner stops displaying. */
+                            echo ' ' . esc_html( sprintf( __( 'It will stop displaying on %s.', 'dswp' ), $this->format_datetime( $end ) ) );
+                        }
+                        break;
+                    case 'scheduled':
+                        echo '<strong style="color: #996300;">⏱ ' . esc_html(
+                            sprintf(
+                                /* translators: %s: Date and time the banner starts displaying. */
+                                __( 'This banner is scheduled and will display on the frontend from %s.', 'dswp' ),
+                                $this->format_datetime( $this->parse_datetime( get_option( 'dswp_notification_banner_start', '' ) ) )
+                            )
+                        ) . '</strong>';
+                        break;
+                    case 'expired':
+                        echo '<strong style="color: darkred;">⚠ ' . esc_html(
+                            sprintf(
+                                /* translators: %s: Date and time the banner stopped displaying. */
+                                __( 'This banner\'s schedule ended on %s and it will NOT display on the frontend.', 'dswp' ),
+                                $this->format_datetime( $this->parse_datetime( get_option( 'dswp_notification_banner_end', '' ) ) )
+                            )
+                        ) . '</strong>';
+                        break;
+                    default:
+                        echo '<strong style="color: darkred;">⚠ This banner is disabled and will NOT display on the frontend.</strong>';
                 }
                 echo '</p>';
                 ?>
             </div>
+
+            <p>
+                <?php
+                printf(
+                    /* translators: %s: Link to the Banners list. */
+                    esc_html__( 'To show more than one banner, or a banner on only some pages, add it under %s.', 'dswp' ),
+                    '<a href="' . esc_url( admin_url( 'edit.php?post_type=' . NotificationBanner\Banners::POST_TYPE ) ) . '">' . esc_html__( 'Banners', 'dswp' ) . '</a>'
+                );
+                ?>
+            </p>
         </div>
         <?php
     }
@@ -140,38 +253,395 @@ class NotificationBanner {
     public function render_banner_color_field() {
         $banner_color = get_option( 'dswp_notification_banner_color' );
 
-        $color_options = [
+        $this->render_color_options( 'dswp_notification_banner_color', $banner_color, 'dswp_banner_color_' );
+    }
+
+    /**
+     * Gets the banner colors, keyed by color value.
+     *
+     * @return array Translated labels keyed by the COLOR_MAP background color.
+     */
+    public function get_color_options() {
+        return [
             'var(--dswp-icons-color-warning)' => __( 'Warning', 'dswp' ),
             'var(--dswp-icons-color-danger)'  => __( 'Danger', 'dswp' ),
             'var(--dswp-icons-color-success)' => __( 'Success', 'dswp' ),
             'var(--dswp-icons-color-info)'    => __( 'Info', 'dswp' ),
             '#2d2d2d'                         => __( 'Black', 'dswp' ),
         ];
+    }
 
-        foreach ( $color_options as $color => $label ) {
-            $id = 'dswp_banner_color_' . strtolower( $label );
+    /**
+     * Renders a radio button with a swatch for each banner color.
+     *
+     * @param string $name      Input name.
+     * @param string $selected  The selected color.
+     * @param string $id_prefix Prefix for each input's ID.
+     * @return void
+     */
+    public function render_color_options( $name, $selected, $id_prefix ) {
+        foreach ( $this->get_color_options() as $color => $label ) {
+            $id = $id_prefix . strtolower( $label );
             echo '<label for="' . esc_attr( $id ) . '">
-                    <input type="radio" id="' . esc_attr( $id ) . '" name="dswp_notification_banner_color" value="' . esc_attr( $color ) . '" ' . checked( $banner_color, $color, false ) . ' />
+                    <input type="radio" id="' . esc_attr( $id ) . '" name="' . esc_attr( $name ) . '" value="' . esc_attr( $color ) . '" ' . checked( $selected, $color, false ) . ' />
                     <span style="display:inline-block; width: 20px; height: 20px; background-color: ' . esc_attr( $color ) . ';"></span> ' . esc_html( $label ) . '
                   </label><br />';
         }
     }
 
     /**
-     * Displays the notification banner on the front end.
+     * Renders the start and end fields for scheduling the banner.
+     */
+    public function render_banner_schedule_field() {
+        $start = get_option( 'dswp_notification_banner_start', '' );
+        $end   = get_option( 'dswp_notification_banner_end', '' );
+		?>
+        <label for="dswp_banner_start"><?php esc_html_e( 'Start', 'dswp' ); ?></label>
+        <input type="datetime-local" id="dswp_banner_start" name="dswp_notification_banner_start" value="<?php echo esc_attr( $start ); ?>" />
+        <label for="dswp_banner_end"><?php esc_html_e( 'End', 'dswp' ); ?></label>
+        <input type="datetime-local" id="dswp_banner_end" name="dswp_notification_banner_end" value="<?php echo esc_attr( $end ); ?>" />
+        <p class="description">
+            <?php
+            echo esc_html(
+                sprintf(
+                    /* translators: %s: Site timezone, e.g. America/Vancouver. */
+                    __( 'Optional. When enabled, the banner only displays between these times (%s). Leave either blank for no limit.', 'dswp' ),
+                    wp_timezone_string()
+                )
+            );
+            ?>
+        </p>
+		<?php
+    }
+
+    /**
+     * Renders the field for where banners display on the page.
+     */
+    public function render_banner_position_field() {
+        $position = $this->get_position();
+        $labels   = [
+            'top'    => __( 'Top of the page', 'dswp' ),
+            'bottom' => __( 'Bottom of the page', 'dswp' ),
+            'sticky' => __( 'Sticky (stays at the top of the window while scrolling)', 'dswp' ),
+        ];
+
+        foreach ( $labels as $value => $label ) {
+            echo '<label for="dswp_banner_position_' . esc_attr( $value ) . '">
+                    <input type="radio" id="dswp_banner_position_' . esc_attr( $value ) . '" name="dswp_notification_banner_position" value="' . esc_attr( $value ) . '" ' . checked( $position, $value, false ) . ' /> ' . esc_html( $label ) . '
+                  </label><br />';
+        }
+        echo '<p class="description">' . esc_html__( 'Applies to all banners, including those under Banners.', 'dswp' ) . '</p>';
+    }
+
+    /**
+     * Renders the field allowing visitors to dismiss the banner.
+     */
+    public function render_banner_dismissible_field() {
+        $dismissible = get_option( 'dswp_notification_banner_dismissible', '0' );
+		?>
+        <label for="dswp_banner_dismissible">
+            <input type="checkbox" id="dswp_banner_dismissible" name="dswp_notification_banner_dismissible" value="1" <?php checked( $dismissible, '1' ); ?> />
+            <?php esc_html_e( 'Let visitors close the banner', 'dswp' ); ?>
+        </label>
+        <p class="description"><?php esc_html_e( 'A closed banner stays hidden in that browser until its content changes.', 'dswp' ); ?></p>
+		<?php
+    }
+
+    /**
+     * Displays the notification banners at the start of the body, unless
+     * they are positioned at the bottom of the page.
      */
     public function display_banner() {
-        $banner_enabled       = get_option( 'dswp_notification_banner_enabled', '0' );
-        $banner_color         = get_option( 'dswp_notification_banner_color' );
-        $notification_message = get_option( 'dswp_notification_banner_notification', '' );
+        if ( 'bottom' !== $this->get_position() ) {
+            echo $this->render_banners(); // phpcs:ignore WordPress.Security.EscapeOutput.OutputNotEscaped -- Escaped in render_banner().
+        }
+    }
+
+    /**
+     * Displays the notification banners at the end of the body, when
+     * positioned at the bottom of the page.
+     */
+    public function display_bottom_banner() {
+        if ( 'bottom' === $this->get_position() ) {
+            echo $this->render_banners(); // phpcs:ignore WordPress.Security.EscapeOutput.OutputNotEscaped -- Escaped in render_banner().
+        }
+    }
+
+    /**
+     * Renders the notification banners for the current page.
+     *
+     * Includes the banner from the settings page and every published banner
+     * targeting the current page, in priority order (lowest number first).
+     *
+     * @return string Banner markup, or an empty string if no banner is active.
+     */
+    public function render_banners() {
+        $banners = array_merge( [ $this->get_settings_banner() ], $this->get_banners()->get_targeted_banners() );
+
+        // Display banners only if enabled, within their schedule, AND with a message.
+        $banners = array_filter(
+            $banners,
+            function ( $banner ) {
+                return 'active' === $this->get_banner_state( $banner ) && ! empty( $banner['message'] );
+            }
+        );
+
+        if ( ! $banners ) {
+            return '';
+        }
+
+        $html = '';
+        foreach ( $this->sort_banners( $banners ) as $banner ) {
+            $html .= $this->render_banner( $banner );
+        }
+
+        return '<div class="dswp-notification-banners is-position-' . esc_attr( $this->get_position() ) . '">' . $html . '</div>';
+    }
+
+    /**
+     * Renders a single banner as a labelled region with a severity icon.
+     *
+     * Colors come from the `dswp-notification-banner--{severity}` class, so
+     * the banner follows the design tokens rather than inline styles.
+     *
+     * @param array $banner Banner from get_settings_banner() or Banners::get_targeted_banners().
+     * @return string Banner markup.
+     */
+    public function render_banner( $banner ) {
+        $severity = $this->get_severity( $banner['color'] );
+        $classes  = 'dswp-notification-banner dswp-notification-banner--' . $severity;
+        $dismiss  = '';
+        $version  = '';
+        $script   = '';
 
-        // Display the banner only if enabled AND there is a message.
-        if ( '1' === $banner_enabled && ! empty( $notification_message ) ) {
-            $text_color = $this->get_text_color( $banner_color );
-            echo '<div id="dswp-notification-banner" style="background-color: ' . esc_attr( $banner_color ) . '; padding: 10px; color: ' . esc_attr( $text_color ) . '; text-align: center;">';
-            echo wp_kses_post( $notification_message );
-            echo '</div>';
+        if ( ! empty( $banner['dismissible'] ) ) {
+            $classes .= ' is-dismissible';
+            // The inline and view scripts hide the banner if this version was already dismissed.
+            $version = ' data-dswp-banner-version="' . esc_attr( $this->get_banner_version( $banner ) ) . '"';
+            $dismiss = '<button type="button" class="dswp-notification-banner__dismiss" aria-label="' . esc_attr__( 'Close notification', 'dswp' ) . '" data-dismissed-message="' . esc_attr__( 'Notification closed.', 'dswp' ) . '" hidden><span aria-hidden="true">&times;</span></button>';
+            $script  = $this->get_dismissed_script();
         }
+
+        return sprintf(
+            '<div id="%1$s" class="%2$s" role="region" aria-label="%3$s" aria-live="polite"%4$s><span class="dswp-notification-banner__icon" aria-hidden="true">%5$s</span><div class="dswp-notification-banner__message">%6$s</div>%7$s</div>',
+            esc_attr( $banner['id'] ),
+            esc_attr( $classes ),
+            esc_attr( $this->get_region_label( $severity ) ),
+            $version,
+            $this->get_severity_icon( $severity ),
+            wp_kses_post( $banner['message'] ),
+            $dismiss
+        ) . $script;
+    }
+
+    /**
+     * Gets the inline script printed after a dismissible banner.
+     *
+     * It hides the banner while the page is parsed if this version was
+     * dismissed, so dismissed banners are never painted or shift the layout.
+     * The view script hides them too, in case inline scripts are blocked.
+     *
+     * @return string Script tag.
+     */
+    private function get_dismissed_script() {
+        return wp_get_inline_script_tag(
+            sprintf(
+                '(function(b){try{var d=JSON.parse(localStorage.getItem(%s)||"{}");if(d&&d[b.id]===b.getAttribute("data-dswp-banner-version")){b.hidden=true;}}catch(e){}})(document.currentScript.previousElementSibling);',
+                wp_json_encode( self::DISMISSED_STORAGE_KEY )
+            )
+        );
+    }
+
+    /**
+     * Gets where banners display on the page.
+     *
+     * @return string One of POSITIONS.
+     */
+    public function get_position() {
+        return $this->sanitize_banner_position( get_option( 'dswp_notification_banner_position', 'top' ) );
+    }
+
+    /**
+     * Gets the severity of a banner color.
+     *
+     * @param string $color Banner color.
+     * @return string Severity, e.g. 'warning'. Unknown colors are treated as warnings.
+     */
+    public function get_severity( $color ) {
+        return self::SEVERITY_MAP[ $this->sanitize_banner_color( $color ) ];
+    }
+
+    /**
+     * Gets the accessible name of a banner region, which includes its severity.
+     *
+     * @param string $severity Severity from get_severity().
+     * @return string Region label.
+     */
+    private function get_region_label( $severity ) {
+        switch ( $severity ) {
+            case 'danger':
+                return __( 'Important notification', 'dswp' );
+            case 'warning':
+                return __( 'Warning notification', 'dswp' );
+            case 'success':
+                return __( 'Success notification', 'dswp' );
+            case 'info':
+                return __( 'Information notification', 'dswp' );
+            default:
+                return __( 'Notification', 'dswp' );
+        }
+    }
+
+    /**
+     * Gets the icon shown for a severity.
+     *
+     * @param string $severity Severity from get_severity().
+     * @return string SVG markup.
+     */
+    private function get_severity_icon( $severity ) {
+        switch ( $severity ) {
+            case 'danger':
+                $path = 'M7.86 2h8.28L22 7.86v8.28L16.14 22H7.86L2 16.14V7.86L7.86 2zM11 7v6h2V7h-2zm0 8v2h2v-2h-2z';
+                break;
+            case 'warning':
+                $path = 'M12 2 1 21h22L12 2zm-1 7v5h2V9h-2zm0 7v2h2v-2h-2z';
+                break;
+            case 'success':
+                $path = 'M12 2a10 10 0 1 0 0 20 10 10 0 0 0 0-20zm-1.5 14.5-4-4 1.4-1.4 2.6 2.6 5.6-5.6 1.4 1.4-7 7z';
+                break;
+            default:
+                $path = 'M12 2a10 10 0 1 0 0 20 10 10 0 0 0 0-20zm-1 8v7h2v-7h-2zm0-4v2h2V6h-2z';
+        }
+
+        return '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="24" height="24" focusable="false"><path fill="currentColor" fill-rule="evenodd" d="' . esc_attr( $path ) . '"/></svg>';
+    }
+
+    /**
+     * Gets the version of a banner used to remember its dismissal.
+     *
+     * The version changes whenever the message or color changes, so an
+     * edited banner is shown again to visitors who closed the old one.
+     *
+     * @param array $banner Banner from get_settings_banner() or Banners::get_targeted_banners().
+     * @return string Version hash.
+     */
+    public function get_banner_version( $banner ) {
+        return substr( md5( $banner['message'] . '|' . $banner['color'] ), 0, 12 );
+    }
+
+    /**
+     * Gets the banner collection.
+     *
+     * @return NotificationBanner\Banners
+     */
+    public function get_banners() {
+        if ( ! $this->banners ) {
+            $this->banners = new NotificationBanner\Banners( $this );
+        }
+
+        return $this->banners;
+    }
+
+    /**
+     * Gets the banner configured on the settings page.
+     *
+     * It applies to the whole site with the default priority.
+     *
+     * @return array Banner with 'id', 'message', 'color', 'priority', 'enabled', 'dismissible', 'start' and 'end'.
+     */
+    public function get_settings_banner() {
+        return [
+            'id'          => 'dswp-notification-banner',
+            'message'     => get_option( 'dswp_notification_banner_notification', '' ),
+            'color'       => get_option( 'dswp_notification_banner_color' ),
+            'priority'    => self::DEFAULT_PRIORITY,
+            'enabled'     => '1' === get_option( 'dswp_notification_banner_enabled', '0' ),
+            'dismissible' => '1' === get_option( 'dswp_notification_banner_dismissible', '0' ),
+            'start'       => get_option( 'dswp_notification_banner_start', '' ),
+            'end'         => get_option( 'dswp_notification_banner_end', '' ),
+        ];
+    }
+
+    /**
+     * Sorts banners by priority, keeping their order when priorities match.
+     *
+     * @param array $banners Banners.
+     * @return array Sorted banners.
+     */
+    public function sort_banners( $banners ) {
+        $banners = array_values( $banners );
+
+        // Compare indexes too, as usort() is not stable before PHP 8.
+        uksort(
+            $banners,
+            function ( $a, $b ) use ( $banners ) {
+                return [ (int) $banners[ $a ]['priority'], $a ] <=> [ (int) $banners[ $b ]['priority'], $b ];
+            }
+        );
+
+        return array_values( $banners );
+    }
+
+    /**
+     * Gets whether the settings page banner is showing, based on the enabled option and schedule.
+     *
+     * @param \DateTimeImmutable|null $now Time to check. Defaults to the current time.
+     * @return string 'disabled', 'scheduled' (before the start), 'active' or 'expired' (after the end).
+     */
+    public function get_schedule_state( $now = null ) {
+        return $this->get_banner_state( $this->get_settings_banner(), $now );
+    }
+
+    /**
+     * Gets whether a banner is showing, based on whether it is enabled and its schedule.
+     *
+     * @param array                   $banner Banner with 'enabled', 'start' and 'end'.
+     * @param \DateTimeImmutable|null $now    Time to check. Defaults to the current time.
+     * @return string 'disabled', 'scheduled' (before the start), 'active' or 'expired' (after the end).
+     */
+    public function get_banner_state( $banner, $now = null ) {
+        if ( empty( $banner['enabled'] ) ) {
+            return 'disabled';
+        }
+
+        $now   = $now ?? new \DateTimeImmutable( 'now', wp_timezone() );
+        $start = $this->parse_datetime( $banner['start'] );
+        $end   = $this->parse_datetime( $banner['end'] );
+
+        if ( $start && $now < $start ) {
+            return 'scheduled';
+        }
+        if ( $end && $now >= $end ) {
+            return 'expired';
+        }
+
+        return 'active';
+    }
+
+    /**
+     * Parses a schedule value as a date in the site timezone.
+     *
+     * @param string $value Value in DATETIME_FORMAT.
+     * @return \DateTimeImmutable|null The date, or null if not set.
+     */
+    public function parse_datetime( $value ) {
+        if ( empty( $value ) ) {
+            return null;
+        }
+
+        $datetime = \DateTimeImmutable::createFromFormat( self::DATETIME_FORMAT, $value, wp_timezone() );
+
+        return $datetime ? $datetime : null;
+    }
+
+    /**
+     * Formats a schedule date for display in the admin.
+     *
+     * @param \DateTimeImmutable $datetime The date.
+     * @return string Date and time in the site's formats.
+     */
+    public function format_datetime( $datetime ) {
+        return wp_date( get_option( 'date_format' ) . ' ' . get_option( 'time_format' ), $datetime->getTimestamp() );
     }
 
     /**
@@ -198,4 +668,62 @@ class NotificationBanner {
             return 'var(--dswp-icons-color-warning)';
         }
     }
+
+    /**
+     * Sanitizes the banner position setting.
+     *
+     * @param string $position The position to sanitize.
+     * @return string The position, or 'top' if invalid or unset.
+     */
+    public function sanitize_banner_position( $position ) {
+        return in_array( $position, self::POSITIONS, true ) ? $position : 'top';
+    }
+
+    /**
+     * Sanitizes a checkbox setting.
+     *
+     * @param mixed $value The submitted value, or null when unchecked.
+     * @return string '1' when checked, otherwise '0'.
+     */
+    public function sanitize_banner_flag( $value ) {
+        return '1' === (string) $value ? '1' : '0';
+    }
+
+    /**
+     * Sanitizes a schedule start or end setting.
+     *
+     * @param string $value The submitted datetime-local value.
+     * @return string The value in DATETIME_FORMAT, or an empty string if invalid or unset.
+     */
+    public function sanitize_banner_datetime( $value ) {
+        $value    = sanitize_text_field( (string) $value );
+        $datetime = \DateTimeImmutable::createFromFormat( self::DATETIME_FORMAT, $value, wp_timezone() );
+
+        return $datetime ? $datetime->format( self::DATETIME_FORMAT ) : '';
+    }
+
+    /**
+     * Sanitizes the schedule end setting, and flags an end that is not after the start,
+     * since the banner would never display.
+     *
+     * options.php saves the start setting first, so the option already holds the submitted start.
+     *
+     * @param string $value The submitted datetime-local value.
+     * @return string The value in DATETIME_FORMAT, or an empty string if invalid or unset.
+     */
+    public function sanitize_banner_end( $value ) {
+        $end   = $this->sanitize_banner_datetime( $value );
+        $start = $this->parse_datetime( get_option( 'dswp_notification_banner_start', '' ) );
+
+        if ( $start && $end && $this->parse_datetime( $end ) <= $start ) {
+            add_settings_error(
+                'dswp_options_group',
+                'invalid_banner_schedule',
+                __( 'The banner end time must be after its start time. The banner will not display until the schedule is corrected.', 'dswp' ),
+                'error'
+            );
+        }
+
+        return $end;
+    }
 }
\ No newline at end of file
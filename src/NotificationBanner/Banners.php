@@ -0,0 +1,495 @@
+<?php
+
+namespace Bcgov\DesignSystemPlugin\NotificationBanner;
+
+use Bcgov\DesignSystemPlugin\NotificationBanner;
+
+/**
+ * Class Banners
+ *
+ * Manages a collection of targeted notification banners, stored as the
+ * `dswp_banner` post type and listed under Design System → Banners:
+ * - Each banner has its own severity color, priority and schedule
+ * - Targeting limits a banner to the entire site, page trees or post types
+ *
+ * @package Bcgov\DesignSystemPlugin\NotificationBanner
+ * @since 2.18.0
+ */
+class Banners {
+
+    /**
+     * Post type storing the banners.
+     *
+     * @var string
+     */
+    const POST_TYPE = 'dswp_banner';
+
+    /**
+     * Targeting options, keyed by value.
+     *
+     * @var string[]
+     */
+    const TARGETS = [ 'site', 'pages', 'post_types' ];
+
+    /**
+     * The notification banner, used for colors and schedules.
+     *
+     * @var NotificationBanner
+     */
+    private $notification_banner;
+
+    /**
+     * Banners constructor.
+     *
+     * @param NotificationBanner $notification_banner The notification banner.
+     */
+    public function __construct( NotificationBanner $notification_banner ) {
+        $this->notification_banner = $notification_banner;
+    }
+
+    /**
+     * Registers hooks for the banner post type and its admin screens.
+     *
+     * @return void
+     */
+    public function init() {
+        add_action( 'init', [ $this, 'register_post_type' ] );
+        add_action( 'add_meta_boxes_' . self::POST_TYPE, [ $this, 'add_meta_box' ] );
+        add_action( 'save_post_' . self::POST_TYPE, [ $this, 'save_meta' ] );
+        add_filter( 'manage_' . self::POST_TYPE . '_posts_columns', [ $this, 'add_columns' ] );
+        add_action( 'manage_' . self::POST_TYPE . '_posts_custom_column', [ $this, 'render_column' ], 10, 2 );
+        add_filter( 'manage_edit-' . self::POST_TYPE . '_sortable_columns', [ $this, 'add_sortable_columns' ] );
+        add_action( 'pre_get_posts', [ $this, 'sort_by_priority' ] );
+    }
+
+    /**
+     * Registers the banner post type.
+     *
+     * Banners are managed by administrators only and are listed under the
+     * Design System menu.
+     *
+     * @return void
+     */
+    public function register_post_type() {
+        register_post_type(
+            self::POST_TYPE,
+            [
+                'labels'       => [
+                    'name'               => __( 'Banners', 'dswp' ),
+                    'singular_name'      => __( 'Banner', 'dswp' ),
+                    'add_new'            => __( 'Add New Banner', 'dswp' ),
+                    'add_new_item'       => __( 'Add New Banner', 'dswp' ),
+                    'edit_item'          => __( 'Edit Banner', 'dswp' ),
+                    'new_item'           => __( 'New Banner', 'dswp' ),
+                    'search_items'       => __( 'Search Banners', 'dswp' ),
+                    'not_found'          => __( 'No banners found.', 'dswp' ),
+                    'not_found_in_trash' => __( 'No banners found in Trash.', 'dswp' ),
+                    'all_items'          => __( 'Banners', 'dswp' ),
+                ],
+                'public'       => false,
+                'show_ui'      => true,
+                'show_in_menu' => 'dswp-admin-menu',
+                'show_in_rest' => false,
+                'supports'     => [ 'title', 'editor' ],
+                'capabilities' => array_fill_keys(
+                    [
+                        'edit_post',
+                        'read_post',
+                        'delete_post',
+                        'edit_posts',
+                        'edit_others_posts',
+                        'delete_posts',
+                        'delete_others_posts',
+                        'publish_posts',
+                        'read_private_posts',
+                        'create_posts',
+                    ],
+                    'manage_options'
+                ),
+            ]
+        );
+    }
+
+    /**
+     * Gets the settings of a banner, with defaults for anything unset.
+     *
+     * @param int $post_id Banner post ID.
+     * @return array Settings with 'color', 'priority', 'dismissible', 'start', 'end', 'target', 'pages' and 'post_types'.
+     */
+    public function get_settings( $post_id ) {
+        $priority = get_post_meta( $post_id, '_dswp_banner_priority', true );
+
+        return [
+            'color'       => $this->notification_banner->sanitize_banner_color( get_post_meta( $post_id, '_dswp_banner_color', true ) ),
+            'priority'    => '' === $priority ? NotificationBanner::DEFAULT_PRIORITY : (int) $priority,
+            'dismissible' => '1' === get_post_meta( $post_id, '_dswp_banner_dismissible', true ),
+            'start'       => (string) get_post_meta( $post_id, '_dswp_banner_start', true ),
+            'end'         => (string) get_post_meta( $post_id, '_dswp_banner_end', true ),
+            'target'      => $this->sanitize_target( get_post_meta( $post_id, '_dswp_banner_target', true ) ),
+            'pages'       => array_map( 'absint', (array) get_post_meta( $post_id, '_dswp_banner_pages', true ) ),
+            'post_types'  => array_map( 'sanitize_key', (array) get_post_meta( $post_id, '_dswp_banner_post_types', true ) ),
+        ];
+    }
+
+    /**
+     * Gets the published banners targeting the current request.
+     *
+     * Schedules are not checked here; see NotificationBanner::get_banner_state().
+     *
+     * @return array Banners in the format of NotificationBanner::get_settings_banner().
+     */
+    public function get_targeted_banners() {
+        $posts = get_posts(
+            [
+                'post_type'      => self::POST_TYPE,
+                'post_status'    => 'publish',
+                'posts_per_page' => -1,
+                'orderby'        => 'date',
+                'order'          => 'ASC',
+            ]
+        );
+
+        $banners = [];
+        foreach ( $posts as $post ) {
+            $settings = $this->get_settings( $post->ID );
+            if ( ! $this->matches_request( $settings ) ) {
+                continue;
+            }
+
+            $banners[] = [
+                'id'          => 'dswp-notification-banner-' . $post->ID,
+                'message'     => wpautop( $post->post_content ),
+                'color'       => $settings['color'],
+                'priority'    => $settings['priority'],
+                'enabled'     => true,
+                'dismissible' => $settings['dismissible'],
+                'start'       => $settings['start'],
+                'end'         => $settings['end'],
+            ];
+        }
+
+        return $banners;
+    }
+
+    /**
+     * Checks whether a banner's targeting matches the current request.
+     *
+     * @param array $settings Settings from get_settings().
+     * @return bool True if the banner should display.
+     */
+    public function matches_request( $settings ) {
+        switch ( $settings['target'] ) {
+            case 'pages':
+                if ( ! is_page() ) {
+                    return false;
+                }
+                // A page tree includes the selected page and all of its descendants.
+                $page_id = get_queried_object_id();
+                $tree    = array_merge( [ $page_id ], get_post_ancestors( $page_id ) );
+                return (bool) array_intersect( $settings['pages'], $tree );
+            case 'post_types':
+                return ! empty( $settings['post_types'] )
+                    && ( is_singular( $settings['post_types'] ) || is_post_type_archive( $settings['post_types'] ) );
+            default:
+                return true;
+        }
+    }
+
+    /**
+     * Adds the banner settings meta box.
+     *
+     * @return void
+     */
+    public function add_meta_box() {
+        add_meta_box(
+            'dswp-banner-settings',
+            __( 'Banner Settings', 'dswp' ),
+            [ $this, 'render_meta_box' ],
+            self::POST_TYPE,
+            'normal',
+            'high'
+        );
+    }
+
+    /**
+     * Renders the banner settings meta box.
+     *
+     * @param \WP_Post $post The banner being edited.
+     * @return void
+     */
+    public function render_meta_box( $post ) {
+        $settings = $this->get_settings( $post->ID );
+        wp_nonce_field( 'dswp_banner_settings', 'dswp_banner_settings_nonce' );
+		?>
+        <table class="form-table" role="presentation">
+            <tr>
+                <th scope="row"><?php esc_html_e( 'Severity', 'dswp' ); ?></th>
+                <td><?php $this->notification_banner->render_color_options( 'dswp_banner_color', $settings['color'], 'dswp_banner_meta_color_' ); ?></td>
+            </tr>
+            <tr>
+                <th scope="row"><label for="dswp_banner_priority"><?php esc_html_e( 'Priority', 'dswp' ); ?></label></th>
+                <td>
+                    <input type="number" id="dswp_banner_priority" name="dswp_banner_priority" value="<?php echo esc_attr( $settings['priority'] ); ?>" min="0" step="1" class="small-text" />
+                    <p class="description">
+                        <?php
+                        echo esc_html(
+                            sprintf(
+                                /* translators: %d: Priority of the banner on the Notification Banner settings page. */
+                                __( 'Banners with a lower number display first. The Notification Banner settings page banner has priority %d.', 'dswp' ),
+                                NotificationBanner::DEFAULT_PRIORITY
+                            )
+                        );
+                        ?>
+                    </p>
+                </td>
+            </tr>
+            <tr>
+                <th scope="row"><?php esc_html_e( 'Schedule', 'dswp' ); ?></th>
+                <td>
+                    <label for="dswp_banner_start"><?php esc_html_e( 'Start', 'dswp' ); ?></label>
+                    <input type="datetime-local" id="dswp_banner_start" name="dswp_banner_start" value="<?php echo esc_attr( $settings['start'] ); ?>" />
+                    <label for="dswp_banner_end"><?php esc_html_e( 'End', 'dswp' ); ?></label>
+                    <input type="datetime-local" id="dswp_banner_end" name="dswp_banner_end" value="<?php echo esc_attr( $settings['end'] ); ?>" />
+                    <p class="description">
+                        <?php
+                        echo esc_html(
+                            sprintf(
+                                /* translators: %s: Site timezone, e.g. America/Vancouver. */
+                                __( 'Optional. The banner only displays between these times (%s). Leave either blank for no limit.', 'dswp' ),
+                                wp_timezone_string()
+                            )
+                        );
+                        ?>
+                    </p>
+                </td>
+            </tr>
+            <tr>
+                <th scope="row"><?php esc_html_e( 'Dismissible', 'dswp' ); ?></th>
+                <td>
+                    <label for="dswp_banner_dismissible">
+                        <input type="checkbox" id="dswp_banner_dismissible" name="dswp_banner_dismissible" value="1" <?php checked( $settings['dismissible'] ); ?> />
+                        <?php esc_html_e( 'Let visitors close the banner', 'dswp' ); ?>
+                    </label>
+                    <p class="description"><?php esc_html_e( 'A closed banner stays hidden in that browser until its content changes.', 'dswp' ); ?></p>
+                </td>
+            </tr>
+            <tr>
+                <th scope="row"><?php esc_html_e( 'Display On', 'dswp' ); ?></th>
+                <td>
+                    <fieldset>
+                        <label>
+                            <input type="radio" name="dswp_banner_target" value="site" <?php checked( $settings['target'], 'site' ); ?> />
+                            <?php esc_html_e( 'Entire site', 'dswp' ); ?>
+                        </label><br />
+                        <label>
+                            <input type="radio" name="dswp_banner_target" value="pages" <?php checked( $settings['target'], 'pages' ); ?> />
+                            <?php esc_html_e( 'Selected pages and their child pages', 'dswp' ); ?>
+                        </label><br />
+                        <select name="dswp_banner_pages[]" multiple="multiple" size="8" style="min-width: 20em;" aria-label="<?php esc_attr_e( 'Pages', 'dswp' ); ?>">
+                            <?php foreach ( get_pages() as $page ) : ?>
+                                <option value="<?php echo esc_attr( $page->ID ); ?>" <?php selected( in_array( $page->ID, $settings['pages'], true ) ); ?>>
+                                    <?php echo esc_html( str_repeat( '— ', count( get_post_ancestors( $page ) ) ) . get_the_title( $page ) ); ?>
+                                </option>
+                            <?php endforeach; ?>
+                        </select><br />
+                        <label>
+                            <input type="radio" name="dswp_banner_target" value="post_types" <?php checked( $settings['target'], 'post_types' ); ?> />
+                            <?php esc_html_e( 'Selected post types', 'dswp' ); ?>
+                        </label><br />
+                        <?php foreach ( get_post_types( [ 'public' => true ], 'objects' ) as $post_type ) : ?>
+                            <label style="margin-left: 1.5em;">
+                                <input type="checkbox" name="dswp_banner_post_types[]" value="<?php echo esc_attr( $post_type->name ); ?>" <?php checked( in_array( $post_type->name, $settings['post_types'], true ) ); ?> />
+                                <?php echo esc_html( $post_type->labels->name ); ?>
+                            </label><br />
+                        <?php endforeach; ?>
+                    </fieldset>
+                </td>
+            </tr>
+        </table>
+		<?php
+    }
+
+    /**
+     * Saves the banner settings from the meta box.
+     *
+     * @param int $post_id Banner post ID.
+     * @return void
+     */
+    public function save_meta( $post_id ) {
+        if ( defined( 'DOING_AUTOSAVE' ) && DOING_AUTOSAVE ) {
+            return;
+        }
+        if ( ! isset( $_POST['dswp_banner_settings_nonce'] ) || ! wp_verify_nonce( sanitize_text_field( wp_unslash( $_POST['dswp_banner_settings_nonce'] ) ), 'dswp_banner_settings' ) ) {
+            return;
+        }
+        if ( ! current_user_can( 'manage_options' ) ) {
+            return;
+        }
+
+        $color       = isset( $_POST['dswp_banner_color'] ) ? sanitize_text_field( wp_unslash( $_POST['dswp_banner_color'] ) ) : '';
+        $priority    = isset( $_POST['dswp_banner_priority'] ) ? absint( $_POST['dswp_banner_priority'] ) : NotificationBanner::DEFAULT_PRIORITY;
+        $dismissible = isset( $_POST['dswp_banner_dismissible'] ) ? sanitize_text_field( wp_unslash( $_POST['dswp_banner_dismissible'] ) ) : '0';
+        $start       = isset( $_POST['dswp_banner_start'] ) ? sanitize_text_field( wp_unslash( $_POST['dswp_banner_start'] ) ) : '';
+        $end         = isset( $_POST['dswp_banner_end'] ) ? sanitize_text_field( wp_unslash( $_POST['dswp_banner_end'] ) ) : '';
+        $target      = isset( $_POST['dswp_banner_target'] ) ? sanitize_key( wp_unslash( $_POST['dswp_banner_target'] ) ) : 'site';
+        $pages       = isset( $_POST['dswp_banner_pages'] ) ? array_map( 'absint', (array) wp_unslash( $_POST['dswp_banner_pages'] ) ) : [];
+        $post_types  = isset( $_POST['dswp_banner_post_types'] ) ? array_map( 'sanitize_key', (array) wp_unslash( $_POST['dswp_banner_post_types'] ) ) : [];
+
+        update_post_meta( $post_id, '_dswp_banner_color', $this->notification_banner->sanitize_banner_color( $color ) );
+        update_post_meta( $post_id, '_dswp_banner_priority', $priority );
+        update_post_meta( $post_id, '_dswp_banner_dismissible', $this->notification_banner->sanitize_banner_flag( $dismissible ) );
+        update_post_meta( $post_id, '_dswp_banner_start', $this->notification_banner->sanitize_banner_datetime( $start ) );
+        update_post_meta( $post_id, '_dswp_banner_end', $this->notification_banner->sanitize_banner_datetime( $end ) );
+        update_post_meta( $post_id, '_dswp_banner_target', $this->sanitize_target( $target ) );
+        update_post_meta( $post_id, '_dswp_banner_pages', array_values( array_filter( $pages ) ) );
+        update_post_meta( $post_id, '_dswp_banner_post_types', array_values( array_intersect( $post_types, get_post_types( [ 'public' => true ] ) ) ) );
+    }
+
+    /**
+     * Adds the severity, priority, targeting and status columns to the banner list.
+     *
+     * @param array $columns Columns keyed by name.
+     * @return array Columns.
+     */
+    public function add_columns( $columns ) {
+        $date = $columns['date'] ?? null;
+        unset( $columns['date'] );
+
+        $columns['dswp_severity'] = __( 'Severity', 'dswp' );
+        $columns['dswp_priority'] = __( 'Priority', 'dswp' );
+        $columns['dswp_target']   = __( 'Display On', 'dswp' );
+        $columns['dswp_status']   = __( 'Status', 'dswp' );
+
+        if ( $date ) {
+            $columns['date'] = $date;
+        }
+
+        return $columns;
+    }
+
+    /**
+     * Renders a custom column in the banner list.
+     *
+     * @param string $column  Column name.
+     * @param int    $post_id Banner post ID.
+     * @return void
+     */
+    public function render_column( $column, $post_id ) {
+        $settings = $this->get_settings( $post_id );
+
+        switch ( $column ) {
+            case 'dswp_severity':
+                $labels = $this->notification_banner->get_color_options();
+                echo '<span style="display:inline-block; width: 12px; height: 12px; vertical-align: middle; background-color: ' . esc_attr( $settings['color'] ) . ';"></span> ';
+                echo esc_html( $labels[ $settings['color'] ] ?? '' );
+                break;
+            case 'dswp_priority':
+                echo esc_html( $settings['priority'] );
+                break;
+            case 'dswp_target':
+                echo esc_html( $this->describe_target( $settings ) );
+                break;
+            case 'dswp_status':
+                echo esc_html( $this->describe_status( $post_id, $settings ) );
+                break;
+        }
+    }
+
+    /**
+     * Makes the priority column sortable.
+     *
+     * @param array $columns Sortable columns.
+     * @return array Sortable columns.
+     */
+    public function add_sortable_columns( $columns ) {
+        $columns['dswp_priority'] = 'dswp_priority';
+        return $columns;
+    }
+
+    /**
+     * Orders the admin banner list by priority by default.
+     *
+     * @param \WP_Query $query The query.
+     * @return void
+     */
+    public function sort_by_priority( $query ) {
+        if ( ! is_admin() || ! $query->is_main_query() || self::POST_TYPE !== $query->get( 'post_type' ) ) {
+            return;
+        }
+
+        $orderby = $query->get( 'orderby' );
+        if ( empty( $orderby ) || 'dswp_priority' === $orderby ) {
+            $query->set( 'meta_key', '_dswp_banner_priority' );
+            $query->set( 'orderby', 'meta_value_num' );
+            if ( empty( $orderby ) ) {
+                $query->set( 'order', 'ASC' );
+            }
+        }
+    }
+
+    /**
+     * Describes a banner's targeting for the list table.
+     *
+     * @param array $settings Settings from get_settings().
+     * @return string Description.
+     */
+    private function describe_target( $settings ) {
+        switch ( $settings['target'] ) {
+            case 'pages':
+                $titles = array_map( 'get_the_title', $settings['pages'] );
+                /* translators: %s: Comma-separated page titles. */
+                return sprintf( __( 'Pages: %s', 'dswp' ), implode( ', ', $titles ) );
+            case 'post_types':
+                $labels = array_map(
+                    function ( $post_type ) {
+                        $object = get_post_type_object( $post_type );
+                        return $object ? $object->labels->name : $post_type;
+                    },
+                    $settings['post_types']
+                );
+                /* translators: %s: Comma-separated post type names. */
+                return sprintf( __( 'Post types: %s', 'dswp' ), implode( ', ', $labels ) );
+            default:
+                return __( 'Entire site', 'dswp' );
+        }
+    }
+
+    /**
+     * Describes whether a banner is showing, for the list table.
+     *
+     * @param int   $post_id  Banner post ID.
+     * @param array $settings Settings from get_settings().
+     * @return string Description.
+     */
+    private function describe_status( $post_id, $settings ) {
+        $state = $this->notification_banner->get_banner_state(
+            [
+                'enabled' => 'publish' === get_post_status( $post_id ),
+                'start'   => $settings['start'],
+                'end'     => $settings['end'],
+            ]
+        );
+
+        switch ( $state ) {
+            case 'active':
+                return __( 'Showing', 'dswp' );
+            case 'scheduled':
+                /* translators: %s: Date and time the banner starts displaying. */
+                return sprintf( __( 'Scheduled from %s', 'dswp' ), $this->notification_banner->format_datetime( $this->notification_banner->parse_datetime( $settings['start'] ) ) );
+            case 'expired':
+                return __( 'Ended', 'dswp' );
+            default:
+                return __( 'Not published', 'dswp' );
+        }
+    }
+
+    /**
+     * Sanitizes a targeting option.
+     *
+     * @param string $target The targeting option.
+     * @return string The option, or 'site' if invalid.
+     */
+    private function sanitize_target( $target ) {
+        return in_array( $target, self::TARGETS, true ) ? $target : 'site';
+    }
+}
@@ -0,0 +1,309 @@
+<?php
+
+namespace Bcgov\DesignSystemPlugin\NotificationBanner;
+
+use Bcgov\DesignSystemPlugin\NotificationBanner;
+
+/**
+ * Class RestController
+ *
+ * REST API routes for the banner on the Notification Banner settings page,
+ * so it can be managed by scripts as well as the admin form:
+ * - GET    /dswp/v1/banner  Reads the banner
+ * - POST   /dswp/v1/banner  Updates the banner, including enabling it
+ * - DELETE /dswp/v1/banner  Disables the banner, keeping its content
+ *
+ * Values are validated against the same rules as the settings page.
+ *
+ * @package Bcgov\DesignSystemPlugin\NotificationBanner
+ * @since 2.18.0
+ */
+class RestController extends \WP_REST_Controller {
+
+    /**
+     * The notification banner, used for sanitization and state.
+     *
+     * @var NotificationBanner
+     */
+    private $notification_banner;
+
+    /**
+     * RestController constructor.
+     *
+     * @param NotificationBanner $notification_banner The notification banner.
+     */
+    public function __construct( NotificationBanner $notification_banner ) {
+        $this->notification_banner = $notification_banner;
+        $this->namespace           = 'dswp/v1';
+        $this->rest_base           = 'banner';
+    }
+
+    /**
+     * Registers the banner routes.
+     *
+     * @return void
+     */
+    public function register_routes() {
+        register_rest_route(
+            $this->namespace,
+            '/' . $this->rest_base,
+            [
+                [
+                    'methods'             => \WP_REST_Server::READABLE,
+                    'callback'            => [ $this, 'get_item' ],
+                    'permission_callback' => [ $this, 'get_item_permissions_check' ],
+                ],
+                [
+                    'methods'             => \WP_REST_Server::EDITABLE,
+                    'callback'            => [ $this, 'update_item' ],
+                    'permission_callback' => [ $this, 'update_item_permissions_check' ],
+                    'args'                => $this->get_endpoint_args_for_item_schema( \WP_REST_Server::EDITABLE ),
+                ],
+                [
+                    'methods'             => \WP_REST_Server::DELETABLE,
+                    'callback'            => [ $this, 'delete_item' ],
+                    'permission_callback' => [ $this, 'delete_item_permissions_check' ],
+                ],
+                'schema' => [ $this, 'get_public_item_schema' ],
+            ]
+        );
+    }
+
+    /**
+     * Checks whether the current user can read the banner settings.
+     *
+     * @param \WP_REST_Request $request Request.
+     * @return true|\WP_Error True, or an error if the user cannot manage options.
+     */
+    public function get_item_permissions_check( $request ) {
+        return $this->check_permission();
+    }
+
+    /**
+     * Checks whether the current user can update the banner.
+     *
+     * @param \WP_REST_Request $request Request.
+     * @return true|\WP_Error True, or an error if the user cannot manage options.
+     */
+    public function update_item_permissions_check( $request ) {
+        return $this->check_permission();
+    }
+
+    /**
+     * Checks whether the current user can disable the banner.
+     *
+     * @param \WP_REST_Request $request Request.
+     * @return true|\WP_Error True, or an error if the user cannot manage options.
+     */
+    public function delete_item_permissions_check( $request ) {
+        return $this->check_permission();
+    }
+
+    /**
+     * Reads the banner.
+     *
+     * @param \WP_REST_Request $request Request.
+     * @return \WP_REST_Response Banner settings.
+     */
+    public function get_item( $request ) {
+        return $this->prepare_item_for_response( $this->notification_banner->get_settings_banner(), $request );
+    }
+
+    /**
+     * Updates the banner with the given fields. Fields that are not
+     * included keep their current value.
+     *
+     * @param \WP_REST_Request $request Request.
+     * @return \WP_REST_Response|\WP_Error Updated banner settings, or an error if the schedule ends before it starts.
+     */
+    public function update_item( $request ) {
+        // Like the settings page, the end must be after the start, including a start or end that is already saved.
+        $start = $this->notification_banner->parse_datetime( $request['start'] ?? get_option( 'dswp_notification_banner_start', '' ) );
+        $end   = $this->notification_banner->parse_datetime( $request['end'] ?? get_option( 'dswp_notification_banner_end', '' ) );
+        if ( $start && $end && $end <= $start ) {
+            return new \WP_Error(
+                'rest_invalid_param',
+                __( 'The banner end time must be after its start time.', 'dswp' ),
+                [ 'status' => 400 ]
+            );
+        }
+
+        if ( isset( $request['enabled'] ) ) {
+            update_option( 'dswp_notification_banner_enabled', $request['enabled'] ? '1' : '0' );
+        }
+        if ( isset( $request['message'] ) ) {
+            update_option( 'dswp_notification_banner_notification', wp_kses_post( $request['message'] ) );
+        }
+        if ( isset( $request['color'] ) ) {
+            update_option( 'dswp_notification_banner_color', $this->notification_banner->sanitize_banner_color( $request['color'] ) );
+        }
+        if ( isset( $request['start'] ) ) {
+            update_option( 'dswp_notification_banner_start', $this->notification_banner->sanitize_banner_datetime( $request['start'] ) );
+        }
+        if ( isset( $request['end'] ) ) {
+            update_option( 'dswp_notification_banner_end', $this->notification_banner->sanitize_banner_datetime( $request['end'] ) );
+        }
+        if ( isset( $request['dismissible'] ) ) {
+            update_option( 'dswp_notification_banner_dismissible', $request['dismissible'] ? '1' : '0' );
+        }
+        if ( isset( $request['position'] ) ) {
+            update_option( 'dswp_notification_banner_position', $this->notification_banner->sanitize_banner_position( $request['position'] ) );
+        }
+
+        return $this->get_item( $request );
+    }
+
+    /**
+     * Disables the banner. Its content is kept so it can be enabled again.
+     *
+     * @param \WP_REST_Request $request Request.
+     * @return \WP_REST_Response Updated banner settings.
+     */
+    public function delete_item( $request ) {
+        update_option( 'dswp_notification_banner_enabled', '0' );
+
+        return $this->get_item( $request );
+    }
+
+    /**
+     * Prepares the banner for the response.
+     *
+     * @param array            $item    Banner from NotificationBanner::get_settings_banner().
+     * @param \WP_REST_Request $request Request.
+     * @return \WP_REST_Response Response.
+     */
+    public function prepare_item_for_response( $item, $request ) {
+        $data = [
+            'enabled'     => (bool) $item['enabled'],
+            'message'     => (string) $item['message'],
+            'color'       => $this->notification_banner->sanitize_banner_color( $item['color'] ),
+            'start'       => (string) $item['start'],
+            'end'         => (string) $item['end'],
+            'dismissible' => (bool) $item['dismissible'],
+            'position'    => $this->notification_banner->get_position(),
+            'status'      => $this->notification_banner->get_banner_state( $item ),
+        ];
+
+        return rest_ensure_response( $this->filter_response_by_context( $data, $request['context'] ?? 'view' ) );
+    }
+
+    /**
+     * Gets the banner schema.
+     *
+     * @return array Schema.
+     */
+    public function get_item_schema() {
+        if ( $this->schema ) {
+            return $this->add_additional_fields_schema( $this->schema );
+        }
+
+        $datetime = [
+            'type'        => 'string',
+            'pattern'     => '^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2})?$',
+            'context'     => [ 'view', 'edit' ],
+            'arg_options' => [
+                'validate_callback' => [ $this, 'validate_datetime' ],
+            ],
+        ];
+
+        $this->schema = [
+            '$schema'    => 'http://json-schema.org/draft-04/schema#',
+            'title'      => 'dswp-notification-banner',
+            'type'       => 'object',
+            'properties' => [
+                'enabled'     => [
+                    'description' => __( 'Whether the banner is enabled.', 'dswp' ),
+                    'type'        => 'boolean',
+                    'context'     => [ 'view', 'edit' ],
+                ],
+                'message'     => [
+                    'description' => __( 'Banner content. HTML is filtered like post content.', 'dswp' ),
+                    'type'        => 'string',
+                    'context'     => [ 'view', 'edit' ],
+                    'arg_options' => [
+                        'sanitize_callback' => 'wp_kses_post',
+                    ],
+                ],
+                'color'       => [
+                    'description' => __( 'Banner color.', 'dswp' ),
+                    'type'        => 'string',
+                    'enum'        => array_keys( NotificationBanner::COLOR_MAP ),
+                    'context'     => [ 'view', 'edit' ],
+                ],
+                'start'       => array_merge(
+                    $datetime,
+                    [ 'description' => __( 'When the banner starts displaying, as YYYY-MM-DDTHH:MM in the site timezone. Empty for no limit.', 'dswp' ) ]
+                ),
+                'end'         => array_merge(
+                    $datetime,
+                    [ 'description' => __( 'When the banner stops displaying, as YYYY-MM-DDTHH:MM in the site timezone. Empty for no limit.', 'dswp' ) ]
+                ),
+                'dismissible' => [
+                    'description' => __( 'Whether visitors can close the banner.', 'dswp' ),
+                    'type'        => 'boolean',
+                    'context'     => [ 'view', 'edit' ],
+                ],
+                'position'    => [
+                    'description' => __( 'Where banners display on the page.', 'dswp' ),
+                    'type'        => 'string',
+                    'enum'        => NotificationBanner::POSITIONS,
+                    'context'     => [ 'view', 'edit' ],
+                ],
+                'status'      => [
+                    'description' => __( 'Whether the banner is displaying now.', 'dswp' ),
+                    'type'        => 'string',
+                    'enum'        => [ 'active', 'scheduled', 'expired', 'disabled' ],
+                    'context'     => [ 'view', 'edit' ],
+                    'readonly'    => true,
+                ],
+            ],
+        ];
+
+        return $this->add_additional_fields_schema( $this->schema );
+    }
+
+    /**
+     * Validates a schedule start or end value, including that it is a real
+     * date (e.g. not February 30th).
+     *
+     * @param mixed            $value   Submitted value.
+     * @param \WP_REST_Request $request Request.
+     * @param string           $param   Parameter name.
+     * @return true|\WP_Error True if valid.
+     */
+    public function validate_datetime( $value, $request, $param ) {
+        $valid = rest_validate_request_arg( $value, $request, $param );
+        if ( is_wp_error( $valid ) ) {
+            return $valid;
+        }
+
+        // Out of range values such as 2030-02-30 are rolled over when sanitized.
+        if ( '' !== $value && $this->notification_banner->sanitize_banner_datetime( $value ) !== $value ) {
+            return new \WP_Error(
+                'rest_invalid_param',
+                /* translators: %s: Parameter name. */
+                sprintf( __( '%s is not a valid date and time.', 'dswp' ), $param ),
+                [ 'status' => 400 ]
+            );
+        }
+
+        return true;
+    }
+
+    /**
+     * Checks that the current user can manage the banner, like the settings page.
+     *
+     * @return true|\WP_Error True, or an error if the user cannot manage options.
+     */
+    private function check_permission() {
+        if ( current_user_can( 'manage_options' ) ) {
+            return true;
+        }
+
+        return new \WP_Error(
+            'rest_forbidden',
+            __( 'Sorry, you are not allowed to manage the notification banner.', 'dswp' ),
+            [ 'status' => rest_authorization_required_code() ]
+        );
+    }
+}
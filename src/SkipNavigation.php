@@ -10,18 +10,106 @@ namespace Bcgov\DesignSystemPlugin;
 class SkipNavigation {
 
 
-    /** A variable to hold the state to determine the main element.
+    /**
+     * Option holding the skip links, each with a 'label' and a 'target' element ID.
+     * Unset until the settings are saved, so the defaults stay translatable.
+     *
+     * @var string
+     */
+    const LINKS_OPTION = 'dswp_skip_nav_links';
+
+    /**
+     * Option holding the accessibility statement URL. Empty to hide the link.
+     *
+     * @var string
+     */
+    const STATEMENT_URL_OPTION = 'dswp_skip_nav_statement_url';
+
+    /**
+     * Option holding the accessibility statement link text. Empty for the default.
+     *
+     * @var string
+     */
+    const STATEMENT_LABEL_OPTION = 'dswp_skip_nav_statement_label';
+
+    /**
+     * Default accessibility statement URL.
+     *
+     * @var string
+     */
+    const ACCESSIBILITY_STATEMENT_URL = 'https://www2.gov.bc.ca/gov/content/home/accessible-government';
+
+    /**
+     * Settings group for the Skip Navigation page, so saving it leaves other pages' settings alone.
+     *
+     * @var string
+     */
+    const OPTION_GROUP = 'dswp_skip_nav_options_group';
+
+    /**
+     * Navigation blocks the "Skip to main navigation" link can go to.
      *
-     * @var bool is main element.
+     * @var string[]
+     */
+    const NAVIGATION_BLOCKS = [ 'core/navigation', 'design-system-wordpress-plugin/navigation' ];
+
+    /**
+     * ID added to the main content when it has none.
+     *
+     * @var string
+     */
+    const MAIN_CONTENT_ID = 'main-content';
+
+    /**
+     * ID added to the first navigation block when it has none.
+     *
+     * @var string
+     */
+    const MAIN_NAVIGATION_ID = 'main-navigation';
+
+    /**
+     * Template part areas that are not the main content.
+     *
+     * @var string[]
+     */
+    const NON_MAIN_AREAS = [ 'header', 'footer' ];
+
+    /**
+     * ID of the main content element found while rendering blocks, or empty if none was found.
+     *
+     * @var string
+     */
+    private $main_content_id = '';
+
+    /**
+     * Whether MAIN_CONTENT_ID was added by this class, so it can be moved to a better element.
+     *
+     * @var bool
      */
     private $main_content_added = false;
 
+    /**
+     * Whether the main content is a <main> element, which is not replaced by a later block.
+     *
+     * @var bool
+     */
+    private $main_content_is_landmark = false;
+
+    /**
+     * ID of the first navigation block, or an empty string before one renders.
+     *
+     * @var string
+     */
+    private $main_navigation_id = '';
+
     /**
      * Initializes the SkipNavigation class by adding necessary hooks.
      *
      * @return void
      */
     public function init() {
+        add_action( 'admin_menu', [ $this, 'add_menu' ] );
+        add_action( 'admin_init', [ $this, 'register_settings' ] );
         add_action( 'wp_body_open', [ $this, 'add_skip_nav' ] );
         remove_action( 'wp_footer', 'the_block_template_skip_link' );
         add_filter( 'render_block', [ $this, 'modify_block_render' ], 10, 2 );
@@ -30,6 +118,15 @@ class SkipNavigation {
     /**
      * Modifies the render output of specified blocks by adding an HTML element with an id attribute.
      *
+     * The "Skip to main content" link goes to, in order of preference:
+     * - The first <main> element, e.g. a Group or Template Part block with the main tag
+     * - The first Post Content block
+     *
+     * Blocks render before the blocks around them, so post content gets the ID first,
+     * and it is moved to a <main> element that contains it. An existing ID on either
+     * element is kept, and the link goes to it instead (see get_links()). Header and
+     * footer template parts are never the main content.
+     *
      * @param string|null $block_content The content of the block. Can be null if no content exists.
      * @param array       $block The block data, including its name and attributes.
      * @return string|null Modified block content or null if no content.
@@ -40,41 +137,416 @@ class SkipNavigation {
             return null;
         }
 
-        // Check for core/post-content first.
-        if ( isset( $block['blockName'] ) && 'core/post-content' === $block['blockName'] && ! $this->main_content_added ) {
-            $block_content            = preg_replace( '/<div/', '<div id="main-content"', $block_content, 1 );
-            $this->main_content_added = true; // Mark as added.
-        } elseif ( isset( $block['attrs']['tagName'] ) && 'main' === $block['attrs']['tagName'] && ! $this->main_content_added ) { // Check for <main> tag if main-content hasn't been added yet.
-            $block_content            = preg_replace( '/<main([^>]*)>/', '<main$1 id="main-content">', $block_content );
-            $this->main_content_added = true; // Mark as added.
+        if ( $this->is_non_main_template_part( $block ) ) {
+            $block_content = $this->remove_main_content_id( $block_content );
+        } elseif ( ! $this->main_content_is_landmark ) {
+            $block_content = $this->add_main_content_id( $block_content );
         }
 
-        // Always add id="main-navigation" to the navigation block.
-        if ( isset( $block['blockName'] ) && 'core/navigation' === $block['blockName'] ) {
-            $block_content = preg_replace( '/<nav([^>]*)>/', '<nav id="main-navigation"$1>', $block_content );
+        if ( isset( $block['blockName'] ) && in_array( $block['blockName'], self::NAVIGATION_BLOCKS, true ) ) {
+            $block_content = $this->add_navigation_target( $block_content );
         }
 
         return $block_content;
     }
 
+    /**
+     * Adds the Skip Navigation submenu.
+     *
+     * @return void
+     */
+    public function add_menu() {
+        add_submenu_page(
+            'dswp-admin-menu',
+            __( 'Skip Navigation', 'dswp' ),
+            __( 'Skip Navigation', 'dswp' ),
+            'manage_options',
+            'dswp-skip-navigation-menu',
+            [ $this, 'render_skip_navigation_page' ]
+        );
+    }
+
+    /**
+     * Registers the skip link settings.
+     *
+     * @return void
+     */
+    public function register_settings() {
+        register_setting( self::OPTION_GROUP, self::LINKS_OPTION, [ $this, 'sanitize_links' ] );
+        register_setting( self::OPTION_GROUP, self::STATEMENT_URL_OPTION, [ $this, 'sanitize_statement_url' ] );
+        register_setting( self::OPTION_GROUP, self::STATEMENT_LABEL_OPTION, [ $this, 'sanitize_statement_label' ] );
+    }
+
+    /**
+     * Gets the default skip links.
+     *
+     * @return array Links, each with 'label' and 'target'.
+     */
+    public function get_default_links() {
+        return [
+            [
+                'label'  => __( 'Skip to main content', 'dswp' ),
+                'target' => 'main-content',
+            ],
+            [
+                'label'  => __( 'Skip to main navigation', 'dswp' ),
+                'target' => 'main-navigation',
+            ],
+        ];
+    }
+
+    /**
+     * Sanitizes the submitted skip links.
+     *
+     * Rows are sorted by their order, and removed, blank or incomplete rows are dropped.
+     *
+     * @param mixed $links Submitted rows, each with 'label', 'target', 'order' and 'remove'.
+     * @return array Links, each with 'label' and 'target'.
+     */
+    public function sanitize_links( $links ) {
+        $rows = [];
+        foreach ( array_values( (array) $links ) as $index => $link ) {
+            if ( ! is_array( $link ) || ! empty( $link['remove'] ) ) {
+                continue;
+            }
+
+            $label  = sanitize_text_field( $link['label'] ?? '' );
+            $target = $this->sanitize_target( $link['target'] ?? '' );
+            if ( '' === $label || '' === $target ) {
+                continue;
+            }
+
+            $rows[] = [
+                'label'  => $label,
+                'target' => $target,
+                'order'  => isset( $link['order'] ) && is_numeric( $link['order'] ) ? (int) $link['order'] : $index + 1,
+                'index'  => $index,
+            ];
+        }
+
+        // Rows with the same order keep their position.
+        usort(
+            $rows,
+            function ( $a, $b ) {
+                return [ $a['order'], $a['index'] ] <=> [ $b['order'], $b['index'] ];
+            }
+        );
+
+        return array_map(
+            function ( $row ) {
+                return [
+                    'label'  => $row['label'],
+                    'target' => $row['target'],
+                ];
+            },
+            $rows
+        );
+    }
+
+    /**
+     * Sanitizes the accessibility statement URL.
+     *
+     * @param mixed $url Submitted URL.
+     * @return string URL, or empty to hide the link.
+     */
+    public function sanitize_statement_url( $url ) {
+        return esc_url_raw( trim( (string) $url ) );
+    }
+
+    /**
+     * Sanitizes the accessibility statement link text.
+     *
+     * @param mixed $label Submitted text.
+     * @return string Text, or empty for the default.
+     */
+    public function sanitize_statement_label( $label ) {
+        return sanitize_text_field( (string) $label );
+    }
+
+    /**
+     * Gets the skip links to output, ending with the accessibility statement.
+     *
+     * @return array Links, each with 'label' and 'href'.
+     */
+    public function get_links() {
+        $links = [];
+
+        $saved = get_option( self::LINKS_OPTION, null );
+        foreach ( is_array( $saved ) ? $saved : $this->get_default_links() as $link ) {
+            $target = $link['target'];
+
+            // Block themes render the template before wp_body_open, so the main content's own ID is known.
+            if ( self::MAIN_CONTENT_ID === $target && '' !== $this->main_content_id ) {
+                $target = $this->main_content_id;
+            }
+            if ( self::MAIN_NAVIGATION_ID === $target && '' !== $this->main_navigation_id ) {
+                $target = $this->main_navigation_id;
+            }
+
+            $links[] = [
+                'label' => $link['label'],
+                'href'  => '#' . $target,
+            ];
+        }
+
+        $statement_url = get_option( self::STATEMENT_URL_OPTION, self::ACCESSIBILITY_STATEMENT_URL );
+        if ( $statement_url ) {
+            $statement_label = get_option( self::STATEMENT_LABEL_OPTION, '' );
+            $links[]         = [
+                'label' => $statement_label ? $statement_label : __( 'Accessibility Statement', 'dswp' ),
+                'href'  => $statement_url,
+            ];
+        }
+
+        /**
+         * Filters the skip links, e.g. to translate saved labels.
+         *
+         * @param array $links Links, each with 'label' and 'href'.
+         */
+        return apply_filters( 'dswp_skip_nav_links', $links );
+    }
+
+    /**
+     * Renders the Skip Navigation settings page.
+     *
+     * @return void
+     */
+    public function render_skip_navigation_page() {
+        $saved = get_option( self::LINKS_OPTION, null );
+        $links = is_array( $saved ) ? $saved : $this->get_default_links();
+
+        // An empty row at the end adds a link.
+        $links[] = [
+            'label'  => '',
+            'target' => '',
+        ];
+        ?>
+        <div class="wrap">
+            <?php settings_errors(); ?>
+            <h1><?php esc_html_e( 'Skip Navigation Settings', 'dswp' ); ?></h1>
+            <form method="post" action="options.php">
+                <?php settings_fields( self::OPTION_GROUP ); ?>
+                <h2><?php esc_html_e( 'Skip Links', 'dswp' ); ?></h2>
+                <p><?php esc_html_e( 'Links at the top of every page that keyboard users can use to jump to a part of the page. Each link goes to the element with the target ID, e.g. main-content or footer. Links are shown in order, lowest first.', 'dswp' ); ?></p>
+                <table class="widefat striped dswp-skip-nav-links">
+                    <thead>
+                        <tr>
+                            <th scope="col"><?php esc_html_e( 'Order', 'dswp' ); ?></th>
+                            <th scope="col"><?php esc_html_e( 'Link Text', 'dswp' ); ?></th>
+                            <th scope="col"><?php esc_html_e( 'Target ID', 'dswp' ); ?></th>
+                            <th scope="col"><?php esc_html_e( 'Remove', 'dswp' ); ?></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        <?php foreach ( $links as $index => $link ) : ?>
+                            <?php
+                            $name = self::LINKS_OPTION . '[' . $index . ']';
+                            $id   = self::LINKS_OPTION . '_' . $index;
+                            ?>
+                            <tr>
+                                <td>
+                                    <label class="screen-reader-text" for="<?php echo esc_attr( $id . '_order' ); ?>"><?php esc_html_e( 'Order', 'dswp' ); ?></label>
+                                    <input type="number" class="small-text" id="<?php echo esc_attr( $id . '_order' ); ?>" name="<?php echo esc_attr( $name . '[order]' ); ?>" value="<?php echo esc_attr( $index + 1 ); ?>" min="1" />
+                                </td>
+                                <td>
+                                    <label class="screen-reader-text" for="<?php echo esc_attr( $id . '_label' ); ?>"><?php esc_html_e( 'Link Text', 'dswp' ); ?></label>
+                                    <input type="text" class="regular-text" id="<?php echo esc_attr( $id . '_label' ); ?>" name="<?php echo esc_attr( $name . '[label]' ); ?>" value="<?php echo esc_attr( $link['label'] ); ?>" placeholder="<?php esc_attr_e( 'Skip to footer', 'dswp' ); ?>" />
+                                </td>
+                                <td>
+                                    <label class="screen-reader-text" for="<?php echo esc_attr( $id . '_target' ); ?>"><?php esc_html_e( 'Target ID', 'dswp' ); ?></label>
+                                    <input type="text" id="<?php echo esc_attr( $id . '_target' ); ?>" name="<?php echo esc_attr( $name . '[target]' ); ?>" value="<?php echo esc_attr( $link['target'] ); ?>" placeholder="footer" />
+                                </td>
+                                <td>
+                                    <?php if ( '' !== $link['target'] ) : ?>
+                                        <label class="screen-reader-text" for="<?php echo esc_attr( $id . '_remove' ); ?>"><?php esc_html_e( 'Remove', 'dswp' ); ?></label>
+                                        <input type="checkbox" id="<?php echo esc_attr( $id . '_remove' ); ?>" name="<?php echo esc_attr( $name . '[remove]' ); ?>" value="1" />
+                                    <?php endif; ?>
+                                </td>
+                            </tr>
+                        <?php endforeach; ?>
+                    </tbody>
+                </table>
+                <h2><?php esc_html_e( 'Accessibility Statement', 'dswp' ); ?></h2>
+                <p><?php esc_html_e( 'A link to the site\'s accessibility statement, after the skip links. Leave the URL empty to hide it.', 'dswp' ); ?></p>
+                <table class="form-table" role="presentation">
+                    <tr>
+                        <th scope="row"><label for="<?php echo esc_attr( self::STATEMENT_URL_OPTION ); ?>"><?php esc_html_e( 'URL', 'dswp' ); ?></label></th>
+                        <td><input type="url" class="regular-text" id="<?php echo esc_attr( self::STATEMENT_URL_OPTION ); ?>" name="<?php echo esc_attr( self::STATEMENT_URL_OPTION ); ?>" value="<?php echo esc_attr( get_option( self::STATEMENT_URL_OPTION, self::ACCESSIBILITY_STATEMENT_URL ) ); ?>" /></td>
+                    </tr>
+                    <tr>
+                        <th scope="row"><label for="<?php echo esc_attr( self::STATEMENT_LABEL_OPTION ); ?>"><?php esc_html_e( 'Link Text', 'dswp' ); ?></label></th>
+                        <td><input type="text" class="regular-text" id="<?php echo esc_attr( self::STATEMENT_LABEL_OPTION ); ?>" name="<?php echo esc_attr( self::STATEMENT_LABEL_OPTION ); ?>" value="<?php echo esc_attr( get_option( self::STATEMENT_LABEL_OPTION, '' ) ); ?>" placeholder="<?php esc_attr_e( 'Accessibility Statement', 'dswp' ); ?>" /></td>
+                    </tr>
+                </table>
+                <?php submit_button( __( 'Save Settings', 'dswp' ) ); ?>
+            </form>
+        </div>
+        <?php
+    }
+
     /**
      * Outputs the HTML elements for skip navigation.
      *
      * @return void
      */
     public function add_skip_nav() {
-        echo '
-        <ul class="dswp-skip-nav-list">
-            <li aria-label="Skip to main content">
-                <a class="dswp-skip-nav" href="#main-content">Skip to main content</a>
-            </li>
-            <li aria-label="Skip to main navigation">
-                <a class="dswp-skip-nav" href="#main-navigation">Skip to main navigation</a>
-            </li>
-            <li aria-label="Accessibility Statement">
-                <a class="dswp-skip-nav" href="https://www2.gov.bc.ca/gov/content/home/accessible-government">Accessibility Statement</a>
-            </li>
-        </ul>        
-       ';
+        $links = $this->get_links();
+        if ( ! $links ) {
+            return;
+        }
+
+        echo '<ul class="dswp-skip-nav-list">';
+        foreach ( $links as $link ) {
+            printf(
+                '<li aria-label="%1$s"><a class="dswp-skip-nav" href="%2$s">%3$s</a></li>',
+                esc_attr( $link['label'] ),
+                esc_url( $link['href'] ),
+                esc_html( $link['label'] )
+            );
+        }
+        echo '</ul>';
+    }
+
+    /**
+     * Adds the main content ID to a <main> element or the post content in a block's HTML.
+     *
+     * @param string $html Block HTML.
+     * @return string Block HTML.
+     */
+    private function add_main_content_id( $html ) {
+        $processor = new \WP_HTML_Tag_Processor( $html );
+
+        if ( $processor->next_tag( 'MAIN' ) ) {
+            if ( '' !== $this->main_content_id ) {
+                // Move the ID from post content inside this <main> element.
+                $html = $this->remove_main_content_id( $html );
+                if ( '' !== $this->main_content_id ) {
+                    // The post content is elsewhere on the page or has its own ID, so keep it.
+                    return $html;
+                }
+
+                $processor = new \WP_HTML_Tag_Processor( $html );
+                $processor->next_tag( 'MAIN' );
+            }
+
+            $this->main_content_is_landmark = true;
+            return $this->set_main_content_id( $processor );
+        }
+
+        $processor = new \WP_HTML_Tag_Processor( $html );
+        if ( '' === $this->main_content_id && $processor->next_tag( [ 'class_name' => 'wp-block-post-content' ] ) ) {
+            return $this->set_main_content_id( $processor );
+        }
+
+        return $html;
+    }
+
+    /**
+     * Uses the element at the processor's current tag as the main content.
+     *
+     * @param \WP_HTML_Tag_Processor $processor Processor at the main content element.
+     * @return string Updated HTML.
+     */
+    private function set_main_content_id( $processor ) {
+        $id = $processor->get_attribute( 'id' );
+
+        if ( is_string( $id ) && '' !== trim( $id ) ) {
+            $this->main_content_id    = trim( $id );
+            $this->main_content_added = false;
+        } else {
+            $processor->set_attribute( 'id', self::MAIN_CONTENT_ID );
+            $this->main_content_id    = self::MAIN_CONTENT_ID;
+            $this->main_content_added = true;
+        }
+
+        return $processor->get_updated_html();
+    }
+
+    /**
+     * Removes the main content ID this class added, if it is in a block's HTML.
+     *
+     * @param string $html Block HTML.
+     * @return string Block HTML.
+     */
+    private function remove_main_content_id( $html ) {
+        if ( ! $this->main_content_added ) {
+            return $html;
+        }
+
+        $processor = new \WP_HTML_Tag_Processor( $html );
+        while ( $processor->next_tag() ) {
+            if ( self::MAIN_CONTENT_ID === $processor->get_attribute( 'id' ) ) {
+                $processor->remove_attribute( 'id' );
+
+                $this->main_content_id          = '';
+                $this->main_content_added       = false;
+                $this->main_content_is_landmark = false;
+                return $processor->get_updated_html();
+            }
+        }
+
+        return $html;
+    }
+
+    /**
+     * Marks the <nav> element in a navigation block's HTML.
+     *
+     * Every navigation block is marked, so skip-nav.ts can go to the one shown at the
+     * current screen size. The first also gets the main navigation ID, which the link
+     * goes to without JavaScript, unless it has its own ID, which the link goes to instead.
+     *
+     * @param string $html Block HTML.
+     * @return string Block HTML.
+     */
+    private function add_navigation_target( $html ) {
+        $processor = new \WP_HTML_Tag_Processor( $html );
+        if ( ! $processor->next_tag( 'NAV' ) ) {
+            return $html;
+        }
+
+        if ( '' === $this->main_navigation_id ) {
+            $id = $processor->get_attribute( 'id' );
+
+            if ( is_string( $id ) && '' !== trim( $id ) ) {
+                $this->main_navigation_id = trim( $id );
+            } else {
+                $processor->set_attribute( 'id', self::MAIN_NAVIGATION_ID );
+                $this->main_navigation_id = self::MAIN_NAVIGATION_ID;
+            }
+        }
+
+        $processor->set_attribute( 'data-dswp-skip-nav-target', true );
+
+        return $processor->get_updated_html();
+    }
+
+    /**
+     * Checks whether a block is a header or footer template part.
+     *
+     * @param array $block The block data.
+     * @return bool True for header and footer template parts.
+     */
+    private function is_non_main_template_part( $block ) {
+        if ( 'core/template-part' !== ( $block['blockName'] ?? '' ) ) {
+            return false;
+        }
+
+        foreach ( [ 'area', 'tagName', 'slug' ] as $attribute ) {
+            if ( in_array( $block['attrs'][ $attribute ] ?? '', self::NON_MAIN_AREAS, true ) ) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Sanitizes a target element ID, removing a leading "#".
+     *
+     * @param mixed $target Submitted ID.
+     * @return string ID.
+     */
+    private function sanitize_target( $target ) {
+        return preg_replace( '/[^A-Za-z0-9_:.-]/', '', ltrim( trim( (string) $target ), '#' ) );
     }
 }
@@ -0,0 +1,194 @@
+/**
+ * Content Security Policy Page Check
+ *
+ * Sends a page path and the unsaved sources on the Content Security Policy
+ * settings page to the evaluate endpoint, and lists the resources on the
+ * page with whether the policy would block them.
+ *
+ * @since 2.18.0
+ */
+
+import { onReady, query, queryAll } from '../utils';
+
+/**
+ * Messages for the results, from the `data-messages` attribute.
+ */
+interface Messages {
+	checking: string;
+	summary: string;
+	none: string;
+	allowed: string;
+	blocked: string;
+	inline: string;
+	error: string;
+}
+
+/**
+ * A resource found on the page, from Evaluator::evaluate().
+ */
+interface Resource {
+	type: string;
+	label: string;
+	directive: string;
+	url: string;
+	allowed: boolean;
+}
+
+/**
+ * Response from the evaluate endpoint.
+ */
+interface Evaluation {
+	url: string;
+	status: number;
+	policy: string;
+	blocked: number;
+	resources: Resource[];
+}
+
+/**
+ * Gets the unsaved sources for each directive from the source editors.
+ *
+ * @return Sources keyed by directive.
+ */
+function getDraftDirectives(): Record< string, string > {
+	const directives: Record< string, string > = {};
+	queryAll( document, '[data-dswp-csp-sources]' ).forEach( ( container ) => {
+		const value = query< HTMLInputElement >(
+			container,
+			'.dswp-csp-sources__value'
+		);
+		if ( container.dataset.directive && value ) {
+			directives[ container.dataset.directive ] = value.value;
+		}
+	} );
+	return directives;
+}
+
+/**
+ * Creates a results table row.
+ *
+ * @param resource Resource.
+ * @param messages Messages.
+ * @return Row.
+ */
+function createRow(
+	resource: Resource,
+	messages: Messages
+): HTMLTableRowElement {
+	const row = document.createElement( 'tr' );
+	row.className = resource.allowed
+		? 'dswp-csp-evaluator__allowed'
+		: 'dswp-csp-evaluator__blocked';
+
+	[
+		resource.allowed ? messages.allowed : messages.blocked,
+		resource.label,
+		resource.directive,
+		resource.url || messages.inline,
+	].forEach( ( text, index ) => {
+		const cell = document.createElement( 'td' );
+		if ( index === 3 ) {
+			const code = document.createElement( 'code' );
+			code.textContent = text;
+			cell.append( code );
+		} else {
+			cell.textContent = text;
+		}
+		row.append( cell );
+	} );
+	return row;
+}
+
+/**
+ * Sets up the page check.
+ *
+ * @param container The `[data-dswp-csp-evaluator]` element.
+ */
+function initEvaluator( container: HTMLElement ): void {
+	const path = query< HTMLInputElement >(
+		container,
+		'#dswp_csp_evaluate_path'
+	);
+	const button = query< HTMLButtonElement >(
+		container,
+		'.dswp-csp-evaluator__check'
+	);
+	const status = query( container, '.dswp-csp-evaluator__status' );
+	const table = query< HTMLTableElement >(
+		container,
+		'.dswp-csp-evaluator__results'
+	);
+	const body = table?.tBodies[ 0 ];
+	const { endpoint, nonce } = container.dataset;
+	if ( ! path || ! button || ! status || ! table || ! body || ! endpoint ) {
+		return;
+	}
+
+	let messages: Messages;
+	try {
+		messages = JSON.parse( container.dataset.messages ?? '' );
+	} catch {
+		return;
+	}
+
+	const showResults = ( evaluation: Evaluation ) => {
+		// Blocked resources first, as those need attention.
+		const resources = [ ...evaluation.resources ].sort(
+			( a, b ) => Number( a.allowed ) - Number( b.allowed )
+		);
+		body.replaceChildren(
+			...resources.map( ( resource ) => createRow( resource, messages ) )
+		);
+		table.hidden = ! resources.length;
+		status.textContent = resources.length
+			? messages.summary
+					.replace( '%1$s', String( evaluation.blocked ) )
+					.replace( '%2$s', String( resources.length ) )
+					.replace( '%3$s', evaluation.url )
+			: messages.none;
+	};
+
+	const check = async () => {
+		button.disabled = true;
+		status.textContent = messages.checking;
+		table.hidden = true;
+
+		try {
+			const response = await window.fetch( endpoint, {
+				method: 'POST',
+				credentials: 'same-origin',
+				headers: {
+					'Content-Type': 'application/json',
+					'X-WP-Nonce': nonce ?? '',
+				},
+				body: JSON.stringify( {
+					path: path.value,
+					directives: getDraftDirectives(),
+				} ),
+			} );
+			const data = await response.json();
+			if ( ! response.ok ) {
+				status.textContent = data?.message ?? messages.error;
+				return;
+			}
+			showResults( data as Evaluation );
+		} catch {
+			status.textContent = messages.error;
+		} finally {
+			button.disabled = false;
+		}
+	};
+
+	button.addEventListener( 'click', check );
+	path.addEventListener( 'keydown', ( event ) => {
+		// Check the page rather than submitting the settings form.
+		if ( event.key === 'Enter' ) {
+			event.preventDefault();
+			check();
+		}
+	} );
+}
+
+onReady( () => {
+	queryAll( document, '[data-dswp-csp-evaluator]' ).forEach( initEvaluator );
+} );
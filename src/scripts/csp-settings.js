@@ -0,0 +1,2 @@
+import './csp-sources';
+import './csp-evaluator';
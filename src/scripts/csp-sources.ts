@@ -0,0 +1,246 @@
+/**
+ * Content Security Policy Source Editor
+ *
+ * Replaces each directive's text input on the Content Security Policy
+ * settings page with a list of sources that can be added and removed one
+ * at a time. Each source is checked before it is added, and the text
+ * input is kept in sync so the form saves as before.
+ *
+ * @since 2.18.0
+ */
+
+import { onReady, query, queryAll } from '../utils';
+
+/**
+ * Messages for the editor, from the `data-messages` attribute.
+ * `%s` is replaced with the source.
+ */
+interface Messages {
+	invalid: string;
+	disallowed: string;
+	duplicate: string;
+	none: string;
+	added: string;
+	removed: string;
+}
+
+/**
+ * Keywords that can be added. Nonces and hashes are not included, as
+ * nonces change on every request and the saved value cannot hold hashes.
+ * Kept in sync with ContentSecurityPolicy::SOURCE_KEYWORDS, which the
+ * server checks saved sources against.
+ */
+const KEYWORDS = [
+	"'self'",
+	"'none'",
+	"'strict-dynamic'",
+	"'unsafe-hashes'",
+	"'report-sample'",
+	"'wasm-unsafe-eval'",
+];
+
+/**
+ * Keywords removed by ContentSecurityPolicy::validate_csp_input().
+ */
+const DISALLOWED = [ "'unsafe-inline'", "'unsafe-eval'" ];
+
+/**
+ * A scheme source, e.g. "data:" or "https:".
+ */
+const SCHEME_PATTERN = /^[a-z][a-z0-9.-]*:$/;
+
+/**
+ * A host source with optional scheme, wildcard subdomain, port and path,
+ * e.g. "https://*.example.com:8080/path". The same as
+ * ContentSecurityPolicy::HOST_PATTERN.
+ */
+const HOST_PATTERN =
+	/^(?:[a-z][a-z0-9.-]*:\/\/)?(?:\*|(?:\*\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)*)(?::(?:\d{1,5}|\*))?(?:\/[a-z0-9./-]*)?$/;
+
+/**
+ * Splits a space separated source list.
+ *
+ * @param value Source list.
+ * @return Sources.
+ */
+function splitSources( value: string | undefined ): string[] {
+	return ( value ?? '' ).split( /\s+/ ).filter( Boolean );
+}
+
+/**
+ * Checks a source before it is added.
+ *
+ * @param source   Lower case source to add.
+ * @param defaults Default sources, which are always included.
+ * @param added    Sources already added.
+ * @return The problem with the source, or null if it can be added.
+ */
+function validateSource(
+	source: string,
+	defaults: string[],
+	added: string[]
+): keyof Messages | null {
+	if ( DISALLOWED.includes( source ) ) {
+		return 'disallowed';
+	}
+	if (
+		! KEYWORDS.includes( source ) &&
+		! SCHEME_PATTERN.test( source ) &&
+		! HOST_PATTERN.test( source )
+	) {
+		return 'invalid';
+	}
+	if ( defaults.includes( source ) || added.includes( source ) ) {
+		return 'duplicate';
+	}
+	// A default 'none' is dropped once other sources are added, so only added sources are checked.
+	if (
+		( source === "'none'" && defaults.length + added.length > 0 ) ||
+		added.includes( "'none'" )
+	) {
+		return 'none';
+	}
+	return null;
+}
+
+/**
+ * Sets up the editor for one directive.
+ *
+ * @param container The `[data-dswp-csp-sources]` element.
+ */
+function initEditor( container: HTMLElement ): void {
+	const value = query< HTMLInputElement >(
+		container,
+		'.dswp-csp-sources__value'
+	);
+	const editor = query( container, '.dswp-csp-sources__editor' );
+	const list = query< HTMLUListElement >(
+		container,
+		'.dswp-csp-sources__list'
+	);
+	const input = query< HTMLInputElement >(
+		container,
+		'.dswp-csp-sources__new'
+	);
+	const addButton = query< HTMLButtonElement >(
+		container,
+		'.dswp-csp-sources__add'
+	);
+	const status = query( container, '.dswp-csp-sources__status' );
+	const template = query< HTMLTemplateElement >(
+		container,
+		'.dswp-csp-sources__template'
+	);
+	if (
+		! value ||
+		! editor ||
+		! list ||
+		! input ||
+		! addButton ||
+		! status ||
+		! template
+	) {
+		return;
+	}
+
+	let messages: Messages;
+	try {
+		messages = JSON.parse( container.dataset.messages ?? '' );
+	} catch {
+		return;
+	}
+
+	const defaults = splitSources( container.dataset.defaults );
+	// Defaults are always included, so only the added sources are saved.
+	let added = splitSources( value.value.toLowerCase() ).filter(
+		( source ) => ! defaults.includes( source )
+	);
+
+	const showStatus = ( message: string, source: string ) => {
+		status.textContent = message.replace( '%s', source );
+	};
+
+	const createChip = ( source: string, isDefault: boolean ) => {
+		const chip = template.content.firstElementChild?.cloneNode(
+			true
+		) as HTMLLIElement;
+		const code = query( chip, '.dswp-csp-sources__source' );
+		if ( code ) {
+			code.textContent = source;
+		}
+
+		const remove = query< HTMLButtonElement >(
+			chip,
+			'.dswp-csp-sources__remove'
+		);
+		if ( isDefault || ! remove ) {
+			remove?.remove();
+			return chip;
+		}
+
+		query( chip, '.dswp-csp-sources__default' )?.remove();
+		remove.setAttribute(
+			'aria-label',
+			( remove.dataset.label ?? '' ).replace( '%s', source )
+		);
+		remove.addEventListener( 'click', () => {
+			added = added.filter( ( item ) => item !== source );
+			update();
+			showStatus( messages.removed, source );
+			input.focus();
+		} );
+		return chip;
+	};
+
+	const update = () => {
+		value.value = added.join( ' ' );
+		list.replaceChildren(
+			...defaults
+				.filter( ( source ) => ! added.length || source !== "'none'" )
+				.map( ( source ) => createChip( source, true ) ),
+			...added.map( ( source ) => createChip( source, false ) )
+		);
+	};
+
+	const add = () => {
+		const sources = splitSources( input.value.toLowerCase() );
+		if ( ! sources.length ) {
+			return;
+		}
+
+		// Check every source first, so a pasted list is added all at once or not at all.
+		const pending = [ ...added ];
+		for ( const source of sources ) {
+			const problem = validateSource( source, defaults, pending );
+			if ( problem ) {
+				input.setAttribute( 'aria-invalid', 'true' );
+				showStatus( messages[ problem ], source );
+				return;
+			}
+			pending.push( source );
+		}
+
+		added = pending;
+		update();
+		input.value = '';
+		input.removeAttribute( 'aria-invalid' );
+		showStatus( messages.added, sources.join( ' ' ) );
+	};
+
+	addButton.addEventListener( 'click', add );
+	input.addEventListener( 'keydown', ( event ) => {
+		// Add the source rather than submitting the settings form.
+		if ( event.key === 'Enter' ) {
+			event.preventDefault();
+			add();
+		}
+	} );
+
+	update();
+	value.type = 'hidden';
+	editor.hidden = false;
+}
+
+onReady( () => {
+	queryAll( document, '[data-dswp-csp-sources]' ).forEach( initEditor );
+} );
@@ -1 +1,2 @@
-import './skip-nav.js';
+import './skip-nav';
+import './notification-banner';
@@ -0,0 +1,138 @@
+/**
+ * Notification Banner Frontend Script
+ *
+ * Adds the close button to dismissible banners. Dismissals are stored per
+ * banner version, so a banner is shown again once its content changes.
+ *
+ * Dismissed banners are normally hidden before they are painted by the inline
+ * script NotificationBanner::render_banner() prints after each banner; they
+ * are hidden here as well in case inline scripts are blocked.
+ *
+ * @since 2.18.0
+ */
+
+import { onReady, query, queryAll } from '../utils';
+
+/**
+ * localStorage key holding the dismissed version of each banner, by ID.
+ * Matches NotificationBanner::DISMISSED_STORAGE_KEY.
+ */
+const STORAGE_KEY = 'dswp-dismissed-notification-banners';
+
+/**
+ * Reads the dismissed banner versions.
+ *
+ * @return Dismissed versions keyed by banner ID.
+ */
+function getDismissed(): Record< string, string > {
+	try {
+		const value = JSON.parse(
+			window.localStorage.getItem( STORAGE_KEY ) ?? '{}'
+		);
+		return value && typeof value === 'object' ? value : {};
+	} catch {
+		// Storage is unavailable (e.g. blocked cookies) or holds invalid JSON.
+		return {};
+	}
+}
+
+/**
+ * Remembers that a banner version was dismissed.
+ *
+ * @param id      Banner ID.
+ * @param version Banner version.
+ */
+function saveDismissed( id: string, version: string ): void {
+	try {
+		window.localStorage.setItem(
+			STORAGE_KEY,
+			JSON.stringify( { ...getDismissed(), [ id ]: version } )
+		);
+	} catch {
+		// The banner still closes for this page view.
+	}
+}
+
+/**
+ * Announces a message to screen reader users through a polite live region.
+ *
+ * @param message Message to announce.
+ */
+function announce( message: string ): void {
+	const region =
+		document.getElementById( 'dswp-notification-banner-status' ) ??
+		document.body.appendChild( document.createElement( 'div' ) );
+	region.id = 'dswp-notification-banner-status';
+	region.className = 'dswp-notification-banner__status';
+	region.setAttribute( 'role', 'status' );
+
+	// Clear first so repeating the same message is announced again.
+	region.textContent = '';
+	window.setTimeout( () => {
+		region.textContent = message;
+	}, 100 );
+}
+
+/**
+ * Moves focus after a banner is closed, so keyboard users are not left on
+ * a removed element: to the next banner's close button, otherwise the
+ * main content.
+ *
+ * @param banner The closed banner.
+ */
+function moveFocus( banner: HTMLElement ): void {
+	const banners = queryAll( document, '.dswp-notification-banner' );
+	const next = banners
+		.slice( banners.indexOf( banner ) + 1 )
+		.filter( ( item ) => ! item.hidden )
+		.map( ( item ) =>
+			query< HTMLButtonElement >(
+				item,
+				'.dswp-notification-banner__dismiss'
+			)
+		)
+		.find( ( button ) => button !== null );
+	if ( next ) {
+		next.focus();
+		return;
+	}
+
+	const main =
+		document.getElementById( 'main-content' ) ??
+		document.querySelector< HTMLElement >( 'main' );
+	if ( main ) {
+		if ( ! main.hasAttribute( 'tabindex' ) ) {
+			main.setAttribute( 'tabindex', '-1' );
+		}
+		main.focus();
+	}
+}
+
+onReady( () => {
+	const dismissed = getDismissed();
+
+	queryAll( document, '.dswp-notification-banner.is-dismissible' ).forEach(
+		( banner ) => {
+			const version = banner.dataset.dswpBannerVersion ?? '';
+			if ( dismissed[ banner.id ] === version ) {
+				banner.hidden = true;
+				return;
+			}
+
+			const button = banner.querySelector< HTMLButtonElement >(
+				'.dswp-notification-banner__dismiss'
+			);
+			if ( ! button ) {
+				return;
+			}
+
+			button.hidden = false;
+			button.addEventListener( 'click', () => {
+				banner.hidden = true;
+				saveDismissed( banner.id, version );
+				announce( button.dataset.dismissedMessage ?? '' );
+				moveFocus( banner );
+			} );
+		}
+	);
+} );
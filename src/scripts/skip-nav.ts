@@ -0,0 +1,122 @@
+/**
+ * Skip Navigation Frontend Script
+ *
+ * Makes the "Skip to main navigation" link go to the navigation block shown
+ * at the current screen size, for both core/navigation and the plugin's
+ * Navigation block. When the block's menu toggle is visible it opens the
+ * menu, otherwise it focuses the first navigation link.
+ *
+ * Makes the "Skip to main content" link go to the page's <main> element or
+ * first heading when no main content was found while rendering blocks, e.g.
+ * in classic themes and custom templates.
+ */
+
+import { onReady, query, queryAll } from '../utils';
+
+/**
+ * Navigation blocks marked by SkipNavigation::modify_block_render().
+ */
+const NAVIGATION_SELECTOR = '[data-dswp-skip-nav-target]';
+
+/**
+ * The plugin Navigation block's menu toggle.
+ */
+const DSWP_TOGGLE_SELECTOR = '.dswp-nav-mobile-toggle-icon';
+
+/**
+ * Whether an element is displayed, including by its ancestors.
+ *
+ * @param element Element to check.
+ * @return True if displayed.
+ */
+function isDisplayed( element: HTMLElement ): boolean {
+	return element.getClientRects().length > 0;
+}
+
+/**
+ * Focuses the first link in a navigation block.
+ *
+ * @param nav Navigation block.
+ */
+function focusFirstItem( nav: HTMLElement ): void {
+	query( nav, '.wp-block-navigation-item__content' )?.focus();
+}
+
+/**
+ * Focuses an element that is not focusable by default.
+ *
+ * @param element Element to focus.
+ */
+function focusElement( element: HTMLElement ): void {
+	if ( ! element.hasAttribute( 'tabindex' ) ) {
+		element.setAttribute( 'tabindex', '-1' );
+	}
+	element.focus();
+}
+
+onReady( () => {
+	const mainContentLink = query< HTMLAnchorElement >(
+		document,
+		'a.dswp-skip-nav[href="#main-content"]'
+	);
+	mainContentLink?.addEventListener( 'click', ( event ) => {
+		if ( document.getElementById( 'main-content' ) ) {
+			return;
+		}
+
+		const fallback =
+			query( document, 'main, [role="main"]' ) ?? query( document, 'h1' );
+		if ( fallback ) {
+			event.preventDefault();
+			focusElement( fallback );
+		}
+	} );
+
+	// Select the skip navigation link. It goes to the first navigation block's own ID, if it has one.
+	const mainNavigationId =
+		query( document, NAVIGATION_SELECTOR )?.id || 'main-navigation';
+	const skipNavLink = queryAll< HTMLAnchorElement >(
+		document,
+		'a.dswp-skip-nav'
+	).find(
+		( link ) => link.getAttribute( 'href' ) === `#${ mainNavigationId }`
+	);
+	if ( ! skipNavLink ) {
+		return;
+	}
+
+	skipNavLink.addEventListener( 'click', ( event ) => {
+		// Pages can have several navigation blocks, e.g. one for desktop and one for mobile.
+		const navs = queryAll( document, NAVIGATION_SELECTOR );
+		const nav = navs.find( isDisplayed ) ?? navs[ 0 ];
+		if ( ! nav ) {
+			return;
+		}
+
+		// Prevent the default anchor behavior.
+		event.preventDefault();
+
+		const dswpToggle = query< HTMLButtonElement >(
+			nav,
+			`:scope > ${ DSWP_TOGGLE_SELECTOR }`
+		);
+		if ( dswpToggle && isDisplayed( dswpToggle ) ) {
+			// Open the overlay, unless it is already open, then go to its first link.
+			if ( dswpToggle.getAttribute( 'aria-expanded' ) !== 'true' ) {
+				dswpToggle.click();
+			}
+			focusFirstItem( nav );
+			return;
+		}
+
+		// core/navigation's toggle opens a dialog that manages focus itself.
+		const coreToggle = query< HTMLButtonElement >( nav, ':scope > button' );
+		if ( coreToggle && isDisplayed( coreToggle ) ) {
+			coreToggle.click();
+			return;
+		}
+
+		// Otherwise focus the first navigation link.
+		focusFirstItem( nav );
+	} );
+} );
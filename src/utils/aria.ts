@@ -0,0 +1,38 @@
+/**
+ * ARIA state helpers shared by the plugin's frontend scripts.
+ *
+ * @since 2.18.0
+ */
+
+/**
+ * Sets `aria-expanded` on an element if it exists.
+ *
+ * @param element  Element controlling the expandable region.
+ * @param expanded Whether the region is expanded.
+ */
+export function setExpanded(
+	element: Element | null | undefined,
+	expanded: boolean
+): void {
+	element?.setAttribute( 'aria-expanded', expanded ? 'true' : 'false' );
+}
+
+/**
+ * Reads `aria-expanded` from an element.
+ *
+ * @param element Element controlling the expandable region.
+ * @return True when the element reports an expanded state.
+ */
+export function isExpanded( element: Element | null | undefined ): boolean {
+	return element?.getAttribute( 'aria-expanded' ) === 'true';
+}
+
+/**
+ * Sets `aria-hidden` on an element.
+ *
+ * @param element Element to update.
+ * @param hidden  Whether the element is hidden from assistive technology.
+ */
+export function setHidden( element: Element | null, hidden: boolean ): void {
+	element?.setAttribute( 'aria-hidden', hidden ? 'true' : 'false' );
+}
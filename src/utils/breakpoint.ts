@@ -0,0 +1,36 @@
+/**
+ * Viewport breakpoint helpers shared by the plugin's frontend scripts.
+ *
+ * @since 2.18.0
+ */
+
+/**
+ * Breakpoint (in px) used when none is configured.
+ */
+export const DEFAULT_MOBILE_BREAKPOINT = 768;
+
+/**
+ * Parses a breakpoint from a dataset value or localized option.
+ *
+ * @param value    Raw breakpoint value.
+ * @param fallback Breakpoint to use when the value is missing or invalid.
+ * @return The breakpoint in pixels.
+ */
+export function parseBreakpoint(
+	value: string | number | undefined | null,
+	fallback: number = DEFAULT_MOBILE_BREAKPOINT
+): number {
+	const parsed =
+		typeof value === 'number' ? value : parseInt( value ?? '', 10 );
+	return Number.isFinite( parsed ) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Whether the viewport is at or below the given breakpoint.
+ *
+ * @param breakpoint Breakpoint in pixels.
+ * @return True when the viewport is considered mobile.
+ */
+export function isMobileViewport( breakpoint: number ): boolean {
+	return window.innerWidth <= breakpoint;
+}
@@ -0,0 +1,56 @@
+/**
+ * DOM helpers shared by the plugin's frontend scripts.
+ *
+ * @since 2.18.0
+ */
+
+/**
+ * Runs a callback once the DOM is ready, or immediately if it already is.
+ *
+ * @param callback Function to run when the document has been parsed.
+ */
+export function onReady( callback: () => void ): void {
+	if ( document.readyState === 'loading' ) {
+		document.addEventListener( 'DOMContentLoaded', callback );
+	} else {
+		callback();
+	}
+}
+
+/**
+ * Typed wrapper around querySelector.
+ *
+ * @param root     Element or document to search within.
+ * @param selector CSS selector to match.
+ * @return The first matching element, or null.
+ */
+export function query< T extends Element = HTMLElement >(
+	root: ParentNode,
+	selector: string
+): T | null {
+	return root.querySelector< T >( selector );
+}
+
+/**
+ * Typed wrapper around querySelectorAll that returns an array.
+ *
+ * @param root     Element or document to search within.
+ * @param selector CSS selector to match.
+ * @return All matching elements in document order.
+ */
+export function queryAll< T extends Element = HTMLElement >(
+	root: ParentNode,
+	selector: string
+): T[] {
+	return Array.from( root.querySelectorAll< T >( selector ) );
+}
+
+/**
+ * Reads a boolean stored in a `data-*` attribute as the string "true".
+ *
+ * @param value Raw dataset value.
+ * @return True only when the attribute is exactly "true".
+ */
+export function readBooleanData( value: string | undefined ): boolean {
+	return value === 'true';
+}
@@ -0,0 +1,13 @@
+/**
+ * Shared frontend utilities.
+ *
+ * Internal helpers for the plugin's view scripts (Navigation, Breadcrumb,
+ * In-Page Navigation and Skip Navigation). Import from this module rather
+ * than the individual files.
+ *
+ * @since 2.18.0
+ */
+
+export * from './dom';
+export * from './breakpoint';
+export * from './aria';
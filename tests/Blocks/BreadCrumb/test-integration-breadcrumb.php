@@ -489,6 +489,129 @@ class BreadCrumbTest extends \WP_UnitTestCase {
 		wp_delete_post( $grandparent_id, true );
 	}
 
+	/**
+	 * Test: BreadcrumbList structured data matches the visible breadcrumb
+	 *
+	 * What this tests:
+	 * - A JSON-LD script is output with the block
+	 * - Items are in the same order as the links, with 1-based positions
+	 * - Ancestors have URLs, and titles are decoded plain text
+	 */
+	public function test_structured_data_matches_hierarchy() {
+		// Create a parent and child page.
+		$parent_id = $this->factory->post->create(
+			array(
+				'post_type'  => 'page',
+				'post_title' => 'Parent & Page',
+				'post_name'  => 'parent-page',
+			)
+		);
+		$child_id  = $this->factory->post->create(
+			array(
+				'post_type'   => 'page',
+				'post_title'  => 'Child Page',
+				'post_name'   => 'child-page',
+				'post_parent' => $parent_id,
+			)
+		);
+
+		// Set main query to child page so breadcrumb shows the hierarchy.
+		$this->go_to( get_permalink( $child_id ) );
+
+		// Capture output.
+		ob_start();
+		$this->render_breadcrumb_block( array() );
+		$output = ob_get_clean();
+
+		$data = $this->get_structured_data( $output );
+
+		$this->assertSame( 'https://schema.org', $data['@context'] );
+		$this->assertSame( 'BreadcrumbList', $data['@type'] );
+		$this->assertSame( array( 1, 2, 3 ), array_column( $data['itemListElement'], 'position' ), 'Positions should start at 1' );
+		$this->assertSame( array( 'Home', 'Parent & Page', 'Child Page' ), array_column( $data['itemListElement'], 'name' ), 'Names should match the visible titles' );
+		$this->assertSame( home_url( '/' ), $data['itemListElement'][0]['item'], 'Home should link to the site' );
+		$this->assertSame( get_permalink( $parent_id ), $data['itemListElement'][1]['item'], 'Ancestors should have their URLs' );
+		$this->assertSame( 'ListItem', $data['itemListElement'][2]['@type'] );
+
+		// Clean up.
+		wp_delete_post( $child_id, true );
+		wp_delete_post( $parent_id, true );
+	}
+
+	/**
+	 * Test: Structured data can be turned off
+	 *
+	 * What this tests:
+	 * - No JSON-LD is output when the structuredData attribute is false
+	 * - The visible breadcrumb is unchanged
+	 */
+	public function test_structured_data_can_be_disabled() {
+		// Create a test page.
+		$page_id = $this->factory->post->create(
+			array(
+				'post_type'  => 'page',
+				'post_title' => 'Test Page',
+			)
+		);
+
+		// Set main query to this page so is_singular() and get_the_ID() are correct.
+		$this->go_to( get_permalink( $page_id ) );
+
+		// Capture output.
+		ob_start();
+		$this->render_breadcrumb_block( array( 'structuredData' => false ) );
+		$output = ob_get_clean();
+
+		$this->assertStringNotContainsString( 'application/ld+json', $output, 'Structured data should not be output when disabled' );
+		$this->assertStringContainsString( '<span class="current-page">', $output, 'The breadcrumb should still render' );
+
+		// Clean up.
+		wp_delete_post( $page_id, true );
+	}
+
+	/**
+	 * Test: Titles cannot end the structured data script
+	 *
+	 * What this tests:
+	 * - A title containing </script> is escaped inside the JSON-LD
+	 */
+	public function test_structured_data_is_escaped() {
+		// Create a page with a title that tries to close the script tag.
+		$page_id = $this->factory->post->create(
+			array(
+				'post_type'  => 'page',
+				'post_title' => 'Title</script><script>alert(1)</script>',
+			)
+		);
+
+		// Set main query to this page so is_singular() and get_the_ID() are correct.
+		$this->go_to( get_permalink( $page_id ) );
+
+		// Capture output.
+		ob_start();
+		$this->render_breadcrumb_block( array() );
+		$output = ob_get_clean();
+
+		$this->assertStringNotContainsString( '<script>alert(1)', $output, 'Titles should not break out of the script' );
+		$this->assertIsArray( $this->get_structured_data( $output ), 'The structured data should still be valid JSON' );
+
+		// Clean up.
+		wp_delete_post( $page_id, true );
+	}
+
+	/**
+	 * Helper method to decode the JSON-LD in the block output
+	 *
+	 * @param string $output Block output.
+	 * @return array|null Decoded structured data.
+	 */
+	private function get_structured_data( $output ) {
+		$this->assertMatchesRegularExpression( '#<script type="application/ld\+json">(.*?)</script>#s', $output, 'Structured data should be output' );
+		preg_match( '#<script type="application/ld\+json">(.*?)</script>#s', $output, $matches );
+
+		return json_decode( $matches[1], true );
+	}
+
 	/**
 	 * Helper method to render the breadcrumb block
 	 *
@@ -0,0 +1,97 @@
+<?php
+/**
+ * Notification Banner Block Integration Tests
+ *
+ * Tests for the notification banner block to ensure:
+ * - It is registered from the build directory
+ * - It renders the same markup as the site-wide banner
+ * - Content and colors are sanitized
+ * - Empty banners are not rendered
+ *
+ * @package DesignSystemWordPressPlugin
+ * @subpackage Tests
+ */
+
+namespace DesignSystemWordPressPlugin\Tests\Blocks\NotificationBanner;
+
+/**
+ * Notification Banner Block Test Class
+ *
+ * @package DesignSystemWordPressPlugin\Tests\Blocks\NotificationBanner
+ */
+class NotificationBannerBlockTest extends \WP_UnitTestCase {
+
+	/**
+	 * Test: Block is registered from the build directory
+	 */
+	public function test_block_is_registered() {
+		$this->assertTrue( \WP_Block_Type_Registry::get_instance()->is_registered( 'design-system-wordpress-plugin/notification-banner' ), 'The block should be registered from Blocks/build' );
+	}
+
+	/**
+	 * Test: Block renders the shared banner markup
+	 *
+	 * What this tests:
+	 * - Banner is a labelled region with the severity class for its color
+	 * - Rich text formatting is kept
+	 * - The banner ID comes from the bannerId attribute
+	 * - Dismissible banners include the close button and version
+	 */
+	public function test_block_renders_shared_banner_markup() {
+		$output = $this->render_notification_banner_block(
+			array(
+				'message'     => '<strong>Road closed</strong> until Friday',
+				'color'       => 'var(--dswp-icons-color-danger)',
+				'dismissible' => true,
+				'bannerId'    => 'abc123',
+			)
+		);
+
+		$this->assertStringContainsString( 'id="dswp-notification-banner-block-abc123"', $output, 'Banner should use the bannerId attribute' );
+		$this->assertStringContainsString( 'dswp-notification-banner--danger is-dismissible', $output, 'Banner should have the severity and dismissible classes' );
+		$this->assertStringContainsString( 'role="region" aria-label="Important notification"', $output, 'Banner should be a labelled region' );
+		$this->assertStringContainsString( '<strong>Road closed</strong> until Friday', $output, 'Rich text should be kept' );
+		$this->assertStringContainsString( 'data-dswp-banner-version=', $output, 'Dismissible banner should include its version' );
+		$this->assertStringContainsString( 'dswp-notification-banner__dismiss', $output, 'Dismissible banner should include the close button' );
+	}
+
+	/**
+	 * Test: Block content and attributes are sanitized
+	 *
+	 * What this tests:
+	 * - Script tags are stripped from the message
+	 * - Unknown colors fall back to the warning severity
+	 * - Empty messages render nothing
+	 */
+	public function test_block_content_is_sanitized() {
+		$output = $this->render_notification_banner_block(
+			array(
+				'message' => '<script>alert("XSS")</script>Safe content',
+				'color'   => 'red" onmouseover="alert(1)',
+			)
+		);
+
+		$this->assertStringNotContainsString( '<script>', $output, 'Script tags should be stripped' );
+		$this->assertStringNotContainsString( 'onmouseover', $output, 'Invalid colors should not be output' );
+		$this->assertStringContainsString( 'dswp-notification-banner--warning', $output, 'Invalid colors should fall back to warning' );
+		$this->assertStringContainsString( 'Safe content', $output, 'Safe content should be kept' );
+
+		$this->assertStringNotContainsString( 'dswp-notification-banner', $this->render_notification_banner_block( array( 'message' => '  ' ) ), 'Empty banners should not render' );
+	}
+
+	/**
+	 * Render the notification banner block template.
+	 *
+	 * @param array $attributes Block attributes.
+	 * @return string Rendered output.
+	 */
+	private function render_notification_banner_block( $attributes = array() ) {
+		// Blocks are registered from the build directory, so test what ships.
+		$render_path = dirname( __DIR__, 3 ) . '/Blocks/build/NotificationBanner/render.php';
+
+		ob_start();
+		// The render template expects $attributes to be in scope.
+		include $render_path;
+		return ob_get_clean();
+	}
+}
@@ -57,6 +57,12 @@ class ContentSecurityPolicyHeaderTest extends \WP_UnitTestCase {
             [ 'font-src' ],
             [ 'media-src' ],
             [ 'frame-src' ],
+            [ "worker-src 'self' blob:" ],
+            [ 'child-src' ],
+            [ "object-src 'none'" ],
+            [ "manifest-src 'self'" ],
+            [ "base-uri 'self'" ],
+            [ "form-action 'self'" ],
             [ 'upgrade-insecure-requests' ],
             [ "frame-ancestors 'self'" ],
         ];
@@ -114,6 +120,71 @@ class ContentSecurityPolicyHeaderTest extends \WP_UnitTestCase {
         $this->assertStringContainsString( 'gov.bc.ca', $csp, 'Defaults should still be present' );
     }
 
+    /**
+     * Test: Invalid sources saved before validation are left out of the policy.
+     */
+    public function test_invalid_saved_sources_ignored() {
+        update_option( 'dswp_csp_script_src', "scripts.example.com 'data:' sub-domain/path:8080" );
+
+        $headers = $this->csp->add_csp_header( [] );
+
+        $this->assertMatchesRegularExpression( '/script-src [^;]*scripts\.example\.com;/', $headers['Content-Security-Policy'] );
+        $this->assertStringNotContainsString( "'data:'", $headers['Content-Security-Policy'] );
+        $this->assertStringNotContainsString( 'sub-domain/path:8080', $headers['Content-Security-Policy'] );
+    }
+
+    /**
+     * Test: Frame-ancestors is configurable and sources are not repeated.
+     */
+    public function test_frame_ancestors_configurable_without_duplicates() {
+        update_option( 'dswp_csp_frame_ancestors', "'self' intranet.gov.bc.ca" );
+
+        $headers = $this->csp->add_csp_header( [] );
+
+        $this->assertStringContainsString( "frame-ancestors 'self' intranet.gov.bc.ca;", $headers['Content-Security-Policy'] );
+        $this->assertEquals( 1, substr_count( $headers['Content-Security-Policy'], 'frame-ancestors' ), 'Frame-ancestors should only be sent once' );
+    }
+
+    /**
+     * Test: Saved frame-ancestors sources replace the default, so framing can be blocked.
+     */
+    public function test_frame_ancestors_can_be_tightened() {
+        update_option( 'dswp_csp_frame_ancestors', "'none'" );
+        $headers = $this->csp->add_csp_header( [] );
+        $this->assertStringContainsString( "frame-ancestors 'none';", $headers['Content-Security-Policy'] );
+
+        update_option( 'dswp_csp_frame_ancestors', 'intranet.gov.bc.ca' );
+        $headers = $this->csp->add_csp_header( [] );
+        $this->assertStringContainsString( 'frame-ancestors intranet.gov.bc.ca;', $headers['Content-Security-Policy'], "'self' should not be added back" );
+
+        update_option( 'dswp_csp_frame_ancestors', '' );
+        $headers = $this->csp->add_csp_header( [] );
+        $this->assertStringContainsString( "frame-ancestors 'self';", $headers['Content-Security-Policy'], 'The default should be used when nothing is saved' );
+    }
+
+    /**
+     * Test: upgrade-insecure-requests can be turned off.
+     */
+    public function test_upgrade_insecure_requests_can_be_turned_off() {
+        update_option( 'dswp_csp_upgrade_insecure_requests', '0' );
+
+        $headers = $this->csp->add_csp_header( [] );
+
+        $this->assertStringNotContainsString( 'upgrade-insecure-requests', $headers['Content-Security-Policy'] );
+    }
+
+    /**
+     * Test: 'none' is dropped once other sources are allowed.
+     */
+    public function test_none_dropped_when_sources_added() {
+        update_option( 'dswp_csp_object_src', 'media.example.com' );
+
+        $headers = $this->csp->add_csp_header( [] );
+
+        $this->assertStringContainsString( 'object-src media.example.com;', $headers['Content-Security-Policy'] );
+        $this->assertEquals( [ "'none'" ], $this->csp->get_sources( " 'none'  'none' " ), "'none' should be kept on its own" );
+    }
+
     /**
      * Test: CSP directives are properly formatted.
      */
@@ -148,6 +219,7 @@ class ContentSecurityPolicyHeaderTest extends \WP_UnitTestCase {
         foreach ( ContentSecurityPolicy::CSP_SETTINGS as $setting ) {
             delete_option( 'dswp_csp_' . $setting['option'] );
         }
+        delete_option( 'dswp_csp_upgrade_insecure_requests' );
         parent::tear_down();
     }
 }
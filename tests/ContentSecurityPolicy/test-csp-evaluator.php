@@ -0,0 +1,268 @@
+<?php
+/**
+ * Tests for checking a page against the unsaved CSP.
+ *
+ * @package DesignSystemWordPressPlugin\Tests\ContentSecurityPolicy
+ */
+
+namespace DesignSystemWordPressPlugin\Tests\ContentSecurityPolicy;
+
+use Bcgov\DesignSystemPlugin\ContentSecurityPolicy;
+use Bcgov\DesignSystemPlugin\ContentSecurityPolicy\Evaluator;
+use Bcgov\DesignSystemPlugin\ContentSecurityPolicy\Nonces;
+
+/**
+ * Tests for the Evaluator class.
+ */
+class ContentSecurityPolicyEvaluatorTest extends \WP_UnitTestCase {
+
+    /**
+     * Page returned for fetches during the test.
+     *
+     * @var string
+     */
+    const PAGE = '<html><head>'
+        . '<link rel="stylesheet" href="/wp-content/themes/theme/style.css" />'
+        . '<link rel="preload" as="font" href="https://fonts.example.com/font.woff2" />'
+        . '<script src="https://cdn.example.com/lib.js"></script>'
+        . '<script>var inline = true;</script>'
+        . '<script type="application/ld+json">{}</script>'
+        . '</head><body>'
+        . '<img src="uploads/photo.jpg" srcset="https://images.example.com/a.jpg 1x, https://images.example.com/b.jpg 2x" />'
+        . '<img src="uploads/photo.jpg" />'
+        . '<iframe src="https://app.powerbi.com/view"></iframe>'
+        . '<iframe src="https://www.youtube.com/embed/x"></iframe>'
+        . '<form action="https://forms.example.com/submit"></form>'
+        . '</body></html>';
+
+    /**
+     * Instance of ContentSecurityPolicy for testing.
+     *
+     * @var ContentSecurityPolicy
+     */
+    private $csp;
+
+    /**
+     * Instance of Evaluator for testing.
+     *
+     * @var Evaluator
+     */
+    private $evaluator;
+
+    /**
+     * Set up the test fixture.
+     *
+     * @return void
+     */
+    public function set_up() {
+        parent::set_up();
+        $this->csp       = new ContentSecurityPolicy();
+        $this->evaluator = $this->csp->get_evaluator();
+    }
+
+    /**
+     * Data provider for source matching.
+     *
+     * @return array
+     */
+    public static function source_provider() {
+        return [
+            [ 'https://cdn.example.com/a.js', [ 'cdn.example.com' ], true, 'Hosts should match' ],
+            [ 'https://a.gov.bc.ca/x.png', [ '*.gov.bc.ca' ], true, 'Wildcards should match subdomains' ],
+            [ 'https://gov.bc.ca/x.png', [ '*.gov.bc.ca' ], false, 'Wildcards should not match the domain itself' ],
+            [ 'https://cdn.example.com:8443/a.js', [ 'cdn.example.com' ], false, 'Other ports should need a port in the source' ],
+            [ 'https://cdn.example.com:8443/a.js', [ 'cdn.example.com:*' ], true, 'Wildcard ports should match any port' ],
+            [ 'https://cdn.example.com/lib/a.js', [ 'cdn.example.com/lib/' ], true, 'Paths ending in a slash should match as a prefix' ],
+            [ 'https://cdn.example.com/other/a.js', [ 'cdn.example.com/lib/' ], false, 'Other paths should not match' ],
+            [ 'https://cdn.example.com/a.js', [ 'https:' ], true, 'Schemes should match' ],
+            [ 'data:image/png;base64,AA', [ '*' ], false, 'The wildcard should not match data: URLs' ],
+            [ 'data:image/png;base64,AA', [ 'data:' ], true, 'data: should match data: URLs' ],
+            [ 'http://example.org/wp-content/a.js', [ "'self'" ], true, "'self' should match the site" ],
+            [ 'https://other.example.com/a.js', [ "'self'" ], false, "'self' should not match other hosts" ],
+            [ 'https://cdn.example.com/a.js', [ "'none'" ], false, "'none' should match nothing" ],
+            [ 'https://cdn.example.com/a.js', [ "'unsafe-inline'" ], false, 'Inline keywords should not allow URLs' ],
+        ];
+    }
+
+    /**
+     * Test: URLs are matched against sources like browsers do.
+     *
+     * @dataProvider source_provider
+     *
+     * @param string   $url      URL.
+     * @param string[] $sources  Sources.
+     * @param bool     $expected Whether the URL should be allowed.
+     * @param string   $message  The assertion message.
+     */
+    public function test_urls_match_sources( $url, $sources, $expected, $message ) {
+        $this->assertSame( $expected, $this->evaluator->is_allowed( $url, $sources ), $message );
+    }
+
+    /**
+     * Test: Resources are found in the page and resolved against its URL.
+     */
+    public function test_extracts_resources() {
+        $resources = $this->evaluator->extract_resources( self::PAGE, 'https://example.org/about/' );
+        $found     = array_map(
+            function ( $resource ) {
+                return $resource['directive'] . ' ' . ( $resource['url'] ? $resource['url'] : $resource['type'] );
+            },
+            $resources
+        );
+
+        $this->assertContains( 'style-src https://example.org/wp-content/themes/theme/style.css', $found, 'Root-relative URLs should be resolved' );
+        $this->assertContains( 'font-src https://fonts.example.com/font.woff2', $found );
+        $this->assertContains( 'script-src https://cdn.example.com/lib.js', $found );
+        $this->assertContains( 'script-src inline-script', $found );
+        $this->assertContains( 'img-src https://example.org/about/uploads/photo.jpg', $found, 'Relative URLs should be resolved against the page' );
+        $this->assertContains( 'img-src https://images.example.com/b.jpg', $found, 'Every srcset candidate should be found' );
+        $this->assertContains( 'frame-src https://app.powerbi.com/view', $found );
+        $this->assertContains( 'form-action https://forms.example.com/submit', $found );
+        $this->assertCount( 1, array_keys( $found, 'script-src inline-script', true ), 'JSON scripts should not be treated as inline scripts' );
+        $this->assertCount( 1, array_keys( $found, 'img-src https://example.org/about/uploads/photo.jpg', true ), 'Repeated resources should be listed once' );
+    }
+
+    /**
+     * Test: Inline code is blocked when nonces are on and the tag has no nonce.
+     */
+    public function test_inline_code_needs_a_nonce_when_nonces_are_on() {
+        $directives = $this->csp->get_directives();
+        $html       = '<script>one();</script><script nonce="abc">two();</script>';
+
+        $results = $this->evaluator->evaluate( $html, home_url( '/' ), $directives );
+        $this->assertTrue( $results[0]['allowed'], "'unsafe-inline' should allow inline scripts without nonces" );
+
+        update_option( Nonces::OPTION, 'nonce' );
+        $results = $this->evaluator->evaluate( $html, home_url( '/' ), $directives );
+        $this->assertFalse( $results[0]['allowed'], "Browsers ignore 'unsafe-inline' when a nonce is sent" );
+        $this->assertTrue( $results[1]['allowed'], 'Scripts with the nonce should be allowed' );
+    }
+
+    /**
+     * Test: The endpoint checks the fetched page against the unsaved sources.
+     */
+    public function test_endpoint_uses_unsaved_sources() {
+        global $wp_rest_server;
+        $wp_rest_server = new \WP_REST_Server();
+        $this->csp->init();
+        do_action( 'rest_api_init', $wp_rest_server );
+        wp_set_current_user( self::factory()->user->create( [ 'role' => 'administrator' ] ) );
+
+        $fetched = '';
+        $fetch   = [];
+        add_filter(
+            'pre_http_request',
+            function ( $response, $args, $url ) use ( &$fetched, &$fetch ) {
+                $fetched = $url;
+                $fetch   = $args;
+                return [
+                    'headers'  => [],
+                    'body'     => self::PAGE,
+                    'response' => [
+                        'code'    => 200,
+                        'message' => 'OK',
+                    ],
+                    'cookies'  => [],
+                ];
+            },
+            10,
+            3
+        );
+
+        $request = new \WP_REST_Request( 'POST', '/dswp/v1/csp-evaluate' );
+        $request->set_param( 'path', 'about/' );
+        $request->set_param( 'directives', [ 'frame-src' => 'app.powerbi.com' ] );
+        $data = rest_do_request( $request )->get_data();
+
+        $this->assertEquals( home_url( '/about/' ), $fetched );
+        $this->assertTrue( $fetch['reject_unsafe_urls'], 'The page should be fetched with wp_safe_remote_get()' );
+        $this->assertSame( 0, $fetch['redirection'], 'Redirects should not be followed' );
+        $this->assertStringContainsString( 'app.powerbi.com', $data['policy'], 'The unsaved sources should be in the policy' );
+
+        $frames = array_column( wp_list_filter( $data['resources'], [ 'directive' => 'frame-src' ] ), 'allowed', 'url' );
+        $this->assertTrue( $frames['https://app.powerbi.com/view'], 'Unsaved sources should allow resources' );
+        $this->assertTrue( $frames['https://www.youtube.com/embed/x'] );
+        $this->assertSame( count( wp_list_filter( $data['resources'], [ 'allowed' => false ] ) ), $data['blocked'] );
+
+        $wp_rest_server = null;
+    }
+
+    /**
+     * Test: A page that redirects is not checked.
+     */
+    public function test_endpoint_reports_redirects() {
+        global $wp_rest_server;
+        $wp_rest_server = new \WP_REST_Server();
+        $this->csp->init();
+        do_action( 'rest_api_init', $wp_rest_server );
+        wp_set_current_user( self::factory()->user->create( [ 'role' => 'administrator' ] ) );
+
+        add_filter(
+            'pre_http_request',
+            function () {
+                return [
+                    'headers'  => [ 'location' => 'http://169.254.169.254/latest/meta-data/' ],
+                    'body'     => '',
+                    'response' => [
+                        'code'    => 302,
+                        'message' => 'Found',
+                    ],
+                    'cookies'  => [],
+                ];
+            }
+        );
+
+        $request = new \WP_REST_Request( 'POST', '/dswp/v1/csp-evaluate' );
+        $request->set_param( 'path', 'old-page/' );
+        $response = rest_do_request( $request );
+
+        $this->assertEquals( 400, $response->get_status() );
+        $this->assertEquals( 'dswp_csp_redirected', $response->get_data()['code'] );
+        $this->assertStringContainsString( 'http://169.254.169.254/latest/meta-data/', $response->get_data()['message'] );
+
+        $wp_rest_server = null;
+    }
+
+    /**
+     * Test: Only users who can manage the policy can check pages.
+     */
+    public function test_endpoint_requires_manage_options() {
+        global $wp_rest_server;
+        $wp_rest_server = new \WP_REST_Server();
+        $this->csp->init();
+        do_action( 'rest_api_init', $wp_rest_server );
+        wp_set_current_user( self::factory()->user->create( [ 'role' => 'editor' ] ) );
+
+        $request = new \WP_REST_Request( 'POST', '/dswp/v1/csp-evaluate' );
+        $request->set_param( 'path', '/' );
+
+        $this->assertEquals( 403, rest_do_request( $request )->get_status() );
+
+        $wp_rest_server = null;
+    }
+
+    /**
+     * Test: The settings page has the page check.
+     */
+    public function test_renders_page_check() {
+        ob_start();
+        $this->evaluator->render_field();
+        $output = ob_get_clean();
+
+        $this->assertStringContainsString( 'data-dswp-csp-evaluator', $output );
+        $this->assertStringContainsString( 'dswp/v1/csp-evaluate', $output );
+        $this->assertStringNotContainsString( 'name="', $output, 'The page check fields should not be saved with the form' );
+    }
+
+    /**
+     * Clean up after each test.
+     *
+     * @return void
+     */
+    public function tear_down() {
+        delete_option( Nonces::OPTION );
+        remove_all_filters( 'pre_http_request' );
+        wp_set_current_user( 0 );
+        parent::tear_down();
+    }
+}
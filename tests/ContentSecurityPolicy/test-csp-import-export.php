@@ -0,0 +1,192 @@
+<?php
+/**
+ * Tests for CSP export, import and presets.
+ *
+ * @package DesignSystemWordPressPlugin\Tests\ContentSecurityPolicy
+ */
+
+namespace DesignSystemWordPressPlugin\Tests\ContentSecurityPolicy;
+
+use Bcgov\DesignSystemPlugin\ContentSecurityPolicy;
+use Bcgov\DesignSystemPlugin\ContentSecurityPolicy\ImportExport;
+use Bcgov\DesignSystemPlugin\ContentSecurityPolicy\Nonces;
+use Bcgov\DesignSystemPlugin\ContentSecurityPolicy\Overrides;
+use Bcgov\DesignSystemPlugin\ContentSecurityPolicy\Presets;
+use Bcgov\DesignSystemPlugin\ContentSecurityPolicy\SecurityHeaders;
+
+/**
+ * Tests for the ImportExport and Presets classes.
+ */
+class ContentSecurityPolicyImportExportTest extends \WP_UnitTestCase {
+
+    /**
+     * Instance of ContentSecurityPolicy for testing.
+     *
+     * @var ContentSecurityPolicy
+     */
+    private $csp;
+
+    /**
+     * Set up the test fixture.
+     *
+     * @return void
+     */
+    public function set_up() {
+        parent::set_up();
+        $this->csp = new ContentSecurityPolicy();
+    }
+
+    /**
+     * Test: The export holds the saved settings, and imports on another site unchanged.
+     */
+    public function test_export_round_trips_through_import() {
+        update_option( 'dswp_csp_frame_src', 'app.powerbi.com' );
+        update_option( 'dswp_csp_mode', 'both' );
+        update_option( 'dswp_csp_upgrade_insecure_requests', '0' );
+        update_option( Nonces::OPTION, 'nonce' );
+        update_option(
+            Overrides::RULES_OPTION,
+            [
+                [
+                    'pattern'   => '/reports/*',
+                    'directive' => 'img-src',
+                    'sources'   => 'img.example.com',
+                ],
+            ]
+        );
+        update_option( 'dswp_security_referrer_policy', 'same-origin' );
+
+        $export = $this->csp->get_import_export()->export_policy();
+
+        $this->assertEquals( ImportExport::VERSION, $export['version'] );
+        $this->assertEquals( 'app.powerbi.com', $export['directives']['frame-src'] );
+        $this->assertEquals( '', $export['directives']['img-src'], 'Defaults should not be exported' );
+        $this->assertEquals( 'both', $export['mode'] );
+        $this->assertEquals( '0', $export['upgrade_insecure_requests'] );
+        $this->assertEquals( 'same-origin', $export['security_headers']['referrer_policy'] );
+
+        // Clear the settings, as on a new site.
+        $this->tear_down_options();
+
+        $result = $this->csp->get_import_export()->import_policy( json_decode( wp_json_encode( $export ), true ) );
+
+        $this->assertTrue( $result );
+        $this->assertEquals( $export, $this->csp->get_import_export()->export_policy() );
+    }
+
+    /**
+     * Test: Imported values are validated like the settings page.
+     */
+    public function test_import_validates_values() {
+        $result = $this->csp->get_import_export()->import_policy(
+            [
+                'version'          => 1,
+                'directives'       => [
+                    'script-src' => "cdn.example.com 'unsafe-eval'",
+                    'sandbox'    => 'allow-scripts',
+                ],
+                'mode'             => 'disabled',
+                'security_headers' => [
+                    'hsts_max_age' => '999999999',
+                    'coop'         => [ 'same-origin' ],
+                ],
+            ]
+        );
+
+        $this->assertTrue( $result );
+        $this->assertEquals( 'cdn.example.com', get_option( 'dswp_csp_script_src' ), 'Disallowed keywords should be removed' );
+        $this->assertFalse( get_option( 'dswp_csp_sandbox' ), 'Unknown directives should be ignored' );
+        $this->assertEquals( 'enforce', get_option( 'dswp_csp_mode' ) );
+        $this->assertEquals( SecurityHeaders::MAX_HSTS_AGE, get_option( 'dswp_security_hsts_max_age' ) );
+        $this->assertFalse( get_option( 'dswp_security_coop' ), 'Invalid values should be ignored' );
+        $this->assertFalse( get_option( Nonces::OPTION ), 'Missing sections should be left unchanged' );
+    }
+
+    /**
+     * Data provider for files that are not exports.
+     *
+     * @return array
+     */
+    public static function invalid_import_provider() {
+        return [
+            [ null, 'dswp_csp_import_invalid' ],
+            [ 'default-src self', 'dswp_csp_import_invalid' ],
+            [ [ 'directives' => [] ], 'dswp_csp_import_invalid' ],
+            [ [ 'version' => ImportExport::VERSION + 1 ], 'dswp_csp_import_version' ],
+        ];
+    }
+
+    /**
+     * Test: Files that are not exports are rejected.
+     *
+     * @dataProvider invalid_import_provider
+     *
+     * @param mixed  $data Decoded file.
+     * @param string $code Expected error code.
+     */
+    public function test_invalid_imports_are_rejected( $data, $code ) {
+        $result = $this->csp->get_import_export()->import_policy( $data );
+
+        $this->assertWPError( $result );
+        $this->assertEquals( $code, $result->get_error_code() );
+    }
+
+    /**
+     * Test: Presets add their sources without removing or repeating existing ones.
+     */
+    public function test_preset_adds_sources() {
+        update_option( 'dswp_csp_frame_src', 'forms.gov.bc.ca app.powerbi.com' );
+
+        $this->assertTrue( $this->csp->get_presets()->apply( 'power-bi' ) );
+        $this->assertTrue( $this->csp->get_presets()->apply( 'youtube' ) );
+        $this->assertFalse( $this->csp->get_presets()->apply( 'not-a-preset' ) );
+
+        $this->assertEquals( 'forms.gov.bc.ca app.powerbi.com www.youtube.com www.youtube-nocookie.com', get_option( 'dswp_csp_frame_src' ) );
+        $this->assertEquals( 'app.powerbi.com www.youtube.com www.youtube-nocookie.com', get_option( 'dswp_csp_child_src' ) );
+        $this->assertEquals( 'i.ytimg.com', get_option( 'dswp_csp_img_src' ) );
+
+        $headers = $this->csp->add_csp_header( [] );
+        $this->assertMatchesRegularExpression( '/img-src [^;]*i\.ytimg\.com;/', $headers['Content-Security-Policy'] );
+    }
+
+    /**
+     * Test: Every preset source passes validation and targets a known directive.
+     */
+    public function test_presets_are_valid() {
+        foreach ( Presets::PRESETS as $preset => $directives ) {
+            $this->assertArrayHasKey( $preset, $this->csp->get_presets()->get_labels() );
+            foreach ( $directives as $directive => $sources ) {
+                $this->assertArrayHasKey( $directive, ContentSecurityPolicy::CSP_SETTINGS );
+                $this->assertEquals( $sources, $this->csp->validate_csp_input( $sources ) );
+            }
+        }
+    }
+
+    /**
+     * Deletes the options the tests change.
+     *
+     * @return void
+     */
+    private function tear_down_options() {
+        foreach ( ContentSecurityPolicy::CSP_SETTINGS as $setting ) {
+            delete_option( 'dswp_csp_' . $setting['option'] );
+        }
+        foreach ( array_keys( SecurityHeaders::DEFAULTS ) as $name ) {
+            delete_option( SecurityHeaders::OPTION_PREFIX . $name );
+        }
+        delete_option( 'dswp_csp_mode' );
+        delete_option( 'dswp_csp_upgrade_insecure_requests' );
+        delete_option( Nonces::OPTION );
+        delete_option( Overrides::RULES_OPTION );
+    }
+
+    /**
+     * Tear down the test fixture.
+     *
+     * @return void
+     */
+    public function tear_down() {
+        $this->tear_down_options();
+        parent::tear_down();
+    }
+}
@@ -0,0 +1,116 @@
+<?php
+/**
+ * Tests for CSP script and style nonces.
+ *
+ * @package DesignSystemWordPressPlugin\Tests\ContentSecurityPolicy
+ */
+
+namespace DesignSystemWordPressPlugin\Tests\ContentSecurityPolicy;
+
+use Bcgov\DesignSystemPlugin\ContentSecurityPolicy;
+use Bcgov\DesignSystemPlugin\ContentSecurityPolicy\Nonces;
+
+/**
+ * Tests for the Nonces class.
+ */
+class ContentSecurityPolicyNoncesTest extends \WP_UnitTestCase {
+
+    /**
+     * Instance of ContentSecurityPolicy for testing.
+     *
+     * @var ContentSecurityPolicy
+     */
+    private $csp;
+
+    /**
+     * Set up the test fixture.
+     *
+     * @return void
+     */
+    public function set_up() {
+        parent::set_up();
+        $this->csp = new ContentSecurityPolicy();
+        $this->csp->get_nonces()->init();
+    }
+
+    /**
+     * Test: Nonces are off by default, leaving the policy and tags unchanged.
+     */
+    public function test_nonces_are_off_by_default() {
+        $headers = $this->csp->add_csp_header( [] );
+
+        $this->assertStringNotContainsString( "'nonce-", $headers['Content-Security-Policy'] );
+        $this->assertStringNotContainsString( 'nonce=', wp_get_script_tag( [ 'src' => 'https://example.gov.bc.ca/app.js' ] ) );
+    }
+
+    /**
+     * Test: The same nonce is in the policy and in script tags.
+     */
+    public function test_nonce_is_added_to_policy_and_script_tags() {
+        update_option( Nonces::OPTION, 'nonce' );
+
+        $nonce   = $this->csp->get_nonces()->get_nonce();
+        $headers = $this->csp->add_csp_header( [] );
+        $csp     = $headers['Content-Security-Policy'];
+
+        $this->assertMatchesRegularExpression( '/^[A-Za-z0-9+\/]{22}==$/', $nonce, 'Nonce should be 16 random bytes, base64 encoded' );
+        $this->assertMatchesRegularExpression( "/script-src [^;]*'nonce-" . preg_quote( $nonce, '/' ) . "'/", $csp );
+        $this->assertMatchesRegularExpression( "/style-src [^;]*'nonce-" . preg_quote( $nonce, '/' ) . "'/", $csp );
+        $this->assertStringContainsString( "style-src-attr 'unsafe-inline';", $csp, 'Style attributes should still be allowed' );
+        $this->assertStringNotContainsString( "'strict-dynamic'", $csp );
+
+        $this->assertStringContainsString( 'nonce="' . $nonce . '"', wp_get_script_tag( [ 'src' => 'https://example.gov.bc.ca/app.js' ] ) );
+        $this->assertStringContainsString( 'nonce="' . $nonce . '"', wp_get_inline_script_tag( 'var dswpInPageNav = {};' ) );
+    }
+
+    /**
+     * Test: strict-dynamic is only added to script-src.
+     */
+    public function test_strict_dynamic_is_added_to_script_src() {
+        update_option( Nonces::OPTION, 'strict-dynamic' );
+
+        $headers = $this->csp->add_csp_header( [] );
+
+        $this->assertMatchesRegularExpression( "/script-src [^;]*'nonce-[^']+' 'strict-dynamic';/", $headers['Content-Security-Policy'] );
+        $this->assertMatchesRegularExpression( "/style-src [^;]*'nonce-[^']+';/", $headers['Content-Security-Policy'] );
+        $this->assertEquals( 'off', $this->csp->get_nonces()->sanitize_mode( 'unsafe-inline' ), 'Invalid modes should fall back to off' );
+    }
+
+    /**
+     * Test: Enqueued stylesheets and inline styles in wp_head get the nonce.
+     */
+    public function test_nonce_is_added_to_style_tags() {
+        update_option( Nonces::OPTION, 'nonce' );
+        $nonce = $this->csp->get_nonces()->get_nonce();
+
+        wp_enqueue_style( 'dswp-test-style', 'https://example.gov.bc.ca/style.css', [], '1.0' );
+        wp_add_inline_style( 'dswp-test-style', 'body { color: black; }' );
+        add_action(
+            'wp_head',
+            function () {
+                echo '<style id="dswp-test-printed">p { color: red; }</style><style nonce="existing">a {}</style>';
+            }
+        );
+
+        ob_start();
+        do_action( 'wp_head' );
+        $output = ob_get_clean();
+
+        $this->assertMatchesRegularExpression( '/<link[^>]+nonce="' . preg_quote( $nonce, '/' ) . '"[^>]+dswp-test-style-css|<link[^>]+dswp-test-style-css[^>]+nonce="' . preg_quote( $nonce, '/' ) . '"/', $output );
+        $this->assertMatchesRegularExpression( '/<style[^>]+nonce="' . preg_quote( $nonce, '/' ) . '"[^>]*>\s*body/', $output, 'Inline styles should get the nonce' );
+        $this->assertStringContainsString( 'nonce="' . $nonce . '" id="dswp-test-printed"', $output, 'Printed styles should get the nonce' );
+        $this->assertStringContainsString( '<style nonce="existing">', $output, 'Existing nonces should be kept' );
+    }
+
+    /**
+     * Tear down the test fixture.
+     *
+     * @return void
+     */
+    public function tear_down() {
+        delete_option( Nonces::OPTION );
+        wp_dequeue_style( 'dswp-test-style' );
+        wp_deregister_style( 'dswp-test-style' );
+        parent::tear_down();
+    }
+}
@@ -0,0 +1,106 @@
+<?php
+/**
+ * Tests for the Content Security Policy settings group.
+ *
+ * @package DesignSystemWordPressPlugin\Tests\ContentSecurityPolicy
+ */
+
+namespace DesignSystemWordPressPlugin\Tests\ContentSecurityPolicy;
+
+use Bcgov\DesignSystemPlugin\ContentSecurityPolicy;
+use Bcgov\DesignSystemPlugin\ContentSecurityPolicy\Nonces;
+use Bcgov\DesignSystemPlugin\ContentSecurityPolicy\Overrides;
+use Bcgov\DesignSystemPlugin\ContentSecurityPolicy\SecurityHeaders;
+use Bcgov\DesignSystemPlugin\NotificationBanner;
+
+/**
+ * Tests that saving other settings pages leaves the CSP settings alone.
+ */
+class ContentSecurityPolicyOptionGroupTest extends \WP_UnitTestCase {
+
+    /**
+     * Instance of ContentSecurityPolicy for testing.
+     *
+     * @var ContentSecurityPolicy
+     */
+    private $csp;
+
+    /**
+     * Set up the test fixture.
+     *
+     * @return void
+     */
+    public function set_up() {
+        parent::set_up();
+        $this->csp = new ContentSecurityPolicy();
+        $this->csp->register_settings();
+        ( new NotificationBanner() )->register_settings();
+    }
+
+    /**
+     * Save a settings group the way options.php does: options missing from the form are saved as null.
+     *
+     * @param string $group     Settings group.
+     * @param array  $submitted Submitted option values.
+     * @return void
+     */
+    private function save_group( $group, $submitted = [] ) {
+        global $new_allowed_options;
+
+        foreach ( array_unique( $new_allowed_options[ $group ] ) as $option ) {
+            update_option( $option, $submitted[ $option ] ?? null );
+        }
+    }
+
+    /**
+     * Test: The CSP settings are registered in their own group.
+     */
+    public function test_settings_are_in_csp_group() {
+        global $new_allowed_options;
+
+        $options = [
+            ContentSecurityPolicy::OPTION_PREFIX . 'script_src',
+            ContentSecurityPolicy::OPTION_PREFIX . 'mode',
+            Nonces::OPTION,
+            SecurityHeaders::OPTION_PREFIX . 'hsts_max_age',
+            Overrides::RULES_OPTION,
+        ];
+
+        foreach ( $options as $option ) {
+            $this->assertContains( $option, $new_allowed_options[ ContentSecurityPolicy::OPTION_GROUP ], $option . ' should be in the CSP group' );
+            $this->assertNotContains( $option, $new_allowed_options['dswp_options_group'], $option . ' should not be in the shared group' );
+        }
+    }
+
+    /**
+     * Test: Saving the notification banner page keeps the CSP settings.
+     */
+    public function test_saving_banner_page_keeps_csp_settings() {
+        $rules = [
+            [
+                'pattern'   => '/reports/*',
+                'directive' => 'script-src',
+                'sources'   => 'https://example.com',
+            ],
+        ];
+        $saved = [
+            ContentSecurityPolicy::OPTION_PREFIX . 'script_src'   => 'https://example.com',
+            ContentSecurityPolicy::OPTION_PREFIX . 'mode'         => 'report-only',
+            Nonces::OPTION                                        => 'strict-dynamic',
+            SecurityHeaders::OPTION_PREFIX . 'hsts_max_age'       => 300,
+            SecurityHeaders::OPTION_PREFIX . 'nosniff'            => 1,
+            SecurityHeaders::OPTION_PREFIX . 'permissions_policy' => 'camera=()',
+            Overrides::RULES_OPTION                               => $rules,
+        ];
+        foreach ( $saved as $option => $value ) {
+            update_option( $option, $value );
+        }
+
+        $this->save_group( 'dswp_options_group', [ 'dswp_notification_banner_notification' => 'Road closed' ] );
+
+        $this->assertSame( 'Road closed', get_option( 'dswp_notification_banner_notification' ), 'The banner should be saved' );
+        foreach ( $saved as $option => $value ) {
+            $this->assertEquals( $value, get_option( $option ), $option . ' should not change' );
+        }
+    }
+}
@@ -0,0 +1,209 @@
+<?php
+/**
+ * Tests for per-post and per-path CSP additions.
+ *
+ * @package DesignSystemWordPressPlugin\Tests\ContentSecurityPolicy
+ */
+
+namespace DesignSystemWordPressPlugin\Tests\ContentSecurityPolicy;
+
+use Bcgov\DesignSystemPlugin\ContentSecurityPolicy;
+use Bcgov\DesignSystemPlugin\ContentSecurityPolicy\Overrides;
+
+/**
+ * Tests for the Overrides class.
+ */
+class ContentSecurityPolicyOverridesTest extends \WP_UnitTestCase {
+
+    /**
+     * Instance of ContentSecurityPolicy for testing.
+     *
+     * @var ContentSecurityPolicy
+     */
+    private $csp;
+
+    /**
+     * Instance of Overrides for testing.
+     *
+     * @var Overrides
+     */
+    private $overrides;
+
+    /**
+     * REQUEST_URI before the test, restored afterwards.
+     *
+     * @var string|null
+     */
+    private $request_uri;
+
+    /**
+     * Set up the test fixture.
+     *
+     * @return void
+     */
+    public function set_up() {
+        parent::set_up();
+        $this->csp       = new ContentSecurityPolicy();
+        $this->overrides = $this->csp->get_overrides();
+        $this->overrides->register_meta();
+        $this->request_uri = $_SERVER['REQUEST_URI'] ?? null;
+    }
+
+    /**
+     * Data provider for path matching.
+     *
+     * @return array
+     */
+    public static function path_provider() {
+        return [
+            [ '/reports/*', '/reports/annual/', true, 'Wildcards should match sub-pages' ],
+            [ '/reports/*', '/reports/', false, 'Wildcards should need characters after the slash' ],
+            [ '/reports/*', '/news/reports/', false, 'Patterns should match from the start' ],
+            [ '/about', '/about/', true, 'Trailing slashes should be ignored' ],
+            [ '/about/', '/about', true, 'Trailing slashes should be ignored in patterns' ],
+            [ '/about', '/about-us/', false, 'Patterns without wildcards should match exactly' ],
+            [ '/', '/', true, 'The front page should match /' ],
+        ];
+    }
+
+    /**
+     * Test: Rule patterns match request paths.
+     *
+     * @dataProvider path_provider
+     *
+     * @param string $pattern  Rule pattern.
+     * @param string $path     Request path.
+     * @param bool   $expected Whether the path should match.
+     * @param string $message  The assertion message.
+     */
+    public function test_patterns_match_paths( $pattern, $path, $expected, $message ) {
+        $this->assertSame( $expected, $this->overrides->matches_path( $pattern, $path ), $message );
+    }
+
+    /**
+     * Test: Page rules are sanitized, dropping incomplete and removed rules.
+     */
+    public function test_rules_are_sanitized() {
+        $rules = $this->overrides->sanitize_rules(
+            [
+                [
+                    'pattern'   => 'reports/<b>*',
+                    'directive' => 'frame-src',
+                    'sources'   => "app.powerbi.com 'unsafe-inline'",
+                ],
+                [
+                    'pattern'   => '/news/*',
+                    'directive' => 'not-a-directive',
+                    'sources'   => 'example.com',
+                ],
+                [
+                    'pattern'   => '',
+                    'directive' => 'frame-src',
+                    'sources'   => '',
+                ],
+                [
+                    'pattern'   => '/old/*',
+                    'directive' => 'img-src',
+                    'sources'   => 'old.example.com',
+                    'remove'    => '1',
+                ],
+            ]
+        );
+
+        $this->assertEquals(
+            [
+                [
+                    'pattern'   => '/reports/b*',
+                    'directive' => 'frame-src',
+                    'sources'   => 'app.powerbi.com',
+                ],
+            ],
+            $rules
+        );
+    }
+
+    /**
+     * Test: Post additions only keep known directives with valid sources.
+     */
+    public function test_additions_are_sanitized() {
+        $this->assertEquals(
+            [ 'frame-src' => 'app.powerbi.com' ],
+            $this->overrides->sanitize_additions(
+                [
+                    'frame-src'  => 'app.powerbi.com',
+                    'script-src' => "'unsafe-eval'",
+                    'sandbox'    => 'allow-scripts',
+                    'img-src'    => [ 'example.com' ],
+                ]
+            )
+        );
+    }
+
+    /**
+     * Test: Matching rules and post additions are combined, and only apply where they match.
+     */
+    public function test_additions_combine_rules_and_post_meta() {
+        $post_id = self::factory()->post->create();
+        update_post_meta( $post_id, Overrides::META_KEY, [ 'frame-src' => 'forms.gov.bc.ca' ] );
+        update_option(
+            Overrides::RULES_OPTION,
+            [
+                [
+                    'pattern'   => '/reports/*',
+                    'directive' => 'frame-src',
+                    'sources'   => 'app.powerbi.com',
+                ],
+                [
+                    'pattern'   => '/maps/*',
+                    'directive' => 'img-src',
+                    'sources'   => 'maps.example.com',
+                ],
+            ]
+        );
+
+        $this->assertEquals( [ 'frame-src' => 'app.powerbi.com forms.gov.bc.ca' ], $this->overrides->get_additions( '/reports/annual/', $post_id ) );
+        $this->assertEquals( [], $this->overrides->get_additions( '/news/', 0 ), 'Nothing should be added elsewhere' );
+    }
+
+    /**
+     * Test: The header includes the additions for the requested post only.
+     */
+    public function test_header_includes_additions_for_requested_post() {
+        $post_id = self::factory()->post->create();
+        update_post_meta( $post_id, Overrides::META_KEY, [ 'frame-src' => 'app.powerbi.com' ] );
+
+        $_SERVER['REQUEST_URI'] = wp_make_link_relative( get_permalink( $post_id ) );
+        $headers                = $this->csp->add_csp_header( [] );
+        $this->assertMatchesRegularExpression( '/frame-src [^;]*app\.powerbi\.com;/', $headers['Content-Security-Policy'] );
+
+        $_SERVER['REQUEST_URI'] = '/';
+        $headers                = $this->csp->add_csp_header( [] );
+        $this->assertStringNotContainsString( 'app.powerbi.com', $headers['Content-Security-Policy'] );
+    }
+
+    /**
+     * Test: Only users who can manage the policy can change post additions.
+     */
+    public function test_additions_meta_requires_capability() {
+        $post_id = self::factory()->post->create();
+
+        wp_set_current_user( self::factory()->user->create( [ 'role' => 'editor' ] ) );
+        $this->assertFalse( current_user_can( 'edit_post_meta', $post_id, Overrides::META_KEY ), 'Editors should not change additions' );
+
+        wp_set_current_user( self::factory()->user->create( [ 'role' => 'administrator' ] ) );
+        $this->assertTrue( current_user_can( 'edit_post_meta', $post_id, Overrides::META_KEY ), 'Administrators should change additions' );
+    }
+
+    /**
+     * Tear down the test fixture.
+     *
+     * @return void
+     */
+    public function tear_down() {
+        delete_option( Overrides::RULES_OPTION );
+        $_SERVER['REQUEST_URI'] = $this->request_uri;
+        unregister_post_meta( '', Overrides::META_KEY );
+        $GLOBALS['wp_settings_errors'] = array();
+        parent::tear_down();
+    }
+}
@@ -0,0 +1,261 @@
+<?php
+/**
+ * Tests for CSP modes and violation reports.
+ *
+ * @package DesignSystemWordPressPlugin\Tests\ContentSecurityPolicy
+ */
+
+namespace DesignSystemWordPressPlugin\Tests\ContentSecurityPolicy;
+
+use Bcgov\DesignSystemPlugin\ContentSecurityPolicy;
+use Bcgov\DesignSystemPlugin\ContentSecurityPolicy\Reports;
+
+/**
+ * Tests for the policy mode and the Reports class.
+ */
+class ContentSecurityPolicyReportsTest extends \WP_UnitTestCase {
+
+    /**
+     * Instance of ContentSecurityPolicy for testing.
+     *
+     * @var ContentSecurityPolicy
+     */
+    private $csp;
+
+    /**
+     * Set up the test fixture.
+     *
+     * @return void
+     */
+    public function set_up() {
+        parent::set_up();
+        $this->csp = new ContentSecurityPolicy();
+    }
+
+    /**
+     * Test: Enforce mode sends only the enforcing header, without reporting.
+     */
+    public function test_enforce_mode_is_the_default() {
+        $headers = $this->csp->add_csp_header( [] );
+
+        $this->assertArrayHasKey( 'Content-Security-Policy', $headers );
+        $this->assertArrayNotHasKey( 'Content-Security-Policy-Report-Only', $headers );
+        $this->assertArrayNotHasKey( 'Reporting-Endpoints', $headers );
+        $this->assertStringNotContainsString( 'report-uri', $headers['Content-Security-Policy'] );
+    }
+
+    /**
+     * Test: Report-only mode sends the report-only header pointing at the report endpoint.
+     */
+    public function test_report_only_mode_sends_report_only_header() {
+        update_option( 'dswp_csp_mode', 'report-only' );
+
+        $headers  = $this->csp->add_csp_header( [] );
+        $endpoint = rest_url( 'dswp/v1/csp-report' );
+
+        $this->assertArrayNotHasKey( 'Content-Security-Policy', $headers );
+        $this->assertStringContainsString( 'report-uri ' . $endpoint . ';', $headers['Content-Security-Policy-Report-Only'] );
+        $this->assertStringContainsString( 'report-to ' . ContentSecurityPolicy::REPORT_GROUP . ';', $headers['Content-Security-Policy-Report-Only'] );
+        $this->assertStringNotContainsString( 'upgrade-insecure-requests', $headers['Content-Security-Policy-Report-Only'] );
+        $this->assertEquals( ContentSecurityPolicy::REPORT_GROUP . '="' . $endpoint . '"', $headers['Reporting-Endpoints'] );
+    }
+
+    /**
+     * Test: Both mode enforces the policy and reports violations.
+     */
+    public function test_both_mode_enforces_and_reports() {
+        update_option( 'dswp_csp_mode', 'both' );
+
+        $headers = $this->csp->add_csp_header( [] );
+
+        $this->assertArrayNotHasKey( 'Content-Security-Policy-Report-Only', $headers );
+        $this->assertStringContainsString( 'report-uri', $headers['Content-Security-Policy'] );
+        $this->assertStringContainsString( 'upgrade-insecure-requests', $headers['Content-Security-Policy'] );
+        $this->assertEquals( 'enforce', $this->csp->sanitize_mode( 'block-everything' ), 'Invalid modes should fall back to enforce' );
+    }
+
+    /**
+     * Test: Reports from report-uri and report-to are both parsed.
+     */
+    public function test_reports_from_both_mechanisms_are_parsed() {
+        $reports = new Reports();
+
+        $this->assertEquals(
+            [
+                [
+                    'directive' => 'script-src-elem',
+                    'blocked'   => 'https://cdn.example.com/app.js',
+                    'document'  => 'https://example.gov.bc.ca/page/',
+                ],
+            ],
+            $reports->parse_reports(
+                [
+                    'csp-report' => [
+                        'document-uri'        => 'https://example.gov.bc.ca/page/',
+                        'violated-directive'  => 'script-src-elem',
+                        'effective-directive' => 'script-src-elem',
+                        'blocked-uri'         => 'https://cdn.example.com/app.js',
+                    ],
+                ]
+            )
+        );
+
+        $parsed = $reports->parse_reports(
+            [
+                [
+                    'type' => 'csp-violation',
+                    'body' => [
+                        'documentURL'        => 'https://example.gov.bc.ca/',
+                        'effectiveDirective' => 'img-src',
+                        'blockedURL'         => 'https://images.example.com/a.png',
+                    ],
+                ],
+                [
+                    'type' => 'deprecation',
+                    'body' => [],
+                ],
+            ]
+        );
+        $this->assertCount( 1, $parsed, 'Only CSP violations should be parsed' );
+        $this->assertEquals( 'img-src', $parsed[0]['directive'] );
+
+        $this->assertSame( [], $reports->parse_reports( 'not json' ) );
+    }
+
+    /**
+     * Test: Violations are aggregated by directive and blocked origin.
+     */
+    public function test_violations_are_aggregated_by_directive_and_origin() {
+        $reports = new Reports();
+
+        $reports->record_violation( 'script-src-elem', 'https://cdn.example.com/a.js', 'https://example.gov.bc.ca/one/' );
+        $reports->record_violation( 'script-src-elem', 'https://cdn.example.com/b.js?v=2', 'https://example.gov.bc.ca/two/' );
+        $reports->record_violation( "script-src 'self' gov.bc.ca", 'inline', 'https://example.gov.bc.ca/' );
+        $reports->record_violation( 'img-src', 'data:image/png;base64,AAAA', 'https://example.gov.bc.ca/' );
+        $reports->record_violation( '<script>', 'https://evil.example.com/', 'https://example.gov.bc.ca/' );
+
+        $violations = $reports->get_violations();
+
+        $this->assertCount( 3, $violations, 'Invalid directives should be ignored' );
+        $this->assertEquals( 2, $violations['script-src-elem https://cdn.example.com']['count'] );
+        $this->assertEquals( 'https://example.gov.bc.ca/two/', $violations['script-src-elem https://cdn.example.com']['document'] );
+        $this->assertArrayHasKey( 'script-src inline', $violations, 'Only the directive name should be kept' );
+        $this->assertArrayHasKey( 'img-src data:', $violations, 'Schemes should be kept without their data' );
+    }
+
+    /**
+     * Test: The report endpoint accepts reports without authentication.
+     */
+    public function test_report_endpoint_records_violations() {
+        global $wp_rest_server;
+        $wp_rest_server = new \WP_REST_Server();
+        $this->csp->init();
+        do_action( 'rest_api_init', $wp_rest_server );
+
+        $request = new \WP_REST_Request( 'POST', '/dswp/v1/csp-report' );
+        $request->set_header( 'Content-Type', 'application/csp-report' );
+        $request->set_body(
+            wp_json_encode(
+                [
+                    'csp-report' => [
+                        'document-uri'        => 'https://example.gov.bc.ca/',
+                        'effective-directive' => 'frame-src',
+                        'blocked-uri'         => 'https://app.powerbi.com/view',
+                    ],
+                ]
+            )
+        );
+        $response = rest_do_request( $request );
+
+        $this->assertEquals( 204, $response->get_status() );
+        $this->assertArrayHasKey( 'frame-src https://app.powerbi.com', $this->csp->get_reports()->get_violations() );
+
+        $wp_rest_server = null;
+    }
+
+    /**
+     * Test: Once full, a new violation replaces the least recently reported one.
+     */
+    public function test_new_violations_replace_least_recent_when_full() {
+        $violations = [];
+        for ( $i = 0; $i < Reports::MAX_VIOLATIONS; $i++ ) {
+            $violations[ 'img-src https://' . $i . '.example.com' ] = [
+                'directive'  => 'img-src',
+                'origin'     => 'https://' . $i . '.example.com',
+                'count'      => 1,
+                'first_seen' => 1000,
+                'last_seen'  => 0 === $i ? 2000 : 1000 + $i,
+                'document'   => 'https://example.gov.bc.ca/',
+            ];
+        }
+        update_option( Reports::OPTION, $violations, false );
+
+        $reports = new Reports();
+        $reports->record_violation( 'frame-src', 'https://app.powerbi.com/view', 'https://example.gov.bc.ca/' );
+
+        $violations = $reports->get_violations();
+        $this->assertCount( Reports::MAX_VIOLATIONS, $violations );
+        $this->assertArrayHasKey( 'frame-src https://app.powerbi.com', $violations, 'The new violation should be recorded' );
+        $this->assertArrayNotHasKey( 'img-src https://1.example.com', $violations, 'The least recently reported violation should be dropped' );
+        $this->assertArrayHasKey( 'img-src https://0.example.com', $violations, 'Recently reported violations should be kept' );
+    }
+
+    /**
+     * Test: Report requests over the rate limit are dropped.
+     */
+    public function test_report_requests_are_rate_limited() {
+        $_SERVER['REMOTE_ADDR'] = '192.0.2.1';
+        $reports                = new Reports();
+
+        $request = new \WP_REST_Request( 'POST', '/dswp/v1/csp-report' );
+        $request->set_body( '[]' );
+        for ( $i = 0; $i < Reports::RATE_LIMIT; $i++ ) {
+            $this->assertEquals( 204, $reports->receive_reports( $request )->get_status() );
+        }
+
+        $request->set_body(
+            wp_json_encode(
+                [
+                    'csp-report' => [
+                        'document-uri'        => 'https://example.gov.bc.ca/',
+                        'effective-directive' => 'frame-src',
+                        'blocked-uri'         => 'https://app.powerbi.com/view',
+                    ],
+                ]
+            )
+        );
+        $this->assertEquals( 429, $reports->receive_reports( $request )->get_status() );
+        $this->assertSame( [], $reports->get_violations(), 'Dropped reports should not be recorded' );
+
+        $_SERVER['REMOTE_ADDR'] = '192.0.2.2';
+        $this->assertEquals( 204, $reports->receive_reports( $request )->get_status(), 'Other senders should not be limited' );
+    }
+
+    /**
+     * Test: The CSP Violations page lists violations.
+     */
+    public function test_violations_page_lists_violations() {
+        $reports = new Reports();
+        $reports->record_violation( 'font-src', 'https://fonts.example.com/a.woff2', 'https://example.gov.bc.ca/' );
+
+        ob_start();
+        $reports->render_violations_page();
+        $output = ob_get_clean();
+
+        $this->assertStringContainsString( '<code>font-src</code>', $output );
+        $this->assertStringContainsString( '<code>https://fonts.example.com</code>', $output );
+        $this->assertStringContainsString( 'dswp_clear_csp_violations', $output, 'Clear button should render' );
+    }
+
+    /**
+     * Tear down the test fixture.
+     *
+     * @return void
+     */
+    public function tear_down() {
+        delete_option( 'dswp_csp_mode' );
+        delete_option( Reports::OPTION );
+        unset( $_SERVER['REMOTE_ADDR'] );
+        parent::tear_down();
+    }
+}
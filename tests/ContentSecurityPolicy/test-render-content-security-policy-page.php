@@ -91,7 +91,7 @@ class ContentSecurityPolicyRenderPageTest extends \WP_UnitTestCase {
      * Ensure the settings error output is rendered when present.
      */
     public function test_render_outputs_settings_errors() {
-        add_settings_error( 'dswp_options_group', 'test_csp_error', 'CSP error message', 'error' );
+        add_settings_error( ContentSecurityPolicy::OPTION_GROUP, 'test_csp_error', 'CSP error message', 'error' );
 
         ob_start();
         $this->csp->render_content_security_policy_page();
@@ -109,7 +109,57 @@ class ContentSecurityPolicyRenderPageTest extends \WP_UnitTestCase {
         $output = ob_get_clean();
 
         $this->assertStringContainsString( "name='option_page'", $output, 'Option page field should render' );
-        $this->assertStringContainsString( "value='dswp_options_group'", $output, 'Option page should target dswp_options_group' );
+        $this->assertStringContainsString( "value='dswp_csp_options_group'", $output, 'Option page should target dswp_csp_options_group' );
+    }
+
+    /**
+     * Ensure each directive renders the source editor with its defaults, hidden until the script sets it up.
+     */
+    public function test_render_outputs_source_editor() {
+        ob_start();
+        $this->csp->render_content_security_policy_page();
+        $output = ob_get_clean();
+
+        $this->assertEquals( count( ContentSecurityPolicy::CSP_SETTINGS ), substr_count( $output, 'data-dswp-csp-sources' ), 'Each directive should have an editor' );
+        $this->assertStringContainsString( 'data-defaults="' . esc_attr( "'self' blob:" ) . '"', $output, 'Default sources should render' );
+        $this->assertStringContainsString( '<div class="dswp-csp-sources__editor" hidden>', $output, 'Editor should be hidden without JavaScript' );
+        $this->assertStringContainsString( 'for="dswp_csp_frame_ancestors_new"', $output, 'New source inputs should be labelled' );
+        $this->assertMatchesRegularExpression( '/data-directive="frame-ancestors"\s+data-defaults=""/', $output, 'Frame-ancestors defaults should be removable' );
+    }
+
+    /**
+     * Ensure the upgrade-insecure-requests checkbox renders, checked by default.
+     */
+    public function test_render_outputs_upgrade_field() {
+        ob_start();
+        $this->csp->render_content_security_policy_page();
+        $output = ob_get_clean();
+
+        $this->assertMatchesRegularExpression( '/name="dswp_csp_upgrade_insecure_requests" value="1"\s+checked=\'checked\'/', $output, 'Checkbox should be checked by default' );
+
+        update_option( 'dswp_csp_upgrade_insecure_requests', '0' );
+
+        ob_start();
+        $this->csp->render_content_security_policy_page();
+        $output = ob_get_clean();
+
+        $this->assertDoesNotMatchRegularExpression( '/name="dswp_csp_upgrade_insecure_requests" value="1"\s+checked/', $output, 'Checkbox should be unchecked once turned off' );
+    }
+
+    /**
+     * Ensure the settings page script is only enqueued on the settings page.
+     */
+    public function test_settings_script_is_enqueued_only_on_settings_page() {
+        wp_set_current_user( self::factory()->user->create( [ 'role' => 'administrator' ] ) );
+        $this->csp->add_menu();
+
+        $this->csp->enqueue_settings_assets( 'index.php' );
+        $this->assertFalse( wp_script_is( 'dswp-csp-settings', 'enqueued' ), 'Script should not be enqueued on other admin pages' );
+
+        $this->csp->enqueue_settings_assets( get_plugin_page_hookname( 'dswp-content-security-policy-menu', 'dswp-admin-menu' ) );
+        if ( file_exists( dirname( __DIR__, 2 ) . '/dist/csp-settings.js' ) ) {
+            $this->assertTrue( wp_script_is( 'dswp-csp-settings', 'enqueued' ), 'Script should be enqueued on the settings page' );
+        }
     }
 
     /**
@@ -121,6 +171,9 @@ class ContentSecurityPolicyRenderPageTest extends \WP_UnitTestCase {
         foreach ( ContentSecurityPolicy::CSP_SETTINGS as $setting ) {
             delete_option( 'dswp_csp_' . $setting['option'] );
         }
+        delete_option( 'dswp_csp_upgrade_insecure_requests' );
+        wp_dequeue_script( 'dswp-csp-settings' );
+        wp_set_current_user( 0 );
         $GLOBALS['wp_settings_errors'] = array();
         parent::tear_down();
     }
@@ -0,0 +1,163 @@
+<?php
+/**
+ * Tests for the security headers sent with the CSP.
+ *
+ * @package DesignSystemWordPressPlugin\Tests\ContentSecurityPolicy
+ */
+
+namespace DesignSystemWordPressPlugin\Tests\ContentSecurityPolicy;
+
+use Bcgov\DesignSystemPlugin\ContentSecurityPolicy;
+use Bcgov\DesignSystemPlugin\ContentSecurityPolicy\SecurityHeaders;
+
+/**
+ * Tests for the SecurityHeaders class.
+ */
+class ContentSecurityPolicySecurityHeadersTest extends \WP_UnitTestCase {
+
+    /**
+     * Instance of ContentSecurityPolicy for testing.
+     *
+     * @var ContentSecurityPolicy
+     */
+    private $csp;
+
+    /**
+     * Instance of SecurityHeaders for testing.
+     *
+     * @var SecurityHeaders
+     */
+    private $security_headers;
+
+    /**
+     * Set up the test fixture.
+     *
+     * @return void
+     */
+    public function set_up() {
+        parent::set_up();
+        $this->csp              = new ContentSecurityPolicy();
+        $this->security_headers = $this->csp->get_security_headers();
+
+        $GLOBALS['wp_settings_errors'] = array();
+    }
+
+    /**
+     * Test: The default headers are sent with the CSP.
+     */
+    public function test_default_headers() {
+        $headers = $this->csp->add_csp_header( [] );
+
+        $this->assertEquals( 'max-age=10886400; preload', $headers['Strict-Transport-Security'] );
+        $this->assertEquals( 'strict-origin-when-cross-origin', $headers['Referrer-Policy'] );
+        $this->assertEquals( SecurityHeaders::DEFAULTS['permissions_policy'], $headers['Permissions-Policy'] );
+        $this->assertEquals( 'nosniff', $headers['X-Content-Type-Options'] );
+        $this->assertEquals( 'same-origin-allow-popups', $headers['Cross-Origin-Opener-Policy'] );
+    }
+
+    /**
+     * Test: Saved settings change the headers, and disabled headers are not sent.
+     */
+    public function test_saved_settings_change_headers() {
+        update_option( 'dswp_security_hsts_max_age', 31536000 );
+        update_option( 'dswp_security_hsts_include_subdomains', '1' );
+        update_option( 'dswp_security_hsts_preload', '0' );
+        update_option( 'dswp_security_referrer_policy', 'no-referrer' );
+        update_option( 'dswp_security_permissions_policy', '' );
+        update_option( 'dswp_security_nosniff', '0' );
+        update_option( 'dswp_security_coop', 'off' );
+
+        $headers = $this->security_headers->get_headers();
+
+        $this->assertEquals(
+            [
+                'Strict-Transport-Security' => 'max-age=31536000; includeSubDomains',
+                'Referrer-Policy'           => 'no-referrer',
+            ],
+            $headers
+        );
+    }
+
+    /**
+     * Data provider for sanitized setting values.
+     *
+     * @return array
+     */
+    public static function sanitize_provider() {
+        return [
+            [ 'sanitize_hsts_max_age', '31536000', 31536000, 'Numeric strings should be converted' ],
+            [ 'sanitize_hsts_max_age', '-5', 5, 'Negative ages should be made positive' ],
+            [ 'sanitize_hsts_max_age', '999999999', SecurityHeaders::MAX_HSTS_AGE, 'Ages over two years should be capped' ],
+            [ 'sanitize_flag', '1', '1', 'Checked boxes should be kept' ],
+            [ 'sanitize_flag', null, '0', 'Unchecked boxes should be off' ],
+            [ 'sanitize_referrer_policy', 'same-origin', 'same-origin', 'Valid policies should be kept' ],
+            [ 'sanitize_referrer_policy', 'everything', 'strict-origin-when-cross-origin', 'Invalid policies should use the default' ],
+            [ 'sanitize_coop', 'same-origin', 'same-origin', 'Valid policies should be kept' ],
+            [ 'sanitize_coop', 'cross-origin', 'same-origin-allow-popups', 'Invalid policies should use the default' ],
+        ];
+    }
+
+    /**
+     * Test: Settings are sanitized.
+     *
+     * @dataProvider sanitize_provider
+     *
+     * @param string $method   Sanitize method.
+     * @param mixed  $input    The input value.
+     * @param mixed  $expected The expected output.
+     * @param string $message  The assertion message.
+     */
+    public function test_settings_are_sanitized( $method, $input, $expected, $message ) {
+        $this->assertSame( $expected, $this->security_headers->$method( $input ), $message );
+    }
+
+    /**
+     * Test: Valid Permissions-Policy entries are normalized.
+     */
+    public function test_permissions_policy_entries_are_normalized() {
+        $result = $this->security_headers->sanitize_permissions_policy( 'Camera=( ),geolocation = (self   "https://maps.gov.bc.ca"), fullscreen=*' );
+
+        $this->assertEquals( 'camera=(), geolocation=(self "https://maps.gov.bc.ca"), fullscreen=*', $result );
+        $this->assertEmpty( get_settings_errors( ContentSecurityPolicy::OPTION_GROUP ), 'Valid entries should not add an error' );
+    }
+
+    /**
+     * Test: Invalid Permissions-Policy entries are removed with an error.
+     */
+    public function test_invalid_permissions_policy_entries_are_removed() {
+        $result = $this->security_headers->sanitize_permissions_policy( 'camera=(), microphone=none, geolocation=(https://maps.gov.bc.ca)' );
+
+        $this->assertEquals( 'camera=()', $result );
+        $errors = get_settings_errors( ContentSecurityPolicy::OPTION_GROUP );
+        $this->assertNotEmpty( $errors, 'Invalid entries should add a settings error' );
+        $this->assertStringContainsString( 'microphone=none', $errors[0]['message'] );
+    }
+
+    /**
+     * Test: The Security Headers section renders on the CSP page.
+     */
+    public function test_security_headers_section_renders() {
+        ob_start();
+        $this->csp->render_content_security_policy_page();
+        $output = ob_get_clean();
+
+        $this->assertStringContainsString( '<h2>Security Headers</h2>', $output );
+        $this->assertStringContainsString( 'name="dswp_security_hsts_max_age"', $output );
+        $this->assertStringContainsString( 'value="10886400"', $output );
+        $this->assertMatchesRegularExpression( '/<option value="strict-origin-when-cross-origin"\s+selected/', $output );
+        $this->assertMatchesRegularExpression( '/id="dswp_security_coop_same-origin-allow-popups"[^>]+checked/', $output );
+    }
+
+    /**
+     * Tear down the test fixture.
+     *
+     * @return void
+     */
+    public function tear_down() {
+        foreach ( array_keys( SecurityHeaders::DEFAULTS ) as $name ) {
+            delete_option( SecurityHeaders::OPTION_PREFIX . $name );
+        }
+        $GLOBALS['wp_settings_errors'] = array();
+        parent::tear_down();
+    }
+}
@@ -105,7 +105,7 @@ class ContentSecurityPolicyTest extends \WP_UnitTestCase {
     public static function case_insensitive_provider() {
         return [
             [ "'SELF' example.com", "'self' example.com", "Uppercase 'SELF' converted to lowercase" ],
-            [ "'DATA:' *.gov.bc.ca", "'data:' *.gov.bc.ca", "Uppercase 'DATA:' scheme converted to lowercase" ],
+            [ 'DATA: *.gov.bc.ca', 'data: *.gov.bc.ca', "Uppercase 'DATA:' scheme converted to lowercase" ],
             [ "'Self' EXAMPLE.COM data:", "'self' example.com data:", 'Mixed case domains and schemes normalized' ],
             [ 'HTTPS://CDN.EXAMPLE.COM/path', 'https://cdn.example.com/path', 'Full URL with uppercase scheme and domain' ],
             [ "'SELF' 'NONE'", "'self' 'none'", 'Multiple uppercase CSP keywords' ],
@@ -135,8 +135,8 @@ class ContentSecurityPolicyTest extends \WP_UnitTestCase {
     public static function character_validation_provider() {
         return [
             [ 'example@com#test$value%test', 'examplecomtestvaluetest', 'Invalid chars removed' ],
-            [ 'example.com sub-domain/path:8080', 'example.com sub-domain/path:8080', 'Valid chars preserved' ],
-            [ "'*.example.com'", "'*.example.com'", 'Single quotes and asterisk preserved' ],
+            [ 'example.com sub-domain:8080/path', 'example.com sub-domain:8080/path', 'Valid chars preserved' ],
+            [ "'self' *.example.com", "'self' *.example.com", 'Single quotes and asterisk preserved' ],
             [ '"example.com" test.com', 'example.com test.com', 'Double quotes removed' ],
         ];
     }
@@ -155,6 +155,37 @@ class ContentSecurityPolicyTest extends \WP_UnitTestCase {
         $this->assertEquals( $expected, $result, $message );
     }
 
+    /**
+     * Data provider for invalid source tests.
+     *
+     * @return array
+     */
+    public static function invalid_source_provider() {
+        return [
+            [ "'self' 'data:'", "'self'", 'Quoted schemes are not keywords' ],
+            [ "'*.example.com' example.com", 'example.com', 'Quoted hosts are not keywords' ],
+            [ 'sub-domain/path:8080 example.com', 'example.com', 'Ports must come before the path' ],
+            [ "https:// *.*.example.com example.com:123456 'nonce-abc'", '', 'Malformed sources and nonces are removed' ],
+        ];
+    }
+
+    /**
+     * Test: Each source is validated, and invalid sources are removed with an error.
+     *
+     * @dataProvider invalid_source_provider
+     *
+     * @param string $input    The input CSP value.
+     * @param string $expected The expected output.
+     * @param string $message  The assertion message.
+     */
+    public function test_invalid_sources_are_removed( $input, $expected, $message ) {
+        $result = $this->csp->validate_csp_input( $input );
+        $this->assertEquals( $expected, $result, $message );
+
+        $codes = wp_list_pluck( get_settings_errors( ContentSecurityPolicy::OPTION_GROUP ), 'code' );
+        $this->assertContains( 'invalid_csp_source', $codes, $message . ' should add settings error' );
+    }
+
     /**
      * Data provider for disallowed keywords only tests.
      *
@@ -187,7 +218,7 @@ class ContentSecurityPolicyTest extends \WP_UnitTestCase {
         $this->assertEquals( '', $result, $message . ' should return empty string' );
 
         // Verify error was added.
-        $errors = get_settings_errors( 'dswp_options_group' );
+        $errors = get_settings_errors( ContentSecurityPolicy::OPTION_GROUP );
         $this->assertNotEmpty( $errors, $message . ' should add settings error' );
     }
 
@@ -552,6 +552,228 @@ class InPageNavTest extends \WP_UnitTestCase {
 		$this->assertMatchesRegularExpression( '/"heading_selectors"\s*:\s*\[\s*"h2"\s*\]/', $script_data, 'heading_selectors should be an array containing only "h2", regardless of page content' );
 	}
 
+	/**
+	 * Test: Heading selectors can be extended to h3 and h4 with a filter
+	 *
+	 * What this tests:
+	 * - dswp_in_page_nav_heading_selectors adds sub-levels to heading_selectors
+	 * - Unsupported selectors (h1, h5, arbitrary selectors) are dropped
+	 * - Selectors are normalized and returned in outline order (h2, h3, h4)
+	 */
+	public function test_heading_selectors_filter_allows_only_h2_to_h4() {
+		$page_id = $this->factory->post->create(
+			array(
+				'post_type'    => 'page',
+				'post_title'   => 'Test Page',
+				'post_name'    => 'test-page',
+				'post_content' => '<h2>First Section</h2><h3>Subsection</h3><h4>Detail</h4>',
+			)
+		);
+		update_post_meta( $page_id, 'show_inpage_nav', true );
+
+		$filter = function () {
+			return array( ' H4 ', 'h1', 'h3', '.custom-heading', 'h5' );
+		};
+		add_filter( 'dswp_in_page_nav_heading_selectors', $filter );
+
+		global $post;
+		$post = get_post( $page_id );
+		setup_postdata( $post );
+		$this->go_to( get_permalink( $page_id ) );
+
+		do_action( 'wp_enqueue_scripts' );
+
+		remove_filter( 'dswp_in_page_nav_heading_selectors', $filter );
+
+		global $wp_scripts;
+		$script_data = $wp_scripts->get_data( 'dswp-in-page-nav-script', 'data' );
+
+		$this->assertMatchesRegularExpression( '/"heading_selectors"\s*:\s*\[\s*"h3"\s*,\s*"h4"\s*\]/', $script_data, 'heading_selectors should contain only the supported levels, in outline order' );
+		$this->assertStringNotContainsString( 'custom-heading', $script_data, 'Arbitrary selectors should be dropped' );
+	}
+
+	/**
+	 * Test: Per-page settings meta is registered with defaults and sanitized
+	 *
+	 * What this tests:
+	 * - Meta field 'inpage_nav_settings' is registered for 'page' as an object
+	 * - Pages without saved settings get the defaults
+	 * - Invalid values fall back to defaults and unknown keys are dropped
+	 */
+	public function test_settings_meta_is_registered_and_sanitized() {
+		$registered = get_registered_meta_keys( 'post', 'page' );
+		$this->assertArrayHasKey( 'inpage_nav_settings', $registered, 'inpage_nav_settings should be registered for pages' );
+		$this->assertSame( 'object', $registered['inpage_nav_settings']['type'], 'inpage_nav_settings should be an object' );
+
+		$page_id = $this->factory->post->create(
+			array(
+				'post_type'  => 'page',
+				'post_title' => 'Test Page',
+			)
+		);
+
+		$settings = get_post_meta( $page_id, 'inpage_nav_settings', true );
+		$this->assertSame( 2, $settings['heading_depth'], 'Default heading depth should be 2' );
+		$this->assertTrue( $settings['show_numbers'], 'Numbering should be on by default' );
+		$this->assertSame( 'top', $settings['position'], 'Default position should be top' );
+
+		update_post_meta(
+			$page_id,
+			'inpage_nav_settings',
+			array(
+				'heading_depth' => 9,
+				'title'         => '<b>Contents</b>',
+				'show_excerpt'  => false,
+				'position'      => 'bottom',
+				'unknown'       => 'value',
+			)
+		);
+
+		$settings = get_post_meta( $page_id, 'inpage_nav_settings', true );
+		$this->assertSame( 4, $settings['heading_depth'], 'Heading depth should be clamped to 4' );
+		$this->assertSame( 'Contents', $settings['title'], 'Title should be stripped of HTML' );
+		$this->assertFalse( $settings['show_excerpt'], 'show_excerpt should be saved' );
+		$this->assertSame( 'top', $settings['position'], 'Invalid position should fall back to top' );
+		$this->assertArrayNotHasKey( 'unknown', $settings, 'Unknown keys should be dropped' );
+	}
+
+	/**
+	 * Test: Per-page settings are passed to JavaScript
+	 *
+	 * What this tests:
+	 * - heading_depth expands heading_selectors to h2–h4
+	 * - title, show_excerpt, show_numbers and position are localized
+	 */
+	public function test_settings_are_passed_to_javascript() {
+		$page_id = $this->factory->post->create(
+			array(
+				'post_type'    => 'page',
+				'post_title'   => 'Test Page',
+				'post_name'    => 'test-page',
+				'post_content' => '<h2>First Section</h2><h3>Subsection</h3>',
+			)
+		);
+		update_post_meta( $page_id, 'show_inpage_nav', true );
+		update_post_meta(
+			$page_id,
+			'inpage_nav_settings',
+			array(
+				'heading_depth' => 3,
+				'title'         => 'Contents',
+				'show_excerpt'  => false,
+				'show_numbers'  => false,
+				'position'      => 'right',
+			)
+		);
+
+		global $post;
+		$post = get_post( $page_id );
+		setup_postdata( $post );
+		$this->go_to( get_permalink( $page_id ) );
+
+		do_action( 'wp_enqueue_scripts' );
+
+		global $wp_scripts;
+		$script_data = $wp_scripts->get_data( 'dswp-in-page-nav-script', 'data' );
+
+		$this->assertMatchesRegularExpression( '/"heading_selectors"\s*:\s*\[\s*"h2"\s*,\s*"h3"\s*\]/', $script_data, 'heading_depth 3 should include h2 and h3' );
+		$this->assertStringContainsString( '"title":"Contents"', $script_data, 'Title should be localized' );
+		$this->assertStringContainsString( '"show_excerpt":false', $script_data, 'show_excerpt should be localized' );
+		$this->assertStringContainsString( '"show_numbers":false', $script_data, 'show_numbers should be localized' );
+		$this->assertStringContainsString( '"position":"right"', $script_data, 'position should be localized' );
+	}
+
+	/**
+	 * Test: Navigation is rendered server-side around the post content block
+	 *
+	 * What this tests:
+	 * - render_block_core/post-content wraps the content with the navigation aside
+	 * - Headings get deterministic IDs and existing IDs are kept
+	 * - Links point at the heading IDs, with nested numbering for sub-levels
+	 * - Heading text is escaped in the navigation
+	 */
+	public function test_navigation_is_rendered_server_side() {
+		$page_id = $this->factory->post->create(
+			array(
+				'post_type'  => 'page',
+				'post_title' => 'Test Page',
+				'post_name'  => 'test-page',
+			)
+		);
+		update_post_meta( $page_id, 'show_inpage_nav', true );
+		update_post_meta( $page_id, 'inpage_nav_settings', array( 'heading_depth' => 3 ) );
+
+		global $post;
+		$post = get_post( $page_id );
+		setup_postdata( $post );
+		$this->go_to( get_permalink( $page_id ) );
+
+		$content = '<div id="main-content" class="entry-content"><h2>Getting Started</h2><h3>Fish &amp; <em>Chips</em></h3><h2 id="existing-id">Next</h2></div>';
+		$output  = apply_filters( 'render_block_core/post-content', $content, array( 'blockName' => 'core/post-content' ), null );
+
+		$this->assertStringStartsWith( '<div class="dswp-nav-content-container is-nav-top"><aside class="dswp-in-page-nav', $output, 'Content should be wrapped with the navigation' );
+		$this->assertStringContainsString( '<h2 id="section-getting-started">Getting Started</h2>', $output, 'Headings should get a deterministic ID' );
+		$this->assertStringContainsString( '<h3 id="section-fish-chips">', $output, 'Sub-level headings should get an ID' );
+		$this->assertStringContainsString( '<h2 id="existing-id">Next</h2>', $output, 'Existing IDs should be kept' );
+		$this->assertStringContainsString( 'href="#section-getting-started"', $output, 'Links should target the heading IDs' );
+		$this->assertStringContainsString( '<span class="heading-number">1.1</span><span class="heading-text">Fish &amp; Chips</span>', $output, 'Sub-levels should be numbered and escaped' );
+		$this->assertStringContainsString( '<span class="heading-number">2.</span>', $output, 'Top-level numbering should continue after sub-levels' );
+	}
+
+	/**
+	 * Test: Heading anchors are stable and collision-free
+	 *
+	 * What this tests:
+	 * - Accented letters are transliterated instead of stripped
+	 * - A suffix is only added when an anchor is already taken
+	 * - IDs used elsewhere in the content count as taken
+	 * - Adding a heading above others does not change their anchors
+	 */
+	public function test_heading_anchors_are_stable_and_collision_free() {
+		$renderer = new \Bcgov\DesignSystemPlugin\InPageNav\Renderer();
+
+		$result = $renderer->add_heading_ids( '<h2>Québec &amp; Māori – Intro/Overview</h2>', array( 'h2' ) );
+		$this->assertSame( 'section-quebec-maori-intro-overview', $result['headings'][0]['id'], 'Accented letters should be transliterated' );
+
+		$result = $renderer->add_heading_ids( '<p id="section-faq">Intro</p><h2>FAQ</h2><h2>Duplicate</h2><h2>Duplicate</h2>', array( 'h2' ) );
+		$this->assertSame( array( 'section-faq-2', 'section-duplicate', 'section-duplicate-2' ), wp_list_pluck( $result['headings'], 'id' ), 'Suffixes should only be added on collisions' );
+
+		$before = $renderer->add_heading_ids( '<h2>Alpha</h2><h2>Beta</h2>', array( 'h2' ) );
+		$after  = $renderer->add_heading_ids( '<h2>New</h2><h2>Alpha</h2><h2>Beta</h2>', array( 'h2' ) );
+		$this->assertSame( wp_list_pluck( $before['headings'], 'id' ), array_slice( wp_list_pluck( $after['headings'], 'id' ), 1 ), 'Adding a heading should not change other anchors' );
+	}
+
+	/**
+	 * Test: Navigation is not rendered server-side when disabled or without headings
+	 *
+	 * What this tests:
+	 * - Content is unchanged when show_inpage_nav is false
+	 * - Content is unchanged when there are no navigation headings
+	 */
+	public function test_navigation_is_not_rendered_when_disabled_or_without_headings() {
+		$page_id = $this->factory->post->create(
+			array(
+				'post_type'  => 'page',
+				'post_title' => 'Test Page',
+				'post_name'  => 'test-page',
+			)
+		);
+
+		global $post;
+		$post = get_post( $page_id );
+		setup_postdata( $post );
+		$this->go_to( get_permalink( $page_id ) );
+
+		$content = '<div class="entry-content"><h2>Heading</h2></div>';
+		$output  = apply_filters( 'render_block_core/post-content', $content, array( 'blockName' => 'core/post-content' ), null );
+		$this->assertSame( $content, $output, 'Content should be unchanged when the feature is disabled' );
+
+		update_post_meta( $page_id, 'show_inpage_nav', true );
+		$content = '<div class="entry-content"><h3>Only a sub-heading</h3></div>';
+		$output  = apply_filters( 'render_block_core/post-content', $content, array( 'blockName' => 'core/post-content' ), null );
+		$this->assertSame( $content, $output, 'Content should be unchanged without h2 headings' );
+	}
+
 	/**
 	 * Test: Assets are enqueued when feature is enabled even without h2 headings
 	 *
@@ -23,8 +23,9 @@ class NotificationBannerTest extends \WP_UnitTestCase {
 	 */
 	public function setUp(): void {
 		parent::setUp();
-		// Remove the wp_head action hook to prevent duplicate output.
-		remove_all_actions( 'wp_head' );
+		// Remove the wp_body_open action hook to prevent duplicate output.
+		remove_all_actions( 'wp_body_open' );
+		remove_all_actions( 'wp_footer' );
 	}
 
 	/**
@@ -139,16 +140,15 @@ class NotificationBannerTest extends \WP_UnitTestCase {
 		setup_postdata( $post );
 		$this->go_to( get_permalink( $page_id ) );
 
-		// Capture output from wp_head action.
+		// Capture output from wp_body_open action.
 		ob_start();
-		do_action( 'wp_head' );
+		do_action( 'wp_body_open' );
 		$output = ob_get_clean();
 
-		// Verify banner is not displayed - check for specific banner content, not just background-color
-		// (which might appear in other WordPress styles).
+		// Verify banner is not displayed.
 		$this->assertStringNotContainsString( 'Test message that should not appear', $output, 'Banner message should not be displayed when disabled' );
 		// Check for the specific banner div structure that would be output when enabled.
-		$this->assertStringNotContainsString( 'padding: 10px; color:', $output, 'Banner styling should not be present when disabled' );
+		$this->assertStringNotContainsString( 'dswp-notification-banner', $output, 'Banner markup should not be present when disabled' );
 	}
 
 	/**
@@ -157,7 +157,7 @@ class NotificationBannerTest extends \WP_UnitTestCase {
 	 * What this tests:
 	 * - Banner HTML is output on frontend when enabled is '1'
 	 * - Banner contains correct message
-	 * - Banner has correct styling attributes
+	 * - Banner is a labelled region with a severity class and icon, without inline styles
 	 */
 	public function test_banner_is_displayed_when_enabled() {
 		// Initialize NotificationBanner.
@@ -184,30 +184,28 @@ class NotificationBannerTest extends \WP_UnitTestCase {
 		setup_postdata( $post );
 		$this->go_to( get_permalink( $page_id ) );
 
-		// Capture output from wp_head action.
+		// Capture output from wp_body_open action.
 		ob_start();
-		do_action( 'wp_head' );
+		do_action( 'wp_body_open' );
 		$output = ob_get_clean();
 
 		// Verify banner is displayed.
-		$this->assertStringContainsString( 'background-color', $output, 'Banner should be displayed when enabled' );
+		$this->assertStringContainsString( 'id="dswp-notification-banner"', $output, 'Banner should be displayed when enabled' );
 		$this->assertStringContainsString( 'Test notification message', $output, 'Banner should contain notification message' );
-		$this->assertStringContainsString( 'var(--dswp-icons-color-warning)', $output, 'Banner should have correct background color' );
-		$this->assertStringContainsString( 'text-align: center', $output, 'Banner should have center alignment' );
-		$this->assertStringContainsString( 'padding: 10px', $output, 'Banner should have padding' );
+		$this->assertStringContainsString( 'dswp-notification-banner--warning', $output, 'Banner should have the severity class for its color' );
+		$this->assertStringContainsString( 'role="region" aria-label="Warning notification" aria-live="polite"', $output, 'Banner should be a labelled live region' );
+		$this->assertStringContainsString( '<span class="dswp-notification-banner__icon" aria-hidden="true"><svg', $output, 'Banner should have a decorative severity icon' );
+		$this->assertStringNotContainsString( 'style=', $output, 'Banner should not use inline styles' );
 	}
 
 	/**
-	 * Test: Text color mapping works correctly for all color options
+	 * Test: Severity mapping works correctly for all color options
 	 *
 	 * What this tests:
-	 * - Warning color maps to black text
-	 * - Danger color maps to white text
-	 * - Success color maps to white text
-	 * - Info color maps to white text
-	 * - Unknown colors default to black
+	 * - Each color maps to its severity class (which sets the text color)
+	 * - Unknown colors default to the warning severity
 	 */
-	public function test_text_color_mapping_works_correctly() {
+	public function test_severity_mapping_works_correctly() {
 		// Initialize NotificationBanner.
 		$notification_banner = new NotificationBanner();
 		$notification_banner->init();
@@ -216,40 +214,40 @@ class NotificationBannerTest extends \WP_UnitTestCase {
 		update_option( 'dswp_notification_banner_enabled', '1' );
 		update_option( 'dswp_notification_banner_notification', 'Test message' );
 
-		// Test warning color (should be black).
+		// Test warning color.
 		update_option( 'dswp_notification_banner_color', 'var(--dswp-icons-color-warning)' );
 		ob_start();
-		do_action( 'wp_head' );
+		do_action( 'wp_body_open' );
 		$output_warning = ob_get_clean();
-		$this->assertStringContainsString( 'color: black', $output_warning, 'Warning color should map to black text' );
+		$this->assertStringContainsString( 'dswp-notification-banner--warning', $output_warning, 'Warning color should map to the warning severity' );
 
-		// Test danger color (should be white).
+		// Test danger color.
 		update_option( 'dswp_notification_banner_color', 'var(--dswp-icons-color-danger)' );
 		ob_start();
-		do_action( 'wp_head' );
+		do_action( 'wp_body_open' );
 		$output_danger = ob_get_clean();
-		$this->assertStringContainsString( 'color: white', $output_danger, 'Danger color should map to white text' );
+		$this->assertStringContainsString( 'dswp-notification-banner--danger', $output_danger, 'Danger color should map to the danger severity' );
 
-		// Test success color (should be white).
+		// Test success color.
 		update_option( 'dswp_notification_banner_color', 'var(--dswp-icons-color-success)' );
 		ob_start();
-		do_action( 'wp_head' );
+		do_action( 'wp_body_open' );
 		$output_success = ob_get_clean();
-		$this->assertStringContainsString( 'color: white', $output_success, 'Success color should map to white text' );
+		$this->assertStringContainsString( 'dswp-notification-banner--success', $output_success, 'Success color should map to the success severity' );
 
-		// Test info color (should be white).
+		// Test info color.
 		update_option( 'dswp_notification_banner_color', 'var(--dswp-icons-color-info)' );
 		ob_start();
-		do_action( 'wp_head' );
+		do_action( 'wp_body_open' );
 		$output_info = ob_get_clean();
-		$this->assertStringContainsString( 'color: white', $output_info, 'Info color should map to white text' );
+		$this->assertStringContainsString( 'dswp-notification-banner--info', $output_info, 'Info color should map to the info severity' );
 
-		// Test unknown color (should default to black).
+		// Test unknown color (should default to warning).
 		update_option( 'dswp_notification_banner_color', '#FF0000' );
 		ob_start();
-		do_action( 'wp_head' );
+		do_action( 'wp_body_open' );
 		$output_unknown = ob_get_clean();
-		$this->assertStringContainsString( 'color: black', $output_unknown, 'Unknown color should default to black text' );
+		$this->assertStringContainsString( 'dswp-notification-banner--warning', $output_unknown, 'Unknown color should default to the warning severity' );
 	}
 
 	/**
@@ -273,7 +271,7 @@ class NotificationBannerTest extends \WP_UnitTestCase {
 
 		// Capture output.
 		ob_start();
-		do_action( 'wp_head' );
+		do_action( 'wp_body_open' );
 		$output = ob_get_clean();
 
 		// Verify allowed HTML is preserved.
@@ -283,7 +281,7 @@ class NotificationBannerTest extends \WP_UnitTestCase {
 		// Test with dangerous content.
 		update_option( 'dswp_notification_banner_notification', '<script>alert("XSS")</script>Safe content' );
 		ob_start();
-		do_action( 'wp_head' );
+		do_action( 'wp_body_open' );
 		$output_dangerous = ob_get_clean();
 
 		// Verify dangerous content is stripped.
@@ -311,34 +309,20 @@ class NotificationBannerTest extends \WP_UnitTestCase {
 		update_option( 'dswp_notification_banner_notification', 'Test message' );
 
 		ob_start();
-		do_action( 'wp_head' );
+		do_action( 'wp_body_open' );
 		$output = ob_get_clean();
 
-		// Verify that either:
-		// A) The invalid color is rejected and default is used, OR
-		// B) The malicious code is escaped so it cannot execute.
-		$has_valid_warning     = strpos( $output, 'var(--dswp-icons-color-warning)' ) !== false;
-		$has_escaped_payload   = strpos( $output, '&quot; onmouseover=&quot;' ) !== false;
-		$has_unescaped_payload = strpos( $output, '" onmouseover="' ) !== false;
-
-		// The unescaped malicious payload should NOT be present.
-		$this->assertFalse( $has_unescaped_payload, 'Unescaped malicious payload should not be present in output' );
-
-		// Either the color was rejected (showing valid warning) or it was escaped.
-		$this->assertTrue(
-			$has_valid_warning || $has_escaped_payload,
-			'Invalid color should either be rejected or escaped'
-		);
+		// The invalid color is rejected and the default severity is used.
+		$this->assertStringNotContainsString( 'onmouseover', $output, 'Malicious payload should not be present in output' );
+		$this->assertStringContainsString( 'dswp-notification-banner--warning', $output, 'Invalid color should be rejected' );
 
 		// Test 2: Valid color values work correctly.
 		update_option( 'dswp_notification_banner_color', 'var(--dswp-icons-color-danger)' );
 		ob_start();
-		do_action( 'wp_head' );
+		do_action( 'wp_body_open' );
 		$output_valid = ob_get_clean();
 
-		$this->assertStringContainsString( 'background-color: var(--dswp-icons-color-danger)', $output_valid, 'Valid color should be present in output' );
-		$this->assertStringContainsString( 'style="background-color:', $output_valid, 'Style attribute should be properly formatted' );
-		$this->assertStringContainsString( '; padding: 10px; color:', $output_valid, 'Banner styling should include padding and color properties' );
+		$this->assertStringContainsString( 'class="dswp-notification-banner dswp-notification-banner--danger"', $output_valid, 'Valid color should map to its severity class' );
 	}
 
 	/**
@@ -360,7 +344,7 @@ class NotificationBannerTest extends \WP_UnitTestCase {
 
 		// Test default color in display_banner (uses #000000).
 		ob_start();
-		do_action( 'wp_head' );
+		do_action( 'wp_body_open' );
 		$output = ob_get_clean();
 		// Banner should not be displayed when disabled, so we can't test color default here.
 		// But we can verify the method handles defaults correctly.
@@ -483,7 +467,7 @@ class NotificationBannerTest extends \WP_UnitTestCase {
 		$this->go_to( get_permalink( $page_id ) );
 
 		ob_start();
-		do_action( 'wp_head' );
+		do_action( 'wp_body_open' );
 		$output_page = ob_get_clean();
 		$this->assertStringContainsString( 'Test message', $output_page, 'Banner should display on pages' );
 
@@ -499,7 +483,7 @@ class NotificationBannerTest extends \WP_UnitTestCase {
 		$this->go_to( get_permalink( $post_id ) );
 
 		ob_start();
-		do_action( 'wp_head' );
+		do_action( 'wp_body_open' );
 		$output_post = ob_get_clean();
 		$this->assertStringContainsString( 'Test message', $output_post, 'Banner should display on posts' );
 
@@ -507,7 +491,7 @@ class NotificationBannerTest extends \WP_UnitTestCase {
 		$this->go_to( home_url() );
 
 		ob_start();
-		do_action( 'wp_head' );
+		do_action( 'wp_body_open' );
 		$output_home = ob_get_clean();
 		$this->assertStringContainsString( 'Test message', $output_home, 'Banner should display on homepage' );
 	}
@@ -532,7 +516,7 @@ class NotificationBannerTest extends \WP_UnitTestCase {
 
 		// Capture output.
 		ob_start();
-		do_action( 'wp_head' );
+		do_action( 'wp_body_open' );
 		$output = ob_get_clean();
 
 		// Verify banner div is NOT rendered when message is empty (even if enabled).
@@ -568,4 +552,308 @@ class NotificationBannerTest extends \WP_UnitTestCase {
 		$this->assertEquals( 'var(--dswp-icons-color-info)', get_option( 'dswp_notification_banner_color' ), 'Color option should be updated correctly' );
 		$this->assertEquals( 'Updated message', get_option( 'dswp_notification_banner_notification' ), 'Notification option should be updated correctly' );
 	}
+
+	/**
+	 * Test: Banner only displays within its schedule window
+	 *
+	 * What this tests:
+	 * - Banner is not displayed before the start time
+	 * - Banner is displayed between the start and end times
+	 * - Banner is not displayed after the end time
+	 * - Times are interpreted in the site timezone
+	 */
+	public function test_banner_only_displays_within_schedule() {
+		$notification_banner = new NotificationBanner();
+		$notification_banner->init();
+
+		update_option( 'timezone_string', 'America/Vancouver' );
+		update_option( 'dswp_notification_banner_enabled', '1' );
+		update_option( 'dswp_notification_banner_color', 'var(--dswp-icons-color-warning)' );
+		update_option( 'dswp_notification_banner_notification', 'Scheduled outage' );
+		update_option( 'dswp_notification_banner_start', '2030-01-15T22:00' );
+		update_option( 'dswp_notification_banner_end', '2030-01-16T02:00' );
+
+		$timezone = new \DateTimeZone( 'America/Vancouver' );
+		$this->assertSame( 'scheduled', $notification_banner->get_schedule_state( new \DateTimeImmutable( '2030-01-15 21:59', $timezone ) ), 'Banner should be scheduled before the start time' );
+		$this->assertSame( 'active', $notification_banner->get_schedule_state( new \DateTimeImmutable( '2030-01-15 22:00', $timezone ) ), 'Banner should be active from the start time' );
+		$this->assertSame( 'active', $notification_banner->get_schedule_state( new \DateTimeImmutable( '2030-01-16 09:59', new \DateTimeZone( 'UTC' ) ) ), 'Start and end should be in the site timezone' );
+		$this->assertSame( 'expired', $notification_banner->get_schedule_state( new \DateTimeImmutable( '2030-01-16 02:00', $timezone ) ), 'Banner should be expired from the end time' );
+
+		// The window is in the future, so the banner should not display now.
+		ob_start();
+		do_action( 'wp_body_open' );
+		$output = ob_get_clean();
+		$this->assertStringNotContainsString( 'Scheduled outage', $output, 'Banner should not display before its start time' );
+
+		// Open-ended schedule that has started.
+		update_option( 'dswp_notification_banner_start', wp_date( NotificationBanner::DATETIME_FORMAT, time() - HOUR_IN_SECONDS ) );
+		update_option( 'dswp_notification_banner_end', '' );
+
+		ob_start();
+		do_action( 'wp_body_open' );
+		$output = ob_get_clean();
+		$this->assertStringContainsString( 'Scheduled outage', $output, 'Banner should display once its start time has passed' );
+
+		update_option( 'timezone_string', '' );
+	}
+
+	/**
+	 * Test: Schedule values are sanitized and shown in the admin preview
+	 *
+	 * What this tests:
+	 * - Valid datetime-local values are kept, invalid values are cleared
+	 * - Preview shows when a scheduled banner will start displaying
+	 * - Preview shows when an expired banner's schedule ended
+	 */
+	public function test_schedule_is_sanitized_and_shown_in_preview() {
+		$notification_banner = new NotificationBanner();
+
+		$this->assertSame( '2030-01-15T22:00', $notification_banner->sanitize_banner_datetime( '2030-01-15T22:00' ), 'Valid datetime should be kept' );
+		$this->assertSame( '', $notification_banner->sanitize_banner_datetime( 'next tuesday' ), 'Invalid datetime should be cleared' );
+		$this->assertSame( '', $notification_banner->sanitize_banner_datetime( '' ), 'Empty datetime should stay empty' );
+
+		update_option( 'dswp_notification_banner_enabled', '1' );
+		update_option( 'dswp_notification_banner_notification', 'Preview test message' );
+		update_option( 'dswp_notification_banner_start', '2999-01-01T00:00' );
+		update_option( 'dswp_notification_banner_end', '' );
+
+		ob_start();
+		$notification_banner->render_notification_banner_page();
+		$output = ob_get_clean();
+		$this->assertStringContainsString( 'This banner is scheduled and will display on the frontend from', $output, 'Preview should show the scheduled state' );
+
+		update_option( 'dswp_notification_banner_start', '' );
+		update_option( 'dswp_notification_banner_end', '2000-01-01T00:00' );
+
+		ob_start();
+		$notification_banner->render_notification_banner_page();
+		$output = ob_get_clean();
+		$this->assertStringContainsString( 'and it will NOT display on the frontend', $output, 'Preview should show the expired state' );
+	}
+
+	/**
+	 * Test: An end time that is not after the start time is flagged
+	 *
+	 * What this tests:
+	 * - The end is saved as submitted, with a settings error
+	 * - An end after the start, or an open-ended schedule, adds no error
+	 */
+	public function test_schedule_end_before_start_adds_error() {
+		$notification_banner = new NotificationBanner();
+		update_option( 'dswp_notification_banner_start', '2030-01-16T10:00' );
+
+		$GLOBALS['wp_settings_errors'] = array();
+		$this->assertSame( '2030-01-15T10:00', $notification_banner->sanitize_banner_end( '2030-01-15T10:00' ), 'The end should be kept' );
+		$this->assertSame( 'invalid_banner_schedule', get_settings_errors( 'dswp_options_group' )[0]['code'], 'An end before the start should add an error' );
+
+		$GLOBALS['wp_settings_errors'] = array();
+		$notification_banner->sanitize_banner_end( '2030-01-16T10:00' );
+		$this->assertNotEmpty( get_settings_errors( 'dswp_options_group' ), 'An end equal to the start should add an error' );
+
+		$GLOBALS['wp_settings_errors'] = array();
+		$notification_banner->sanitize_banner_end( '2030-01-17T10:00' );
+		$notification_banner->sanitize_banner_end( '' );
+		update_option( 'dswp_notification_banner_start', '' );
+		$notification_banner->sanitize_banner_end( '2000-01-01T00:00' );
+		$this->assertEmpty( get_settings_errors( 'dswp_options_group' ), 'Valid schedules should not add an error' );
+	}
+
+	/**
+	 * Test: Multiple banners display in priority order
+	 *
+	 * What this tests:
+	 * - Published banners from the Banners list display alongside the settings banner
+	 * - Banners with a lower priority number display first
+	 * - Draft banners and banners without a message are not displayed
+	 */
+	public function test_banners_display_in_priority_order() {
+		$notification_banner = new NotificationBanner();
+		$notification_banner->init();
+		$notification_banner->get_banners()->register_post_type();
+
+		update_option( 'dswp_notification_banner_enabled', '1' );
+		update_option( 'dswp_notification_banner_color', 'var(--dswp-icons-color-warning)' );
+		update_option( 'dswp_notification_banner_notification', 'Settings banner' );
+
+		$urgent = $this->factory->post->create(
+			array(
+				'post_type'    => 'dswp_banner',
+				'post_content' => 'Urgent banner',
+			)
+		);
+		update_post_meta( $urgent, '_dswp_banner_priority', 1 );
+		update_post_meta( $urgent, '_dswp_banner_color', 'var(--dswp-icons-color-danger)' );
+
+		$later = $this->factory->post->create(
+			array(
+				'post_type'    => 'dswp_banner',
+				'post_content' => 'Later banner',
+			)
+		);
+		update_post_meta( $later, '_dswp_banner_priority', 20 );
+
+		$this->factory->post->create(
+			array(
+				'post_type'    => 'dswp_banner',
+				'post_status'  => 'draft',
+				'post_content' => 'Draft banner',
+			)
+		);
+
+		ob_start();
+		do_action( 'wp_body_open' );
+		$output = ob_get_clean();
+
+		$this->assertStringNotContainsString( 'Draft banner', $output, 'Draft banners should not display' );
+		$this->assertStringContainsString( 'id="dswp-notification-banner-' . $urgent . '"', $output, 'Each banner should have its own id' );
+		$this->assertStringContainsString( 'dswp-notification-banner--danger', $output, 'Banners should use their own severity color' );
+		$this->assertLessThan( strpos( $output, 'Settings banner' ), strpos( $output, 'Urgent banner' ), 'Lower priority numbers should display first' );
+		$this->assertLessThan( strpos( $output, 'Later banner' ), strpos( $output, 'Settings banner' ), 'Settings banner should display at the default priority' );
+	}
+
+	/**
+	 * Test: Banners only display where they are targeted
+	 *
+	 * What this tests:
+	 * - Page targeting includes the selected page and its descendants only
+	 * - Post type targeting matches single views of the selected post types
+	 * - Invalid targeting falls back to the entire site
+	 */
+	public function test_banners_only_display_where_targeted() {
+		$notification_banner = new NotificationBanner();
+		$notification_banner->init();
+		$notification_banner->get_banners()->register_post_type();
+
+		$parent_id  = $this->factory->post->create( array( 'post_type' => 'page' ) );
+		$child_id   = $this->factory->post->create(
+			array(
+				'post_type'   => 'page',
+				'post_parent' => $parent_id,
+			)
+		);
+		$sibling_id = $this->factory->post->create( array( 'post_type' => 'page' ) );
+		$post_id    = $this->factory->post->create( array( 'post_type' => 'post' ) );
+
+		$page_banner = $this->factory->post->create(
+			array(
+				'post_type'    => 'dswp_banner',
+				'post_content' => 'Section banner',
+			)
+		);
+		update_post_meta( $page_banner, '_dswp_banner_target', 'pages' );
+		update_post_meta( $page_banner, '_dswp_banner_pages', array( $parent_id ) );
+
+		$post_banner = $this->factory->post->create(
+			array(
+				'post_type'    => 'dswp_banner',
+				'post_content' => 'News banner',
+			)
+		);
+		update_post_meta( $post_banner, '_dswp_banner_target', 'post_types' );
+		update_post_meta( $post_banner, '_dswp_banner_post_types', array( 'post' ) );
+
+		$site_banner = $this->factory->post->create(
+			array(
+				'post_type'    => 'dswp_banner',
+				'post_content' => 'Site banner',
+			)
+		);
+		update_post_meta( $site_banner, '_dswp_banner_target', 'everywhere' );
+
+		$render = function ( $id ) {
+			$this->go_to( get_permalink( $id ) );
+			ob_start();
+			do_action( 'wp_body_open' );
+			return ob_get_clean();
+		};
+
+		$output = $render( $child_id );
+		$this->assertStringContainsString( 'Section banner', $output, 'Page banner should display on descendants of the selected page' );
+		$this->assertStringNotContainsString( 'News banner', $output, 'Post type banner should not display on pages' );
+		$this->assertStringContainsString( 'Site banner', $output, 'Invalid targeting should display on the entire site' );
+
+		$output = $render( $sibling_id );
+		$this->assertStringNotContainsString( 'Section banner', $output, 'Page banner should not display outside the selected page tree' );
+
+		$output = $render( $post_id );
+		$this->assertStringContainsString( 'News banner', $output, 'Post type banner should display on the selected post type' );
+		$this->assertStringNotContainsString( 'Section banner', $output, 'Page banner should not display on posts' );
+	}
+
+	/**
+	 * Test: Dismissible banners include a close button and a version
+	 *
+	 * What this tests:
+	 * - Banners are not dismissible by default
+	 * - Dismissible banners render a labelled close button, hidden until the script runs
+	 * - Dismissible banners are followed by a script that hides dismissed versions
+	 * - The version changes when the message changes, so edited banners show again
+	 */
+	public function test_dismissible_banner_has_close_button_and_version() {
+		$notification_banner = new NotificationBanner();
+		$notification_banner->init();
+
+		update_option( 'dswp_notification_banner_enabled', '1' );
+		update_option( 'dswp_notification_banner_notification', 'Closable message' );
+
+		ob_start();
+		do_action( 'wp_body_open' );
+		$output = ob_get_clean();
+		$this->assertStringNotContainsString( 'dswp-notification-banner__dismiss', $output, 'Banners should not be dismissible by default' );
+		$this->assertStringNotContainsString( '<script', $output, 'Banners that cannot be dismissed should not print a script' );
+
+		update_option( 'dswp_notification_banner_dismissible', $notification_banner->sanitize_banner_flag( '1' ) );
+
+		ob_start();
+		do_action( 'wp_body_open' );
+		$output = ob_get_clean();
+		$this->assertStringContainsString( 'aria-label="Close notification"', $output, 'Close button should have an accessible name' );
+		$this->assertStringContainsString( 'hidden><span aria-hidden="true">', $output, 'Close button should be hidden until the script runs' );
+		$this->assertMatchesRegularExpression( '#</button></div><script[^>]*>.*"' . NotificationBanner::DISMISSED_STORAGE_KEY . '".*document\.currentScript\.previousElementSibling#s', $output, 'A script after the banner should hide dismissed versions before they are painted' );
+
+		$version = $notification_banner->get_banner_version( $notification_banner->get_settings_banner() );
+		$this->assertStringContainsString( 'data-dswp-banner-version="' . $version . '"', $output, 'Banner should include its version' );
+
+		update_option( 'dswp_notification_banner_notification', 'Edited message' );
+		$this->assertNotSame( $version, $notification_banner->get_banner_version( $notification_banner->get_settings_banner() ), 'Editing the message should change the version' );
+
+		$this->assertSame( '0', $notification_banner->sanitize_banner_flag( null ), 'Unchecked checkbox should be saved as 0' );
+	}
+
+	/**
+	 * Test: Banners render in the body at the configured position
+	 *
+	 * What this tests:
+	 * - Banners are output on wp_body_open, after the skip links, and not in wp_head
+	 * - Top and sticky positions render at the start of the body
+	 * - Bottom position renders on wp_footer instead
+	 * - Invalid positions fall back to top
+	 */
+	public function test_banner_renders_in_body_at_configured_position() {
+		$notification_banner = new NotificationBanner();
+		$notification_banner->init();
+
+		update_option( 'dswp_notification_banner_enabled', '1' );
+		update_option( 'dswp_notification_banner_notification', 'Positioned message' );
+
+		$this->assertFalse( has_action( 'wp_head', array( $notification_banner, 'display_banner' ) ), 'Banner should not be output in the head' );
+		$this->assertSame( NotificationBanner::BODY_OPEN_PRIORITY, has_action( 'wp_body_open', array( $notification_banner, 'display_banner' ) ), 'Banner should be output at the start of the body' );
+		$this->assertGreaterThan( 10, NotificationBanner::BODY_OPEN_PRIORITY, 'Banner should be output after the skip links' );
+
+		$render = function ( $action ) {
+			ob_start();
+			do_action( $action );
+			return ob_get_clean();
+		};
+
+		update_option( 'dswp_notification_banner_position', 'sticky' );
+		$this->assertStringContainsString( 'class="dswp-notification-banners is-position-sticky"', $render( 'wp_body_open' ), 'Sticky banners should render at the start of the body' );
+		$this->assertStringNotContainsString( 'Positioned message', $render( 'wp_footer' ), 'Sticky banners should not render in the footer' );
+
+		update_option( 'dswp_notification_banner_position', 'bottom' );
+		$this->assertStringNotContainsString( 'Positioned message', $render( 'wp_body_open' ), 'Bottom banners should not render at the start of the body' );
+		$this->assertStringContainsString( 'is-position-bottom', $render( 'wp_footer' ), 'Bottom banners should render in the footer' );
+
+		$this->assertSame( 'top', $notification_banner->sanitize_banner_position( 'middle' ), 'Invalid positions should fall back to top' );
+	}
 }
@@ -0,0 +1,148 @@
+<?php
+/**
+ * NotificationBanner REST API Tests
+ *
+ * @package DesignSystemWordPressPlugin
+ * @subpackage Tests
+ */
+
+namespace DesignSystemWordPressPlugin\Tests\NotificationBanner;
+
+use Bcgov\DesignSystemPlugin\NotificationBanner;
+
+/**
+ * NotificationBanner REST API Test Class
+ *
+ * @package DesignSystemWordPressPlugin\Tests\NotificationBanner
+ */
+class NotificationBannerRestTest extends \WP_UnitTestCase {
+
+	/**
+	 * Register the routes on a fresh REST server before each test
+	 */
+	public function setUp(): void {
+		parent::setUp();
+
+		global $wp_rest_server;
+		$wp_rest_server = new \WP_REST_Server();
+
+		$notification_banner = new NotificationBanner();
+		$notification_banner->init();
+		do_action( 'rest_api_init', $wp_rest_server );
+	}
+
+	/**
+	 * Reset the REST server after each test
+	 */
+	public function tearDown(): void {
+		global $wp_rest_server;
+		$wp_rest_server = null;
+
+		parent::tearDown();
+	}
+
+	/**
+	 * Test: Only administrators can use the banner routes
+	 *
+	 * What this tests:
+	 * - Logged out requests are rejected with 401
+	 * - Users without manage_options are rejected with 403
+	 * - Administrators can read the banner
+	 */
+	public function test_routes_require_manage_options() {
+		$response = rest_do_request( new \WP_REST_Request( 'GET', '/dswp/v1/banner' ) );
+		$this->assertSame( 401, $response->get_status(), 'Logged out requests should be rejected' );
+
+		wp_set_current_user( $this->factory->user->create( array( 'role' => 'editor' ) ) );
+		$response = rest_do_request( new \WP_REST_Request( 'POST', '/dswp/v1/banner' ) );
+		$this->assertSame( 403, $response->get_status(), 'Editors should not be able to update the banner' );
+
+		wp_set_current_user( $this->factory->user->create( array( 'role' => 'administrator' ) ) );
+		$response = rest_do_request( new \WP_REST_Request( 'GET', '/dswp/v1/banner' ) );
+		$this->assertSame( 200, $response->get_status(), 'Administrators should be able to read the banner' );
+	}
+
+	/**
+	 * Test: The banner can be read, enabled, updated and disabled
+	 *
+	 * What this tests:
+	 * - GET returns the banner settings and whether it is displaying
+	 * - POST enables and updates the banner, keeping fields that are not sent
+	 * - Message HTML is filtered with wp_kses_post
+	 * - DELETE disables the banner without removing its content
+	 */
+	public function test_banner_can_be_read_updated_and_disabled() {
+		wp_set_current_user( $this->factory->user->create( array( 'role' => 'administrator' ) ) );
+		update_option( 'dswp_notification_banner_color', 'var(--dswp-icons-color-info)' );
+
+		$data = rest_do_request( new \WP_REST_Request( 'GET', '/dswp/v1/banner' ) )->get_data();
+		$this->assertFalse( $data['enabled'], 'Banner should be disabled by default' );
+		$this->assertSame( 'disabled', $data['status'], 'Status should be disabled' );
+
+		$request = new \WP_REST_Request( 'POST', '/dswp/v1/banner' );
+		$request->set_body_params(
+			array(
+				'enabled' => true,
+				'message' => '<strong>Outage</strong><script>alert(1)</script>',
+				'color'   => 'var(--dswp-icons-color-danger)',
+			)
+		);
+		$data = rest_do_request( $request )->get_data();
+
+		$this->assertTrue( $data['enabled'], 'Banner should be enabled' );
+		$this->assertSame( 'active', $data['status'], 'Enabled banner should be active' );
+		$this->assertSame( '<strong>Outage</strong>alert(1)', $data['message'], 'Message should be filtered with wp_kses_post' );
+		$this->assertSame( 'var(--dswp-icons-color-danger)', get_option( 'dswp_notification_banner_color' ), 'Color should be saved' );
+
+		$request = new \WP_REST_Request( 'PATCH', '/dswp/v1/banner' );
+		$request->set_body_params( array( 'end' => '2999-01-01T00:00' ) );
+		$data = rest_do_request( $request )->get_data();
+		$this->assertSame( '2999-01-01T00:00', $data['end'], 'End should be saved' );
+		$this->assertSame( '<strong>Outage</strong>alert(1)', $data['message'], 'Fields not sent should keep their value' );
+
+		$data = rest_do_request( new \WP_REST_Request( 'DELETE', '/dswp/v1/banner' ) )->get_data();
+		$this->assertFalse( $data['enabled'], 'DELETE should disable the banner' );
+		$this->assertSame( '<strong>Outage</strong>alert(1)', get_option( 'dswp_notification_banner_notification' ), 'DELETE should keep the message' );
+	}
+
+	/**
+	 * Test: Invalid values are rejected
+	 *
+	 * What this tests:
+	 * - Colors outside the banner palette are rejected, as sanitize_banner_color would not keep them
+	 * - Badly formatted and out of range schedule times are rejected
+	 * - Schedules that end before they start are rejected, including against a saved start
+	 * - Invalid positions are rejected
+	 * - Rejected requests do not change the banner
+	 */
+	public function test_invalid_values_are_rejected() {
+		wp_set_current_user( $this->factory->user->create( array( 'role' => 'administrator' ) ) );
+		update_option( 'dswp_notification_banner_color', 'var(--dswp-icons-color-info)' );
+		update_option( 'dswp_notification_banner_start', '2030-06-01T12:00' );
+
+		$invalid = array(
+			array( 'color' => 'red" onmouseover="alert(1)' ),
+			array( 'start' => 'next tuesday' ),
+			array( 'end' => '2030-02-30T10:00' ),
+			array( 'end' => '2030-06-01T09:00' ),
+			array(
+				'end'   => '2030-07-01T10:00',
+				'start' => '2030-07-01T10:00',
+			),
+			array( 'position' => 'middle' ),
+			array( 'enabled' => 'sometimes' ),
+		);
+
+		foreach ( $invalid as $params ) {
+			$request = new \WP_REST_Request( 'POST', '/dswp/v1/banner' );
+			$request->set_body_params( $params );
+			$response = rest_do_request( $request );
+
+			$this->assertSame( 400, $response->get_status(), 'Invalid ' . key( $params ) . ' should be rejected' );
+		}
+
+		$this->assertSame( 'var(--dswp-icons-color-info)', get_option( 'dswp_notification_banner_color' ), 'Rejected requests should not change the banner' );
+		$this->assertSame( '2030-06-01T12:00', get_option( 'dswp_notification_banner_start' ), 'Rejected schedules should not be saved' );
+		$this->assertFalse( get_option( 'dswp_notification_banner_end' ), 'Rejected schedules should not be saved' );
+	}
+}
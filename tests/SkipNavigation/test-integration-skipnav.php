@@ -241,7 +241,8 @@ class SkipNavigationTest extends \WP_UnitTestCase {
 		$this->assertStringContainsString( 'id="main-navigation"', $modified_content, 'Main navigation ID should be added to navigation block' );
 		$this->assertStringContainsString( '<nav id="main-navigation"', $modified_content, 'ID should be added to nav tag' );
 
-		// Test with existing attributes.
+		// Test with existing attributes, on a new page as only the first navigation block gets the ID.
+		$skip_nav          = new SkipNavigation();
 		$block_content2    = '<nav class="wp-block-navigation" aria-label="Main"><ul><li>Item</li></ul></nav>';
 		$modified_content2 = $skip_nav->modify_block_render( $block_content2, $block );
 
@@ -420,13 +421,13 @@ class SkipNavigationTest extends \WP_UnitTestCase {
 	}
 
 	/**
-	 * Test: Multiple navigation blocks all get main-navigation ID
+	 * Test: Only the first of several navigation blocks gets the main-navigation ID
 	 *
 	 * What this tests:
-	 * - All navigation blocks get the ID (unlike main-content which is only first)
-	 * - Multiple navigation blocks can exist
+	 * - The first navigation block gets the ID, so IDs stay unique
+	 * - Every navigation block is marked as a skip target, so the script can pick the visible one
 	 */
-	public function test_multiple_navigation_blocks_all_get_main_navigation_id() {
+	public function test_multiple_navigation_blocks_are_all_skip_targets() {
 		// Create a SkipNavigation instance.
 		$skip_nav = new SkipNavigation();
 
@@ -442,8 +443,58 @@ class SkipNavigationTest extends \WP_UnitTestCase {
 		$block_content2 = '<nav class="wp-block-navigation"><ul><li>Item 2</li></ul></nav>';
 		$modified2      = $skip_nav->modify_block_render( $block_content2, $block1 );
 
-		// Both should have the ID.
+		// Only the first should have the ID, and both should be skip targets.
 		$this->assertStringContainsString( 'id="main-navigation"', $modified1, 'First navigation block should have main-navigation ID' );
-		$this->assertStringContainsString( 'id="main-navigation"', $modified2, 'Second navigation block should also have main-navigation ID' );
+		$this->assertStringNotContainsString( 'id="main-navigation"', $modified2, 'Second navigation block should not repeat the ID' );
+		$this->assertStringContainsString( 'data-dswp-skip-nav-target', $modified1, 'First navigation block should be a skip target' );
+		$this->assertStringContainsString( 'data-dswp-skip-nav-target', $modified2, 'Second navigation block should be a skip target' );
+	}
+
+	/**
+	 * Test: The plugin's Navigation block is a skip target
+	 *
+	 * What this tests:
+	 * - design-system-wordpress-plugin/navigation gets id="main-navigation"
+	 * - Only the nav tag is changed, not nested markup
+	 */
+	public function test_plugin_navigation_block_gets_main_navigation_id() {
+		// Create a SkipNavigation instance.
+		$skip_nav = new SkipNavigation();
+
+		// Simulate the plugin's navigation block.
+		$block_content = '<nav class="wp-block-design-system-wordpress-plugin-navigation"><button class="dswp-nav-mobile-toggle-icon" aria-expanded="false"></button><ul class="dswp-block-navigation__container"></ul></nav>';
+		$block         = array(
+			'blockName' => 'design-system-wordpress-plugin/navigation',
+		);
+
+		// Call the method directly to avoid WordPress core hooks that require WP_Block instance.
+		$modified_content = $skip_nav->modify_block_render( $block_content, $block );
+
+		$this->assertStringContainsString( '<nav id="main-navigation" data-dswp-skip-nav-target class="wp-block-design-system-wordpress-plugin-navigation">', $modified_content, 'Plugin navigation block should get the ID' );
+		$this->assertStringContainsString( '<button class="dswp-nav-mobile-toggle-icon"', $modified_content, 'The toggle should be unchanged' );
+	}
+
+	/**
+	 * Test: An existing ID on the first navigation block is kept and linked to
+	 *
+	 * What this tests:
+	 * - The nav tag does not get a second id attribute
+	 * - The main navigation link goes to the existing ID
+	 */
+	public function test_existing_navigation_id_is_kept() {
+		// Create a SkipNavigation instance.
+		$skip_nav = new SkipNavigation();
+
+		// Simulate a navigation block with an HTML anchor.
+		$block_content = '<nav id="site-menu" class="wp-block-navigation"><ul><li>Item</li></ul></nav>';
+		$block         = array(
+			'blockName' => 'core/navigation',
+		);
+
+		// Call the method directly to avoid WordPress core hooks that require WP_Block instance.
+		$modified_content = $skip_nav->modify_block_render( $block_content, $block );
+
+		$this->assertSame( '<nav data-dswp-skip-nav-target id="site-menu" class="wp-block-navigation"><ul><li>Item</li></ul></nav>', $modified_content, 'The existing ID should be kept' );
+		$this->assertContains( '#site-menu', array_column( $skip_nav->get_links(), 'href' ), 'The link should go to the existing ID' );
 	}
 }
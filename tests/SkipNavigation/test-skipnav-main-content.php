@@ -0,0 +1,152 @@
+<?php
+/**
+ * SkipNavigation Main Content Tests
+ *
+ * Tests for finding the main content the "Skip to main content" link goes to:
+ * - A <main> element is preferred to the post content inside it
+ * - Existing IDs are kept, and the link goes to them
+ * - Header and footer template parts are never the main content
+ * - The ID is never added twice
+ *
+ * Blocks are passed to modify_block_render() in the order WordPress renders
+ * them: inner blocks first, then the blocks around them with the inner HTML.
+ *
+ * @package DesignSystemWordPressPlugin
+ * @subpackage Tests
+ */
+
+namespace DesignSystemWordPressPlugin\Tests\SkipNavigation;
+
+use Bcgov\DesignSystemPlugin\SkipNavigation;
+
+/**
+ * SkipNavigation Main Content Test Class
+ *
+ * @package DesignSystemWordPressPlugin\Tests\SkipNavigation
+ */
+class SkipNavigationMainContentTest extends \WP_UnitTestCase {
+
+	/**
+	 * Instance of SkipNavigation for testing.
+	 *
+	 * @var SkipNavigation
+	 */
+	private $skip_nav;
+
+	/**
+	 * Set up the test fixture.
+	 *
+	 * @return void
+	 */
+	public function set_up() {
+		parent::set_up();
+		$this->skip_nav = new SkipNavigation();
+	}
+
+	/**
+	 * Render a block through modify_block_render().
+	 *
+	 * @param string $block_name Block name.
+	 * @param string $html       Block HTML.
+	 * @param array  $attrs      Block attributes.
+	 * @return string Modified HTML.
+	 */
+	private function render_block( $block_name, $html, $attrs = array() ) {
+		return $this->skip_nav->modify_block_render(
+			$html,
+			array(
+				'blockName' => $block_name,
+				'attrs'     => $attrs,
+			)
+		);
+	}
+
+	/**
+	 * Get the href of the "Skip to main content" link.
+	 *
+	 * @return string Link href.
+	 */
+	private function get_main_content_href() {
+		return $this->skip_nav->get_links()[0]['href'];
+	}
+
+	/**
+	 * Test: The ID moves from post content to the <main> element around it
+	 */
+	public function test_main_element_is_preferred_to_post_content_inside_it() {
+		$post_content = $this->render_block( 'core/post-content', '<div class="wp-block-post-content"><p>Content</p></div>' );
+		$this->assertStringContainsString( '<div id="main-content" class="wp-block-post-content">', $post_content, 'Post content should get the ID first' );
+
+		$group = $this->render_block( 'core/group', '<main class="wp-block-group">' . $post_content . '</main>', array( 'tagName' => 'main' ) );
+
+		$this->assertStringContainsString( '<main id="main-content" class="wp-block-group">', $group, 'The <main> element should get the ID' );
+		$this->assertEquals( 1, substr_count( $group, 'id="main-content"' ), 'The ID should not be duplicated' );
+		$this->assertSame( '#main-content', $this->get_main_content_href() );
+	}
+
+	/**
+	 * Test: An existing ID on the <main> element is kept and linked to
+	 */
+	public function test_existing_main_id_is_kept() {
+		$post_content = $this->render_block( 'core/post-content', '<div class="wp-block-post-content"><p>Content</p></div>' );
+		$group        = $this->render_block( 'core/group', '<main id="primary" class="wp-block-group">' . $post_content . '</main>', array( 'tagName' => 'main' ) );
+
+		$this->assertStringContainsString( '<main id="primary" class="wp-block-group">', $group, 'The existing ID should be kept' );
+		$this->assertStringNotContainsString( 'id="main-content"', $group, 'The ID should not be added' );
+		$this->assertSame( '#primary', $this->get_main_content_href(), 'The link should go to the existing ID' );
+	}
+
+	/**
+	 * Test: An existing ID on the post content is kept and linked to
+	 */
+	public function test_existing_post_content_id_is_kept() {
+		$post_content = $this->render_block( 'core/post-content', '<div id="content" class="wp-block-post-content"><p>Content</p></div>' );
+
+		$this->assertStringNotContainsString( 'id="main-content"', $post_content, 'The ID should not be added' );
+		$this->assertSame( '#content', $this->get_main_content_href(), 'The link should go to the existing ID' );
+	}
+
+	/**
+	 * Test: A template part with the main tag is the main content
+	 */
+	public function test_main_template_part_gets_id() {
+		$part = $this->render_block( 'core/template-part', '<main class="wp-block-template-part"><p>Content</p></main>', array( 'tagName' => 'main' ) );
+
+		$this->assertStringContainsString( '<main id="main-content" class="wp-block-template-part">', $part );
+	}
+
+	/**
+	 * Test: Header and footer template parts are not the main content
+	 */
+	public function test_header_template_part_is_not_main_content() {
+		$group  = $this->render_block( 'core/group', '<main class="wp-block-group"><p>Menu</p></main>', array( 'tagName' => 'main' ) );
+		$header = $this->render_block( 'core/template-part', '<header class="wp-block-template-part">' . $group . '</header>', array( 'slug' => 'header' ) );
+
+		$this->assertStringNotContainsString( 'id="main-content"', $header, 'The ID should be removed from the header' );
+
+		$post_content = $this->render_block( 'core/post-content', '<div class="wp-block-post-content"><p>Content</p></div>' );
+
+		$this->assertStringContainsString( 'id="main-content"', $post_content, 'Content after the header should get the ID' );
+	}
+
+	/**
+	 * Test: A <main> element elsewhere on the page does not duplicate the ID
+	 */
+	public function test_main_element_elsewhere_does_not_duplicate_id() {
+		$this->render_block( 'core/post-content', '<div class="wp-block-post-content"><p>Content</p></div>' );
+		$group = $this->render_block( 'core/group', '<main class="wp-block-group"><p>Other</p></main>', array( 'tagName' => 'main' ) );
+
+		$this->assertStringNotContainsString( 'id="main-content"', $group, 'The ID should stay on the post content' );
+	}
+
+	/**
+	 * Test: The link goes to #main-content when no main content was rendered
+	 *
+	 * What this tests:
+	 * - Classic themes render content after the skip links, so the default ID is used
+	 * - The script falls back to the <main> element or first heading if it is missing
+	 */
+	public function test_link_defaults_to_main_content_id() {
+		$this->assertSame( '#main-content', $this->get_main_content_href() );
+	}
+}
@@ -0,0 +1,233 @@
+<?php
+/**
+ * SkipNavigation Settings Tests
+ *
+ * Tests for the configurable skip links to ensure:
+ * - The defaults are output until the settings are saved
+ * - Saved links are output in order, with their labels and targets
+ * - Submitted rows are sanitized, sorted and removed
+ * - Saving the page leaves other settings pages' options alone
+ * - The accessibility statement URL and text can be changed or hidden
+ *
+ * @package DesignSystemWordPressPlugin
+ * @subpackage Tests
+ */
+
+namespace DesignSystemWordPressPlugin\Tests\SkipNavigation;
+
+use Bcgov\DesignSystemPlugin\NotificationBanner;
+use Bcgov\DesignSystemPlugin\SkipNavigation;
+
+/**
+ * SkipNavigation Settings Test Class
+ *
+ * @package DesignSystemWordPressPlugin\Tests\SkipNavigation
+ */
+class SkipNavigationSettingsTest extends \WP_UnitTestCase {
+
+	/**
+	 * Instance of SkipNavigation for testing.
+	 *
+	 * @var SkipNavigation
+	 */
+	private $skip_nav;
+
+	/**
+	 * Set up the test fixture.
+	 *
+	 * @return void
+	 */
+	public function set_up() {
+		parent::set_up();
+		$this->skip_nav = new SkipNavigation();
+	}
+
+	/**
+	 * Capture the skip navigation output.
+	 *
+	 * @return string Output.
+	 */
+	private function render() {
+		ob_start();
+		$this->skip_nav->add_skip_nav();
+		return ob_get_clean();
+	}
+
+	/**
+	 * Test: The default links are output until the settings are saved
+	 */
+	public function test_defaults_are_output_without_settings() {
+		$links = $this->skip_nav->get_links();
+
+		$this->assertSame( array( '#main-content', '#main-navigation', SkipNavigation::ACCESSIBILITY_STATEMENT_URL ), array_column( $links, 'href' ), 'Default links should be output in order' );
+		$this->assertSame( 'Skip to main content', $links[0]['label'] );
+	}
+
+	/**
+	 * Test: Saved links are output with their labels and targets
+	 */
+	public function test_saved_links_are_output() {
+		update_option(
+			SkipNavigation::LINKS_OPTION,
+			array(
+				array(
+					'label'  => 'Skip to search',
+					'target' => 'search',
+				),
+				array(
+					'label'  => 'Skip to footer',
+					'target' => 'footer',
+				),
+			)
+		);
+
+		$output = $this->render();
+
+		$this->assertStringContainsString( '<a class="dswp-skip-nav" href="#search">Skip to search</a>', $output, 'Saved links should be output' );
+		$this->assertStringNotContainsString( 'Skip to main content', $output, 'Removed defaults should not be output' );
+		$this->assertLessThan( strpos( $output, 'Skip to footer' ), strpos( $output, 'Skip to search' ), 'Links should keep their saved order' );
+		$this->assertEquals( 3, substr_count( $output, '<li aria-label' ), 'The accessibility statement should follow the saved links' );
+	}
+
+	/**
+	 * Test: Submitted rows are sanitized, sorted and removed
+	 */
+	public function test_sanitize_links() {
+		$links = $this->skip_nav->sanitize_links(
+			array(
+				array(
+					'label'  => 'Skip to main content',
+					'target' => '#main-content',
+					'order'  => '2',
+				),
+				array(
+					'label'  => 'Skip to search',
+					'target' => 'search',
+					'order'  => '1',
+				),
+				array(
+					'label'  => 'Skip to main navigation',
+					'target' => 'main-navigation',
+					'order'  => '3',
+					'remove' => '1',
+				),
+				array(
+					'label'  => '<b>Skip to footer</b>',
+					'target' => 'site footer"',
+					'order'  => '4',
+				),
+				array(
+					'label'  => '',
+					'target' => '',
+					'order'  => '5',
+				),
+			)
+		);
+
+		$this->assertSame(
+			array(
+				array(
+					'label'  => 'Skip to search',
+					'target' => 'search',
+				),
+				array(
+					'label'  => 'Skip to main content',
+					'target' => 'main-content',
+				),
+				array(
+					'label'  => 'Skip to footer',
+					'target' => 'sitefooter',
+				),
+			),
+			$links,
+			'Rows should be sorted, removed rows and empty rows dropped, and values sanitized'
+		);
+	}
+
+	/**
+	 * Test: Saving the Skip Navigation page leaves other pages' settings alone
+	 *
+	 * What this tests:
+	 * - The skip link settings have their own group
+	 * - options.php saves null for options in the group missing from the form,
+	 *   so options in other groups must not be touched
+	 */
+	public function test_saving_page_keeps_other_settings() {
+		global $new_allowed_options;
+
+		( new NotificationBanner() )->register_settings();
+		$this->skip_nav->register_settings();
+		update_option( 'dswp_notification_banner_position', 'bottom' );
+
+		// Save the skip links the way options.php does.
+		$submitted = array(
+			SkipNavigation::LINKS_OPTION => array(
+				array(
+					'label'  => 'Skip to search',
+					'target' => 'search',
+					'order'  => '1',
+				),
+			),
+		);
+		foreach ( array_unique( $new_allowed_options[ SkipNavigation::OPTION_GROUP ] ) as $option ) {
+			update_option( $option, $submitted[ $option ] ?? null );
+		}
+
+		$this->assertNotContains( SkipNavigation::LINKS_OPTION, $new_allowed_options['dswp_options_group'], 'The skip links should not be in the shared group' );
+		$this->assertSame( 'search', get_option( SkipNavigation::LINKS_OPTION )[0]['target'], 'The skip links should be saved' );
+		$this->assertSame( 'bottom', get_option( 'dswp_notification_banner_position' ), 'The banner settings should not change' );
+	}
+
+	/**
+	 * Test: The accessibility statement URL and text can be changed or hidden
+	 */
+	public function test_accessibility_statement_can_be_changed() {
+		update_option( SkipNavigation::STATEMENT_URL_OPTION, 'https://example.com/accessibility' );
+		update_option( SkipNavigation::STATEMENT_LABEL_OPTION, 'Accessibility' );
+
+		$this->assertStringContainsString( '<a class="dswp-skip-nav" href="https://example.com/accessibility">Accessibility</a>', $this->render(), 'The statement URL and text should be overridable' );
+
+		update_option( SkipNavigation::STATEMENT_URL_OPTION, '' );
+
+		$this->assertStringNotContainsString( 'https://example.com/accessibility', $this->render(), 'An empty URL should hide the statement link' );
+	}
+
+	/**
+	 * Test: The links can be filtered, e.g. to translate saved labels
+	 */
+	public function test_links_can_be_filtered() {
+		add_filter(
+			'dswp_skip_nav_links',
+			function ( $links ) {
+				$links[0]['label'] = 'Passer au contenu principal';
+				return $links;
+			}
+		);
+
+		$this->assertStringContainsString( '>Passer au contenu principal</a>', $this->render(), 'Filtered labels should be output' );
+	}
+
+	/**
+	 * Test: Nothing is output when there are no links
+	 */
+	public function test_nothing_is_output_without_links() {
+		update_option( SkipNavigation::LINKS_OPTION, array() );
+		update_option( SkipNavigation::STATEMENT_URL_OPTION, '' );
+
+		$this->assertSame( '', $this->render(), 'An empty list should not be output' );
+	}
+
+	/**
+	 * Clean up after each test.
+	 *
+	 * @return void
+	 */
+	public function tear_down() {
+		delete_option( SkipNavigation::LINKS_OPTION );
+		delete_option( SkipNavigation::STATEMENT_URL_OPTION );
+		delete_option( SkipNavigation::STATEMENT_LABEL_OPTION );
+		delete_option( 'dswp_notification_banner_position' );
+		remove_all_filters( 'dswp_skip_nav_links' );
+		parent::tear_down();
+	}
+}
@@ -140,13 +140,13 @@ test.describe( 'InPageNav', () => {
 
 			// Click navigation.
 			await preview.getByRole( 'link', { name: 'Heading 1' } ).click();
-			await expect( preview.url() ).toContain( '#section-heading-1-0' );
+			await expect( preview.url() ).toContain( '#section-heading-1' );
 
 			await preview.getByRole( 'link', { name: 'Heading 2' } ).click();
-			await expect( preview.url() ).toContain( '#section-heading-2-1' );
+			await expect( preview.url() ).toContain( '#section-heading-2' );
 
 			await preview.getByRole( 'link', { name: 'Heading 3' } ).click();
-			await expect( preview.url() ).toContain( '#section-heading-3-2' );
+			await expect( preview.url() ).toContain( '#section-heading-3' );
 
 			// Keyboard navigation.
 			await preview
@@ -154,15 +154,65 @@ test.describe( 'InPageNav', () => {
 				.click();
 			await preview.keyboard.press( 'Tab' );
 			await preview.keyboard.press( 'Enter' );
-			await expect( preview.url() ).toContain( '#section-heading-1-0' );
+			await expect( preview.url() ).toContain( '#section-heading-1' );
 
 			await preview.keyboard.press( 'Tab' );
 			await preview.keyboard.press( 'Enter' );
-			await expect( preview.url() ).toContain( '#section-heading-2-1' );
+			await expect( preview.url() ).toContain( '#section-heading-2' );
 
 			await preview.keyboard.press( 'Tab' );
 			await preview.keyboard.press( 'Enter' );
-			await expect( preview.url() ).toContain( '#section-heading-3-2' );
+			await expect( preview.url() ).toContain( '#section-heading-3' );
+		} );
+
+		test( 'should mark the section being read as current and show progress', async ( {
+			editor,
+		} ) => {
+			const filler = `
+                <!-- wp:spacer {"height":"1200px"} -->
+                <div style="height:1200px" aria-hidden="true" class="wp-block-spacer"></div>
+                <!-- /wp:spacer -->
+            `;
+			await editor.setContent( `
+                <!-- wp:heading -->
+                <h2 class="wp-block-heading">Heading 1</h2>
+                <!-- /wp:heading -->
+                ${ filler }
+                <!-- wp:heading -->
+                <h2 class="wp-block-heading">Heading 2</h2>
+                <!-- /wp:heading -->
+                ${ filler }
+            ` );
+			await closeChoosePatternModal( editor );
+			const preview = await getPreviewPage( editor );
+			const nav = preview.getByRole( 'navigation', {
+				name: 'On this page',
+			} );
+
+			await expect(
+				nav.getByRole( 'link', { name: 'Heading 1' } )
+			).toHaveAttribute( 'aria-current', 'true' );
+
+			await preview
+				.getByRole( 'heading', { name: 'Heading 2' } )
+				.evaluate( ( heading ) =>
+					heading.scrollIntoView( { block: 'start' } )
+				);
+
+			await expect(
+				nav.getByRole( 'link', { name: 'Heading 2' } )
+			).toHaveAttribute( 'aria-current', 'true' );
+			await expect(
+				nav.getByRole( 'link', { name: 'Heading 1' } )
+			).toHaveAttribute( 'aria-current', 'false' );
+
+			const progress = nav.getByRole( 'progressbar', {
+				name: 'Reading progress',
+			} );
+			await expect( progress ).not.toHaveAttribute(
+				'aria-valuenow',
+				'0'
+			);
 		} );
 
 		test( 'should prevent duplicate ids with same heading names', async ( {
@@ -189,10 +239,7 @@ test.describe( 'InPageNav', () => {
 			const preview = await getPreviewPage( editor );
 
 			await expect(
-				preview.locator( '#section-duplicate-heading-0' )
-			).toHaveCount( 1 );
-			await expect(
-				preview.locator( '#section-duplicate-heading-1' )
+				preview.locator( '#section-duplicate-heading' )
 			).toHaveCount( 1 );
 			await expect(
 				preview.locator( '#section-duplicate-heading-2' )
@@ -200,6 +247,9 @@ test.describe( 'InPageNav', () => {
 			await expect(
 				preview.locator( '#section-duplicate-heading-3' )
 			).toHaveCount( 1 );
+			await expect(
+				preview.locator( '#section-duplicate-heading-4' )
+			).toHaveCount( 1 );
 		} );
 
 		test( 'should not overwrite existing ids', async ( { editor } ) => {
@@ -217,16 +267,13 @@ test.describe( 'InPageNav', () => {
 
 			await expect(
 				preview.getByRole( 'heading', { name: 'Heading 1' } )
-			).toHaveId( 'section-heading-1-0' );
+			).toHaveId( 'section-heading-1' );
 			await expect(
 				preview.getByRole( 'heading', { name: 'Heading 2' } )
 			).toHaveId( 'existing-id' );
 		} );
 
-		/**
-		 * @todo Fix special character handling so that, for example é -> e in the id.
-		 */
-		test( 'should replace special characters in ids', async ( {
+		test( 'should transliterate special characters in ids', async ( {
 			editor,
 		} ) => {
 			await editor.setContent( `
@@ -241,7 +288,77 @@ test.describe( 'InPageNav', () => {
 				preview.getByRole( 'heading', {
 					name: 'Québec & Māori – Intro/',
 				} )
-			).toHaveId( 'section-qu-bec-m-ori-intro-overview-0' );
+			).toHaveId( 'section-quebec-maori-intro-overview' );
+		} );
+
+		test( 'should save heading anchors to the blocks', async ( {
+			editor,
+		} ) => {
+			await editor.setContent( `
+                <!-- wp:heading -->
+                <h2 class="wp-block-heading">Heading 1</h2>
+                <!-- /wp:heading -->
+
+                <!-- wp:heading {"anchor":"custom-anchor"} -->
+                <h2 class="wp-block-heading" id="custom-anchor">Heading 2</h2>
+                <!-- /wp:heading -->
+            ` );
+			await closeChoosePatternModal( editor );
+			await editor.saveDraft();
+
+			const blocks = await editor.getBlocks();
+			expect(
+				blocks.map( ( block ) => block.attributes.anchor )
+			).toEqual( [ 'section-heading-1', 'custom-anchor' ] );
+		} );
+
+		test( 'should keep ids stable when headings are added and reordered', async ( {
+			editor,
+		} ) => {
+			await editor.setContent( `
+                <!-- wp:heading -->
+                <h2 class="wp-block-heading">Alpha</h2>
+                <!-- /wp:heading -->
+
+                <!-- wp:heading -->
+                <h2 class="wp-block-heading">Beta</h2>
+                <!-- /wp:heading -->
+            ` );
+			await closeChoosePatternModal( editor );
+			await editor.saveDraft();
+
+			// Add a heading with the same text above the others, then move
+			// "Alpha" to the end.
+			await editor.insertBlock(
+				{
+					name: 'core/heading',
+					attributes: { content: 'Beta' },
+				},
+				{ index: 0 }
+			);
+			await editor.page.evaluate( () => {
+				const { select, dispatch } = ( window as any ).wp.data;
+				const [ , alpha ] = select( 'core/block-editor' ).getBlocks();
+				dispatch( 'core/block-editor' ).moveBlockToPosition(
+					alpha.clientId,
+					'',
+					'',
+					2
+				);
+			} );
+			await editor.saveDraft();
+
+			const preview = await getPreviewPage( editor );
+
+			await expect(
+				preview.getByRole( 'heading', { name: 'Alpha' } )
+			).toHaveId( 'section-alpha' );
+			await expect(
+				preview.getByRole( 'heading', { name: 'Beta' } ).first()
+			).toHaveId( 'section-beta-2' );
+			await expect(
+				preview.getByRole( 'heading', { name: 'Beta' } ).last()
+			).toHaveId( 'section-beta' );
 		} );
 	} );
 
@@ -5,6 +5,8 @@ import {
 	RequestUtils,
 } from '@wordpress/e2e-test-utils-playwright';
 import { closeChoosePatternModal } from '../helpers';
+// Declares `window.dswpNavigation`.
+import type {} from '../../../Blocks/src/Navigation/types';
 
 /**
  * Navigation Block E2E Tests
@@ -461,6 +463,88 @@ test.describe( 'Navigation', () => {
 		} );
 	} );
 
+	test.describe( 'JavaScript API', () => {
+		test( 'Controller is exposed and open/close dispatch events', async ( {
+			editor,
+		} ) => {
+			await insertNavigationBlock( editor, simpleMenuId );
+			await setOverlayMode( editor, 'mobile' );
+			await setNavigationSetting( editor, 'Show in Mobile', true );
+
+			const preview = await editor.openPreviewPage();
+			await preview.setViewportSize( VIEWPORT_SIZES.MOBILE );
+
+			const menuContainer = preview.locator(
+				'.wp-block-design-system-wordpress-plugin-navigation .dswp-block-navigation__container'
+			);
+
+			// Record navigation events fired on the document.
+			const events = await preview.evaluateHandle( () => {
+				const names: string[] = [];
+				[ 'dswp:nav:open', 'dswp:nav:close' ].forEach( ( name ) =>
+					document.addEventListener( name, () => names.push( name ) )
+				);
+				return names;
+			} );
+
+			// Open and close through the controller.
+			await preview.evaluate(
+				() => window.dswpNavigation?.getAll()[ 0 ].open()
+			);
+			await expect( menuContainer ).toBeVisible();
+			await expect( menuContainer ).toHaveClass( /is-menu-open/ );
+
+			await preview.evaluate(
+				() => window.dswpNavigation?.getAll()[ 0 ].close()
+			);
+			await expect( menuContainer ).not.toBeVisible();
+
+			expect( await events.jsonValue() ).toEqual( [
+				'dswp:nav:open',
+				'dswp:nav:close',
+			] );
+		} );
+
+		test( 'Submenu toggle dispatches dswp:nav:submenu-toggle', async ( {
+			editor,
+		} ) => {
+			await insertNavigationBlock( editor, submenuMenuId );
+			await setOverlayMode( editor, 'never' );
+			await setNavigationVisibilityBothDesktopAndMobile( editor );
+
+			const preview = await editor.openPreviewPage();
+			await preview.setViewportSize( VIEWPORT_SIZES.DESKTOP );
+
+			const nav = preview.locator(
+				'.wp-block-design-system-wordpress-plugin-navigation'
+			);
+			const { container } = await findSubmenuContainer( nav, 'Services' );
+
+			const detail = preview.evaluate(
+				() =>
+					new Promise( ( resolve ) => {
+						document.addEventListener(
+							'dswp:nav:submenu-toggle',
+							( event ) => {
+								const { open, level } = ( event as CustomEvent )
+									.detail;
+								resolve( { open, level } );
+							},
+							{ once: true }
+						);
+					} )
+			);
+
+			await nav
+				.locator( '.wp-block-navigation-submenu .dswp-submenu-toggle' )
+				.first()
+				.press( 'Enter' );
+
+			await expect( container ).toBeVisible();
+			expect( await detail ).toEqual( { open: true, level: 1 } );
+		} );
+	} );
+
 	test.describe( 'Submenus', () => {
 		test( 'Desktop: Submenus open on hover and close when pointer leaves', async ( {
 			editor,
@@ -602,6 +686,53 @@ test.describe( 'Navigation', () => {
 			).toBeVisible();
 		} );
 
+		test( 'Mega menu: top-level submenu opens as a full-width panel with column headings', async ( {
+			editor,
+		} ) => {
+			await insertNavigationBlock( editor, multiLevelMenuId );
+			await setOverlayMode( editor, 'never' );
+			await setSubmenuLayout( editor, 'mega' );
+
+			const preview = await editor.openPreviewPage();
+			await preview.setViewportSize( VIEWPORT_SIZES.DESKTOP );
+
+			const nav = preview.locator(
+				'.wp-block-design-system-wordpress-plugin-navigation'
+			);
+			const panel = nav.locator( '.dswp-mega-menu__panel' ).first();
+
+			await expect( nav ).toHaveClass(
+				/dswp-block-navigation-has-mega-menu/
+			);
+
+			// Open the panel with the keyboard.
+			await nav
+				.locator( '.dswp-mega-menu > .dswp-submenu-toggle' )
+				.first()
+				.press( 'Enter' );
+			await expect( panel ).toBeVisible();
+
+			// Second-level items are column headings and third-level items are
+			// shown without hovering.
+			await expect(
+				panel.locator( '.dswp-mega-menu__heading' )
+			).toHaveText( [ 'Category 1', 'Category 2' ] );
+			await expect(
+				nav.getByRole( 'link', { name: 'Subcategory A' } )
+			).toBeVisible();
+
+			// Panel spans the width of the menu.
+			const panelBox = await panel.boundingBox();
+			const menuBox = await nav
+				.locator( '.dswp-block-navigation__container' )
+				.boundingBox();
+			expect( panelBox?.width ).toBeCloseTo( menuBox?.width ?? 0, 0 );
+
+			// Escape closes the panel.
+			await preview.keyboard.press( 'Escape' );
+			await expect( panel ).not.toBeVisible();
+		} );
+
 		test( 'Submenus remain within viewport boundaries', async ( {
 			editor,
 		} ) => {
@@ -1746,6 +1877,24 @@ async function setNavigationVisibilityBothDesktopAndMobile(
 	);
 }
 
+/**
+ * Set the Submenu Layout of the selected Navigation block
+ * @param editor
+ * @param layout
+ */
+async function setSubmenuLayout(
+	editor: Editor,
+	layout: 'flyout' | 'mega'
+): Promise< void > {
+	await editor.openDocumentSettingsSidebar();
+
+	const select = editor.page.getByRole( 'combobox', {
+		name: /Submenu Layout/i,
+	} );
+	await select.selectOption( layout );
+	await expect( select ).toHaveValue( layout );
+}
+
 /**
  * Helper function to set Navigation block mobile breakpoint
  *
@@ -8,14 +8,13 @@ test.describe( 'NotificationBanner', () => {
 
 	const BANNER_COLORS: Array< {
 		name: string;
-		cssVar: string | null;
-		literalValue?: string;
+		severity: string;
 	} > = [
-		{ name: 'Warning', cssVar: '--dswp-icons-color-warning' },
-		{ name: 'Danger', cssVar: '--dswp-icons-color-danger' },
-		{ name: 'Success', cssVar: '--dswp-icons-color-success' },
-		{ name: 'Info', cssVar: '--dswp-icons-color-info' },
-		{ name: 'Black', cssVar: null, literalValue: '#2d2d2d' },
+		{ name: 'Warning', severity: 'warning' },
+		{ name: 'Danger', severity: 'danger' },
+		{ name: 'Success', severity: 'success' },
+		{ name: 'Info', severity: 'info' },
+		{ name: 'Black', severity: 'neutral' },
 	];
 
 	const SELECTORS = {
@@ -25,6 +24,11 @@ test.describe( 'NotificationBanner', () => {
 		disableRadio: { role: 'radio' as const, name: 'Disable' },
 		contentTextarea: { role: 'textbox' as const },
 		saveButton: { role: 'button' as const, name: 'Save Settings' },
+		dismissibleCheckbox: {
+			role: 'checkbox' as const,
+			name: 'Let visitors close the banner',
+		},
+		dismissButton: { role: 'button' as const, name: 'Close notification' },
 	};
 
 	const MESSAGES = {
@@ -67,6 +71,14 @@ test.describe( 'NotificationBanner', () => {
 		await page.getByRole( 'radio', { name: colorName } ).check();
 	}
 
+	async function setDismissible( page: Page, dismissible: boolean ) {
+		await page
+			.getByRole( SELECTORS.dismissibleCheckbox.role, {
+				name: SELECTORS.dismissibleCheckbox.name,
+			} )
+			.setChecked( dismissible );
+	}
+
 	async function fillContent( page: Page, content: string ) {
 		await page.getByRole( SELECTORS.contentTextarea.role ).fill( content );
 	}
@@ -88,18 +100,16 @@ test.describe( 'NotificationBanner', () => {
 		await expect( banner ).toHaveCount( 0 );
 	}
 
-	function getBackgroundColorRegex(
+	function getSeverityClassRegex(
 		color: ( typeof BANNER_COLORS )[ 0 ]
 	): RegExp {
-		if ( color.literalValue ) {
-			return new RegExp(
-				`background-color:\\s*${ color.literalValue.replace(
-					/[.*+?^${}()|[\]\\]/g,
-					'\\$&'
-				) }`
-			);
-		}
-		return new RegExp( `background-color:\\s*var\\(${ color.cssVar }\\)` );
+		return new RegExp(
+			`\\bdswp-notification-banner--${ color.severity }\\b`
+		);
+	}
+
+	async function selectPosition( page: Page, position: string ) {
+		await page.getByRole( 'radio', { name: position } ).check();
 	}
 
 	// =====================
@@ -147,9 +157,8 @@ test.describe( 'NotificationBanner', () => {
 				frontend.locator( `text=${ MESSAGES.testMessage }` )
 			).toBeVisible();
 			const banner = await assertBannerVisible( frontend );
-			await expect( banner ).toHaveAttribute(
-				'style',
-				getBackgroundColorRegex( BANNER_COLORS[ 0 ] )
+			await expect( banner ).toHaveClass(
+				getSeverityClassRegex( BANNER_COLORS[ 0 ] )
 			);
 			await frontend.close();
 		} );
@@ -170,14 +179,112 @@ test.describe( 'NotificationBanner', () => {
 				frontend.locator( `text=${ message }` )
 			).toBeVisible();
 			const banner = await assertBannerVisible( frontend );
-			await expect( banner ).toHaveAttribute(
-				'style',
-				getBackgroundColorRegex( color )
+			await expect( banner ).toHaveClass(
+				getSeverityClassRegex( color )
 			);
 			await frontend.close();
 		}
 	} );
 
+	test.describe( 'Accessibility and position', () => {
+		test.afterEach( async ( { admin, page } ) => {
+			await admin.visitAdminPage(
+				'admin.php?page=dswp-notification-menu'
+			);
+			await selectPosition( page, 'Top of the page' );
+			await saveSettingsAndWait( page );
+		} );
+
+		test( 'Banner should be a labelled region after the skip links', async ( {
+			page,
+		} ) => {
+			await enableBanner( page );
+			await selectColor( page, 'Danger' );
+			await fillContent( page, MESSAGES.testMessage );
+			await saveSettingsAndWait( page );
+
+			const frontend = await visitFrontend( page );
+			const banner = frontend.getByRole( 'region', {
+				name: 'Important notification',
+			} );
+			await expect( banner ).toContainText( MESSAGES.testMessage );
+			await expect( banner ).toHaveAttribute( 'aria-live', 'polite' );
+			await expect(
+				banner.locator( '.dswp-notification-banner__icon svg' )
+			).toBeVisible();
+
+			// The banner is in the body and follows the skip links.
+			const followsSkipLinks = await frontend.evaluate( () => {
+				const skipLinks = document.querySelector(
+					'.dswp-skip-nav-list'
+				);
+				const region = document.querySelector(
+					'#dswp-notification-banner'
+				);
+				// querySelectorAll() returns matches in document order.
+				const elements = Array.from(
+					document.querySelectorAll(
+						'.dswp-skip-nav-list, #dswp-notification-banner'
+					)
+				);
+				return (
+					!! skipLinks &&
+					!! region &&
+					region.closest( 'body' ) !== null &&
+					elements.indexOf( skipLinks ) < elements.indexOf( region )
+				);
+			} );
+			expect( followsSkipLinks ).toBe( true );
+			await frontend.close();
+		} );
+
+		test( 'Banner should stay in view when sticky', async ( { page } ) => {
+			await enableBanner( page );
+			await fillContent( page, MESSAGES.testMessage );
+			await selectPosition( page, 'Sticky' );
+			await saveSettingsAndWait( page );
+
+			const frontend = await visitFrontend( page );
+			const banners = frontend.locator( '.dswp-notification-banners' );
+			await expect( banners ).toHaveClass( /is-position-sticky/ );
+			await expect( banners ).toHaveCSS( 'position', 'sticky' );
+			await frontend.close();
+		} );
+
+		test( 'Banner should render at the end of the body when at the bottom', async ( {
+			page,
+		} ) => {
+			await enableBanner( page );
+			await fillContent( page, MESSAGES.testMessage );
+			await selectPosition( page, 'Bottom of the page' );
+			await saveSettingsAndWait( page );
+
+			const frontend = await visitFrontend( page );
+			await expect(
+				frontend.locator( '.dswp-notification-banners' )
+			).toHaveClass( /is-position-bottom/ );
+			const isAfterContent = await frontend.evaluate( () => {
+				const main = document.querySelector( 'main' );
+				const region = document.querySelector(
+					'#dswp-notification-banner'
+				);
+				// querySelectorAll() returns matches in document order.
+				const elements = Array.from(
+					document.querySelectorAll(
+						'main, #dswp-notification-banner'
+					)
+				);
+				return (
+					!! main &&
+					!! region &&
+					elements.indexOf( main ) < elements.indexOf( region )
+				);
+			} );
+			expect( isAfterContent ).toBe( true );
+			await frontend.close();
+		} );
+	} );
+
 	test.describe( 'Admin Preview', () => {
 		test( 'Preview should be displayed even if banner is disabled', async ( {
 			page,
@@ -235,4 +342,88 @@ test.describe( 'NotificationBanner', () => {
 			await frontend.close();
 		} );
 	} );
+
+	test.describe( 'Dismiss', () => {
+		test.afterEach( async ( { admin, page } ) => {
+			await admin.visitAdminPage(
+				'admin.php?page=dswp-notification-menu'
+			);
+			await setDismissible( page, false );
+			await saveSettingsAndWait( page );
+		} );
+
+		test( 'should not show a close button unless dismissible', async ( {
+			page,
+		} ) => {
+			await enableBanner( page );
+			await fillContent( page, MESSAGES.testMessage );
+			await setDismissible( page, false );
+			await saveSettingsAndWait( page );
+
+			const frontend = await visitFrontend( page );
+			await assertBannerVisible( frontend );
+			await expect(
+				frontend.getByRole( SELECTORS.dismissButton.role, {
+					name: SELECTORS.dismissButton.name,
+				} )
+			).toHaveCount( 0 );
+			await frontend.close();
+		} );
+
+		test( 'should close the banner, announce it and move focus', async ( {
+			page,
+		} ) => {
+			await enableBanner( page );
+			await fillContent( page, MESSAGES.testMessage );
+			await setDismissible( page, true );
+			await saveSettingsAndWait( page );
+
+			const frontend = await visitFrontend( page );
+			const banner = await assertBannerVisible( frontend );
+			const dismissButton = banner.getByRole(
+				SELECTORS.dismissButton.role,
+				{ name: SELECTORS.dismissButton.name }
+			);
+			await dismissButton.focus();
+			await frontend.keyboard.press( 'Enter' );
+
+			await expect( banner ).toBeHidden();
+			await expect( frontend.getByRole( 'status' ) ).toHaveText(
+				'Notification closed.'
+			);
+			await expect( dismissButton ).not.toBeFocused();
+			await frontend.close();
+		} );
+
+		test( 'should stay closed until the message changes', async ( {
+			page,
+		} ) => {
+			await enableBanner( page );
+			await fillContent( page, MESSAGES.testMessage );
+			await setDismissible( page, true );
+			await saveSettingsAndWait( page );
+
+			const frontend = await visitFrontend( page );
+			await (
+				await assertBannerVisible( frontend )
+			)
+				.getByRole( SELECTORS.dismissButton.role, {
+					name: SELECTORS.dismissButton.name,
+				} )
+				.click();
+
+			// The dismissal is remembered on later page views.
+			await frontend.reload();
+			await expect( frontend.locator( SELECTORS.banner ) ).toBeHidden();
+
+			// Editing the message creates a new version that shows again.
+			await fillContent( page, MESSAGES.customMessage );
+			await saveSettingsAndWait( page );
+
+			await frontend.reload();
+			const banner = await assertBannerVisible( frontend );
+			await expect( banner ).toContainText( MESSAGES.customMessage );
+			await frontend.close();
+		} );
+	} );
 } );
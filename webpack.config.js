@@ -4,10 +4,12 @@ const path = require('path');
 const otherEntries = {
     'index': ['./src/scripts/index.js', './src/styles/index.scss'],
     'in-page-nav': [
-        './src/InPageNav/view.js',
+        './src/InPageNav/view.ts',
         './src/InPageNav/style.css'
     ],
-    'in-page-nav-editor': './src/InPageNav/edit.js'
+    'in-page-nav-editor': './src/InPageNav/edit.js',
+    'csp-editor': './src/ContentSecurityPolicy/edit.js',
+    'csp-settings': './src/scripts/csp-settings.js'
 };
 
 const otherConfig = {